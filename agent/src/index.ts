@@ -915,6 +915,193 @@ function connect(): void {
         }
     });
 
+    // ── Backup Transfer Handlers ──
+    // The panel pulls server files for backups and pushes restored files back.
+    // Reads are stateless (open/read/close per chunk); restores are staged in a
+    // sibling directory and only swapped in on commit.
+
+    interface RestoreTransfer {
+        serverId: string;
+        serverDir: string;
+        stagingDir: string;
+    }
+
+    const activeRestores: Map<string, RestoreTransfer> = new Map();
+
+    function resolveBackupDir(serverId: string, cwd?: string): string {
+        if (!serverId || typeof serverId !== 'string') {
+            throw new Error('serverId is required.');
+        }
+        return path.resolve((cwd && typeof cwd === 'string') ? cwd : path.join(SERVERS_DIR, serverId));
+    }
+
+    function resolveInside(baseDir: string, relativePath: string): string {
+        const targetPath = path.resolve(baseDir, String(relativePath || ''));
+        if (targetPath === baseDir || !targetPath.startsWith(baseDir + path.sep)) {
+            throw new Error(`Security Violation: Path "${relativePath}" escapes server directory.`);
+        }
+        return targetPath;
+    }
+
+    socket.on('agent:backup-manifest', (data: any, ack: (response: any) => void) => {
+        try {
+            const serverDir = resolveBackupDir(data?.serverId, data?.cwd);
+            if (!fs.existsSync(serverDir)) {
+                throw new Error(`Server directory "${serverDir}" does not exist on this node.`);
+            }
+
+            const files: { relativePath: string; size: number; mtimeMs: number }[] = [];
+            const directories: string[] = [];
+            const walk = (relDir: string) => {
+                for (const entry of fs.readdirSync(path.join(serverDir, relDir), { withFileTypes: true })) {
+                    const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+                    if (entry.isDirectory()) {
+                        directories.push(rel);
+                        walk(rel);
+                    } else if (entry.isFile() && entry.name !== 'session.lock') {
+                        const stat = fs.statSync(path.join(serverDir, rel));
+                        files.push({ relativePath: rel, size: stat.size, mtimeMs: stat.mtimeMs });
+                    }
+                }
+            };
+            walk('');
+
+            log(`[BackupTransfer] Manifest for "${data.serverId}": ${files.length} files`);
+            if (ack) ack({ ok: true, files, directories });
+        } catch (err: any) {
+            error(`[BackupTransfer] backup-manifest error: ${err.message}`);
+            if (ack) ack({ error: err.message });
+        }
+    });
+
+    socket.on('agent:backup-read', (data: any, ack: (response: any) => void) => {
+        try {
+            const serverDir = resolveBackupDir(data?.serverId, data?.cwd);
+            const filePath = resolveInside(serverDir, data?.relativePath);
+            const offset = Math.max(0, Number(data?.offset) || 0);
+            const length = Math.min(Math.max(1, Number(data?.length) || 0), 1024 * 1024);
+
+            if (!fs.existsSync(filePath)) {
+                if (ack) ack({ ok: true, missing: true });
+                return;
+            }
+
+            const fd = fs.openSync(filePath, 'r');
+            try {
+                const buffer = Buffer.alloc(length);
+                const bytesRead = fs.readSync(fd, buffer, 0, length, offset);
+                const chunk = buffer.subarray(0, bytesRead);
+                const eof = offset + bytesRead >= fs.fstatSync(fd).size;
+                if (ack) ack({
+                    ok: true,
+                    data: chunk.toString('base64'),
+                    sha256: crypto.createHash('sha256').update(chunk).digest('hex'),
+                    eof
+                });
+            } finally {
+                fs.closeSync(fd);
+            }
+        } catch (err: any) {
+            error(`[BackupTransfer] backup-read error: ${err.message}`);
+            if (ack) ack({ error: err.message });
+        }
+    });
+
+    socket.on('agent:restore-begin', (data: any, ack: (response: any) => void) => {
+        try {
+            const { serverId, transferId, directories } = data || {};
+            if (!transferId || typeof transferId !== 'string' || !/^[\w-]+$/.test(transferId)) {
+                throw new Error('Invalid restore-begin data.');
+            }
+            const serverDir = resolveBackupDir(serverId, data?.cwd);
+            const stagingDir = `${serverDir}.restore-${transferId}`;
+            fs.rmSync(stagingDir, { recursive: true, force: true });
+            fs.mkdirSync(stagingDir, { recursive: true });
+            for (const dir of Array.isArray(directories) ? directories : []) {
+                fs.mkdirSync(resolveInside(stagingDir, dir), { recursive: true });
+            }
+
+            activeRestores.set(transferId, { serverId, serverDir, stagingDir });
+            log(`[BackupTransfer] Restore ${transferId} started for "${serverId}"`);
+            if (ack) ack({ ok: true });
+        } catch (err: any) {
+            error(`[BackupTransfer] restore-begin error: ${err.message}`);
+            if (ack) ack({ error: err.message });
+        }
+    });
+
+    socket.on('agent:restore-chunk', (data: any, ack: (response: any) => void) => {
+        try {
+            const { transferId, relativePath, offset, data: chunkData, sha256 } = data || {};
+            const restore = activeRestores.get(transferId);
+            if (!restore) throw new Error(`Unknown restore transfer "${transferId}".`);
+
+            const chunk = Buffer.from(chunkData || '', 'base64');
+            const receivedHash = crypto.createHash('sha256').update(chunk).digest('hex');
+            if (receivedHash !== sha256) {
+                throw new Error(`Hash mismatch for ${relativePath} at offset ${offset}.`);
+            }
+
+            const filePath = resolveInside(restore.stagingDir, relativePath);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            const position = Math.max(0, Number(offset) || 0);
+            const fd = fs.openSync(filePath, position === 0 ? 'w' : 'r+');
+            try {
+                fs.writeSync(fd, chunk, 0, chunk.length, position);
+            } finally {
+                fs.closeSync(fd);
+            }
+
+            if (ack) ack({ ok: true });
+        } catch (err: any) {
+            error(`[BackupTransfer] restore-chunk error: ${err.message}`);
+            if (ack) ack({ error: err.message });
+        }
+    });
+
+    socket.on('agent:restore-commit', (data: any, ack: (response: any) => void) => {
+        const restore = activeRestores.get(data?.transferId);
+        try {
+            if (!restore) throw new Error(`Unknown restore transfer "${data?.transferId}".`);
+            if (managedServers.has(restore.serverId)) {
+                throw new Error(`Server "${restore.serverId}" is running. Stop it before restoring.`);
+            }
+
+            const previousDir = `${restore.serverDir}.pre-restore-${Date.now()}`;
+            const hadPrevious = fs.existsSync(restore.serverDir);
+            if (hadPrevious) fs.renameSync(restore.serverDir, previousDir);
+            try {
+                fs.renameSync(restore.stagingDir, restore.serverDir);
+            } catch (err) {
+                if (hadPrevious) fs.renameSync(previousDir, restore.serverDir);
+                throw err;
+            }
+            if (hadPrevious) fs.rmSync(previousDir, { recursive: true, force: true });
+
+            activeRestores.delete(data.transferId);
+            log(`[BackupTransfer] ✓ Restore ${data.transferId} applied to "${restore.serverId}"`);
+            if (ack) ack({ ok: true });
+        } catch (err: any) {
+            error(`[BackupTransfer] restore-commit error: ${err.message}`);
+            if (ack) ack({ error: err.message });
+        }
+    });
+
+    socket.on('agent:restore-abort', (data: any, ack: (response: any) => void) => {
+        try {
+            const restore = activeRestores.get(data?.transferId);
+            if (restore) {
+                fs.rmSync(restore.stagingDir, { recursive: true, force: true });
+                activeRestores.delete(data.transferId);
+                warn(`[BackupTransfer] Restore ${data.transferId} aborted for "${restore.serverId}"`);
+            }
+            if (ack) ack({ ok: true });
+        } catch (err: any) {
+            error(`[BackupTransfer] restore-abort error: ${err.message}`);
+            if (ack) ack({ error: err.message });
+        }
+    });
+
     // ── Heartbeat Loop ──
 
     const heartbeatInterval = setInterval(async () => {
@@ -0,0 +1,126 @@
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * AES-256-GCM file encryption for backup archives.
+ *
+ * Layout: MAGIC (5) | version (1) | kdf (1) | salt (16) | iv (12) | ciphertext | auth tag (16)
+ * The key is derived per file from the secret and a random salt, so identical
+ * archives never produce identical ciphertext.
+ */
+
+export const ENCRYPTED_SUFFIX = '.enc';
+
+const MAGIC = Buffer.from('CCBAK');
+const VERSION = 1;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + 2 + SALT_LENGTH + IV_LENGTH;
+
+export type BackupSecret =
+    | { kind: 'passphrase', passphrase: string }
+    | { kind: 'keyfile', key: Buffer };
+
+const KDF_IDS: Record<BackupSecret['kind'], number> = { passphrase: 1, keyfile: 2 };
+
+function deriveKey(secret: BackupSecret, salt: Buffer): Promise<Buffer> {
+    if (secret.kind === 'passphrase') {
+        // scrypt makes brute-forcing weak passphrases expensive
+        return new Promise((resolve, reject) => {
+            crypto.scrypt(secret.passphrase, salt, 32, { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (err, key) => err ? reject(err) : resolve(key));
+        });
+    }
+    return Promise.resolve(Buffer.from(crypto.hkdfSync('sha256', secret.key, salt, 'craftcommand-backup', 32)));
+}
+
+export async function isEncryptedFile(filePath: string): Promise<boolean> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+        const header = Buffer.alloc(MAGIC.length);
+        const { bytesRead } = await handle.read(header, 0, MAGIC.length, 0);
+        return bytesRead === MAGIC.length && header.equals(MAGIC);
+    } finally {
+        await handle.close();
+    }
+}
+
+export async function encryptFile(source: string, destination: string, secret: BackupSecret): Promise<void> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', await deriveKey(secret, salt), iv);
+
+    async function* encrypted() {
+        yield Buffer.concat([MAGIC, Buffer.from([VERSION, KDF_IDS[secret.kind]]), salt, iv]);
+        for await (const chunk of fs.createReadStream(source)) yield cipher.update(chunk);
+        yield cipher.final();
+        yield cipher.getAuthTag();
+    }
+
+    try {
+        await pipeline(Readable.from(encrypted()), fs.createWriteStream(destination));
+    } catch (e) {
+        await fs.remove(destination).catch(() => {});
+        throw e;
+    }
+}
+
+/**
+ * Opens an encrypted file as a plaintext stream. GCM authenticates only at the
+ * end, so the stream errors after the last chunk if the file was tampered with
+ * or the secret is wrong; consumers must treat data as untrusted until 'end'.
+ */
+export async function createDecryptStream(source: string, secret: BackupSecret): Promise<Readable> {
+    const { size } = await fs.stat(source);
+    if (size < HEADER_LENGTH + TAG_LENGTH) throw new Error('Encrypted backup is truncated');
+
+    const handle = await fs.promises.open(source, 'r');
+    const header = Buffer.alloc(HEADER_LENGTH);
+    const tag = Buffer.alloc(TAG_LENGTH);
+    try {
+        await handle.read(header, 0, HEADER_LENGTH, 0);
+        await handle.read(tag, 0, TAG_LENGTH, size - TAG_LENGTH);
+    } finally {
+        await handle.close();
+    }
+
+    if (!header.subarray(0, MAGIC.length).equals(MAGIC)) throw new Error('Not an encrypted backup');
+    const version = header[MAGIC.length];
+    const kdf = header[MAGIC.length + 1];
+    if (version !== VERSION) throw new Error(`Unsupported encrypted backup version ${version}`);
+    if (kdf !== KDF_IDS[secret.kind]) {
+        throw new Error(`Backup was encrypted with a ${kdf === KDF_IDS.passphrase ? 'passphrase' : 'keyfile'}, but the server is configured for a ${secret.kind}`);
+    }
+
+    let offset = MAGIC.length + 2;
+    const salt = header.subarray(offset, offset += SALT_LENGTH);
+    const iv = header.subarray(offset, offset += IV_LENGTH);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', await deriveKey(secret, salt), iv);
+    decipher.setAuthTag(tag);
+
+    async function* decrypted() {
+        for await (const chunk of fs.createReadStream(source, { start: HEADER_LENGTH, end: size - TAG_LENGTH - 1 })) {
+            yield decipher.update(chunk);
+        }
+        let last: Buffer;
+        try {
+            last = decipher.final();
+        } catch {
+            throw new Error('Backup could not be decrypted: wrong passphrase/keyfile, or the archive is corrupt');
+        }
+        yield last;
+    }
+    return Readable.from(decrypted());
+}
+
+export async function decryptFile(source: string, destination: string, secret: BackupSecret): Promise<void> {
+    try {
+        await pipeline(await createDecryptStream(source, secret), fs.createWriteStream(destination));
+    } catch (e) {
+        await fs.remove(destination).catch(() => {});
+        throw e;
+    }
+}
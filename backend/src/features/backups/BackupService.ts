@@ -1,9 +1,88 @@
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 import archiver from 'archiver';
 import extract from 'extract-zip';
 import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { logger } from '../../utils/logger';
+import { ChunkStore, BackupManifest, ManifestFile, ChunkWriteStats, MANIFEST_VERSION } from './ChunkStore';
+import { planRetention, backupSize, DEFAULT_RETENTION_POLICY } from './RetentionPolicy';
+import { offsiteBackupService, hashFile } from './OffsiteBackupService';
+import { liveBackupCoordinator, LiveBackupSnapshot } from './LiveBackupCoordinator';
+import { BackupSecret, ENCRYPTED_SUFFIX, encryptFile, decryptFile, createDecryptStream } from './BackupCrypto';
+import { diffLines } from './TextDiff';
+import { ZipReader, ZipEntryInfo } from './ZipReader';
+import { pullServerFiles, pushServerFiles } from '../nodes/BackupTransferService';
+import { safetySnapshotService } from './SafetySnapshotService';
+import { BackupRetentionPolicy, BackupRetentionPreview, BackupRemoteCopy, BackupEntry, BackupEntryPreview, BackupEncryptionConfig, BackupVerification, BackupComparison, BackupDiffEntry, BackupFileDiff, ServerConfig } from '@shared/types';
+
+const MANIFEST_SUFFIX = '.manifest.json';
+const CHUNK_STORE_DIR = '.chunks';
+const REMOTE_CACHE_DIR = '.remote-cache';
+const CHECKSUMS_SUFFIX = '.sums.json';
+const PASSPHRASE_FILE = '.passphrase';
+const MIN_KEYFILE_BYTES = 32;
+const INCREMENTAL_ENCRYPTION_ERROR = 'Incremental backups cannot be encrypted. Switch the server to ZIP archive backups to enable encryption.';
+const MAX_VERIFY_ERRORS = 20;
+const PREVIEW_MAX_BYTES = 256 * 1024;
+const ARCHIVE_IDLE_MS = 60 * 1000; // Open archives are kept this long after their last use
+const LIVE_SIDE = 'live';
+const MAX_DIFF_ENTRIES = 5000;
+const TEXT_DIFF_EXTENSIONS = ['.properties', '.yml', '.yaml', '.json', '.json5', '.toml', '.txt', '.conf', '.cfg', '.ini', '.xml', '.mcmeta'];
+
+// Normalizes a path inside a backup to "a/b/c" and rejects traversal
+const normalizeEntryPath = (entryPath: string): string => {
+    const segments = String(entryPath || '').replace(/\\/g, '/').split('/').filter(s => s && s !== '.');
+    if (segments.includes('..')) throw new Error(`Invalid path "${entryPath}"`);
+    return segments.join('/');
+};
+
+// The zip entry stored under `target`; entries pointing outside the server directory never match
+const findZipEntry = (zip: ZipReader, target: string): ZipEntryInfo | undefined => zip.entries.find(e => {
+    if (e.isDirectory) return false;
+    try { return normalizeEntryPath(e.name) === target; } catch { return false; }
+});
+
+const isWithin = (entryPath: string, selection: string) => entryPath === selection || entryPath.startsWith(`${selection}/`);
+
+export type BackupMode = 'archive' | 'incremental';
+
+interface BackupSourceFile {
+    relPath: string;
+    fullPath: string;
+    size: number;
+    mtimeMs: number;
+}
+
+// Server running on a Node Agent; its files live on the node, not the panel
+interface RemoteTarget {
+    nodeId: string;
+    cwd: string;
+}
+
+// One side of a comparison: a backup, or the live server directory
+interface CompareSide {
+    files: Map<string, { size: number, mtimeMs?: number, sha256?: string, crc?: number, chunks?: string[], fullPath?: string }>;
+    contents?: BackupContents;
+    live: boolean;
+}
+
+// A backup opened for reading single entries; `release` must be called once done
+interface BackupContents {
+    backup: Backup;
+    zip?: ZipReader;
+    manifest?: BackupManifest;
+    release: () => void;
+}
+
+// A shared reader over an archive backup (and its decrypted copy, if encrypted)
+interface OpenArchive {
+    opened: Promise<{ zip: ZipReader, cleanup: () => Promise<void> }>;
+    users: number;
+    idleTimer: NodeJS.Timeout | null;
+}
 
 export interface Backup {
     id: string;
@@ -15,43 +94,122 @@ export interface Backup {
     locked?: boolean;
     type?: 'Manual' | 'Scheduled' | 'Auto-Save';
     scope?: 'full' | 'world'; // Track if this was a world-only backup
+    mode?: BackupMode;        // Default: 'archive' (self-contained zip)
+    logicalSize?: number;     // Total size of the files captured
+    physicalSize?: number;    // Bytes this backup added to disk (new chunks only for incremental)
+    remoteCopies?: BackupRemoteCopy[]; // Verified off-site copies (always self-contained zips)
+    localAvailable?: boolean;          // false when only off-site copies remain
+    encrypted?: boolean;               // Archive stored as <id>.zip.enc (AES-256-GCM)
+    verification?: BackupVerification; // Result of the last integrity check
 }
 
 export class BackupService extends EventEmitter {
     private backupsDir: string;
+    // Per-server queue: incremental backups and chunk GC never overlap
+    private chunkStoreQueues: Map<string, Promise<unknown>> = new Map();
+    private openArchives: Map<string, OpenArchive> = new Map();
 
     constructor() {
         super();
         this.backupsDir = path.join(__dirname, '../../data/backups');
         fs.ensureDirSync(this.backupsDir);
+
+        // Surface upload/fetch progress through the same socket channel as local backups
+        offsiteBackupService.on('status', (message: string) => this.emit('status', message));
     }
 
     // Create a backup of a server
     async createBackup(serverDir: string, serverId: string, description?: string, worldOnly?: boolean): Promise<Backup> {
         const timestamp = Date.now();
         const backupId = `backup-${timestamp}`;
-        const filename = `${backupId}.zip`;
         const serverBackupsDir = path.join(this.backupsDir, serverId);
         
         await fs.ensureDir(serverBackupsDir);
-        
-        const outputPath = path.join(serverBackupsDir, filename);
 
-        this.emit('status', 'Creating backup archive...');
+        // Node-hosted servers are copied from the agent first; worlds are detected on that copy
+        const remote = this.getRemoteTarget(serverId);
 
-        // Detect world folders before creating archive (if world-only mode)
+        // Detect world folders before touching the running server (if world-only mode)
         let worldFolders: string[] = [];
-        if (worldOnly) {
-            worldFolders = await this.detectWorldFolders(serverDir);
-            
-            if (worldFolders.length === 0) {
-                throw new Error('No world folders detected. Cannot create world-only backup.');
+        if (worldOnly && !remote) {
+            worldFolders = await this.requireWorldFolders(serverDir);
+        }
+
+        // Online servers are quiesced first; saving is resumed no matter how archiving ends
+        this.emit('status', 'Preparing backup...');
+        const snapshot = await liveBackupCoordinator.prepare(serverId, path.join(serverBackupsDir, `.staging-${backupId}`));
+
+        const pulledDir = remote ? path.join(serverBackupsDir, `.remote-${backupId}`) : null;
+        let backup: Backup;
+        try {
+            let sourceDir = serverDir;
+            if (remote && pulledDir) {
+                try {
+                    await this.pullFromNode(remote, serverId, backupId, pulledDir);
+                } finally {
+                    // The node copy is consistent now; no need to hold saves while archiving
+                    await snapshot.release();
+                }
+                sourceDir = pulledDir;
+                if (worldOnly) worldFolders = await this.requireWorldFolders(sourceDir);
             }
-            
-            logger.info(`[BackupService] Creating world-only backup for: ${worldFolders.join(', ')}`);
+
+            backup = this.getBackupMode(serverId) === 'incremental'
+                ? await this.withChunkStore(serverId, () => this.createIncrementalBackup(sourceDir, serverId, backupId, timestamp, description, worldOnly ? worldFolders : null, snapshot))
+                : await this.createArchiveBackup(sourceDir, serverId, backupId, timestamp, description, worldOnly ? worldFolders : null, snapshot);
+        } finally {
+            await snapshot.release();
+            if (pulledDir) await fs.remove(pulledDir).catch(() => {});
+        }
+
+        return this.finalizeBackup(serverId, backup);
+    }
+
+    private async requireWorldFolders(serverDir: string): Promise<string[]> {
+        const worldFolders = await this.detectWorldFolders(serverDir);
+        if (worldFolders.length === 0) {
+            throw new Error('No world folders detected. Cannot create world-only backup.');
+        }
+        logger.info(`[BackupService] Creating world-only backup for: ${worldFolders.join(', ')}`);
+        return worldFolders;
+    }
+
+    // Node and working directory of a server that runs on a remote Node Agent
+    private getRemoteTarget(serverId: string): RemoteTarget | null {
+        const { getServer } = require('../servers/ServerService');
+        const server = getServer(serverId);
+        return server?.executionEngine === 'remote' && server.nodeId
+            ? { nodeId: server.nodeId, cwd: server.workingDirectory }
+            : null;
+    }
+
+    private requireLocal(serverId: string, action: string): void {
+        if (this.getRemoteTarget(serverId)) {
+            throw new Error(`${action} is not available for servers hosted on a remote node.`);
         }
+    }
+
+    // Copies the server's files from its node, skipping the same paths archive backups exclude
+    private async pullFromNode(remote: RemoteTarget, serverId: string, backupId: string, targetDir: string): Promise<void> {
+        this.emit('status', 'Transferring files from node...');
+        await pullServerFiles(remote.nodeId, serverId, remote.cwd, targetDir, relPath => !this.isExcluded(relPath), progress => {
+            const percent = progress.totalBytes > 0 ? Math.round((progress.transferredBytes / progress.totalBytes) * 100) : 100;
+            this.emit('progress', { serverId, percent, backupId });
+        });
+    }
 
-        // Create ZIP archive
+    private async createArchiveBackup(serverDir: string, serverId: string, backupId: string, timestamp: number, description: string | undefined, worldFolders: string[] | null, snapshot: LiveBackupSnapshot): Promise<Backup> {
+        let filename = `${backupId}.zip`;
+        const outputPath = path.join(this.backupsDir, serverId, filename);
+        const worldOnly = worldFolders !== null;
+        const { files, directories } = await this.collectBackupFiles(serverDir, worldFolders, snapshot);
+        const secret = await this.resolveSecret(serverId, true);
+
+        this.emit('status', 'Creating backup archive...');
+
+        // Create ZIP archive, hashing every file as it is read so verification can check it later
+        let logicalSize = 0;
+        const checksums: Record<string, string> = {};
         await new Promise<void>((resolve, reject) => {
             const output = fs.createWriteStream(outputPath);
             const archive = archiver('zip', { zlib: { level: 9 } });
@@ -72,38 +230,46 @@ export class BackupService extends EventEmitter {
             });
 
             archive.on('progress', (data) => {
+                logicalSize = data.fs.processedBytes;
                 const percent = Math.round((data.entries.processed / data.entries.total) * 100);
                 this.emit('progress', { serverId, percent, backupId });
             });
 
             archive.pipe(output);
-            
-            // Conditional archiving based on worldOnly flag
-            if (worldOnly) {
-                // World-only backup
-                for (const worldFolder of worldFolders) {
-                    archive.directory(path.join(serverDir, worldFolder), worldFolder);
-                }
-            } else {
-                // Full server backup (existing logic)
-                archive.glob('**/*', {
-                    cwd: serverDir,
-                    ignore: [
-                        'session.lock',
-                        '*.lck',
-                        'logs/latest.log',
-                        'backups/**', // Don't backup existing backups if they are inside
-                        '*.zip'
-                    ]
+
+            for (const dir of directories) {
+                archive.append('', { name: `${dir}/` });
+            }
+            for (const file of files) {
+                // Opened lazily: archiver reads one entry at a time
+                const source = Readable.from(this.hashedRead(file.fullPath, file.relPath, checksums));
+                // archiver does not listen for entry stream errors itself
+                source.on('error', (err) => {
+                    logger.error(`[BackupService] Archive Error: ${err.message}`);
+                    archive.abort();
+                    reject(err);
                 });
+                archive.append(source, { name: file.relPath, date: new Date(file.mtimeMs) });
             }
 
             archive.finalize();
+        }).catch(async e => {
+            await fs.remove(outputPath).catch(() => {});
+            throw e;
         });
 
-        const stats = await fs.stat(outputPath);
+        await fs.writeJSON(path.join(this.backupsDir, serverId, `${backupId}${CHECKSUMS_SUFFIX}`), { algorithm: 'sha256', files: checksums });
+
+        if (secret) {
+            this.emit('status', 'Encrypting backup...');
+            await encryptFile(outputPath, `${outputPath}${ENCRYPTED_SUFFIX}`, secret);
+            await fs.remove(outputPath);
+            filename += ENCRYPTED_SUFFIX;
+        }
+
+        const stats = await fs.stat(path.join(this.backupsDir, serverId, filename));
         
-        const backup: Backup = {
+        return {
             id: backupId,
             serverId,
             filename,
@@ -111,19 +277,590 @@ export class BackupService extends EventEmitter {
             createdAt: new Date(timestamp).toISOString(),
             description,
             type: 'Manual',
-            scope: worldOnly ? 'world' : 'full'
+            scope: worldOnly ? 'world' : 'full',
+            mode: 'archive',
+            logicalSize,
+            physicalSize: stats.size,
+            encrypted: !!secret
         };
+    }
 
+    private async *hashedRead(fullPath: string, relPath: string, checksums: Record<string, string>): AsyncGenerator<Buffer> {
+        const hash = crypto.createHash('sha256');
+        let started = false;
+        try {
+            for await (const chunk of fs.createReadStream(fullPath)) {
+                hash.update(chunk);
+                started = true;
+                yield chunk;
+            }
+        } catch (e: any) {
+            // Part of the entry is already in the archive, so skipping would leave it silently truncated
+            if (started) throw new Error(`Failed reading ${relPath} mid-backup: ${e.message}`);
+            // Files that vanish or are locked before they are read are skipped, like archiver's ENOENT warnings
+            logger.warn(`[BackupService] Skipping ${relPath}: ${e.message}`);
+            return;
+        }
+        checksums[relPath] = hash.digest('hex');
+    }
+
+    /**
+     * Files and folders a backup captures: everything (minus exclusions) or only the
+     * given world folders, with a staged live-backup world read from its staging dir.
+     */
+    private async collectBackupFiles(serverDir: string, worldFolders: string[] | null, snapshot: LiveBackupSnapshot): Promise<{ files: BackupSourceFile[], directories: string[] }> {
+        const worldOnly = worldFolders !== null;
+        const roots: string[] = worldFolders || [''];
+        const staged = this.stagedWorld(snapshot);
+        const files: BackupSourceFile[] = [];
+        const directories: string[] = [];
+
+        for (const root of roots) {
+            if (staged && path.normalize(root) === staged) continue;
+            await this.walkServerFiles(serverDir, root, worldOnly ? false : true, files, directories);
+        }
+        if (staged && (!worldOnly || roots.some(r => path.normalize(r) === staged))) {
+            // Replace the live world with the consistent copy taken while saving was held
+            const prefix = staged.split(path.sep).join('/');
+            const isStaged = (p: string) => p === prefix || p.startsWith(`${prefix}/`);
+            files.splice(0, files.length, ...files.filter(f => !isStaged(f.relPath)));
+            directories.splice(0, directories.length, ...directories.filter(d => !isStaged(d)));
+            await this.walkServerFiles(snapshot.stagingDir!, staged, false, files, directories);
+        }
+        return { files, directories };
+    }
+
+    // World folder (normalized, relative to the server dir) that must be read from the snapshot's staging dir
+    private stagedWorld(snapshot: LiveBackupSnapshot): string | null {
+        return snapshot.stagedWorld && snapshot.stagingDir ? path.normalize(snapshot.stagedWorld) : null;
+    }
+
+    private async finalizeBackup(serverId: string, backup: Backup): Promise<Backup> {
         // Save metadata
         await this.saveBackupMetadata(serverId, backup);
 
-        // Auto-cleanup old backups (keep last 10)
-        await this.cleanupOldBackups(serverId, 10);
+        // Auto-cleanup according to the server's retention policy
+        await this.applyRetention(serverId);
 
         this.emit('status', 'Backup created successfully');
+
+        // Off-site replication runs in the background so large uploads don't hold up the caller
+        const targets = offsiteBackupService.resolveTargets(serverId);
+        if (targets.length > 0) {
+            this.replicateOffsite(serverId, backup.id).catch(e => {
+                logger.error(`[BackupService] Off-site replication of ${backup.id} failed: ${e.message}`);
+            });
+        }
         return backup;
     }
 
+    /**
+     * Uploads a backup to the server's off-site targets. Once every target holds a
+     * verified copy and the server doesn't keep local copies, the local data is dropped.
+     */
+    async replicateOffsite(serverId: string, backupId: string): Promise<BackupRemoteCopy[]> {
+        const targets = offsiteBackupService.resolveTargets(serverId);
+        const backup = (await this.listBackups(serverId)).find(b => b.id === backupId);
+        if (!backup) throw new Error('Backup not found');
+        if (backup.localAvailable === false) throw new Error('Backup has no local copy to upload');
+        if (targets.length === 0) return [];
+
+        // Incremental backups are exported to a self-contained zip so remote copies never depend on the chunk store
+        let archivePath = path.join(this.backupsDir, serverId, backup.filename);
+        let encrypted = !!backup.encrypted;
+        let temporary = false;
+        if (backup.mode === 'incremental') {
+            archivePath = await this.exportToCache(serverId, backup);
+            temporary = true;
+
+            // Encryption may have been turned on since this backup was made; what leaves the machine is encrypted then
+            const secret = await this.resolveSecret(serverId, true).catch(async e => {
+                await fs.remove(archivePath).catch(() => {});
+                throw e;
+            });
+            if (secret) {
+                const plain = archivePath;
+                archivePath = `${plain}${ENCRYPTED_SUFFIX}`;
+                try {
+                    await encryptFile(plain, archivePath, secret);
+                } finally {
+                    await fs.remove(plain).catch(() => {});
+                }
+                encrypted = true;
+            }
+        }
+
+        let copies: BackupRemoteCopy[];
+        try {
+            copies = await offsiteBackupService.replicate(backup, archivePath, targets, encrypted);
+        } finally {
+            if (temporary) await fs.remove(archivePath).catch(() => {});
+        }
+
+        const backups = await this.listBackups(serverId);
+        const entry = backups.find(b => b.id === backupId);
+        if (!entry) return copies; // Deleted while uploading
+
+        const others = (entry.remoteCopies || []).filter(c => !copies.some(n => n.targetId === c.targetId));
+        entry.remoteCopies = [...others, ...copies];
+        await this.saveManifest(serverId, backups);
+
+        const allVerified = targets.every(t => copies.some(c => c.targetId === t.id));
+        if (allVerified && !offsiteBackupService.shouldKeepLocal(serverId)) {
+            await this.dropLocalCopy(serverId, backupId);
+        }
+
+        this.emit('status', copies.length === targets.length
+            ? 'Off-site upload complete'
+            : `Off-site upload finished with ${targets.length - copies.length} failed target(s)`);
+        return copies;
+    }
+
+    private async dropLocalCopy(serverId: string, backupId: string): Promise<void> {
+        const backups = await this.listBackups(serverId);
+        const backup = backups.find(b => b.id === backupId);
+        if (!backup || backup.localAvailable === false) return;
+
+        await fs.remove(path.join(this.backupsDir, serverId, backup.filename));
+        backup.localAvailable = false;
+        await this.saveManifest(serverId, backups);
+
+        if (backup.mode === 'incremental') await this.collectGarbage(serverId);
+        logger.info(`[BackupService] Local copy of ${backupId} removed (kept off-site only).`);
+    }
+
+    private async exportToCache(serverId: string, backup: Backup): Promise<string> {
+        const cacheDir = path.join(this.backupsDir, serverId, REMOTE_CACHE_DIR);
+        await fs.ensureDir(cacheDir);
+        const target = path.join(cacheDir, `${backup.id}.zip`);
+        const { stream } = await this.openLocalDownload(serverId, backup);
+        await new Promise<void>((resolve, reject) => {
+            const out = fs.createWriteStream(target);
+            stream.on('error', reject);
+            out.on('error', reject);
+            out.on('finish', () => resolve());
+            stream.pipe(out);
+        });
+        return target;
+    }
+
+    // Downloads a remote-only backup into the local cache as a plain zip; the caller removes it when done
+    private async fetchFromOffsite(serverId: string, backup: Backup): Promise<string> {
+        const cacheDir = path.join(this.backupsDir, serverId, REMOTE_CACHE_DIR);
+        await fs.ensureDir(cacheDir);
+        const download = path.join(cacheDir, `${backup.id}.download`);
+        const target = path.join(cacheDir, `${backup.id}.zip`);
+
+        const copy = await offsiteBackupService.fetch(backup, download);
+        try {
+            if (copy.encrypted) {
+                this.emit('status', 'Decrypting backup...');
+                await decryptFile(download, target, await this.requireSecret(serverId));
+            } else {
+                await fs.move(download, target, { overwrite: true });
+            }
+        } finally {
+            await fs.remove(download).catch(() => {});
+        }
+        return target;
+    }
+
+    /**
+     * Makes an archive backup available as a plain zip on disk: off-site copies are
+     * fetched and encrypted archives are decrypted into the cache dir first.
+     * `cleanup` removes anything that was created for the caller.
+     */
+    private async materializeArchive(serverId: string, backup: Backup, cacheName: string = `${backup.id}.zip`): Promise<{ zipPath: string, cleanup: () => Promise<void> }> {
+        if (backup.localAvailable === false) {
+            const cached = await this.fetchFromOffsite(serverId, backup);
+            return { zipPath: cached, cleanup: () => fs.remove(cached).catch(() => {}) };
+        }
+
+        const backupPath = path.join(this.backupsDir, serverId, backup.filename);
+        if (!(await fs.pathExists(backupPath))) throw new Error('Backup file not found');
+        if (!backup.encrypted) return { zipPath: backupPath, cleanup: async () => {} };
+
+        const cacheDir = path.join(this.backupsDir, serverId, REMOTE_CACHE_DIR);
+        await fs.ensureDir(cacheDir);
+        const target = path.join(cacheDir, cacheName);
+        this.emit('status', 'Decrypting backup...');
+        await decryptFile(backupPath, target, await this.requireSecret(serverId));
+        return { zipPath: target, cleanup: () => fs.remove(target).catch(() => {}) };
+    }
+
+    // --- Encryption ---
+
+    private passphrasePath(serverId: string): string {
+        return path.join(this.backupsDir, serverId, PASSPHRASE_FILE);
+    }
+
+    private getEncryptionSettings(serverId: string): BackupEncryptionConfig | undefined {
+        const { getServer } = require('../servers/ServerService');
+        return getServer(serverId)?.backupConfig?.encryption;
+    }
+
+    async getEncryptionConfig(serverId: string): Promise<BackupEncryptionConfig & { hasPassphrase: boolean }> {
+        const config = this.getEncryptionSettings(serverId);
+        return {
+            enabled: config?.enabled ?? false,
+            method: config?.method ?? 'passphrase',
+            keyFile: config?.keyFile,
+            hasPassphrase: await fs.pathExists(this.passphrasePath(serverId))
+        };
+    }
+
+    /**
+     * Validates new encryption settings and stores the passphrase (never part of the
+     * server config). Returns the config to save on the server. The secret is kept
+     * when encryption is disabled so existing encrypted backups stay readable.
+     */
+    async configureEncryption(serverId: string, input: { enabled: boolean, method: BackupEncryptionConfig['method'], passphrase?: string, keyFile?: string }): Promise<BackupEncryptionConfig> {
+        const enabled = !!input.enabled;
+        if (input.method !== 'passphrase' && input.method !== 'keyfile') throw new Error('Invalid encryption method');
+        const { getServer } = require('../servers/ServerService');
+        if (enabled && getServer(serverId)?.backupConfig?.mode === 'incremental') throw new Error(INCREMENTAL_ENCRYPTION_ERROR);
+
+        if (input.method === 'passphrase') {
+            if (input.passphrase) {
+                if (input.passphrase.length < 8) throw new Error('Passphrase must be at least 8 characters');
+                await fs.ensureDir(path.join(this.backupsDir, serverId));
+                await fs.writeFile(this.passphrasePath(serverId), input.passphrase, { mode: 0o600 });
+                await fs.chmod(this.passphrasePath(serverId), 0o600).catch(() => {});
+            } else if (enabled && !(await fs.pathExists(this.passphrasePath(serverId)))) {
+                throw new Error('A passphrase is required to enable encryption');
+            }
+            return { enabled, method: 'passphrase' };
+        }
+
+        const keyFile = String(input.keyFile || '').trim();
+        if (!keyFile) throw new Error('A keyfile path is required');
+        const stats = await fs.stat(keyFile).catch(() => null);
+        if (!stats?.isFile()) throw new Error(`Keyfile ${keyFile} does not exist`);
+        if (stats.size < MIN_KEYFILE_BYTES) throw new Error(`Keyfile must contain at least ${MIN_KEYFILE_BYTES} bytes`);
+        return { enabled, method: 'keyfile', keyFile };
+    }
+
+    // The secret for new backups (null when encryption is off), or for reading existing ones
+    private async resolveSecret(serverId: string, forNewBackup: boolean): Promise<BackupSecret | null> {
+        const config = this.getEncryptionSettings(serverId);
+        if (!config || (forNewBackup && !config.enabled)) return null;
+
+        if (config.method === 'keyfile') {
+            if (!config.keyFile) throw new Error('Backup encryption uses a keyfile, but none is configured');
+            const key = await fs.readFile(config.keyFile).catch(() => {
+                throw new Error(`Backup keyfile ${config.keyFile} could not be read`);
+            });
+            if (key.length < MIN_KEYFILE_BYTES) throw new Error(`Backup keyfile must contain at least ${MIN_KEYFILE_BYTES} bytes`);
+            return { kind: 'keyfile', key };
+        }
+
+        const file = this.passphrasePath(serverId);
+        if (!(await fs.pathExists(file))) throw new Error('Backup encryption uses a passphrase, but none is set');
+        return { kind: 'passphrase', passphrase: await fs.readFile(file, 'utf8') };
+    }
+
+    private async requireSecret(serverId: string): Promise<BackupSecret> {
+        const secret = await this.resolveSecret(serverId, false);
+        if (!secret) throw new Error('This backup is encrypted, but no passphrase or keyfile is configured for the server');
+        return secret;
+    }
+
+    // --- Verification ---
+
+    /**
+     * Re-reads a local backup and checks every file against the size and SHA-256
+     * recorded when it was created. Archives also fail when they can't be
+     * decrypted or extracted. The result is stored on the backup; remote-only
+     * backups are skipped (their uploads were verified by checksum) and return null.
+     */
+    async verifyBackup(serverId: string, backupId: string): Promise<BackupVerification | null> {
+        const backup = (await this.listBackups(serverId)).find(b => b.id === backupId);
+        if (!backup) throw new Error('Backup not found');
+        if (backup.localAvailable === false) return null;
+        // A missing secret is a configuration problem, not corruption
+        if (backup.encrypted) await this.requireSecret(serverId);
+
+        const errors: string[] = [];
+        const fail = (message: string) => {
+            if (errors.length < MAX_VERIFY_ERRORS) errors.push(message);
+        };
+        let filesChecked = 0;
+
+        if (backup.mode === 'incremental') {
+            try {
+                const manifest = await this.readManifest(serverId, backup);
+                const store = this.getChunkStore(serverId);
+                for (const file of manifest.files) {
+                    filesChecked++;
+                    try {
+                        const hash = crypto.createHash('sha256');
+                        let size = 0;
+                        for await (const chunk of store.createReadStream(file)) {
+                            hash.update(chunk);
+                            size += chunk.length;
+                        }
+                        if (size !== file.size) fail(`${file.path}: expected ${file.size} bytes, read ${size}`);
+                        else if (file.sha256 && hash.digest('hex') !== file.sha256) fail(`${file.path}: checksum mismatch`);
+                    } catch (e: any) {
+                        fail(`${file.path}: ${e.message}`);
+                    }
+                }
+            } catch (e: any) {
+                fail(`Manifest unreadable: ${e.message}`);
+            }
+        } else {
+            const checksums = await this.readChecksums(serverId, backup.id);
+            const extractDir = path.join(this.backupsDir, serverId, `.verify-${backup.id}`);
+            let archive: { zipPath: string, cleanup: () => Promise<void> } | null = null;
+            try {
+                archive = await this.materializeArchive(serverId, backup);
+                await fs.remove(extractDir);
+                await extract(archive.zipPath, { dir: extractDir });
+
+                const files: BackupSourceFile[] = [];
+                await this.walkServerFiles(extractDir, '', false, files, []);
+                filesChecked = files.length;
+
+                for (const [relPath, expected] of Object.entries(checksums || {})) {
+                    const file = files.find(f => f.relPath === relPath);
+                    if (!file) {
+                        fail(`${relPath}: missing from archive`);
+                    } else if ((await hashFile(file.fullPath)) !== expected) {
+                        fail(`${relPath}: checksum mismatch`);
+                    }
+                }
+            } catch (e: any) {
+                fail(e.message);
+            } finally {
+                await fs.remove(extractDir).catch(() => {});
+                await archive?.cleanup();
+            }
+        }
+
+        const verification: BackupVerification = {
+            status: errors.length > 0 ? 'corrupt' : 'ok',
+            checkedAt: new Date().toISOString(),
+            filesChecked,
+            errors: errors.length > 0 ? errors : undefined
+        };
+
+        const backups = await this.listBackups(serverId);
+        const entry = backups.find(b => b.id === backupId);
+        if (entry) {
+            entry.verification = verification;
+            await this.saveManifest(serverId, backups);
+        }
+        return verification;
+    }
+
+    // Per-file checksums recorded when an archive backup was created (absent for older backups)
+    private async readChecksums(serverId: string, backupId: string): Promise<Record<string, string> | null> {
+        const sumsPath = path.join(this.backupsDir, serverId, `${backupId}${CHECKSUMS_SUFFIX}`);
+        if (!(await fs.pathExists(sumsPath))) return null;
+        return (await fs.readJSON(sumsPath)).files || null;
+    }
+
+    /**
+     * Incremental backup: files are split into content-addressed chunks shared by
+     * every backup of the server, and the backup itself is only a manifest.
+     * Files whose size and mtime match the previous manifest are not re-read.
+     * Runs under the server's chunk store lock, from reading the previous
+     * manifest until the new one is written, so GC never sweeps chunks it uses.
+     */
+    private async createIncrementalBackup(serverDir: string, serverId: string, backupId: string, timestamp: number, description: string | undefined, worldFolders: string[] | null, snapshot: LiveBackupSnapshot): Promise<Backup> {
+        const filename = `${backupId}${MANIFEST_SUFFIX}`;
+        const serverBackupsDir = path.join(this.backupsDir, serverId);
+        const store = this.getChunkStore(serverId);
+        const worldOnly = worldFolders !== null;
+
+        this.emit('status', 'Creating incremental backup...');
+
+        const previous = await this.loadLatestManifest(serverId);
+        const previousFiles = new Map((previous?.files || []).map(f => [f.path, f]));
+        const { files, directories } = await this.collectBackupFiles(serverDir, worldFolders, snapshot);
+
+        const stats: ChunkWriteStats = { storedBytes: 0, newChunks: 0, reusedChunks: 0 };
+        const manifestFiles: ManifestFile[] = [];
+        let logicalSize = 0;
+
+        for (let i = 0; i < files.length; i++) {
+            const file = files[i];
+            const prior = previousFiles.get(file.relPath);
+            let chunks: string[];
+            let sha256: string | undefined;
+
+            if (prior && prior.size === file.size && prior.mtimeMs === file.mtimeMs) {
+                chunks = prior.chunks;
+                sha256 = prior.sha256;
+                stats.reusedChunks += chunks.length;
+            } else {
+                try {
+                    ({ chunks, sha256 } = await store.storeFile(file.fullPath, stats));
+                } catch (e: any) {
+                    // Files that vanish or are locked mid-backup are skipped, like archiver's ENOENT warnings
+                    logger.warn(`[BackupService] Skipping ${file.relPath}: ${e.message}`);
+                    continue;
+                }
+            }
+
+            manifestFiles.push({ path: file.relPath, size: file.size, mtimeMs: file.mtimeMs, chunks, sha256 });
+            logicalSize += file.size;
+            this.emit('progress', { serverId, percent: Math.round(((i + 1) / files.length) * 100), backupId });
+        }
+
+        const manifest: BackupManifest = {
+            version: MANIFEST_VERSION,
+            createdAt: new Date(timestamp).toISOString(),
+            files: manifestFiles,
+            directories
+        };
+        await fs.writeJSON(path.join(serverBackupsDir, filename), manifest);
+
+        logger.info(`[BackupService] Incremental backup ${backupId}: ${stats.newChunks} new chunks, ${stats.reusedChunks} reused.`);
+
+        const backup: Backup = {
+            id: backupId,
+            serverId,
+            filename,
+            size: stats.storedBytes,
+            createdAt: new Date(timestamp).toISOString(),
+            description,
+            type: 'Manual',
+            scope: worldOnly ? 'world' : 'full',
+            mode: 'incremental',
+            logicalSize,
+            physicalSize: stats.storedBytes
+        };
+        return backup;
+    }
+
+    /**
+     * Recursively collects files below `root`, applying the same exclusions as archive backups.
+     */
+    private async walkServerFiles(
+        serverDir: string,
+        root: string,
+        applyExclusions: boolean,
+        files: BackupSourceFile[],
+        directories: string[]
+    ): Promise<void> {
+        const dir = path.join(serverDir, root);
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (e: any) {
+            logger.warn(`[BackupService] Cannot read ${dir}: ${e.message}`);
+            return;
+        }
+
+        if (root) directories.push(root.split(path.sep).join('/'));
+
+        for (const entry of entries) {
+            const relPath = root ? path.join(root, entry.name) : entry.name;
+            const posixPath = relPath.split(path.sep).join('/');
+            if (applyExclusions && this.isExcluded(posixPath)) continue;
+
+            const fullPath = path.join(serverDir, relPath);
+            if (entry.isDirectory()) {
+                if (path.resolve(fullPath) === path.resolve(this.backupsDir)) continue;
+                await this.walkServerFiles(serverDir, relPath, applyExclusions, files, directories);
+            } else if (entry.isFile()) {
+                try {
+                    const stat = await fs.stat(fullPath);
+                    files.push({ relPath: posixPath, fullPath, size: stat.size, mtimeMs: stat.mtimeMs });
+                } catch {
+                    // Vanished between readdir and stat
+                }
+            }
+        }
+    }
+
+    private isExcluded(posixPath: string): boolean {
+        const name = posixPath.split('/').pop() || '';
+        return name === 'session.lock'
+            || name.endsWith('.lck')
+            || (name === posixPath && name.endsWith('.zip')) // Stray archives in the server root only
+            || posixPath === 'logs/latest.log'
+            || posixPath === 'backups'
+            || posixPath.startsWith('backups/');
+    }
+
+    // Encrypted backups are always archives: the local chunk store is never encrypted
+    private getBackupMode(serverId: string): BackupMode {
+        const { getServer } = require('../servers/ServerService');
+        const config: ServerConfig['backupConfig'] = getServer(serverId)?.backupConfig;
+        if (config?.mode !== 'incremental') return 'archive';
+        if (config.encryption?.enabled) {
+            logger.warn(`[BackupService] ${serverId} has both incremental storage and encryption enabled; creating an encrypted archive instead.`);
+            return 'archive';
+        }
+        return 'incremental';
+    }
+
+    private getChunkStore(serverId: string): ChunkStore {
+        return new ChunkStore(path.join(this.backupsDir, serverId, CHUNK_STORE_DIR));
+    }
+
+    // Runs `task` once every earlier incremental backup or GC of the server has finished
+    private withChunkStore<T>(serverId: string, task: () => Promise<T>): Promise<T> {
+        const run = (this.chunkStoreQueues.get(serverId) || Promise.resolve()).then(task);
+        const queued = run.catch(() => {});
+        this.chunkStoreQueues.set(serverId, queued);
+        queued.then(() => {
+            if (this.chunkStoreQueues.get(serverId) === queued) this.chunkStoreQueues.delete(serverId);
+        });
+        return run;
+    }
+
+    private async readManifest(serverId: string, backup: Backup): Promise<BackupManifest> {
+        const manifestPath = path.join(this.backupsDir, serverId, backup.filename);
+        if (!(await fs.pathExists(manifestPath))) throw new Error('Backup manifest not found');
+        return fs.readJSON(manifestPath);
+    }
+
+    private async loadLatestManifest(serverId: string): Promise<BackupManifest | null> {
+        const backups = (await this.listBackups(serverId))
+            .filter(b => b.mode === 'incremental')
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        for (const backup of backups) {
+            try {
+                return await this.readManifest(serverId, backup);
+            } catch {
+                // Try the next one
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Removes chunks no longer referenced by any incremental backup of the server.
+     * Waits for a running incremental backup, whose chunks no manifest lists yet.
+     * Returns false when the sweep had to be skipped.
+     */
+    async collectGarbage(serverId: string): Promise<boolean> {
+        return this.withChunkStore(serverId, () => this.sweepChunks(serverId));
+    }
+
+    private async sweepChunks(serverId: string): Promise<boolean> {
+        const manifests: BackupManifest[] = [];
+        for (const backup of await this.listBackups(serverId)) {
+            if (backup.mode !== 'incremental') continue;
+            try {
+                manifests.push(await this.readManifest(serverId, backup));
+            } catch (e: any) {
+                // Never sweep while a manifest is unreadable: its chunks would be lost for good
+                logger.error(`[BackupService] Skipping chunk GC for ${serverId}: cannot read ${backup.filename} (${e.message})`);
+                return false;
+            }
+        }
+
+        const { removedChunks, freedBytes } = await this.getChunkStore(serverId).collectGarbage(manifests);
+        if (removedChunks > 0) {
+            logger.info(`[BackupService] GC for ${serverId}: removed ${removedChunks} chunks (${(freedBytes / 1024 / 1024).toFixed(1)} MB).`);
+        }
+        return true;
+    }
+
     // List all backups for a server
     async listBackups(serverId: string): Promise<Backup[]> {
         const serverBackupsDir = path.join(this.backupsDir, serverId);
@@ -147,15 +884,15 @@ export class BackupService extends EventEmitter {
             }
         }
 
-        // 2. Scan for physical .zip files
+        // 2. Scan for physical .zip files and incremental manifests
         const files = await fs.readdir(serverBackupsDir);
-        const zipFiles = files.filter(f => f.endsWith('.zip'));
+        const zipFiles = files.filter(f => f.endsWith('.zip') || f.endsWith(`.zip${ENCRYPTED_SUFFIX}`) || f.endsWith(MANIFEST_SUFFIX));
 
         let changed = false;
         
-        // 3. Sync: Remove entries that no longer exist on disk
+        // 3. Sync: Remove entries that no longer exist on disk (unless an off-site copy remains)
         const beforeCount = manifestBackups.length;
-        manifestBackups = manifestBackups.filter(b => zipFiles.includes(b.filename));
+        manifestBackups = manifestBackups.filter(b => zipFiles.includes(b.filename) || (b.localAvailable === false && b.remoteCopies?.length));
         if (manifestBackups.length !== beforeCount) changed = true;
 
         // 4. Sync: Discover orphaned ZIPs (on disk but not in manifest)
@@ -169,17 +906,29 @@ export class BackupService extends EventEmitter {
                     // Parse ID and timestamp from name: backup-1234567.zip
                     const idMatch = filename.match(/backup-(\d+)/);
                     const timestamp = idMatch ? parseInt(idMatch[1]) : stats.birthtimeMs || stats.mtimeMs;
-                    const id = filename.replace('.zip', '');
+                    const incremental = filename.endsWith(MANIFEST_SUFFIX);
+                    const encrypted = filename.endsWith(ENCRYPTED_SUFFIX);
+                    const id = filename.replace(incremental ? MANIFEST_SUFFIX : encrypted ? `.zip${ENCRYPTED_SUFFIX}` : '.zip', '');
+
+                    let logicalSize: number | undefined;
+                    if (incremental) {
+                        const manifest: BackupManifest = await fs.readJSON(filePath);
+                        logicalSize = manifest.files.reduce((sum, f) => sum + f.size, 0);
+                    }
 
                     manifestBackups.push({
                         id,
                         serverId,
                         filename,
-                        size: stats.size,
+                        size: incremental ? 0 : stats.size,
                         createdAt: new Date(timestamp).toISOString(),
                         description: 'Recovered Archive',
                         locked: false,
-                        type: 'Manual'
+                        type: 'Manual',
+                        mode: incremental ? 'incremental' : 'archive',
+                        logicalSize,
+                        physicalSize: incremental ? undefined : stats.size,
+                        encrypted: encrypted || undefined
                     });
                     changed = true;
                 } catch (e: any) {
@@ -200,18 +949,28 @@ export class BackupService extends EventEmitter {
     }
 
     // Restore a backup (Atomic / Safe Mode)
-    async restoreBackup(serverDir: string, serverId: string, backupId: string): Promise<void> {
+    async restoreBackup(serverDir: string, serverId: string, backupId: string, actor = 'system'): Promise<void> {
         const serverBackupsDir = path.join(this.backupsDir, serverId);
         const backups = await this.listBackups(serverId);
         const backup = backups.find(b => b.id === backupId);
 
         if (!backup) throw new Error('Backup not found');
 
-        const backupPath = path.join(serverBackupsDir, backup.filename);
-
-        if (!(await fs.pathExists(backupPath))) {
+        // Incremental backups restore from the chunk store unless only their off-site zip remains
+        const fromChunks = backup.mode === 'incremental' && backup.localAvailable !== false;
+        if (fromChunks && !(await fs.pathExists(path.join(serverBackupsDir, backup.filename)))) {
             throw new Error('Backup file not found');
         }
+        const archive = fromChunks ? null : await this.materializeArchive(serverId, backup);
+
+        const remote = this.getRemoteTarget(serverId);
+        if (remote) {
+            try {
+                return await this.restoreToNode(remote, serverId, backup, archive);
+            } finally {
+                await archive?.cleanup();
+            }
+        }
 
         this.emit('status', 'Preparing for atomic restore...');
         
@@ -228,10 +987,27 @@ export class BackupService extends EventEmitter {
                 await fs.move(path.join(serverDir, item), path.join(tempRestorePath, item));
             }
 
-            this.emit('status', 'Extracting backup...');
-            await extract(backupPath, { dir: serverDir });
+            if (!archive) {
+                this.emit('status', 'Reassembling files from chunk store...');
+                const manifest = await this.readManifest(serverId, backup);
+                await this.getChunkStore(serverId).restore(manifest, serverDir, (done, total) => {
+                    this.emit('progress', { serverId, percent: Math.round((done / total) * 100), backupId });
+                });
+            } else {
+                this.emit('status', 'Extracting backup...');
+                await extract(archive.zipPath, { dir: serverDir });
+            }
 
             this.emit('status', 'Restore verification successful. Cleaning up...');
+
+            // The files set aside become the undo snapshot instead of being deleted
+            await safetySnapshotService.adoptServerDirectory(serverId, {
+                operation: 'BACKUP_RESTORE',
+                summary: `Restore ${backup.description || backup.id}`,
+                actor
+            }, tempRestorePath).catch(err => {
+                logger.warn(`[BackupService] Could not keep pre-restore files as a safety snapshot: ${err.message}`);
+            });
            this.emit('status', 'Restore complete');
 
         } catch (e: any) {
@@ -262,6 +1038,514 @@ export class BackupService extends EventEmitter {
                     logger.warn(`[BackupService] Restoration cleanup warning: ${err.message}`);
                 });
             }
+            await archive?.cleanup();
+        }
+    }
+
+    /**
+     * Restores a node-hosted server: the backup is unpacked into a staging folder on the
+     * panel and pushed to the agent, which swaps it in only once every file has arrived.
+     */
+    private async restoreToNode(remote: RemoteTarget, serverId: string, backup: Backup, archive: { zipPath: string } | null): Promise<void> {
+        const stagingDir = path.join(this.backupsDir, serverId, `.restore-${backup.id}`);
+        try {
+            await fs.emptyDir(stagingDir);
+            if (!archive) {
+                this.emit('status', 'Reassembling files from chunk store...');
+                const manifest = await this.readManifest(serverId, backup);
+                await this.getChunkStore(serverId).restore(manifest, stagingDir, (done, total) => {
+                    this.emit('progress', { serverId, percent: Math.round((done / total) * 100), backupId: backup.id });
+                });
+            } else {
+                this.emit('status', 'Extracting backup...');
+                await extract(archive.zipPath, { dir: stagingDir });
+            }
+
+            this.emit('status', 'Transferring files to node...');
+            await pushServerFiles(remote.nodeId, serverId, remote.cwd, stagingDir, progress => {
+                const percent = progress.totalBytes > 0 ? Math.round((progress.transferredBytes / progress.totalBytes) * 100) : 100;
+                this.emit('progress', { serverId, percent, backupId: backup.id });
+            });
+            this.emit('status', 'Restore complete');
+        } catch (e: any) {
+            logger.error(`[BackupService] Remote restore failed for ${serverId} (${backup.id}): ${e.message}`);
+            this.emit('status', `Restore failed (${e.message}). Server files on the node were left unchanged.`);
+            throw e;
+        } finally {
+            await fs.remove(stagingDir).catch(() => {});
+        }
+    }
+
+    /**
+     * Opens a backup for reading individual entries: archive backups as a zip,
+     * incremental backups through their manifest.
+     */
+    private async openContents(serverId: string, backupId: string): Promise<BackupContents> {
+        const backups = await this.listBackups(serverId);
+        const backup = backups.find(b => b.id === backupId);
+        if (!backup) throw new Error('Backup not found');
+        if (backup.localAvailable === false) {
+            throw new Error('This backup is only stored off-site. Restore or download it to inspect its contents.');
+        }
+
+        if (backup.mode === 'incremental') {
+            return { backup, manifest: await this.readManifest(serverId, backup), release: () => {} };
+        }
+        return { backup, ...(await this.acquireArchive(serverId, backup)) };
+    }
+
+    /**
+     * Opens an archive backup through its central directory. Callers share one
+     * reader (and one decrypted copy of an encrypted backup), which closes after
+     * a minute without users, so the file diffs that follow a comparison reuse
+     * what the comparison opened.
+     */
+    private async acquireArchive(serverId: string, backup: Backup): Promise<{ zip: ZipReader, release: () => void }> {
+        const key = `${serverId}/${backup.id}`;
+        let archive = this.openArchives.get(key);
+        if (!archive) {
+            const opened = (async () => {
+                const copy = await this.materializeArchive(serverId, backup, `${backup.id}.browse.zip`);
+                try {
+                    return { zip: await ZipReader.open(copy.zipPath), cleanup: copy.cleanup };
+                } catch (e) {
+                    await copy.cleanup();
+                    throw e;
+                }
+            })();
+            const created: OpenArchive = { opened, users: 0, idleTimer: null };
+            opened.catch(() => {
+                if (this.openArchives.get(key) === created) this.openArchives.delete(key);
+            });
+            this.openArchives.set(key, created);
+            archive = created;
+        }
+
+        const shared = archive;
+        if (shared.idleTimer) clearTimeout(shared.idleTimer);
+        shared.idleTimer = null;
+        shared.users++;
+
+        let zip: ZipReader;
+        try {
+            zip = (await shared.opened).zip;
+        } catch (e) {
+            shared.users--;
+            throw e;
+        }
+
+        let released = false;
+        const release = () => {
+            if (released) return;
+            released = true;
+            if (--shared.users > 0) return;
+            shared.idleTimer = setTimeout(() => this.closeArchive(key, shared), ARCHIVE_IDLE_MS);
+        };
+        return { zip, release };
+    }
+
+    private closeArchive(key: string, archive: OpenArchive) {
+        if (this.openArchives.get(key) === archive) this.openArchives.delete(key);
+        if (archive.idleTimer) clearTimeout(archive.idleTimer);
+        archive.opened
+            .then(({ zip, cleanup }) => {
+                zip.close();
+                return cleanup();
+            })
+            .catch(() => {});
+    }
+
+    // Drops a cached reader whose backup is going away; one still in use closes when released
+    private evictArchive(serverId: string, backupId: string) {
+        const key = `${serverId}/${backupId}`;
+        const archive = this.openArchives.get(key);
+        if (!archive) return;
+        this.openArchives.delete(key);
+        if (archive.users === 0) this.closeArchive(key, archive);
+    }
+
+    // Flat list of files and folders in a backup; folders that only exist implicitly in zip paths are included
+    async listBackupEntries(serverId: string, backupId: string): Promise<BackupEntry[]> {
+        const { zip, manifest, release } = await this.openContents(serverId, backupId);
+        release(); // Only the entry list is needed, which is already read
+        const entries = new Map<string, BackupEntry>();
+
+        const addParents = (entryPath: string) => {
+            const parts = entryPath.split('/');
+            for (let i = 1; i < parts.length; i++) {
+                const dir = parts.slice(0, i).join('/');
+                if (!entries.has(dir)) entries.set(dir, { path: dir, isDirectory: true, size: 0 });
+            }
+        };
+
+        if (manifest) {
+            for (const dir of manifest.directories) {
+                entries.set(dir, { path: dir, isDirectory: true, size: 0 });
+                addParents(dir);
+            }
+            for (const file of manifest.files) {
+                entries.set(file.path, { path: file.path, isDirectory: false, size: file.size, modifiedAt: new Date(file.mtimeMs).toISOString() });
+                addParents(file.path);
+            }
+        } else {
+            for (const entry of zip!.entries) {
+                let entryPath: string;
+                try {
+                    entryPath = normalizeEntryPath(entry.name);
+                } catch {
+                    continue; // Never expose entries that point outside the server directory
+                }
+                if (!entryPath) continue;
+                entries.set(entryPath, {
+                    path: entryPath,
+                    isDirectory: entry.isDirectory,
+                    size: entry.isDirectory ? 0 : entry.size,
+                    modifiedAt: entry.time.toISOString()
+                });
+                addParents(entryPath);
+            }
+        }
+
+        return Array.from(entries.values()).sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    // Opens a single file of a backup as a stream; the backup is released once the stream closes
+    async readBackupEntry(serverId: string, backupId: string, entryPath: string): Promise<{ name: string, size: number, stream: Readable }> {
+        const contents = await this.openContents(serverId, backupId);
+        try {
+            const entry = await this.openEntry(serverId, contents, normalizeEntryPath(entryPath));
+            entry.stream.once('close', contents.release);
+            return entry;
+        } catch (e) {
+            contents.release();
+            throw e;
+        }
+    }
+
+    private async openEntry(serverId: string, contents: { zip?: ZipReader, manifest?: BackupManifest }, target: string): Promise<{ name: string, size: number, stream: Readable }> {
+        const name = path.posix.basename(target);
+
+        if (contents.manifest) {
+            const file = contents.manifest.files.find(f => f.path === target);
+            if (!file) throw new Error(`"${target}" is not a file in this backup`);
+            return { name, size: file.size, stream: this.getChunkStore(serverId).createReadStream(file) };
+        }
+
+        const entry = findZipEntry(contents.zip!, target);
+        if (!entry) throw new Error(`"${target}" is not a file in this backup`);
+        return { name, size: entry.size, stream: await contents.zip!.openReadStream(entry) };
+    }
+
+    async previewBackupEntry(serverId: string, backupId: string, entryPath: string): Promise<BackupEntryPreview> {
+        const target = normalizeEntryPath(entryPath);
+        const contents = await this.openContents(serverId, backupId);
+        const parts: Buffer[] = [];
+        let size: number;
+        try {
+            const entry = await this.openEntry(serverId, contents, target);
+            size = entry.size;
+            let collected = 0;
+            // Only the previewed prefix is inflated
+            for await (const chunk of entry.stream) {
+                parts.push(chunk as Buffer);
+                collected += (chunk as Buffer).length;
+                if (collected >= PREVIEW_MAX_BYTES) break;
+            }
+            entry.stream.destroy();
+        } finally {
+            contents.release();
+        }
+
+        const data = Buffer.concat(parts).subarray(0, PREVIEW_MAX_BYTES);
+        const binary = data.subarray(0, 8000).includes(0);
+        return {
+            path: target,
+            size,
+            content: binary ? '' : data.toString('utf8'),
+            truncated: size > data.length,
+            binary
+        };
+    }
+
+    /**
+     * Lists what changes going from one state of a server to another: backup to
+     * backup, or between a backup and the live directory ('live'). Files of equal
+     * size are compared by the checksums recorded at backup time; live files are
+     * only hashed when their modification time differs from the backed-up copy.
+     */
+    async compareBackups(serverDir: string, serverId: string, from: string, to: string): Promise<BackupComparison> {
+        if (from === to) throw new Error('Pick two different states to compare');
+        const source = await this.openSide(serverDir, serverId, from);
+        let target: CompareSide;
+        try {
+            target = await this.openSide(serverDir, serverId, to);
+        } catch (e) {
+            source.contents?.release();
+            throw e;
+        }
+        try {
+            return await this.diffSides(serverId, from, to, source, target);
+        } finally {
+            source.contents?.release();
+            target.contents?.release();
+        }
+    }
+
+    private async diffSides(serverId: string, from: string, to: string, source: CompareSide, target: CompareSide): Promise<BackupComparison> {
+        const paths = Array.from(new Set([...source.files.keys(), ...target.files.keys()])).sort();
+        const entries: BackupDiffEntry[] = [];
+        const result: BackupComparison = { from, to, added: 0, removed: 0, modified: 0, unchanged: 0, sizeDelta: 0, entries, truncated: false };
+
+        for (const entryPath of paths) {
+            const before = source.files.get(entryPath);
+            const after = target.files.get(entryPath);
+            let change: BackupDiffEntry['change'];
+            if (!before) change = 'added';
+            else if (!after) change = 'removed';
+            else if (await this.sameContent(serverId, entryPath, source, target)) {
+                result.unchanged++;
+                continue;
+            } else change = 'modified';
+
+            result[change]++;
+            const sizeDelta = (after?.size || 0) - (before?.size || 0);
+            result.sizeDelta += sizeDelta;
+            if (entries.length >= MAX_DIFF_ENTRIES) {
+                result.truncated = true;
+                continue;
+            }
+            entries.push({
+                path: entryPath,
+                change,
+                oldSize: before?.size,
+                newSize: after?.size,
+                sizeDelta,
+                textDiff: TEXT_DIFF_EXTENSIONS.includes(path.posix.extname(entryPath).toLowerCase())
+                    && Math.max(before?.size || 0, after?.size || 0) <= PREVIEW_MAX_BYTES
+            });
+        }
+        return result;
+    }
+
+    // Line diff of one file between two states; either side may lack the file
+    async diffBackupFile(serverDir: string, serverId: string, from: string, to: string, entryPath: string): Promise<BackupFileDiff> {
+        const target = normalizeEntryPath(entryPath);
+        if (!target) throw new Error('A file path is required');
+
+        const before = await this.readSideFile(serverDir, serverId, from, target);
+        const after = await this.readSideFile(serverDir, serverId, to, target);
+        if (!before.data && !after.data && !before.tooLarge && !after.tooLarge) {
+            throw new Error(`"${target}" exists in neither state`);
+        }
+
+        const change: BackupFileDiff['change'] = !before.data && !before.tooLarge ? 'added'
+            : !after.data && !after.tooLarge ? 'removed'
+            : before.data && after.data && before.data.equals(after.data) ? 'unchanged'
+            : 'modified';
+        const binary = [before.data, after.data].some(d => d?.subarray(0, 8000).includes(0));
+        const diff: BackupFileDiff = { path: target, change, binary, tooLarge: before.tooLarge || after.tooLarge, hunks: [] };
+        if (diff.binary || diff.tooLarge) return diff;
+
+        const hunks = diffLines(before.data?.toString('utf8') || '', after.data?.toString('utf8') || '');
+        if (hunks) diff.hunks = hunks;
+        else diff.tooLarge = true;
+        return diff;
+    }
+
+    private async openSide(serverDir: string, serverId: string, side: string): Promise<CompareSide> {
+        const files: CompareSide['files'] = new Map();
+
+        if (side === LIVE_SIDE) {
+            this.requireLocal(serverId, 'Comparing with the live server');
+            const live = await this.collectBackupFiles(serverDir, null, { release: async () => {} });
+            for (const file of live.files) files.set(file.relPath, { size: file.size, mtimeMs: file.mtimeMs, fullPath: file.fullPath });
+            return { files, live: true };
+        }
+
+        const contents = await this.openContents(serverId, side);
+        if (contents.manifest) {
+            for (const file of contents.manifest.files) {
+                files.set(file.path, { size: file.size, mtimeMs: file.mtimeMs, sha256: file.sha256, chunks: file.chunks });
+            }
+        } else {
+            const checksums = await this.readChecksums(serverId, side) || {};
+            for (const entry of contents.zip!.entries) {
+                if (entry.isDirectory) continue;
+                let entryPath: string;
+                try {
+                    entryPath = normalizeEntryPath(entry.name);
+                } catch {
+                    continue;
+                }
+                if (!entryPath) continue;
+                files.set(entryPath, { size: entry.size, mtimeMs: entry.time.getTime(), sha256: checksums[entryPath], crc: entry.crc });
+            }
+        }
+        return { files, contents, live: false };
+    }
+
+    private async sameContent(serverId: string, entryPath: string, a: CompareSide, b: CompareSide): Promise<boolean> {
+        const fa = a.files.get(entryPath)!;
+        const fb = b.files.get(entryPath)!;
+        if (fa.size !== fb.size) return false;
+        if (fa.sha256 && fb.sha256) return fa.sha256 === fb.sha256;
+        if (fa.chunks && fb.chunks) return fa.chunks.join() === fb.chunks.join();
+        if (fa.crc !== undefined && fb.crc !== undefined) return fa.crc === fb.crc;
+        // A live file nobody touched still has the mtime it was backed up with (zip times have 2s resolution)
+        if ((a.live || b.live) && fa.mtimeMs !== undefined && fb.mtimeMs !== undefined && Math.abs(fa.mtimeMs - fb.mtimeMs) < 2000) return true;
+
+        return (await this.hashSideFile(serverId, entryPath, a)) === (await this.hashSideFile(serverId, entryPath, b));
+    }
+
+    private async hashSideFile(serverId: string, entryPath: string, side: CompareSide): Promise<string> {
+        const file = side.files.get(entryPath)!;
+        if (file.sha256) return file.sha256;
+        if (side.live) return hashFile(file.fullPath!);
+
+        const hash = crypto.createHash('sha256');
+        for await (const chunk of (await this.openEntry(serverId, side.contents!, entryPath)).stream) hash.update(chunk);
+        return hash.digest('hex');
+    }
+
+    private async readSideFile(serverDir: string, serverId: string, side: string, target: string): Promise<{ data: Buffer | null, tooLarge: boolean }> {
+        if (side === LIVE_SIDE) {
+            // `target` is normalized, so it can't leave the server directory
+            const fullPath = path.join(serverDir, target);
+            const stats = await fs.stat(fullPath).catch(() => null);
+            if (!stats?.isFile()) return { data: null, tooLarge: false };
+            if (stats.size > PREVIEW_MAX_BYTES) return { data: null, tooLarge: true };
+            return { data: await fs.readFile(fullPath), tooLarge: false };
+        }
+
+        const contents = await this.openContents(serverId, side);
+        try {
+            const size = contents.manifest
+                ? contents.manifest.files.find(f => f.path === target)?.size
+                : findZipEntry(contents.zip!, target)?.size;
+            if (size === undefined) return { data: null, tooLarge: false };
+            if (size > PREVIEW_MAX_BYTES) return { data: null, tooLarge: true };
+
+            const parts: Buffer[] = [];
+            for await (const chunk of (await this.openEntry(serverId, contents, target)).stream) parts.push(chunk as Buffer);
+            return { data: Buffer.concat(parts), tooLarge: false };
+        } finally {
+            contents.release();
+        }
+    }
+
+    /**
+     * Restores only the selected files or folders (e.g. "world_nether" or
+     * "plugins/Essentials/config.yml"). Selected paths are replaced as a whole;
+     * the current copies are kept aside and moved back if anything fails.
+     */
+    async restoreBackupPaths(serverDir: string, serverId: string, backupId: string, paths: string[], actor = 'system'): Promise<{ restored: number }> {
+        const selection = Array.from(new Set(paths.map(normalizeEntryPath))).filter(Boolean);
+        if (selection.length === 0) throw new Error('No paths selected');
+        this.requireLocal(serverId, 'Restoring individual files');
+        // "world" already covers "world/region"
+        const roots = selection.filter(p => !selection.some(o => o !== p && isWithin(p, o)));
+
+        const { backup, zip, manifest, release } = await this.openContents(serverId, backupId);
+        try {
+            return await this.restoreSelection(serverDir, serverId, backup, roots, actor, zip, manifest);
+        } finally {
+            release();
+        }
+    }
+
+    private async restoreSelection(serverDir: string, serverId: string, backup: Backup, roots: string[], actor: string, zip?: ZipReader, manifest?: BackupManifest): Promise<{ restored: number }> {
+        const backupId = backup.id;
+        const available = manifest
+            ? [...manifest.directories, ...manifest.files.map(f => f.path)]
+            : zip!.entries.map(e => { try { return normalizeEntryPath(e.name); } catch { return ''; } });
+        for (const root of roots) {
+            if (!available.some(p => p && isWithin(p, root))) throw new Error(`"${root}" is not part of this backup`);
+        }
+
+        const serverBackupsDir = path.join(this.backupsDir, serverId);
+        const tempRestorePath = path.join(serverBackupsDir, `.temp_pre_restore_${Date.now()}`);
+        const moved: string[] = [];
+        let restored = 0;
+        let keepSafetyCopy = false;
+
+        this.emit('status', `Preparing selective restore of ${roots.length} path(s)...`);
+
+        try {
+            // 1. Keep the current versions aside
+            await fs.ensureDir(tempRestorePath);
+            for (const root of roots) {
+                const live = path.join(serverDir, root);
+                if (await fs.pathExists(live)) {
+                    await fs.move(live, path.join(tempRestorePath, root));
+                    moved.push(root);
+                }
+            }
+
+            // 2. Write the selected entries from the backup
+            if (manifest) {
+                const selected = (p: string) => roots.some(r => isWithin(p, r));
+                const partial: BackupManifest = {
+                    ...manifest,
+                    files: manifest.files.filter(f => selected(f.path)),
+                    directories: manifest.directories.filter(selected)
+                };
+                await this.getChunkStore(serverId).restore(partial, serverDir, (done, total) => {
+                    this.emit('progress', { serverId, percent: Math.round((done / total) * 100), backupId });
+                });
+                restored = partial.files.length;
+            } else {
+                const entries = zip!.entries.filter(e => {
+                    try { return roots.some(r => isWithin(normalizeEntryPath(e.name), r)); } catch { return false; }
+                });
+                for (let i = 0; i < entries.length; i++) {
+                    const entry = entries[i];
+                    const destination = path.join(serverDir, normalizeEntryPath(entry.name));
+                    if (entry.isDirectory) {
+                        await fs.ensureDir(destination);
+                    } else {
+                        await fs.ensureDir(path.dirname(destination));
+                        await pipeline(await zip!.openReadStream(entry), fs.createWriteStream(destination));
+                        await fs.utimes(destination, entry.time, entry.time).catch(() => {});
+                        restored++;
+                    }
+                    this.emit('progress', { serverId, percent: Math.round(((i + 1) / entries.length) * 100), backupId });
+                }
+            }
+
+            // The versions set aside become the undo snapshot instead of being deleted
+            await safetySnapshotService.adoptPaths(serverId, {
+                operation: 'BACKUP_RESTORE',
+                summary: `Restore ${roots.join(', ')} from ${backup.description || backup.id}`,
+                actor
+            }, tempRestorePath, roots, moved).catch(err => {
+                logger.warn(`[BackupService] Could not keep the replaced files as a safety snapshot: ${err.message}`);
+            });
+
+            this.emit('status', 'Selective restore complete');
+            logger.info(`[BackupService] Restored ${restored} file(s) of ${backupId} for ${serverId}: ${roots.join(', ')}`);
+            return { restored };
+        } catch (e: any) {
+            console.error(`[BackupService] SELECTIVE RESTORE FAILED for ${serverId} (${backupId}):`, e);
+            this.emit('status', `CRITICAL: Selective restore failed (${e.message}). Rolling back...`);
+
+            try {
+                for (const root of roots) {
+                    await fs.remove(path.join(serverDir, root));
+                }
+                for (const root of moved) {
+                    await fs.move(path.join(tempRestorePath, root), path.join(serverDir, root));
+                }
+            } catch (error: any) {
+                keepSafetyCopy = true;
+                throw new Error(`CATASTROPHIC FAILURE: Restore failed AND Rollback failed. Files may be in ${tempRestorePath}. Error: ${error.message}`);
+            }
+            throw new Error(`Selective restore failed (Safe Rollback executed): ${e.message}`);
+        } finally {
+            if (!keepSafetyCopy && await fs.pathExists(tempRestorePath)) {
+                await fs.remove(tempRestorePath).catch(err => {
+                    logger.warn(`[BackupService] Restoration cleanup warning: ${err.message}`);
+                });
+            }
         }
     }
 
@@ -275,12 +1559,21 @@ export class BackupService extends EventEmitter {
             throw new Error('Backup not found');
         }
 
+        this.evictArchive(serverId, backupId);
         const backupPath = path.join(serverBackupsDir, backup.filename);
         await fs.remove(backupPath);
+        await fs.remove(path.join(serverBackupsDir, `${backup.id}${CHECKSUMS_SUFFIX}`));
 
         // Update manifest
         const updatedBackups = backups.filter(b => b.id !== backupId);
         await this.saveManifest(serverId, updatedBackups);
+
+        if (backup.remoteCopies?.length) {
+            await offsiteBackupService.deleteRemote(backup);
+        }
+        if (backup.mode === 'incremental' && backup.localAvailable !== false) {
+            await this.collectGarbage(serverId);
+        }
     }
 
     // Clear manifest and backups if server is deleted
@@ -296,9 +1589,55 @@ export class BackupService extends EventEmitter {
         return path.join(this.backupsDir, serverId, backup.filename);
     }
 
+    /**
+     * Opens a backup for download as a zip. Archive backups are streamed as-is;
+     * incremental backups are reassembled from the chunk store on the fly.
+     */
+    async openBackupDownload(serverId: string, backupId: string): Promise<{ filename: string, stream: Readable }> {
+        const backups = await this.listBackups(serverId);
+        const backup = backups.find(b => b.id === backupId);
+        if (!backup) throw new Error('Backup not found');
+
+        if (backup.localAvailable === false) {
+            const cached = await this.fetchFromOffsite(serverId, backup);
+            const stream = fs.createReadStream(cached);
+            stream.on('close', () => fs.remove(cached).catch(() => {}));
+            return { filename: `${backup.id}.zip`, stream };
+        }
+        return this.openLocalDownload(serverId, backup);
+    }
+
+    private async openLocalDownload(serverId: string, backup: Backup): Promise<{ filename: string, stream: Readable }> {
+        if (backup.mode !== 'incremental') {
+            const backupPath = path.join(this.backupsDir, serverId, backup.filename);
+            if (!(await fs.pathExists(backupPath))) throw new Error('Backup file not found');
+            if (backup.encrypted) {
+                return { filename: `${backup.id}.zip`, stream: await createDecryptStream(backupPath, await this.requireSecret(serverId)) };
+            }
+            return { filename: backup.filename, stream: fs.createReadStream(backupPath) };
+        }
+
+        const manifest = await this.readManifest(serverId, backup);
+        const store = this.getChunkStore(serverId);
+        // Chunks are already compressed on disk; a light level keeps export fast
+        const archive = archiver('zip', { zlib: { level: 1 } });
+        archive.on('warning', (err) => logger.warn(`[BackupService] Export warning: ${err.message}`));
+
+        for (const dir of manifest.directories) {
+            archive.append('', { name: `${dir}/` });
+        }
+        for (const file of manifest.files) {
+            archive.append(store.createReadStream(file), { name: file.path, date: new Date(file.mtimeMs) });
+        }
+        archive.finalize();
+
+        return { filename: `${backup.id}.zip`, stream: archive };
+    }
+
     // Save backup metadata to manifest
     private async saveBackupMetadata(serverId: string, backup: Backup): Promise<void> {
-        const backups = await this.listBackups(serverId);
+        // listBackups may already have discovered the new file as an orphan; replace that entry
+        const backups = (await this.listBackups(serverId)).filter(b => b.id !== backup.id);
         backups.push(backup);
         await this.saveManifest(serverId, backups);
     }
@@ -373,27 +1712,88 @@ export class BackupService extends EventEmitter {
         return [...new Set(worlds)]; // Deduplicate
     }
 
-    // Cleanup old backups
-    private async cleanupOldBackups(serverId: string, keepCount: number): Promise<void> {
-        const backups = await this.listBackups(serverId);
-        
-        // Filter out locked backups (they are immune to auto-cleanup)
-        const candidates = backups.filter(b => !b.locked);
+    // Retention policy configured for the server (or the legacy keep-10 default)
+    getRetentionPolicy(serverId: string): BackupRetentionPolicy {
+        const { getServer } = require('../servers/ServerService');
+        return getServer(serverId)?.backupConfig?.retention || DEFAULT_RETENTION_POLICY;
+    }
 
-        if (candidates.length <= keepCount) {
-            return;
+    // Dry run: which backups a policy would delete, without touching anything
+    async previewRetention(serverId: string, policy?: BackupRetentionPolicy): Promise<BackupRetentionPreview> {
+        const plan = planRetention(await this.listBackups(serverId), policy || this.getRetentionPolicy(serverId));
+        return {
+            keep: plan.keep.map(d => ({ id: d.backup.id, reason: d.reason })),
+            delete: plan.delete.map(d => ({
+                id: d.backup.id,
+                description: d.backup.description,
+                createdAt: d.backup.createdAt,
+                size: backupSize(d.backup),
+                reason: d.reason
+            })),
+            totalSize: plan.totalSize,
+            retainedSize: plan.retainedSize
+        };
+    }
+
+    /**
+     * Apply the server's retention policy. Locked backups are always exempt.
+     * The size cap is checked against the measured store after each deletion
+     * (and chunk GC), since a backup's recorded size is only an estimate of
+     * what deleting it frees.
+     */
+    async applyRetention(serverId: string, policy?: BackupRetentionPolicy): Promise<string[]> {
+        const effective = policy || this.getRetentionPolicy(serverId);
+        const plan = planRetention(await this.listBackups(serverId), { ...effective, maxTotalSizeMB: undefined });
+        const deleted: string[] = [];
+
+        const remove = async (backup: Backup, reason: string) => {
+            if (backup.locked) return; // Defensive: the planner never selects locked backups
+            console.log(`[BackupService] Retention removing ${backup.id} (${reason})`);
+            try {
+                await this.deleteBackup(serverId, backup.id);
+                deleted.push(backup.id);
+            } catch (e: any) {
+                logger.warn(`[BackupService] Retention could not delete ${backup.id}: ${e.message}`);
+            }
+        };
+
+        for (const { backup, reason } of plan.delete) await remove(backup, reason);
+
+        if (effective.maxTotalSizeMB && await this.measureStoredSize(serverId) > effective.maxTotalSizeMB * 1024 * 1024) {
+            const cap = effective.maxTotalSizeMB * 1024 * 1024;
+            let candidates = plan.sizeCandidates;
+            // Without a chunk sweep, deleting incremental backups frees next to nothing
+            if (candidates.some(b => b.mode === 'incremental') && !(await this.collectGarbage(serverId))) {
+                logger.warn(`[BackupService] Chunk GC unavailable for ${serverId}; the size limit only removes archive backups this time.`);
+                candidates = candidates.filter(b => b.mode !== 'incremental');
+            }
+            for (const backup of candidates) {
+                if (await this.measureStoredSize(serverId) <= cap) break;
+                await remove(backup, `over size limit (${effective.maxTotalSizeMB} MB)`);
+            }
         }
+        return deleted;
+    }
 
-        // Sort by date (oldest first)
-        candidates.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    // Bytes the server's local backups occupy: archives, manifests, checksums and the chunk store
+    private async measureStoredSize(serverId: string): Promise<number> {
+        const serverBackupsDir = path.join(this.backupsDir, serverId);
+        const sizeOf = async (target: string): Promise<number> => {
+            const stats = await fs.stat(target).catch(() => null);
+            if (!stats) return 0;
+            if (!stats.isDirectory()) return stats.size;
+            let total = 0;
+            for (const name of await fs.readdir(target)) total += await sizeOf(path.join(target, name));
+            return total;
+        };
 
-        // Delete oldest backups
-        const toDelete = candidates.slice(0, candidates.length - keepCount);
-        
-        for (const backup of toDelete) {
-            console.log(`[BackupService] Auto-cleaning old backup: ${backup.id}`);
-            await this.deleteBackup(serverId, backup.id);
+        let total = await sizeOf(path.join(serverBackupsDir, CHUNK_STORE_DIR));
+        for (const backup of await this.listBackups(serverId)) {
+            if (backup.localAvailable === false) continue;
+            total += await sizeOf(path.join(serverBackupsDir, backup.filename));
+            total += await sizeOf(path.join(serverBackupsDir, `${backup.id}${CHECKSUMS_SUFFIX}`));
         }
+        return total;
     }
 }
 
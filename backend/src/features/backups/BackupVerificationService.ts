@@ -0,0 +1,93 @@
+import { backupService } from './BackupService';
+import { systemSettingsService } from '../system/SystemSettingsService';
+import { notificationService } from '../system/NotificationService';
+import { logger } from '../../utils/logger';
+import { BackupVerification, GlobalSettings } from '@shared/types';
+
+const TICK_INTERVAL = 15 * 60 * 1000; // How often due verifications are looked for
+const DEFAULT_SETTINGS: NonNullable<GlobalSettings['backupVerification']> = { enabled: true, intervalHours: 168 };
+
+/**
+ * Periodically re-reads local backups and checks them against the checksums
+ * recorded at creation, so bit rot or a damaged disk is noticed before a restore
+ * is needed. Newly corrupt backups raise an error notification.
+ */
+class BackupVerificationService {
+    private intervalId: NodeJS.Timeout | null = null;
+    private running = false;
+
+    public initialize() {
+        this.intervalId = setInterval(() => {
+            this.runDue().catch(e => logger.error(`[BackupVerification] Run failed: ${e.message}`));
+        }, TICK_INTERVAL);
+
+        logger.info('[BackupVerification] Initialized.');
+    }
+
+    private getSettings() {
+        return { ...DEFAULT_SETTINGS, ...(systemSettingsService.getSettings().backupVerification || {}) };
+    }
+
+    // Verifies every local backup whose last check is older than the configured interval
+    public async runDue(): Promise<void> {
+        const settings = this.getSettings();
+        if (!settings.enabled || this.running) return;
+        this.running = true;
+
+        try {
+            const { getServers } = require('../servers/ServerService');
+            const maxAge = Math.max(1, settings.intervalHours) * 60 * 60 * 1000;
+
+            for (const server of getServers()) {
+                const backups = await backupService.listBackups(server.id);
+                for (const backup of backups) {
+                    if (backup.localAvailable === false) continue;
+                    const checkedAt = backup.verification ? new Date(backup.verification.checkedAt).getTime() : 0;
+                    if (Date.now() - checkedAt < maxAge) continue;
+
+                    await this.verify(server.id, backup.id).catch(e => {
+                        logger.warn(`[BackupVerification] Could not verify ${backup.id} of ${server.id}: ${e.message}`);
+                    });
+                }
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    public async verify(serverId: string, backupId: string): Promise<BackupVerification | null> {
+        const previous = (await backupService.listBackups(serverId)).find(b => b.id === backupId)?.verification;
+        const result = await backupService.verifyBackup(serverId, backupId);
+        if (!result) return null;
+
+        if (result.status === 'corrupt') {
+            logger.error(`[BackupVerification] ${backupId} of ${serverId} is corrupt: ${result.errors?.join('; ')}`);
+            // Only notify on the transition, not on every re-check of a known bad backup
+            if (previous?.status !== 'corrupt') {
+                notificationService.create(
+                    'ALL',
+                    'ERROR',
+                    'Backup Verification Failed',
+                    `Backup ${backupId} failed its integrity check (${result.errors?.length || 0} problem(s)). It may not restore correctly.`,
+                    { serverId, backupId },
+                    `/dashboard/${serverId}`
+                );
+            }
+        }
+        return result;
+    }
+
+    public async verifyServer(serverId: string): Promise<{ checked: number, corrupt: number }> {
+        let checked = 0;
+        let corrupt = 0;
+        for (const backup of await backupService.listBackups(serverId)) {
+            const result = await this.verify(serverId, backup.id);
+            if (!result) continue;
+            checked++;
+            if (result.status === 'corrupt') corrupt++;
+        }
+        return { checked, corrupt };
+    }
+}
+
+export const backupVerificationService = new BackupVerificationService();
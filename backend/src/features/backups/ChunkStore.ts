@@ -0,0 +1,184 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { Readable } from 'stream';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Fixed-size chunks: region files are rewritten in place, so most 1 MiB
+// windows of an unchanged (or lightly changed) file hash identically.
+export const CHUNK_SIZE = 1024 * 1024;
+export const MANIFEST_VERSION = 1;
+
+export interface ManifestFile {
+    path: string;      // POSIX-style path relative to the server directory
+    size: number;
+    mtimeMs: number;
+    chunks: string[];  // sha256 of each raw chunk, in order
+    sha256?: string;   // Whole-file checksum, checked by backup verification
+}
+
+export interface BackupManifest {
+    version: number;
+    createdAt: string;
+    files: ManifestFile[];
+    directories: string[]; // Kept so empty folders survive a restore
+}
+
+export interface ChunkWriteStats {
+    storedBytes: number;   // Compressed bytes of chunks this call added to the store
+    newChunks: number;
+    reusedChunks: number;
+}
+
+/**
+ * Content-addressed chunk store for incremental backups.
+ *
+ * Each chunk is stored once, gzip-compressed, under `<root>/<aa>/<sha256>`.
+ * Backups are manifests listing the chunks of every file; anything not
+ * referenced by a manifest is removed by `collectGarbage`.
+ */
+export class ChunkStore {
+    constructor(private root: string) {}
+
+    private chunkPath(hash: string): string {
+        return path.join(this.root, hash.substring(0, 2), hash);
+    }
+
+    async has(hash: string): Promise<boolean> {
+        return fs.pathExists(this.chunkPath(hash));
+    }
+
+    /**
+     * Splits a file into chunks and stores the ones not already present.
+     */
+    async storeFile(filePath: string, stats: ChunkWriteStats): Promise<{ chunks: string[], sha256: string }> {
+        const hashes: string[] = [];
+        const fileHash = crypto.createHash('sha256');
+        const handle = await fs.promises.open(filePath, 'r');
+        const buffer = Buffer.alloc(CHUNK_SIZE);
+
+        try {
+            while (true) {
+                const { bytesRead } = await handle.read(buffer, 0, CHUNK_SIZE, null);
+                if (bytesRead === 0) break;
+
+                const data = buffer.subarray(0, bytesRead);
+                fileHash.update(data);
+                const hash = crypto.createHash('sha256').update(data).digest('hex');
+                hashes.push(hash);
+
+                if (await this.has(hash)) {
+                    stats.reusedChunks++;
+                    continue;
+                }
+
+                stats.storedBytes += await this.writeChunk(hash, data);
+                stats.newChunks++;
+            }
+        } finally {
+            await handle.close();
+        }
+
+        return { chunks: hashes, sha256: fileHash.digest('hex') };
+    }
+
+    private async writeChunk(hash: string, data: Buffer): Promise<number> {
+        const target = this.chunkPath(hash);
+        const compressed = await gzip(data, { level: 6 });
+        await fs.ensureDir(path.dirname(target));
+
+        // Write then rename so an interrupted backup never leaves a truncated chunk behind
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, compressed);
+        await fs.move(temp, target, { overwrite: true });
+        return compressed.length;
+    }
+
+    async readChunk(hash: string): Promise<Buffer> {
+        const compressed = await fs.readFile(this.chunkPath(hash)).catch(() => {
+            throw new Error(`Missing chunk ${hash.substring(0, 12)} in backup store`);
+        });
+        const data = await gunzip(compressed);
+        const actual = crypto.createHash('sha256').update(data).digest('hex');
+        if (actual !== hash) throw new Error(`Chunk ${hash.substring(0, 12)} is corrupt (checksum mismatch)`);
+        return data;
+    }
+
+    /**
+     * Reassembles a file from its chunks as a stream (used for downloads and zip export).
+     */
+    createReadStream(file: ManifestFile): Readable {
+        const store = this;
+        async function* reassemble() {
+            for (const hash of file.chunks) {
+                yield await store.readChunk(hash);
+            }
+        }
+        return Readable.from(reassemble());
+    }
+
+    /**
+     * Writes every file and directory of a manifest into `targetDir`.
+     */
+    async restore(manifest: BackupManifest, targetDir: string, onProgress?: (done: number, total: number) => void): Promise<void> {
+        for (const dir of manifest.directories) {
+            await fs.ensureDir(path.join(targetDir, dir));
+        }
+
+        for (let i = 0; i < manifest.files.length; i++) {
+            const file = manifest.files[i];
+            const destination = path.join(targetDir, file.path);
+            await fs.ensureDir(path.dirname(destination));
+
+            const handle = await fs.promises.open(destination, 'w');
+            try {
+                for (const hash of file.chunks) {
+                    await handle.write(await this.readChunk(hash));
+                }
+            } finally {
+                await handle.close();
+            }
+
+            const mtime = new Date(file.mtimeMs);
+            await fs.utimes(destination, mtime, mtime).catch(() => {});
+            onProgress?.(i + 1, manifest.files.length);
+        }
+    }
+
+    /**
+     * Deletes every chunk that is not referenced by one of the given manifests.
+     * Returns the number of bytes reclaimed.
+     */
+    async collectGarbage(manifests: BackupManifest[]): Promise<{ removedChunks: number, freedBytes: number }> {
+        const referenced = new Set<string>();
+        for (const manifest of manifests) {
+            for (const file of manifest.files) {
+                for (const hash of file.chunks) referenced.add(hash);
+            }
+        }
+
+        let removedChunks = 0;
+        let freedBytes = 0;
+        if (!(await fs.pathExists(this.root))) return { removedChunks, freedBytes };
+
+        for (const prefix of await fs.readdir(this.root)) {
+            const prefixDir = path.join(this.root, prefix);
+            if (!(await fs.stat(prefixDir)).isDirectory()) continue;
+
+            for (const name of await fs.readdir(prefixDir)) {
+                if (referenced.has(name)) continue;
+                const chunkFile = path.join(prefixDir, name);
+                const { size } = await fs.stat(chunkFile);
+                await fs.remove(chunkFile);
+                removedChunks++;
+                freedBytes += size;
+            }
+        }
+
+        return { removedChunks, freedBytes };
+    }
+}
@@ -0,0 +1,175 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { processManager } from '../processes/ProcessManager';
+import { logger } from '../../utils/logger';
+
+const SAVE_TIMEOUT_MS = 60 * 1000;        // Upper bound for a flush / save query to complete
+const QUERY_INTERVAL_MS = 1000;           // Bedrock: delay between "save query" attempts
+const MAX_HOLD_MS = 30 * 60 * 1000;       // Java: saving is re-enabled after this even if archiving hangs
+
+const JAVA_SAVED = /Saved the (game|world)/i;
+const JAVA_ALREADY_OFF = /Saving is already turned off/i;
+const BEDROCK_READY = /Files are now ready to be copied/i;
+const BEDROCK_NOT_READY = /previous save has not been completed/i;
+const FILE_ENTRY = /([^,\n]+?):(\d+)(?=\s*,|\s*$)/;
+
+/**
+ * Result of quiescing a running server. The backup reads `stagedWorld` from
+ * `stagingDir` instead of the server directory when both are set.
+ */
+export interface LiveBackupSnapshot {
+    stagedWorld?: string;   // World folder relative to the server dir (e.g. worlds/Bedrock level)
+    stagingDir?: string;    // Mirrors the server dir layout for the staged world
+    release(): Promise<void>;
+}
+
+const NOOP_SNAPSHOT: LiveBackupSnapshot = { release: async () => {} };
+
+/**
+ * Coordinates backups with a running game server so world files are not
+ * captured half-written.
+ *
+ * Java: save-off, save-all flush (wait for "Saved the game"), archive, save-on.
+ * Bedrock: save hold, poll save query, copy exactly the reported files and lengths, save resume.
+ */
+export class LiveBackupCoordinator {
+
+    async prepare(serverId: string, stagingDir: string): Promise<LiveBackupSnapshot> {
+        const { getServer } = require('../servers/ServerService');
+        const server = getServer(serverId);
+        if (!server || !processManager.isRunning(serverId) || !processManager.getCachedStatus(serverId).online) {
+            return NOOP_SNAPSHOT;
+        }
+
+        if (server.software === 'Bedrock' && server.executionEngine === 'remote') {
+            // Staging copies the world on this machine; node-hosted Bedrock worlds are copied as-is
+            logger.warn(`[LiveBackup] Bedrock server ${serverId} runs on a remote node, backing up without save hold.`);
+            return NOOP_SNAPSHOT;
+        }
+
+        return server.software === 'Bedrock'
+            ? this.prepareBedrock(serverId, server.workingDirectory, stagingDir)
+            : this.prepareJava(serverId);
+    }
+
+    private async prepareJava(serverId: string): Promise<LiveBackupSnapshot> {
+        const output = await this.runAndCollect(serverId, 'save-off', out => /Automatic saving is now disabled|Saving is already turned off/i.test(out), 5000).catch(() => '');
+        // Respect an admin who turned saving off on purpose
+        const wasAlreadyOff = JAVA_ALREADY_OFF.test(output);
+
+        let released = false;
+        const release = async () => {
+            if (released) return;
+            released = true;
+            clearTimeout(watchdog);
+            if (wasAlreadyOff || !processManager.isRunning(serverId)) return;
+            processManager.sendCommand(serverId, 'save-on');
+            logger.info(`[LiveBackup] Saving re-enabled for ${serverId}.`);
+        };
+        const watchdog = setTimeout(() => {
+            logger.warn(`[LiveBackup] Backup of ${serverId} exceeded ${MAX_HOLD_MS / 60000} minutes, re-enabling saves.`);
+            release();
+        }, MAX_HOLD_MS);
+
+        try {
+            logger.info(`[LiveBackup] Flushing world data for ${serverId}...`);
+            await this.runAndCollect(serverId, 'save-all flush', out => JAVA_SAVED.test(out), SAVE_TIMEOUT_MS);
+        } catch (e) {
+            await release();
+            throw e;
+        }
+        return { release };
+    }
+
+    private async prepareBedrock(serverId: string, serverDir: string, stagingDir: string): Promise<LiveBackupSnapshot> {
+        logger.info(`[LiveBackup] Holding saves for Bedrock server ${serverId}...`);
+        processManager.sendCommand(serverId, 'save hold');
+
+        try {
+            const files = await this.queryBedrockFiles(serverId);
+            if (files.length === 0) throw new Error('Bedrock reported no files to back up');
+
+            // Paths are relative to the worlds folder; only the first `length` bytes belong to the snapshot
+            for (const file of files) {
+                const source = path.join(serverDir, 'worlds', file.path);
+                const target = path.join(stagingDir, 'worlds', file.path);
+                if (!path.resolve(target).startsWith(path.resolve(stagingDir) + path.sep)) {
+                    throw new Error(`Refusing to stage unexpected path "${file.path}"`);
+                }
+                await fs.ensureDir(path.dirname(target));
+                await fs.copy(source, target);
+                await fs.truncate(target, file.length);
+            }
+
+            const worldName = files[0].path.split('/')[0];
+            return {
+                stagedWorld: path.join('worlds', worldName),
+                stagingDir,
+                release: () => fs.remove(stagingDir).catch(() => {})
+            };
+        } catch (e) {
+            await fs.remove(stagingDir).catch(() => {});
+            throw e;
+        } finally {
+            // Copies are taken at this point (or we failed); never leave the world on hold
+            if (processManager.isRunning(serverId)) processManager.sendCommand(serverId, 'save resume');
+        }
+    }
+
+    private async queryBedrockFiles(serverId: string): Promise<{ path: string, length: number }[]> {
+        const deadline = Date.now() + SAVE_TIMEOUT_MS;
+
+        // "Data saved. Files are now ready to be copied." is followed by a line like
+        // "Bedrock level/db/000005.ldb:1234, Bedrock level/level.dat:2553, ..."
+        const fileList = (out: string) => (out.split(BEDROCK_READY)[1] || '').split('\n').find(l => FILE_ENTRY.test(l));
+
+        while (Date.now() < deadline && processManager.isRunning(serverId)) {
+            const remaining = deadline - Date.now();
+            const output = await this.runAndCollect(serverId, 'save query', out => BEDROCK_NOT_READY.test(out) || !!fileList(out), Math.min(remaining, 5000)).catch(() => '');
+
+            const list = fileList(output);
+            if (list) {
+                return Array.from(list.matchAll(new RegExp(FILE_ENTRY.source, 'g'))).map(match => ({
+                    path: match[1].trim().replace(/\\/g, '/'),
+                    length: parseInt(match[2])
+                }));
+            }
+            await new Promise(resolve => setTimeout(resolve, QUERY_INTERVAL_MS));
+        }
+        throw new Error(`Bedrock did not finish preparing the world within ${SAVE_TIMEOUT_MS / 1000}s`);
+    }
+
+    /**
+     * Sends a console command and collects server output until `done` accepts it.
+     */
+    private runAndCollect(serverId: string, command: string, done: (output: string) => boolean, timeoutMs: number): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let output = '';
+            const onLog = (data: { id: string, line: string }) => {
+                if (data.id !== serverId) return;
+                output += data.line.endsWith('\n') ? data.line : `${data.line}\n`;
+                if (done(output)) finish();
+            };
+            const onStatus = (data: { id: string, status: string }) => {
+                if (data.id === serverId && ['OFFLINE', 'CRASHED', 'STOPPING'].includes(data.status)) {
+                    finish(new Error('Server stopped during backup preparation'));
+                }
+            };
+            const timer = setTimeout(() => finish(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for "${command}"`)), timeoutMs);
+
+            function finish(err?: Error) {
+                clearTimeout(timer);
+                processManager.off('log', onLog);
+                processManager.off('status', onStatus);
+                if (err) reject(err);
+                else resolve(output);
+            }
+
+            processManager.on('log', onLog);
+            processManager.on('status', onStatus);
+            processManager.sendCommand(serverId, command);
+        });
+    }
+}
+
+export const liveBackupCoordinator = new LiveBackupCoordinator();
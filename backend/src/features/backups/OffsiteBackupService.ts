@@ -0,0 +1,129 @@
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { Backup } from './BackupService';
+import { BackupOffsiteSettings, BackupRemoteCopy, BackupTargetConfig } from '@shared/types';
+import { createBackupTarget } from './targets/TargetFactory';
+import { systemSettingsService } from '../system/SystemSettingsService';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_SETTINGS: BackupOffsiteSettings = { targets: [], defaultTargetIds: [], keepLocal: true };
+
+export const hashFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+});
+
+/**
+ * Replicates finished backup archives to off-site targets (S3, SFTP, mounted
+ * directory) and fetches them back when the local copy is gone.
+ */
+export class OffsiteBackupService extends EventEmitter {
+
+    getSettings(): BackupOffsiteSettings {
+        return { ...DEFAULT_SETTINGS, ...(systemSettingsService.getSettings().backups || {}) };
+    }
+
+    getTarget(targetId: string): BackupTargetConfig | undefined {
+        return this.getSettings().targets.find(t => t.id === targetId);
+    }
+
+    // Targets a server replicates to: its own selection, or the global default
+    resolveTargets(serverId: string): BackupTargetConfig[] {
+        const { getServer } = require('../servers/ServerService');
+        const settings = this.getSettings();
+        const ids: string[] = getServer(serverId)?.backupConfig?.targetIds ?? settings.defaultTargetIds;
+        return settings.targets.filter(t => t.enabled && ids.includes(t.id));
+    }
+
+    shouldKeepLocal(serverId: string): boolean {
+        const { getServer } = require('../servers/ServerService');
+        return getServer(serverId)?.backupConfig?.keepLocal ?? this.getSettings().keepLocal;
+    }
+
+    objectKey(backup: Backup, encrypted = false): string {
+        return `${backup.serverId}/${backup.id}.zip${encrypted ? '.enc' : ''}`;
+    }
+
+    /**
+     * Uploads an archive to every target and verifies size and checksum.
+     * Failed targets are logged and left out of the returned copies.
+     */
+    async replicate(backup: Backup, archivePath: string, targets: BackupTargetConfig[], encrypted = false): Promise<BackupRemoteCopy[]> {
+        const checksum = await hashFile(archivePath);
+        const { size } = await fs.stat(archivePath);
+        const key = this.objectKey(backup, encrypted);
+        const copies: BackupRemoteCopy[] = [];
+
+        for (const config of targets) {
+            this.emit('status', `Uploading backup to ${config.name}...`);
+            try {
+                const target = createBackupTarget(config);
+                await target.upload(archivePath, key, checksum);
+
+                const remote = await target.stat(key);
+                if (!remote) throw new Error('Uploaded object not found');
+                if (remote.size !== size) throw new Error(`Size mismatch (local ${size}, remote ${remote.size})`);
+                if (remote.sha256 && remote.sha256 !== checksum) throw new Error('Checksum mismatch');
+
+                copies.push({ targetId: config.id, key, size, sha256: checksum, uploadedAt: new Date().toISOString(), verified: true, encrypted: encrypted || undefined });
+                logger.info(`[OffsiteBackup] ${backup.id} uploaded to ${config.name} (${config.type}) and verified.`);
+            } catch (e: any) {
+                logger.error(`[OffsiteBackup] Upload of ${backup.id} to ${config.name} failed: ${e.message}`);
+                this.emit('status', `Off-site upload to ${config.name} failed: ${e.message}`);
+            }
+        }
+
+        return copies;
+    }
+
+    /**
+     * Downloads the first reachable remote copy to `localPath` and checks it against the recorded checksum.
+     * Returns the copy that was used, so callers know whether it needs decrypting.
+     */
+    async fetch(backup: Backup, localPath: string): Promise<BackupRemoteCopy> {
+        const copies = (backup.remoteCopies || []).filter(c => c.verified);
+        if (copies.length === 0) throw new Error('Backup has no verified off-site copy');
+
+        const errors: string[] = [];
+        for (const copy of copies) {
+            const config = this.getTarget(copy.targetId);
+            if (!config) {
+                errors.push(`target ${copy.targetId} no longer configured`);
+                continue;
+            }
+
+            try {
+                this.emit('status', `Fetching backup from ${config.name}...`);
+                await createBackupTarget(config).download(copy.key, localPath);
+                if ((await hashFile(localPath)) !== copy.sha256) throw new Error('checksum mismatch after download');
+                return copy;
+            } catch (e: any) {
+                await fs.remove(localPath).catch(() => {});
+                errors.push(`${config.name}: ${e.message}`);
+            }
+        }
+        throw new Error(`Could not fetch backup from any off-site target (${errors.join('; ')})`);
+    }
+
+    async deleteRemote(backup: Backup): Promise<void> {
+        for (const copy of backup.remoteCopies || []) {
+            const config = this.getTarget(copy.targetId);
+            if (!config) continue;
+            try {
+                await createBackupTarget(config).delete(copy.key);
+            } catch (e: any) {
+                logger.warn(`[OffsiteBackup] Could not delete ${copy.key} from ${config.name}: ${e.message}`);
+            }
+        }
+    }
+
+    async testTarget(config: BackupTargetConfig): Promise<void> {
+        await createBackupTarget(config).test();
+    }
+}
+
+export const offsiteBackupService = new OffsiteBackupService();
@@ -0,0 +1,137 @@
+import { BackupRetentionPolicy } from '@shared/types';
+import type { Backup } from './BackupService';
+
+// Matches the historical "keep last 10" rule when a server has no policy
+export const DEFAULT_RETENTION_POLICY: BackupRetentionPolicy = { keepLast: 10 };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RetentionDecision {
+    backup: Backup;
+    reason: string;
+}
+
+export interface RetentionPlan {
+    keep: RetentionDecision[];
+    delete: RetentionDecision[];
+    totalSize: number;    // Size of everything currently stored
+    retainedSize: number; // Size left after the plan is applied (an estimate, see backupSize)
+    sizeCandidates: Backup[]; // Survivors of the rules the size cap may drop, oldest first
+}
+
+type Bucket = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Bucket keys use the panel host's local time
+const BUCKET_KEYS: Record<Bucket, (d: Date) => string> = {
+    hourly: d => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}`,
+    daily: d => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    weekly: d => {
+        // ISO-8601 week: the week belongs to the year of its Thursday
+        const thursday = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 3 - ((d.getDay() + 6) % 7));
+        const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+        const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+        return `${thursday.getFullYear()}-W${pad(week)}`;
+    },
+    monthly: d => `${d.getFullYear()}-${pad(d.getMonth() + 1)}`
+};
+
+/**
+ * Incremental backups count the chunks they added; shared chunks belong to the
+ * backup that first stored them. Deleting an incremental backup can free less
+ * than this (later backups may still use its chunks) or more (chunks it shares
+ * only with other deleted backups), so sizes in a plan are estimates and
+ * BackupService enforces the cap against the measured store.
+ */
+export const backupSize = (backup: Backup): number => backup.physicalSize ?? backup.size ?? 0;
+
+/**
+ * Returns an error message if the policy is malformed, otherwise null.
+ */
+export function validateRetentionPolicy(policy: BackupRetentionPolicy): string | null {
+    const counts: (keyof BackupRetentionPolicy)[] = ['keepLast', 'hourly', 'daily', 'weekly', 'monthly', 'maxTotalSizeMB', 'minAgeHours'];
+    for (const key of counts) {
+        const value = policy[key];
+        if (value === undefined || value === null) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            return `${key} must be a non-negative number.`;
+        }
+    }
+    const keepsAnything = (['keepLast', 'hourly', 'daily', 'weekly', 'monthly'] as (keyof BackupRetentionPolicy)[]).some(k => (policy[k] || 0) > 0);
+    if (!keepsAnything && !policy.minAgeHours) {
+        return 'Policy would delete every unlocked backup. Keep at least one backup or set a minimum age.';
+    }
+    return null;
+}
+
+/**
+ * Grandfather-father-son retention.
+ *
+ * A backup survives if any rule keeps it: it is locked, younger than the
+ * minimum-age floor, among the `keepLast` newest, or the newest backup of one
+ * of the last N hours/days/weeks/months that contain a backup. The size cap is
+ * then enforced by dropping the oldest survivors that no hard rule protects.
+ */
+export function planRetention(backups: Backup[], policy: BackupRetentionPolicy, now: number = Date.now()): RetentionPlan {
+    const sorted = [...backups].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const reasons = new Map<string, string[]>();
+    const hardKeep = new Set<string>();
+    const addReason = (backup: Backup, reason: string) => {
+        const list = reasons.get(backup.id) || [];
+        list.push(reason);
+        reasons.set(backup.id, list);
+    };
+
+    for (const backup of sorted) {
+        if (backup.locked) {
+            addReason(backup, 'locked');
+            hardKeep.add(backup.id);
+        }
+        if (policy.minAgeHours && now - new Date(backup.createdAt).getTime() < policy.minAgeHours * HOUR_MS) {
+            addReason(backup, `younger than ${policy.minAgeHours}h`);
+            hardKeep.add(backup.id);
+        }
+    }
+
+    sorted.slice(0, policy.keepLast || 0).forEach((backup, i) => addReason(backup, `latest #${i + 1}`));
+
+    for (const bucket of ['hourly', 'daily', 'weekly', 'monthly'] as Bucket[]) {
+        const limit = policy[bucket] || 0;
+        if (limit <= 0) continue;
+
+        const seen = new Set<string>();
+        for (const backup of sorted) {
+            const key = BUCKET_KEYS[bucket](new Date(backup.createdAt));
+            if (seen.has(key)) continue;
+            seen.add(key);
+            addReason(backup, `${bucket} ${key}`);
+            if (seen.size >= limit) break;
+        }
+    }
+
+    const keep: RetentionDecision[] = [];
+    const remove: RetentionDecision[] = [];
+    for (const backup of sorted) {
+        const list = reasons.get(backup.id);
+        if (list) keep.push({ backup, reason: list.join(', ') });
+        else remove.push({ backup, reason: 'not selected by any rule' });
+    }
+
+    const totalSize = sorted.reduce((sum, b) => sum + backupSize(b), 0);
+    let retainedSize = keep.reduce((sum, d) => sum + backupSize(d.backup), 0);
+    // Oldest first; locked and too-young backups are never sacrificed
+    const sizeCandidates = keep.map(d => d.backup).filter(b => !hardKeep.has(b.id)).reverse();
+
+    if (policy.maxTotalSizeMB) {
+        const cap = policy.maxTotalSizeMB * 1024 * 1024;
+        for (const backup of sizeCandidates) {
+            if (retainedSize <= cap) break;
+            keep.splice(keep.findIndex(d => d.backup.id === backup.id), 1);
+            retainedSize -= backupSize(backup);
+            remove.push({ backup, reason: `over size limit (${policy.maxTotalSizeMB} MB)` });
+        }
+    }
+
+    return { keep, delete: remove, totalSize, retainedSize, sizeCandidates };
+}
@@ -0,0 +1,329 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { DATA_DIR } from '../../constants';
+import { processManager } from '../processes/ProcessManager';
+import { pluginRepository } from '../../storage/PluginRepository';
+import { logger } from '../../utils/logger';
+import { SafetySnapshot, SafetySnapshotOperation, ServerConfig, InstalledPlugin } from '@shared/types';
+
+const SNAPSHOTS_DIR = path.join(DATA_DIR, 'safety-snapshots');
+const INDEX_FILE = 'index.json';
+const FILES_DIR = 'files';
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_PER_SERVER = 5;
+const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024 * 1024; // Bigger copies are skipped instead of doubling disk usage
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+export interface SafetySnapshotRequest {
+    operation: SafetySnapshotOperation;
+    summary: string;
+    actor: string;
+    // Panel-side state the operation changes besides files
+    restoreState?: { server?: Partial<ServerConfig>, plugin?: InstalledPlugin };
+}
+
+interface StoredSnapshot extends SafetySnapshot {
+    existed: string[];          // Paths present before the operation; the rest are deleted on undo
+    wholeServer?: boolean;      // Files hold the entire previous server directory
+    restoreState?: SafetySnapshotRequest['restoreState'];
+}
+
+const normalizePath = (p: string) => path.posix.normalize(String(p).replace(/\\/g, '/')).replace(/^\/+|\/+$/g, '');
+
+/**
+ * Short-lived copies of the paths a destructive operation (plugin update, reinstall,
+ * restore, zip extraction, diagnosis fix) is about to change, so the most recent
+ * one can be undone with a click. Like import rollback, undo puts the server back
+ * exactly as it was: paths the operation created are removed again.
+ */
+class SafetySnapshotService {
+    private intervalId: NodeJS.Timeout | null = null;
+    private queues: Map<string, Promise<unknown>> = new Map();
+
+    public initialize() {
+        this.intervalId = setInterval(() => {
+            this.pruneAll().catch(e => logger.error(`[SafetySnapshot] Prune failed: ${e.message}`));
+        }, PRUNE_INTERVAL);
+        this.pruneAll().catch(() => {});
+
+        logger.info('[SafetySnapshot] Initialized.');
+    }
+
+    /**
+     * Copies `paths` (relative to the server directory) before they are changed.
+     * Returns null when nothing can be captured locally (node-hosted servers) or the
+     * copy would be too large.
+     */
+    public async capture(serverId: string, request: SafetySnapshotRequest, paths: string[]): Promise<SafetySnapshot | null> {
+        const serverDir = this.getLocalServerDir(serverId);
+        if (!serverDir) return null;
+
+        const normalized = Array.from(new Set(paths.map(normalizePath))).filter(p => p && p !== '.');
+        if (normalized.some(p => p === '..' || p.startsWith('../'))) {
+            throw new Error('Snapshot paths must stay inside the server directory');
+        }
+        // "libraries" already covers "libraries/x.jar"
+        const roots = normalized.filter(p => !normalized.some(o => o !== p && p.startsWith(`${o}/`)));
+
+        const existed: string[] = [];
+        let size = 0;
+        for (const rel of roots) {
+            const fullPath = path.join(serverDir, rel);
+            if (!(await fs.pathExists(fullPath))) continue;
+            existed.push(rel);
+            size += await this.sizeOf(fullPath);
+        }
+        if (size > MAX_SNAPSHOT_BYTES) {
+            logger.warn(`[SafetySnapshot] Skipping snapshot for ${request.operation} on ${serverId}: ${Math.round(size / 1024 / 1024)} MB exceeds the limit.`);
+            return null;
+        }
+
+        return this.enqueue(serverId, async () => {
+            const snapshot = this.createRecord(serverId, request, roots, existed, size);
+            const filesDir = path.join(this.snapshotDir(serverId, snapshot.id), FILES_DIR);
+            try {
+                await fs.ensureDir(filesDir);
+                for (const rel of existed) {
+                    await fs.copy(path.join(serverDir, rel), path.join(filesDir, rel), { preserveTimestamps: true });
+                }
+            } catch (e) {
+                await fs.remove(this.snapshotDir(serverId, snapshot.id)).catch(() => {});
+                throw e;
+            }
+            return this.store(serverId, snapshot);
+        });
+    }
+
+    /**
+     * Snapshot for copying the contents of `sourceDir` over `destination` (relative to
+     * the server directory): every file it would overwrite, plus new folders as a whole.
+     */
+    public async captureOverlay(serverId: string, request: SafetySnapshotRequest, sourceDir: string, destination: string): Promise<SafetySnapshot | null> {
+        const serverDir = this.getLocalServerDir(serverId);
+        if (!serverDir) return null;
+
+        const paths: string[] = [];
+        const walk = async (rel: string) => {
+            for (const entry of await fs.readdir(path.join(sourceDir, rel), { withFileTypes: true })) {
+                const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+                const target = path.posix.join(normalizePath(destination), childRel);
+                if (entry.isDirectory() && await fs.pathExists(path.join(serverDir, target))) {
+                    await walk(childRel);
+                } else {
+                    paths.push(target);
+                }
+            }
+        };
+        await walk('');
+        return this.capture(serverId, request, paths);
+    }
+
+    /**
+     * Takes ownership of a directory holding the complete previous server files
+     * (e.g. what a backup restore set aside) instead of copying them again.
+     */
+    public async adoptServerDirectory(serverId: string, request: SafetySnapshotRequest, sourceDir: string): Promise<SafetySnapshot | null> {
+        if (!this.getLocalServerDir(serverId)) return null;
+
+        return this.enqueue(serverId, async () => {
+            const snapshot = this.createRecord(serverId, request, [], [], await this.sizeOf(sourceDir));
+            snapshot.wholeServer = true;
+            await fs.ensureDir(this.snapshotDir(serverId, snapshot.id));
+            await fs.move(sourceDir, path.join(this.snapshotDir(serverId, snapshot.id), FILES_DIR));
+            return this.store(serverId, snapshot);
+        });
+    }
+
+    /**
+     * Takes ownership of a directory holding the previous versions of `paths`
+     * (those in `existed`; the others did not exist before) instead of copying them again.
+     */
+    public async adoptPaths(serverId: string, request: SafetySnapshotRequest, sourceDir: string, paths: string[], existed: string[]): Promise<SafetySnapshot | null> {
+        if (!this.getLocalServerDir(serverId)) return null;
+
+        return this.enqueue(serverId, async () => {
+            const snapshot = this.createRecord(serverId, request, paths.map(normalizePath), existed.map(normalizePath), await this.sizeOf(sourceDir));
+            await fs.ensureDir(this.snapshotDir(serverId, snapshot.id));
+            await fs.move(sourceDir, path.join(this.snapshotDir(serverId, snapshot.id), FILES_DIR));
+            return this.store(serverId, snapshot);
+        });
+    }
+
+    public async list(serverId: string): Promise<SafetySnapshot[]> {
+        const snapshots = await this.enqueue(serverId, () => this.prune(serverId));
+        return snapshots.map(s => this.toPublic(s));
+    }
+
+    /**
+     * Reverts the most recent operation. Whatever the operation left behind is set
+     * aside first and put back if anything goes wrong.
+     */
+    public async undoLast(serverId: string): Promise<SafetySnapshot> {
+        const serverDir = this.getLocalServerDir(serverId);
+        if (!serverDir) throw new Error('Server not found or hosted on a remote node');
+        if (processManager.isRunning(serverId)) {
+            throw new Error('Stop the server before undoing the last operation.');
+        }
+
+        return this.enqueue(serverId, async () => {
+            const snapshots = await this.prune(serverId);
+            const snapshot = snapshots[0];
+            if (!snapshot) throw new Error('There is no recent operation to undo.');
+
+            const dir = this.snapshotDir(serverId, snapshot.id);
+            const filesDir = path.join(dir, FILES_DIR);
+            const asideDir = path.join(dir, 'current');
+            const targets = snapshot.wholeServer
+                ? (await fs.readdir(serverDir)).filter(item => !this.containsPanelData(path.join(serverDir, item)))
+                : snapshot.paths;
+            const restored = snapshot.wholeServer ? await fs.readdir(filesDir) : snapshot.existed;
+
+            logger.info(`[SafetySnapshot] Undoing ${snapshot.operation} on ${serverId} (${snapshot.summary})...`);
+            try {
+                for (const rel of targets) {
+                    if (await fs.pathExists(path.join(serverDir, rel))) {
+                        await fs.move(path.join(serverDir, rel), path.join(asideDir, rel));
+                    }
+                }
+                for (const rel of restored) {
+                    await fs.move(path.join(filesDir, rel), path.join(serverDir, rel));
+                }
+            } catch (e: any) {
+                for (const rel of targets) {
+                    if (!(await fs.pathExists(path.join(asideDir, rel)))) continue;
+                    await fs.remove(path.join(serverDir, rel));
+                    await fs.move(path.join(asideDir, rel), path.join(serverDir, rel));
+                }
+                throw new Error(`Undo failed, server files were left unchanged: ${e.message}`);
+            }
+
+            await this.applyRestoreState(serverId, snapshot);
+            await fs.remove(dir).catch(err => logger.warn(`[SafetySnapshot] Cleanup warning: ${err.message}`));
+            await this.writeIndex(serverId, snapshots.filter(s => s.id !== snapshot.id));
+
+            logger.success(`[SafetySnapshot] Undid ${snapshot.operation} on ${serverId}.`);
+            return this.toPublic(snapshot);
+        });
+    }
+
+    private async applyRestoreState(serverId: string, snapshot: StoredSnapshot): Promise<void> {
+        const state = snapshot.restoreState;
+        if (state?.server) {
+            const { updateServer } = require('../servers/ServerService');
+            await updateServer(serverId, state.server);
+        }
+        if (state?.plugin) {
+            if (pluginRepository.findById(state.plugin.id)) {
+                pluginRepository.update(state.plugin.id, state.plugin);
+            } else {
+                pluginRepository.create(state.plugin);
+            }
+        }
+    }
+
+    private getLocalServerDir(serverId: string): string | null {
+        const { getServer } = require('../servers/ServerService');
+        const server: ServerConfig | undefined = getServer(serverId);
+        if (!server?.workingDirectory) return null;
+        if (server.executionEngine === 'remote') {
+            logger.warn(`[SafetySnapshot] ${serverId} runs on a remote node, no snapshot taken.`);
+            return null;
+        }
+        return path.resolve(server.workingDirectory);
+    }
+
+    // Never move the panel's own data around if it happens to live inside a server directory
+    private containsPanelData(fullPath: string): boolean {
+        const resolved = path.resolve(fullPath);
+        const data = path.resolve(DATA_DIR);
+        return data === resolved || data.startsWith(resolved + path.sep);
+    }
+
+    private createRecord(serverId: string, request: SafetySnapshotRequest, paths: string[], existed: string[], size: number): StoredSnapshot {
+        const now = Date.now();
+        return {
+            id: `snap-${now}-${crypto.randomBytes(3).toString('hex')}`,
+            serverId,
+            operation: request.operation,
+            summary: request.summary,
+            actor: request.actor,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + RETENTION_MS).toISOString(),
+            paths,
+            size,
+            existed,
+            restoreState: request.restoreState
+        };
+    }
+
+    private async store(serverId: string, snapshot: StoredSnapshot): Promise<SafetySnapshot> {
+        const snapshots = await this.readIndex(serverId);
+        await this.writeIndex(serverId, [snapshot, ...snapshots]);
+        await this.prune(serverId);
+        logger.info(`[SafetySnapshot] Captured ${snapshot.operation} snapshot for ${serverId} by ${snapshot.actor} (${Math.round(snapshot.size / 1024)} KB).`);
+        return this.toPublic(snapshot);
+    }
+
+    // Drops expired snapshots and everything beyond the newest MAX_PER_SERVER; returns the rest, newest first
+    private async prune(serverId: string): Promise<StoredSnapshot[]> {
+        const snapshots = (await this.readIndex(serverId))
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        const keep = snapshots.filter((s, i) => i < MAX_PER_SERVER && new Date(s.expiresAt).getTime() > Date.now());
+        if (keep.length === snapshots.length) return snapshots;
+
+        for (const snapshot of snapshots) {
+            if (!keep.includes(snapshot)) await fs.remove(this.snapshotDir(serverId, snapshot.id)).catch(() => {});
+        }
+        await this.writeIndex(serverId, keep);
+        return keep;
+    }
+
+    private async pruneAll(): Promise<void> {
+        if (!(await fs.pathExists(SNAPSHOTS_DIR))) return;
+        for (const serverId of await fs.readdir(SNAPSHOTS_DIR)) {
+            await this.enqueue(serverId, () => this.prune(serverId));
+        }
+    }
+
+    private async sizeOf(fullPath: string): Promise<number> {
+        const stat = await fs.stat(fullPath);
+        if (!stat.isDirectory()) return stat.size;
+        let total = 0;
+        for (const entry of await fs.readdir(fullPath)) {
+            total += await this.sizeOf(path.join(fullPath, entry));
+        }
+        return total;
+    }
+
+    private snapshotDir(serverId: string, snapshotId: string): string {
+        return path.join(SNAPSHOTS_DIR, serverId, snapshotId);
+    }
+
+    private async readIndex(serverId: string): Promise<StoredSnapshot[]> {
+        try {
+            return await fs.readJSON(path.join(SNAPSHOTS_DIR, serverId, INDEX_FILE));
+        } catch {
+            return [];
+        }
+    }
+
+    private async writeIndex(serverId: string, snapshots: StoredSnapshot[]): Promise<void> {
+        await fs.ensureDir(path.join(SNAPSHOTS_DIR, serverId));
+        await fs.writeJSON(path.join(SNAPSHOTS_DIR, serverId, INDEX_FILE), snapshots, { spaces: 2 });
+    }
+
+    private toPublic({ existed, wholeServer, restoreState, ...snapshot }: StoredSnapshot): SafetySnapshot {
+        return snapshot;
+    }
+
+    // Index updates for one server run one at a time
+    private enqueue<T>(serverId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(serverId) || Promise.resolve();
+        const next = previous.catch(() => {}).then(task);
+        this.queues.set(serverId, next);
+        return next;
+    }
+}
+
+export const safetySnapshotService = new SafetySnapshotService();
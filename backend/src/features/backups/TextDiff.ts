@@ -0,0 +1,116 @@
+import { BackupDiffHunk, BackupDiffLine } from '@shared/types';
+
+const CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE = 1000; // Beyond this the files are rewritten rather than edited
+
+type Op = { type: BackupDiffLine['type'], text: string };
+
+/**
+ * Line-based Myers diff rendered as unified hunks with a few lines of context.
+ * Returns null when the files differ in more than MAX_EDIT_DISTANCE lines.
+ */
+export function diffLines(oldText: string, newText: string, context = CONTEXT_LINES): BackupDiffHunk[] | null {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+    const ops = shortestEdit(a, b);
+    return ops ? toHunks(ops, context) : null;
+}
+
+function splitLines(text: string): string[] {
+    if (text === '') return [];
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+function shortestEdit(a: string[], b: string[]): Op[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // trace[d] is v before round d, covering diagonals -d-1..d+1
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) return backtrack(trace, a, b);
+        }
+    }
+    return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): Op[] {
+    const ops: Op[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const snapshot = trace[d];
+        const get = (k: number) => snapshot[k + d + 1];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && get(k - 1) < get(k + 1))) ? k + 1 : k - 1;
+        const prevX = get(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            ops.push({ type: 'context', text: a[--x] });
+            y--;
+        }
+        if (d > 0) {
+            if (x === prevX) ops.push({ type: 'added', text: b[--y] });
+            else ops.push({ type: 'removed', text: a[--x] });
+        }
+    }
+    return ops.reverse();
+}
+
+function toHunks(ops: Op[], context: number): BackupDiffHunk[] {
+    const hunks: BackupDiffHunk[] = [];
+    const changes = ops.map((op, i) => op.type === 'context' ? -1 : i).filter(i => i >= 0);
+    if (changes.length === 0) return hunks;
+
+    // Line numbers before each op (1-based)
+    const oldNo: number[] = [];
+    const newNo: number[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops) {
+        oldNo.push(oldLine);
+        newNo.push(newLine);
+        if (op.type !== 'added') oldLine++;
+        if (op.type !== 'removed') newLine++;
+    }
+
+    let start = Math.max(0, changes[0] - context);
+    let end = Math.min(ops.length - 1, changes[0] + context);
+    const flush = () => {
+        const lines = ops.slice(start, end + 1);
+        const oldCount = lines.filter(l => l.type !== 'added').length;
+        const newCount = lines.filter(l => l.type !== 'removed').length;
+        hunks.push({
+            header: `@@ -${oldCount ? oldNo[start] : oldNo[start] - 1},${oldCount} +${newCount ? newNo[start] : newNo[start] - 1},${newCount} @@`,
+            lines
+        });
+    };
+
+    for (const index of changes.slice(1)) {
+        if (index - context <= end + 1) {
+            end = Math.min(ops.length - 1, index + context);
+        } else {
+            flush();
+            start = index - context;
+            end = Math.min(ops.length - 1, index + context);
+        }
+    }
+    flush();
+    return hunks;
+}
@@ -0,0 +1,70 @@
+import yauzl from 'yauzl';
+import { PassThrough, Readable, pipeline } from 'stream';
+
+export interface ZipEntryInfo {
+    name: string;      // Path as stored in the archive
+    isDirectory: boolean;
+    size: number;      // Uncompressed size
+    crc: number;
+    time: Date;
+}
+
+/**
+ * Random access to a zip on disk through its central directory. Only the entry
+ * list is held in memory; file contents are inflated as streams on demand, so
+ * archives of any size can be browsed. Close it when done to release the file.
+ */
+export class ZipReader {
+    private constructor(
+        private zip: yauzl.ZipFile,
+        public readonly entries: ZipEntryInfo[],
+        private raw: Map<ZipEntryInfo, yauzl.Entry>
+    ) {}
+
+    static open(zipPath: string): Promise<ZipReader> {
+        return new Promise((resolve, reject) => {
+            yauzl.open(zipPath, { lazyEntries: true, autoClose: false, decodeStrings: true }, (err, zip) => {
+                if (err || !zip) return reject(err || new Error('Could not open archive'));
+
+                const entries: ZipEntryInfo[] = [];
+                const raw = new Map<ZipEntryInfo, yauzl.Entry>();
+                zip.on('entry', (entry: yauzl.Entry) => {
+                    const info: ZipEntryInfo = {
+                        name: entry.fileName,
+                        isDirectory: entry.fileName.endsWith('/'),
+                        size: entry.uncompressedSize,
+                        crc: entry.crc32,
+                        time: entry.getLastModDate()
+                    };
+                    entries.push(info);
+                    raw.set(info, entry);
+                    zip.readEntry();
+                });
+                zip.once('end', () => resolve(new ZipReader(zip, entries, raw)));
+                zip.once('error', e => {
+                    zip.close();
+                    reject(e);
+                });
+                zip.readEntry();
+            });
+        });
+    }
+
+    // yauzl streams never emit 'close', so callers get a regular stream that does
+    openReadStream(entry: ZipEntryInfo): Promise<Readable> {
+        const raw = this.raw.get(entry);
+        if (!raw) return Promise.reject(new Error(`"${entry.name}" is not part of this archive`));
+        return new Promise((resolve, reject) => {
+            this.zip.openReadStream(raw, (err, stream) => {
+                if (err || !stream) return reject(err || new Error('Could not read entry'));
+                const output = new PassThrough();
+                pipeline(stream, output, () => {});
+                resolve(output);
+            });
+        });
+    }
+
+    close() {
+        this.zip.close();
+    }
+}
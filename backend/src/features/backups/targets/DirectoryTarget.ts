@@ -0,0 +1,61 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { BackupTargetConfig } from '@shared/types';
+import { IBackupTarget, RemoteObjectInfo } from './IBackupTarget';
+
+/**
+ * Copies backups to a mounted directory (second disk, NFS share, USB drive).
+ */
+export class DirectoryTarget implements IBackupTarget {
+    private root: string;
+
+    constructor(config: NonNullable<BackupTargetConfig['directory']>) {
+        if (!config?.path) throw new Error('Directory target requires a path');
+        this.root = path.resolve(config.path);
+    }
+
+    private resolve(key: string): string {
+        const target = path.resolve(this.root, key);
+        if (!target.startsWith(this.root + path.sep)) throw new Error(`Invalid object key "${key}"`);
+        return target;
+    }
+
+    async upload(localPath: string, key: string): Promise<void> {
+        const target = this.resolve(key);
+        await fs.ensureDir(path.dirname(target));
+        const partial = `${target}.partial`;
+        await fs.copy(localPath, partial, { overwrite: true });
+        await fs.move(partial, target, { overwrite: true });
+    }
+
+    async stat(key: string): Promise<RemoteObjectInfo | null> {
+        const target = this.resolve(key);
+        if (!(await fs.pathExists(target))) return null;
+
+        const { size } = await fs.stat(target);
+        const sha256 = await new Promise<string>((resolve, reject) => {
+            const hash = crypto.createHash('sha256');
+            fs.createReadStream(target)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+        return { size, sha256 };
+    }
+
+    async download(key: string, localPath: string): Promise<void> {
+        await fs.copy(this.resolve(key), localPath, { overwrite: true });
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.remove(this.resolve(key));
+    }
+
+    async test(): Promise<void> {
+        await fs.ensureDir(this.root);
+        const probe = path.join(this.root, `.craftcommand-probe-${Date.now()}`);
+        await fs.writeFile(probe, 'ok');
+        await fs.remove(probe);
+    }
+}
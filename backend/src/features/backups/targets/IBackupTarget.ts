@@ -0,0 +1,12 @@
+export interface RemoteObjectInfo {
+    size: number;
+    sha256?: string; // Only reported by targets that can store metadata or hash cheaply
+}
+
+export interface IBackupTarget {
+    upload(localPath: string, key: string, sha256: string): Promise<void>;
+    stat(key: string): Promise<RemoteObjectInfo | null>;
+    download(key: string, localPath: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    test(): Promise<void>; // Throws with a readable message if the target is unusable
+}
@@ -0,0 +1,191 @@
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import axios, { AxiosResponse, ResponseType } from 'axios';
+import { BackupTargetConfig } from '@shared/types';
+import { IBackupTarget, RemoteObjectInfo } from './IBackupTarget';
+
+// Objects above this size are sent as a multipart upload (S3 caps single PUTs at 5 GiB)
+const PART_SIZE = 64 * 1024 * 1024;
+const EMPTY_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+interface S3Request {
+    method: 'GET' | 'PUT' | 'POST' | 'HEAD' | 'DELETE';
+    key?: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: Buffer;
+    responseType?: ResponseType;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as required by SigV4
+const encode = (value: string) => encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Minimal S3-compatible client (AWS, MinIO, Backblaze B2, Wasabi, ...) using
+ * Signature Version 4. Every payload is signed, so the store rejects corrupted uploads.
+ */
+export class S3Target implements IBackupTarget {
+    private endpoint: URL;
+    private region: string;
+    private prefix: string;
+
+    constructor(private config: NonNullable<BackupTargetConfig['s3']>) {
+        if (!config?.endpoint || !config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+            throw new Error('S3 target requires endpoint, bucket, access key and secret key');
+        }
+        this.endpoint = new URL(config.endpoint);
+        this.region = config.region || 'us-east-1';
+        this.prefix = (config.prefix || '').replace(/^\/+|\/+$/g, '');
+    }
+
+    private objectKey(key: string): string {
+        return this.prefix ? `${this.prefix}/${key}` : key;
+    }
+
+    private async request(req: S3Request): Promise<AxiosResponse> {
+        const pathStyle = this.config.forcePathStyle !== false;
+        const host = pathStyle ? this.endpoint.host : `${this.config.bucket}.${this.endpoint.host}`;
+        const basePath = this.endpoint.pathname.replace(/\/+$/, '');
+        const segments = [pathStyle ? this.config.bucket : '', ...(req.key ? req.key.split('/') : [])].filter(Boolean);
+        const canonicalPath = `${basePath}/${segments.map(encode).join('/')}`;
+
+        const query = Object.entries(req.query || {})
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([k, v]) => `${encode(k)}=${encode(v)}`)
+            .join('&');
+
+        const now = new Date();
+        const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.substring(0, 8);
+        const payloadHash = req.body ? sha256(req.body) : EMPTY_HASH;
+
+        const headers: Record<string, string> = {
+            host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+            ...Object.fromEntries(Object.entries(req.headers || {}).map(([k, v]) => [k.toLowerCase(), v]))
+        };
+        const signedHeaderNames = Object.keys(headers).sort();
+        const canonicalHeaders = signedHeaderNames.map(h => `${h}:${headers[h].trim()}\n`).join('');
+        const signedHeaders = signedHeaderNames.join(';');
+
+        const canonicalRequest = [req.method, canonicalPath, query, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+        const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.region), 's3'), 'aws4_request');
+        const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        const { host: _host, ...sendHeaders } = headers;
+        sendHeaders['Authorization'] = `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+        if (req.body) sendHeaders['Content-Type'] = 'application/octet-stream';
+
+        return axios.request({
+            method: req.method,
+            url: `${this.endpoint.protocol}//${host}${canonicalPath}${query ? `?${query}` : ''}`,
+            headers: sendHeaders,
+            data: req.body,
+            responseType: req.responseType || 'text',
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+            // Axios would otherwise re-serialize the Buffer body
+            transformRequest: [(data) => data],
+            validateStatus: () => true
+        });
+    }
+
+    private assertOk(res: AxiosResponse, action: string) {
+        if (res.status >= 200 && res.status < 300) return;
+        const body = typeof res.data === 'string' ? res.data : '';
+        const code = body.match(/<Code>([^<]+)<\/Code>/)?.[1];
+        const message = body.match(/<Message>([^<]+)<\/Message>/)?.[1];
+        throw new Error(`S3 ${action} failed (${res.status}${code ? ` ${code}` : ''})${message ? `: ${message}` : ''}`);
+    }
+
+    async upload(localPath: string, key: string, checksum: string): Promise<void> {
+        const objectKey = this.objectKey(key);
+        const { size } = await fs.stat(localPath);
+        const meta = { 'x-amz-meta-sha256': checksum };
+
+        if (size <= PART_SIZE) {
+            const res = await this.request({ method: 'PUT', key: objectKey, headers: meta, body: await fs.readFile(localPath) });
+            this.assertOk(res, 'upload');
+            return;
+        }
+
+        const init = await this.request({ method: 'POST', key: objectKey, query: { uploads: '' }, headers: meta });
+        this.assertOk(init, 'multipart init');
+        const uploadId = String(init.data).match(/<UploadId>([^<]+)<\/UploadId>/)?.[1];
+        if (!uploadId) throw new Error('S3 multipart init returned no UploadId');
+
+        const parts: { number: number, etag: string }[] = [];
+        const handle = await fs.promises.open(localPath, 'r');
+        try {
+            const buffer = Buffer.alloc(PART_SIZE);
+            for (let number = 1; ; number++) {
+                const { bytesRead } = await handle.read(buffer, 0, PART_SIZE, null);
+                if (bytesRead === 0) break;
+
+                const res = await this.request({
+                    method: 'PUT',
+                    key: objectKey,
+                    query: { partNumber: String(number), uploadId },
+                    body: Buffer.from(buffer.subarray(0, bytesRead))
+                });
+                this.assertOk(res, `upload part ${number}`);
+                parts.push({ number, etag: String(res.headers['etag']) });
+            }
+
+            const xml = `<CompleteMultipartUpload>${parts.map(p => `<Part><PartNumber>${p.number}</PartNumber><ETag>${p.etag}</ETag></Part>`).join('')}</CompleteMultipartUpload>`;
+            const done = await this.request({ method: 'POST', key: objectKey, query: { uploadId }, body: Buffer.from(xml) });
+            this.assertOk(done, 'multipart complete');
+            // S3 can report errors inside a 200 response for CompleteMultipartUpload
+            if (String(done.data).includes('<Error>')) this.assertOk({ ...done, status: 500 }, 'multipart complete');
+        } catch (e) {
+            await this.request({ method: 'DELETE', key: objectKey, query: { uploadId } }).catch(() => {});
+            throw e;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    async stat(key: string): Promise<RemoteObjectInfo | null> {
+        const res = await this.request({ method: 'HEAD', key: this.objectKey(key) });
+        if (res.status === 404) return null;
+        this.assertOk(res, 'stat');
+        return {
+            size: parseInt(res.headers['content-length'] || '0'),
+            sha256: res.headers['x-amz-meta-sha256']
+        };
+    }
+
+    async download(key: string, localPath: string): Promise<void> {
+        const res = await this.request({ method: 'GET', key: this.objectKey(key), responseType: 'stream' });
+        if (res.status < 200 || res.status >= 300) {
+            res.data.resume();
+            throw new Error(`S3 download failed (${res.status})`);
+        }
+        await new Promise<void>((resolve, reject) => {
+            const out = fs.createWriteStream(localPath);
+            res.data.on('error', reject);
+            out.on('error', reject);
+            out.on('finish', () => resolve());
+            res.data.pipe(out);
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        const res = await this.request({ method: 'DELETE', key: this.objectKey(key) });
+        if (res.status !== 404) this.assertOk(res, 'delete');
+    }
+
+    async test(): Promise<void> {
+        const res = await this.request({ method: 'HEAD' });
+        if (res.status === 404) throw new Error(`Bucket "${this.config.bucket}" does not exist`);
+        if (res.status === 403) throw new Error('Access denied (check access key, secret key and region)');
+        this.assertOk(res, 'bucket check');
+    }
+}
@@ -0,0 +1,114 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { BackupTargetConfig } from '@shared/types';
+import { IBackupTarget, RemoteObjectInfo } from './IBackupTarget';
+
+const COMMAND_TIMEOUT = 6 * 60 * 60 * 1000; // Large uploads over slow links
+
+/**
+ * Uploads backups over SFTP using the system OpenSSH client in batch mode.
+ * Authentication is key-based; the host key is pinned on first use.
+ */
+export class SftpTarget implements IBackupTarget {
+    private remoteDir: string;
+
+    constructor(private config: NonNullable<BackupTargetConfig['sftp']>) {
+        if (!config?.host || !config.username || !config.privateKeyPath || !config.remoteDir) {
+            throw new Error('SFTP target requires host, username, private key path and remote directory');
+        }
+        this.remoteDir = config.remoteDir.replace(/\/+$/, '') || '/';
+    }
+
+    private remotePath(key: string): string {
+        if (key.split('/').includes('..')) throw new Error(`Invalid object key "${key}"`);
+        return path.posix.join(this.remoteDir, key);
+    }
+
+    private quote(value: string): string {
+        if (/["\n\r]/.test(value)) throw new Error(`Unsupported character in path "${value}"`);
+        return `"${value}"`;
+    }
+
+    /**
+     * Runs a batch of sftp commands. A leading "-" on a command ignores its failure.
+     */
+    private run(commands: string[]): Promise<string> {
+        const args = [
+            '-b', '-',
+            '-i', this.config.privateKeyPath,
+            '-P', String(this.config.port || 22),
+            '-o', 'BatchMode=yes',
+            '-o', 'StrictHostKeyChecking=accept-new',
+            '-o', 'ConnectTimeout=15',
+            `${this.config.username}@${this.config.host}`
+        ];
+
+        return new Promise((resolve, reject) => {
+            const child = spawn('sftp', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+            let stdout = '';
+            let stderr = '';
+            const timer = setTimeout(() => child.kill('SIGKILL'), COMMAND_TIMEOUT);
+
+            child.stdout.on('data', d => stdout += d.toString());
+            child.stderr.on('data', d => stderr += d.toString());
+            child.on('error', (err: any) => {
+                clearTimeout(timer);
+                reject(new Error(err.code === 'ENOENT' ? 'OpenSSH "sftp" client is not installed on the panel host' : err.message));
+            });
+            child.on('close', code => {
+                clearTimeout(timer);
+                if (code === 0) return resolve(stdout);
+                const reason = stderr.split('\n').map(l => l.trim()).filter(Boolean).pop() || `exit code ${code}`;
+                reject(new Error(`SFTP failed: ${reason}`));
+            });
+
+            child.stdin.end(commands.join('\n') + '\n');
+        });
+    }
+
+    async upload(localPath: string, key: string): Promise<void> {
+        const target = this.remotePath(key);
+        const partial = `${target}.partial`;
+
+        // sftp has no "mkdir -p": create each level and ignore "already exists"
+        const dirs: string[] = [];
+        let current = path.posix.dirname(target);
+        while (current !== this.remoteDir && current !== '/' && current !== '.') {
+            dirs.unshift(current);
+            current = path.posix.dirname(current);
+        }
+
+        await this.run([
+            ...dirs.map(d => `-mkdir ${this.quote(d)}`),
+            `put ${this.quote(localPath)} ${this.quote(partial)}`,
+            `-rm ${this.quote(target)}`,
+            `rename ${this.quote(partial)} ${this.quote(target)}`
+        ]);
+    }
+
+    async stat(key: string): Promise<RemoteObjectInfo | null> {
+        let output: string;
+        try {
+            output = await this.run([`ls -ln ${this.quote(this.remotePath(key))}`]);
+        } catch (e: any) {
+            if (/not found|No such file/i.test(e.message)) return null;
+            throw e;
+        }
+        // -rw-r--r--    1 1000     1000      1234 Jan 01 00:00 /path
+        const line = output.split('\n').find(l => /^[-l]/.test(l.trim()));
+        const size = line ? parseInt(line.trim().split(/\s+/)[4]) : NaN;
+        return isNaN(size) ? null : { size };
+    }
+
+    async download(key: string, localPath: string): Promise<void> {
+        await this.run([`get ${this.quote(this.remotePath(key))} ${this.quote(localPath)}`]);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.run([`-rm ${this.quote(this.remotePath(key))}`]);
+    }
+
+    async test(): Promise<void> {
+        await this.run([`ls ${this.quote(this.remoteDir)}`]);
+    }
+}
@@ -0,0 +1,18 @@
+import { BackupTargetConfig } from '@shared/types';
+import { IBackupTarget } from './IBackupTarget';
+import { DirectoryTarget } from './DirectoryTarget';
+import { S3Target } from './S3Target';
+import { SftpTarget } from './SftpTarget';
+
+export function createBackupTarget(config: BackupTargetConfig): IBackupTarget {
+    switch (config.type) {
+        case 's3':
+            return new S3Target(config.s3!);
+        case 'sftp':
+            return new SftpTarget(config.sftp!);
+        case 'directory':
+            return new DirectoryTarget(config.directory!);
+        default:
+            throw new Error(`Unknown backup target type "${(config as BackupTargetConfig).type}"`);
+    }
+}
@@ -1,3 +1,4 @@
+import path from 'path';
 
 import { FileSystemManager } from '../files/FileSystemManager';
 import { DiagnosisActions } from './DiagnosisActions';
@@ -6,12 +7,14 @@ import { logger } from '../../utils/logger';
 import { ServerConfig } from '@shared/types';
 import { updateServer } from '../servers/ServerService';
 import { notificationService } from '../system/NotificationService';
+import { safetySnapshotService } from '../backups/SafetySnapshotService';
+import { installerService } from '../installer/InstallerService';
 
 export class AutoHealingManager {
     /**
      * Executes a specific diagnosis action securely
      */
-    public async executeFix(serverId: string, actionType: string, payload: any): Promise<void> {
+    public async executeFix(serverId: string, actionType: string, payload: any, actor = 'system'): Promise<void> {
         const server = serverRepository.findById(serverId);
         if (!server || !server.workingDirectory) {
             throw new Error(`Cannot execute fix: Server ${serverId} has no working directory.`);
@@ -21,6 +24,18 @@ export class AutoHealingManager {
         logger.info(`[AutoHealing] Executing ${actionType} for ${serverId}`);
 
         try {
+            const scope = await this.getSnapshotScope(server, actionType, payload);
+            if (scope) {
+                const config: Partial<ServerConfig> = {};
+                for (const key of scope.configKeys) (config as any)[key] = (server as any)[key];
+                await safetySnapshotService.capture(serverId, {
+                    operation: 'DIAGNOSIS_FIX',
+                    summary: actionType.replace(/_/g, ' '),
+                    actor,
+                    restoreState: scope.configKeys.length > 0 ? { server: config } : undefined
+                }, scope.paths);
+            }
+
             switch (actionType) {
                 case 'AGREE_EULA':
                     await DiagnosisActions.agreeEula(fsManager);
@@ -88,6 +103,36 @@ export class AutoHealingManager {
         }
     }
 
+    /**
+     * Files and config fields a fix may change, snapshotted first so it can be undone
+     */
+    private async getSnapshotScope(server: ServerConfig, actionType: string, payload: any): Promise<{ paths: string[], configKeys: string[] } | null> {
+        switch (actionType) {
+            case 'AGREE_EULA':
+                return { paths: ['eula.txt'], configKeys: [] };
+            case 'REPAIR_PROPERTIES':
+                return { paths: ['server.properties'], configKeys: [] };
+            case 'RESOLVE_PORT_CONFLICT':
+                return { paths: ['server.properties'], configKeys: ['port'] };
+            case 'ADJUST_RAM':
+                return { paths: [], configKeys: ['ram', 'advancedFlags'] };
+            case 'SWITCH_JAVA':
+                return { paths: [], configKeys: ['javaVersion'] };
+            case 'OPTIMIZE_ARGUMENTS':
+                return { paths: [], configKeys: ['advancedFlags'] };
+            case 'REMOVE_DUPLICATE_PLUGIN':
+                return { paths: (payload.files || []).map((f: string) => path.join('plugins', f)), configKeys: [] };
+            case 'RESTORE_DATA_BACKUP':
+                return { paths: [payload.filename], configKeys: [] };
+            case 'REINSTALL_BEDROCK':
+                return { paths: await installerService.getInstallPaths(server.workingDirectory, 'bedrock'), configKeys: [] };
+            case 'UPDATE_CONFIG':
+                return { paths: [], configKeys: Object.keys(payload) };
+            default:
+                return null;
+        }
+    }
+
     /**
      * Provides context-aware advice for further checks after a fix
      */
@@ -1192,6 +1192,19 @@ export const TpsLagRule: DiagnosisRule = {
             };
         }
 
+        // A tick has 50ms before the server falls behind; a high median means it already is most of the time
+        if (env.mspt !== undefined && env.mspt > 50) {
+            return {
+                id: `lag-mspt-${server.id}-${Date.now()}`,
+                ruleId: 'tps_lag',
+                severity: 'WARNING',
+                title: 'Ticks Taking Too Long',
+                explanation: `The median tick takes ${env.mspt.toFixed(1)}ms, above the 50ms budget for 20 TPS. The server is skipping ticks to catch up.`,
+                recommendation: 'Run a spark profiler report from the Dashboard to find which plugins, entities or chunks use the tick time.',
+                timestamp: Date.now()
+            };
+        }
+
         return null;
     }
 };
@@ -1219,6 +1232,52 @@ export const ResourceExhaustionRule: DiagnosisRule = {
     }
 };
 
+export const ResourceLimitRule: DiagnosisRule = {
+    id: 'resource_limit',
+    name: 'Resource Limit Hits',
+    description: 'Detects kernel OOM kills and CPU throttling from the server\'s cgroup limits',
+    tier: 1,
+    defaultConfidence: 95,
+    triggers: [
+        /\[CraftCommand\] (Memory limit reached|The kernel killed)/i,
+        /\[CraftCommand\] CPU quota exhausted/i
+    ],
+    analyze: async (server: ServerConfig, logs: string[], env: SystemStats): Promise<DiagnosisResult | null> => {
+        const limit = env.limits?.memoryMaxMB ?? null;
+        if ((env.limits?.oomKills || 0) > 0 || logs.some(l => /\[CraftCommand\] (Memory limit reached|The kernel killed)/.test(l))) {
+            // The JVM stayed within -Xmx, so it is native memory (threads, direct buffers, mods) on top of the heap
+            const overhead = server.resourceLimits?.memoryOverheadMB;
+            return {
+                id: `limit-oom-${server.id}-${Date.now()}`,
+                ruleId: 'resource_limit',
+                severity: 'CRITICAL',
+                title: 'Killed By Memory Limit',
+                explanation: `The server used more than its memory limit${limit ? ` of ${limit} MB` : ''} (heap plus overhead) and the kernel killed it. The Java heap was not exhausted; the extra memory was used outside the heap.`,
+                recommendation: `Increase the memory overhead${overhead ? ` (currently ${overhead} MB)` : ''} in the server's resource limits, or look for plugins/mods with native memory leaks.`,
+                action: {
+                    type: 'UPDATE_CONFIG',
+                    payload: { serverId: server.id, resourceLimits: { ...server.resourceLimits, memoryOverheadMB: (overhead || Math.max(512, Math.round((server.ram || 1) * 256))) + 512 } },
+                    autoHeal: false
+                },
+                timestamp: Date.now()
+            };
+        }
+
+        if ((env.limits?.throttledPercent || 0) >= 50 || logs.slice(-200).some(l => l.includes('[CraftCommand] CPU quota exhausted'))) {
+            return {
+                id: `limit-cpu-${server.id}-${Date.now()}`,
+                ruleId: 'resource_limit',
+                severity: 'WARNING',
+                title: 'CPU Quota Exhausted',
+                explanation: `The server keeps hitting its CPU quota${server.resourceLimits?.cpuQuota ? ` of ${server.resourceLimits.cpuQuota}%` : ''} and is being throttled, which shows up as lag and low TPS.`,
+                recommendation: 'Raise the CPU quota in the resource limits, or reduce the load (view distance, entity counts, heavy plugins).',
+                timestamp: Date.now()
+            };
+        }
+        return null;
+    }
+};
+
 const NodeHealthRule: DiagnosisRule = {
     id: 'node_health',
     name: 'Node Health Check',
@@ -1320,6 +1379,7 @@ export const CoreRules: DiagnosisRule[] = [
     MemoryMonitorRule,
     DataIntegrityRule,
     TpsLagRule,
+    ResourceLimitRule,
     NodeHealthRule,
     DiskSpaceRule,
     ForgeLibraryMissingRule,
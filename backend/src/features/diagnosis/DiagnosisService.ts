@@ -2,11 +2,13 @@ import { DiagnosisRule, SystemStats, ServerConfig, DiagnosisResult } from './typ
 import { CoreRules } from './DiagnosisRules';
 import { CrashReportReader, CrashReport } from './CrashReportReader';
 import { diagnosisBrain } from './DiagnosisBrain';
+import { EventEmitter } from 'events';
 
-export class DiagnosisService {
+export class DiagnosisService extends EventEmitter {
     private rules: Map<string, DiagnosisRule> = new Map();
 
     constructor() {
+        super();
         // Automatically register all core rules
         CoreRules.forEach(rule => this.registerRule(rule));
     }
@@ -31,13 +33,17 @@ export class DiagnosisService {
         console.log(`[DiagnosisService] Analyzing server ${server.id} with ${this.rules.size} rules...`);
 
         // 2. Delegate to the Intelligence Brain
-        return await diagnosisBrain.analyze(
+        const results = await diagnosisBrain.analyze(
             server, 
             Array.from(this.rules.values()), 
             recentLogs, 
             env, 
             crashReport || undefined
         );
+
+        // 3. Notify subscribers (e.g. event-triggered schedules)
+        this.emit('diagnosis', { serverId: server.id, results });
+        return results;
     }
 }
 
@@ -1,4 +1,4 @@
-import {  ServerConfig, DiagnosisResult  } from '@shared/types';
+import {  ServerConfig, DiagnosisResult, ResourceLimitUsage  } from '@shared/types';
 export { ServerConfig, DiagnosisResult };
 import { CrashReport } from './CrashReportReader';
 
@@ -11,6 +11,8 @@ export interface SystemStats {
     memoryUsed?: number;
     memoryTotal?: number;
     tps?: number;
+    mspt?: number; // Median tick duration, only set when measured (spark)
+    limits?: ResourceLimitUsage; // cgroup counters when the server runs with resource limits
     nodeStatus?: 'ONLINE' | 'OFFLINE' | 'DEGRADED' | 'ENROLLING';
 }
 
@@ -65,6 +65,26 @@ export class InstallerService extends EventEmitter {
         }
     }
 
+    // Top-level paths an install may overwrite (worlds, logs and backups are never touched)
+    async getInstallPaths(serverDir: string, type: string): Promise<string[]> {
+        const paths = ['server.jar', 'eula.txt', 'server.properties'];
+        if (type === 'forge' || type === 'neoforge') {
+            paths.push('libraries', 'mods', 'config', 'user_jvm_args.txt', 'run.sh', 'run.bat');
+        }
+        if (type === 'modpack' || type === 'bedrock') {
+            // Pack and Bedrock archives replace most of the server root
+            const keep = new Set(['world', 'world_nether', 'world_the_end', 'worlds', 'logs', 'crash-reports', 'backups']);
+            try {
+                const props = await fs.readFile(path.join(serverDir, 'server.properties'), 'utf8');
+                const levelName = props.match(/^level-name=(.+)$/m)?.[1].trim();
+                if (levelName) keep.add(levelName);
+            } catch {}
+            const entries = await fs.readdir(serverDir).catch(() => [] as string[]);
+            paths.push(...entries.filter(entry => !keep.has(entry)));
+        }
+        return paths;
+    }
+
     // Install PaperMC
     async installPaper(serverDir: string, version: string, build: string = 'latest') {
         try {
@@ -14,6 +14,7 @@ import { systemSettingsService } from '../system/SystemSettingsService';
 import { getServer, getServers, startServer, stopServer } from '../servers/ServerService';
 import { processManager } from '../processes/ProcessManager';
 import { backupService } from '../backups/BackupService';
+import { serverGroupService } from '../servers/ServerGroupService';
 import { logger } from '../../utils/logger';
 
 class DiscordService {
@@ -179,7 +180,35 @@ class DiscordService {
                 .addStringOption(option => 
                     option.setName('id')
                         .setDescription('The ID of the server to backup')
+                        .setRequired(true)),
+            new SlashCommandBuilder()
+                .setName('console')
+                .setDescription('Run a console command and show its output')
+                .addStringOption(option => 
+                    option.setName('id')
+                        .setDescription('The ID of the server')
                         .setRequired(true))
+                .addStringOption(option => 
+                    option.setName('command')
+                        .setDescription('The command to run (without the leading /)')
+                        .setRequired(true)),
+            new SlashCommandBuilder()
+                .setName('group')
+                .setDescription('List server groups or start, stop or restart one in dependency order')
+                .addStringOption(option =>
+                    option.setName('action')
+                        .setDescription('What to do')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: 'list', value: 'list' },
+                            { name: 'start', value: 'start' },
+                            { name: 'stop', value: 'stop' },
+                            { name: 'restart', value: 'restart' }
+                        ))
+                .addStringOption(option =>
+                    option.setName('name')
+                        .setDescription('The name or ID of the group')
+                        .setRequired(false))
         ].map(command => command.toJSON());
 
         const rest = new REST({ version: '10' }).setToken(config.token);
@@ -224,6 +253,15 @@ class DiscordService {
                 return;
             }
 
+            if (status === 'CRASH_LOOP') {
+                this.sendNotification(
+                    '🔁 Crash Loop Detected',
+                    `**${server.name}** keeps crashing and has used up its restarts. \n**Action**: Automatic restarts are paused until it is started manually.`,
+                    0xdc2626
+                );
+                return;
+            }
+
             this.sendNotification(
                 'Server Status Change',
                 `The server **${server.name}** is now **${status}**.`,
@@ -427,8 +465,8 @@ class DiscordService {
                     const isRunning = processManager.isRunning(s.id);
                     const stats = isRunning ? processManager.getCachedStatus(s.id) : null;
                     
-                    const statusEmoji = isRunning ? (stats?.status === 'STARTING' ? '🟡' : '🟢') : (s.status === 'CRASHED' ? '⚠️' : '🔴');
-                    const statusText = isRunning ? (stats?.status || 'Online') : (s.status === 'CRASHED' ? 'Crashed' : 'Offline');
+                    const statusEmoji = isRunning ? (stats?.status === 'STARTING' ? '🟡' : '🟢') : (s.status === 'CRASH_LOOP' ? '🔁' : s.status === 'CRASHED' ? '⚠️' : '🔴');
+                    const statusText = isRunning ? (stats?.status || 'Online') : (s.status === 'CRASH_LOOP' ? 'Crash Loop' : s.status === 'CRASHED' ? 'Crashed' : 'Offline');
 
                     // Get last backup info
                     const backups = await backupService.listBackups(s.id);
@@ -461,6 +499,72 @@ class DiscordService {
                     await interaction.followUp({ content: `❌ **Backup Failure**: ${e.message}`, ephemeral: true });
                 }
             }
+
+            else if (commandName === 'console') {
+                const id = interaction.options.getString('id');
+                const command = interaction.options.getString('command', true).replace(/^\//, '');
+                const server = getServer(id!);
+                if (!server) return interaction.reply({ content: '❌ **Error**: Protocol ID not recognized.', ephemeral: true });
+
+                const status = processManager.getCachedStatus(id!)?.status;
+                if (!processManager.isRunning(id!) && status !== 'UNMANAGED') {
+                    return interaction.reply({ content: `⚠️ **Warning**: Server **${server.name}** is offline.`, ephemeral: true });
+                }
+
+                await interaction.deferReply();
+                try {
+                    const response = await processManager.sendCommandWithResponse(id!, command);
+                    const output = response.output.trim() || '(no output)';
+                    // Discord messages are capped at 2000 characters
+                    const clipped = output.length > 1800 ? output.slice(0, 1800) + '\n…' : output;
+                    const via = response.channel === 'rcon' ? 'RCON' : 'console';
+                    await interaction.editReply({ content: `💻 **${server.name}** › \`${command}\` (via ${via})\n\`\`\`\n${clipped}\n\`\`\`` });
+                } catch (e: any) {
+                    await interaction.editReply({ content: `❌ **Command Failure**: ${e.message}` });
+                }
+            }
+
+            else if (commandName === 'group') {
+                const action = interaction.options.getString('action', true);
+
+                if (action === 'list') {
+                    const groups = serverGroupService.list();
+                    const embed = new EmbedBuilder()
+                        .setTitle('🧩 Server Groups')
+                        .setColor(0x5865F2)
+                        .setTimestamp();
+                    if (groups.length === 0) embed.setDescription('No groups configured.');
+                    groups.forEach(g => {
+                        const members = g.serverIds.map(id => getServer(id)?.name || id).join(', ') || '(empty)';
+                        embed.addFields({ name: g.name, value: `> ${members}`, inline: false });
+                    });
+                    return interaction.reply({ embeds: [embed] });
+                }
+
+                const name = interaction.options.getString('name');
+                const group = name ? serverGroupService.find(name) : undefined;
+                if (!group) return interaction.reply({ content: '❌ **Error**: Group not recognized. Use `/group list`.', ephemeral: true });
+
+                let run;
+                try {
+                    run = serverGroupService.run(group, action as any, `Discord: ${interaction.user.tag}`);
+                } catch (e: any) {
+                    return interaction.reply({ content: `❌ **Group Error**: ${e.message}`, ephemeral: true });
+                }
+
+                await interaction.reply({ content: `🧩 **Group ${action}**: Processing **${group.name}** in dependency order...` });
+
+                const result = await run.done;
+                const icons: Record<string, string> = { DONE: '✅', SKIPPED: '⏭️', FAILED: '❌' };
+                const lines = result.steps.map(step => {
+                    const server = step.serverId ? (getServer(step.serverId)?.name || step.serverId) : group.name;
+                    return `${icons[step.status]} \`${step.action}\` **${server}**${step.message ? ` — ${step.message}` : ''}`;
+                });
+                const summary = lines.join('\n');
+                await interaction.followUp({
+                    content: `${result.status === 'COMPLETED' ? '✅' : '❌'} **Group ${action} ${result.status.toLowerCase()}**: **${group.name}**\n${summary.length > 1800 ? summary.slice(0, 1800) + '\n…' : summary}`
+                });
+            }
         } catch (e) {
             logger.error(`Discord Command Error: ${e}`);
             if (!interaction.replied) {
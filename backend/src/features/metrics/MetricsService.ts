@@ -0,0 +1,109 @@
+import { processManager } from '../processes/ProcessManager';
+import { nodeRegistryService } from '../nodes/NodeRegistryService';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../utils/AppError';
+import { TimeSeriesStore } from './TimeSeriesStore';
+import { MetricAggregation, MetricResolution, MetricSeries, NodeHealth, NodeMetricName, ServerMetricName } from '@shared/types';
+
+export const SERVER_METRICS: ServerMetricName[] = ['cpu', 'memory', 'players', 'tps', 'mspt'];
+export const NODE_METRICS: NodeMetricName[] = ['cpu', 'memoryUsed', 'memoryTotal', 'diskUsed', 'diskTotal', 'serverCount'];
+const AGGREGATIONS: MetricAggregation[] = ['avg', 'min', 'max', 'sum', 'last', 'count'];
+const RESOLUTIONS: MetricResolution[] = ['raw', '1m', '1h'];
+
+export interface MetricQueryParams {
+    from?: number;
+    to?: number;
+    step?: number;
+    aggregation?: string;
+    resolution?: string;
+}
+
+const parseTime = (value: unknown): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const time = /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+    if (isNaN(time)) throw new AppError(400, 'INVALID_METRIC_QUERY', `Invalid time "${value}"`);
+    return time;
+};
+
+// Query string → params; times are epoch milliseconds or ISO strings, step is in seconds
+export function parseMetricQuery(query: Record<string, unknown>): MetricQueryParams {
+    return {
+        from: parseTime(query.from),
+        to: parseTime(query.to),
+        step: query.step ? Math.max(1, parseInt(String(query.step)) || 0) * 1000 : undefined,
+        aggregation: query.agg as string | undefined,
+        resolution: query.resolution as string | undefined
+    };
+}
+
+/**
+ * Records server stats (from ProcessManager's 3s stats loop) and node health
+ * (from agent heartbeats) into the time-series store and answers history queries.
+ */
+class MetricsService {
+    private store = new TimeSeriesStore();
+
+    public async initialize() {
+        await this.store.initialize();
+
+        processManager.on('stats', (data: { id: string, cpu: number, memory: number, tps: string, mspt: number | null }) => {
+            const entity = `server:${data.id}`;
+            const t = Date.now();
+            const tps = parseFloat(data.tps);
+            this.store.record(entity, 'cpu', data.cpu, t);
+            this.store.record(entity, 'memory', data.memory, t);
+            if (Number.isFinite(tps)) this.store.record(entity, 'tps', tps, t);
+            if (data.mspt !== null && data.mspt !== undefined) this.store.record(entity, 'mspt', data.mspt, t);
+            this.store.record(entity, 'players', processManager.getCachedStatus(data.id)?.players ?? 0, t);
+        });
+
+        nodeRegistryService.on('heartbeat', (data: { nodeId: string, health: NodeHealth }) => {
+            const entity = `node:${data.nodeId}`;
+            const t = Date.now();
+            for (const metric of NODE_METRICS) {
+                this.store.record(entity, metric, data.health[metric], t);
+            }
+        });
+
+        logger.info('[Metrics] Initialized.');
+    }
+
+    public queryServer(serverId: string, metric: string, params: MetricQueryParams): Promise<MetricSeries> {
+        if (!SERVER_METRICS.includes(metric as ServerMetricName)) {
+            throw new AppError(400, 'INVALID_METRIC_QUERY', `Unknown server metric "${metric}". Available: ${SERVER_METRICS.join(', ')}`);
+        }
+        return this.query(`server:${serverId}`, metric, params);
+    }
+
+    public queryNode(nodeId: string, metric: string, params: MetricQueryParams): Promise<MetricSeries> {
+        if (!NODE_METRICS.includes(metric as NodeMetricName)) {
+            throw new AppError(400, 'INVALID_METRIC_QUERY', `Unknown node metric "${metric}". Available: ${NODE_METRICS.join(', ')}`);
+        }
+        return this.query(`node:${nodeId}`, metric, params);
+    }
+
+    private async query(entity: string, metric: string, params: MetricQueryParams): Promise<MetricSeries> {
+        const to = params.to ?? Date.now();
+        const from = params.from ?? to - 60 * 60 * 1000;
+        if (from >= to) throw new AppError(400, 'INVALID_METRIC_QUERY', '"from" must be before "to"');
+
+        const aggregation = (params.aggregation || 'avg') as MetricAggregation;
+        if (!AGGREGATIONS.includes(aggregation)) {
+            throw new AppError(400, 'INVALID_METRIC_QUERY', `Unknown aggregation "${params.aggregation}". Available: ${AGGREGATIONS.join(', ')}`);
+        }
+        if (params.resolution && !RESOLUTIONS.includes(params.resolution as MetricResolution)) {
+            throw new AppError(400, 'INVALID_METRIC_QUERY', `Unknown resolution "${params.resolution}". Available: ${RESOLUTIONS.join(', ')}`);
+        }
+
+        const result = await this.store.query(entity, metric, {
+            from,
+            to,
+            step: params.step,
+            aggregation,
+            resolution: params.resolution as MetricResolution | undefined
+        });
+        return { entity, metric, aggregation, from, to, ...result };
+    }
+}
+
+export const metricsService = new MetricsService();
@@ -0,0 +1,282 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { processManager } from '../processes/ProcessManager';
+import { rconService } from '../processes/RconService';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../utils/AppError';
+import { DATA_DIR } from '../../constants';
+import { ServerConfig, SparkReport, SparkReportKind, TickMetrics } from '@shared/types';
+
+const POLL_INTERVAL = 30 * 1000;
+const REPORTS_DIR = path.join(DATA_DIR, 'spark-reports');
+const MAX_REPORTS = 50;        // Per server, newest kept
+const MAX_REPORT_OUTPUT = 200; // Console lines kept per report
+const VIEWER_URL = /https?:\/\/spark\.lucko\.me\/[A-Za-z0-9]+/;
+
+type TickUpdate = Partial<Pick<TickMetrics, 'tps' | 'mspt' | 'msptP95' | 'msptMax'>>;
+
+// "[12:00:00 INFO]: [⚡] TPS from last ..." → "TPS from last ..."
+const stripLogPrefix = (line: string) => line.includes('[⚡]')
+    ? line.replace(/^.*\[⚡\]\s?/, '')
+    : line.replace(/^(?:\[[^\]]*\]:?\s*)+/, '');
+
+/**
+ * Reads spark's `tps` report one line at a time. The values follow on the line
+ * after each header, in the order of the windows the header lists:
+ *
+ *   TPS from last 5s, 10s, 1m, 5m, 15m:
+ *    *20.0, 20.0, 19.98, 20.0, 20.0
+ *   Tick durations (min/med/95%ile/max ms) from last 10s, 1m:
+ *    1.2/2.3/5.6/12.1;  1.0/2.2/5.0/30.2
+ */
+export class SparkOutputParser {
+    private expect: 'tps' | 'tick' | null = null;
+    private windowIndex = 0;
+
+    push(rawLine: string): TickUpdate | null {
+        const line = stripLogPrefix(rawLine).trim();
+        if (!line) return null;
+
+        const header = line.match(/^(TPS|Tick durations.*) from last (.+):$/i);
+        if (header) {
+            this.expect = header[1].toUpperCase() === 'TPS' ? 'tps' : 'tick';
+            // Prefer the 10 second window: recent, but not as jumpy as 5s
+            this.windowIndex = Math.max(0, header[2].split(',').map(w => w.trim()).indexOf('10s'));
+            return null;
+        }
+
+        const expect = this.expect;
+        this.expect = null;
+        if (expect === 'tps') {
+            const values = line.split(',').map(v => parseFloat(v.replace(/[^\d.]/g, '')));
+            const tps = values[this.windowIndex] ?? values[0];
+            return Number.isFinite(tps) ? { tps } : null;
+        }
+        if (expect === 'tick') {
+            const groups = line.split(';').map(g => g.trim().split('/').map(v => parseFloat(v)));
+            const group = groups[this.windowIndex] ?? groups[0];
+            if (!group || group.length < 4 || group.some(v => !Number.isFinite(v))) return null;
+            return { mspt: group[1], msptP95: group[2], msptMax: group[3] };
+        }
+        return null;
+    }
+}
+
+/**
+ * Spark integration for Java servers that have the plugin/mod. Keeps each
+ * server's TPS and MSPT current by running `spark tps` over RCON every 30s and
+ * by picking up spark output from the console, and runs profiler/health reports
+ * on demand, keeping a record of each with its viewer link.
+ */
+class SparkService {
+    private parsers: Map<string, SparkOutputParser> = new Map();
+    private polling: Set<string> = new Set();
+    private reports: Map<string, SparkReport[]> = new Map();
+    private activeReports: Map<string, string> = new Map(); // serverId -> reportId
+
+    public async initialize() {
+        await fs.ensureDir(REPORTS_DIR);
+
+        // Reports that were running when the panel stopped never got their result
+        for (const file of await fs.readdir(REPORTS_DIR)) {
+            if (!file.endsWith('.json')) continue;
+            const serverId = file.slice(0, -5);
+            const reports = await this.loadReports(serverId);
+            const interrupted = reports.filter(r => r.status === 'RUNNING');
+            if (interrupted.length === 0) continue;
+            for (const report of interrupted) {
+                report.status = 'FAILED';
+                report.finishedAt = Date.now();
+                report.error = 'Interrupted by a panel restart';
+            }
+            await this.saveReports(serverId);
+        }
+
+        processManager.on('log', ({ id, line }: { id: string, line: string }) => {
+            for (const part of line.split(/\r?\n/)) this.feed(id, part);
+        });
+        processManager.on('status', ({ id, status }: { id: string, status: string }) => {
+            if (status === 'OFFLINE' || status === 'CRASHED') this.parsers.delete(id);
+        });
+
+        setInterval(() => this.pollAll(), POLL_INTERVAL);
+        logger.info('[Spark] Initialized.');
+    }
+
+    public async hasSpark(server: ServerConfig): Promise<boolean> {
+        if (server.software === 'Bedrock' || !server.workingDirectory) return false;
+        if (server.advancedFlags?.installSpark) return true;
+
+        for (const dir of ['plugins', 'mods']) {
+            const files = await fs.readdir(path.join(server.workingDirectory, dir)).catch(() => [] as string[]);
+            if (files.some(f => /^spark.*\.jar$/i.test(f))) return true;
+        }
+        return false;
+    }
+
+    private feed(serverId: string, line: string) {
+        let parser = this.parsers.get(serverId);
+        if (!parser) {
+            parser = new SparkOutputParser();
+            this.parsers.set(serverId, parser);
+        }
+        const update = parser.push(line);
+        if (!update) return;
+
+        // Merge with the rest of the same report (TPS and tick durations arrive on separate lines)
+        const current = processManager.getTickMetrics(serverId);
+        const base: TickMetrics = current.source === 'spark'
+            ? current
+            : { source: 'spark', tps: null, mspt: null, updatedAt: Date.now() };
+        processManager.setTickMetrics(serverId, { ...base, ...update, source: 'spark', updatedAt: Date.now(), reason: undefined });
+    }
+
+    private async pollAll() {
+        const { getServers } = require('../servers/ServerService');
+        for (const server of getServers() as ServerConfig[]) {
+            if (this.polling.has(server.id)) continue;
+            if (!processManager.isRunning(server.id) || processManager.getCachedStatus(server.id)?.status !== 'ONLINE') continue;
+
+            this.polling.add(server.id);
+            this.poll(server)
+                .catch(e => logger.debug(`[Spark] TPS poll failed for ${server.id}: ${e.message}`))
+                .finally(() => this.polling.delete(server.id));
+        }
+    }
+
+    // Polls only over RCON: over stdin the report would land in the console every 30s
+    private async poll(server: ServerConfig) {
+        if (!(await this.hasSpark(server)) || !(await rconService.isAvailable(server.id))) return;
+
+        const output = await rconService.exec(server.id, 'spark tps');
+        const parser = new SparkOutputParser();
+        const update: TickUpdate = {};
+        for (const line of output.split(/\r?\n/)) Object.assign(update, parser.push(line));
+
+        if (update.tps === undefined && update.mspt === undefined) return;
+        processManager.setTickMetrics(server.id, {
+            source: 'spark',
+            tps: update.tps ?? null,
+            mspt: update.mspt ?? null,
+            msptP95: update.msptP95 ?? null,
+            msptMax: update.msptMax ?? null,
+            updatedAt: Date.now()
+        });
+    }
+
+    public async listReports(serverId: string): Promise<SparkReport[]> {
+        const reports = await this.loadReports(serverId);
+        return [...reports].sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    public async getReport(serverId: string, reportId: string): Promise<SparkReport | undefined> {
+        return (await this.loadReports(serverId)).find(r => r.id === reportId);
+    }
+
+    /**
+     * Starts a spark profiler (sampling for `durationSeconds`) or health report.
+     * The command goes through the console so spark's result, including the
+     * viewer link it prints when the upload finishes, shows up in the log.
+     * Resolves once the run has started; the report completes in the background.
+     */
+    public async startReport(server: ServerConfig, kind: SparkReportKind, durationSeconds: number = 30, requestedBy?: string): Promise<SparkReport> {
+        if (kind !== 'profiler' && kind !== 'health') {
+            throw new AppError(400, 'INVALID_SPARK_REPORT', `Unknown report kind "${kind}". Available: profiler, health`);
+        }
+        if (kind === 'profiler' && (!Number.isInteger(durationSeconds) || durationSeconds < 10 || durationSeconds > 600)) {
+            throw new AppError(400, 'INVALID_SPARK_REPORT', 'Profiler duration must be between 10 and 600 seconds');
+        }
+        if (!processManager.isRunning(server.id) || processManager.getCachedStatus(server.id)?.status !== 'ONLINE') {
+            throw new AppError(409, 'SERVER_NOT_RUNNING', 'The server must be online to run spark');
+        }
+        if (!(await this.hasSpark(server))) {
+            throw new AppError(400, 'SPARK_NOT_INSTALLED', 'spark is not installed on this server. Enable "Install Spark" in the server settings.');
+        }
+        if (this.activeReports.has(server.id)) {
+            throw new AppError(409, 'SPARK_REPORT_RUNNING', 'A spark report is already running for this server');
+        }
+
+        const report: SparkReport = {
+            id: `spark-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+            serverId: server.id,
+            kind,
+            status: 'RUNNING',
+            startedAt: Date.now(),
+            durationSeconds: kind === 'profiler' ? durationSeconds : undefined,
+            output: [],
+            requestedBy
+        };
+        const reports = await this.loadReports(server.id);
+        reports.push(report);
+        reports.splice(0, Math.max(0, reports.length - MAX_REPORTS));
+        this.activeReports.set(server.id, report.id);
+        await this.saveReports(server.id);
+
+        const finish = async (status: 'COMPLETED' | 'FAILED', error?: string) => {
+            if (report.status !== 'RUNNING') return;
+            clearTimeout(timer);
+            processManager.off('log', onLog);
+            processManager.off('status', onStatus);
+            this.activeReports.delete(server.id);
+
+            report.status = status;
+            report.finishedAt = Date.now();
+            if (error) report.error = error;
+            await this.saveReports(server.id).catch(e => logger.error(`[Spark] Failed to save report ${report.id}: ${e.message}`));
+            logger.info(`[Spark] ${kind} report for ${server.id} ${status.toLowerCase()}${report.url ? `: ${report.url}` : ''}`);
+        };
+
+        const onLog = ({ id, line }: { id: string, line: string }) => {
+            if (id !== server.id) return;
+            for (const part of line.split(/\r?\n/)) {
+                if (!part.includes('[⚡]') && !/spark/i.test(part)) continue;
+                if (report.output.length < MAX_REPORT_OUTPUT) report.output.push(stripLogPrefix(part));
+
+                const url = part.match(VIEWER_URL);
+                if (url) {
+                    report.url = url[0];
+                    finish('COMPLETED');
+                } else if (/already (running|in progress)/i.test(part)) {
+                    finish('FAILED', stripLogPrefix(part).trim());
+                }
+            }
+        };
+        const onStatus = ({ id, status }: { id: string, status: string }) => {
+            if (id === server.id && (status === 'OFFLINE' || status === 'CRASHED')) {
+                finish('FAILED', 'The server stopped before the report finished');
+            }
+        };
+
+        // Uploading can take a while after sampling ends
+        const timeoutMs = ((kind === 'profiler' ? durationSeconds : 0) + 120) * 1000;
+        const timer = setTimeout(() => finish('FAILED', 'spark did not report a result in time'), timeoutMs);
+        processManager.on('log', onLog);
+        processManager.on('status', onStatus);
+
+        const command = kind === 'profiler'
+            ? `spark profiler start --timeout ${durationSeconds}`
+            : 'spark health --upload';
+        logger.info(`[Spark] Starting ${kind} report for ${server.id}${requestedBy ? ` (requested by ${requestedBy})` : ''}`);
+        processManager.sendCommand(server.id, command);
+
+        return report;
+    }
+
+    private async loadReports(serverId: string): Promise<SparkReport[]> {
+        let reports = this.reports.get(serverId);
+        if (!reports) {
+            const file = path.join(REPORTS_DIR, `${serverId}.json`);
+            reports = (await fs.pathExists(file)) ? await fs.readJson(file).catch(() => []) : [];
+            this.reports.set(serverId, reports!);
+        }
+        return reports!;
+    }
+
+    private async saveReports(serverId: string) {
+        await fs.ensureDir(REPORTS_DIR);
+        await fs.writeJson(path.join(REPORTS_DIR, `${serverId}.json`), this.reports.get(serverId) || [], { spaces: 2 });
+    }
+}
+
+export const sparkService = new SparkService();
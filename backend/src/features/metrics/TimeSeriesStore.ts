@@ -0,0 +1,354 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DATA_DIR } from '../../constants';
+import { logger } from '../../utils/logger';
+import { MetricAggregation, MetricPoint, MetricResolution } from '@shared/types';
+
+const METRICS_DIR = path.join(DATA_DIR, 'metrics');
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const FLUSH_INTERVAL = 30 * 1000;
+const PRUNE_INTERVAL = HOUR;
+const MAX_POINTS = 1000; // Per query; the step is widened to stay under it
+
+interface TierSpec {
+    resolution: number;  // Bucket width, 0 for raw samples
+    retention: number;
+    partition: number;   // Each file covers this much time, so expiry is a file delete
+}
+
+const TIERS: Record<MetricResolution, TierSpec> = {
+    raw: { resolution: 0, retention: DAY, partition: HOUR },
+    '1m': { resolution: MINUTE, retention: 30 * DAY, partition: DAY },
+    '1h': { resolution: HOUR, retention: 365 * DAY, partition: 7 * DAY }
+};
+
+// Raw rows are [t, value]; downsampled rows are [t, min, max, sum, count, last]
+interface Bucket {
+    t: number;
+    min: number;
+    max: number;
+    sum: number;
+    count: number;
+    last: number;
+}
+
+interface SeriesState {
+    dir: string;
+    minute: Bucket | null;
+    hour: Bucket | null;
+}
+
+const SAFE_SEGMENT = /^[\w-]+$/;
+
+const emptyBucket = (t: number): Bucket => ({ t, min: Infinity, max: -Infinity, sum: 0, count: 0, last: 0 });
+
+function merge(target: Bucket, source: Bucket): Bucket {
+    target.min = Math.min(target.min, source.min);
+    target.max = Math.max(target.max, source.max);
+    target.sum += source.sum;
+    target.count += source.count;
+    target.last = source.last;
+    return target;
+}
+
+const sample = (t: number, value: number): Bucket => ({ t, min: value, max: value, sum: value, count: 1, last: value });
+
+function parseRow(tier: MetricResolution, text: string): Bucket | null {
+    try {
+        const row = JSON.parse(text);
+        if (tier === 'raw') return sample(row[0], row[1]);
+        return { t: row[0], min: row[1], max: row[2], sum: row[3], count: row[4], last: row[5] };
+    } catch {
+        return null; // Torn write from a hard shutdown
+    }
+}
+
+const serializeBucket = (b: Bucket) => JSON.stringify([b.t, b.min, b.max, b.sum, b.count, b.last]);
+
+function aggregate(bucket: Bucket, aggregation: MetricAggregation): number {
+    switch (aggregation) {
+        case 'min': return bucket.min;
+        case 'max': return bucket.max;
+        case 'sum': return bucket.sum;
+        case 'count': return bucket.count;
+        case 'last': return bucket.last;
+        default: return bucket.count > 0 ? bucket.sum / bucket.count : 0;
+    }
+}
+
+/**
+ * Embedded time-series store for numeric metrics. Every sample is kept for a
+ * day, per-minute buckets for 30 days and per-hour buckets for a year. Each
+ * series lives in its own directory with one NDJSON file per tier and time
+ * partition, so writes are appends and expiry deletes whole files.
+ *
+ * Downsampled buckets are built in memory while they are open and written when
+ * they close. After a restart the open buckets are rebuilt from the finer tier.
+ */
+export class TimeSeriesStore {
+    private series: Map<string, SeriesState> = new Map();
+    private pending: Map<string, string[]> = new Map(); // File → rows not yet appended
+    private writing: Promise<void> = Promise.resolve();
+    private flushTimer: NodeJS.Timeout | null = null;
+    private pruneTimer: NodeJS.Timeout | null = null;
+
+    constructor(private rootDir: string = METRICS_DIR) {}
+
+    public async initialize() {
+        await fs.ensureDir(this.rootDir);
+        for (const [entity, metric] of await this.listStoredSeries()) {
+            await this.restoreOpenBuckets(entity, metric).catch(e => {
+                logger.warn(`[Metrics] Could not restore ${entity}/${metric}: ${e.message}`);
+            });
+        }
+
+        this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+        this.pruneTimer = setInterval(() => {
+            this.prune().catch(e => logger.error(`[Metrics] Prune failed: ${e.message}`));
+        }, PRUNE_INTERVAL);
+        this.prune().catch(() => {});
+    }
+
+    /**
+     * Records one sample. `entity` is "<kind>:<id>", e.g. "server:abc".
+     */
+    public record(entity: string, metric: string, value: number, t: number = Date.now()) {
+        if (!Number.isFinite(value)) return;
+        const state = this.getState(entity, metric);
+        if (!state) return;
+
+        const minuteStart = Math.floor(t / MINUTE) * MINUTE;
+        if (state.minute && state.minute.t !== minuteStart) this.closeMinute(state);
+        state.minute = merge(state.minute ?? emptyBucket(minuteStart), sample(t, value));
+
+        this.queue(state.dir, 'raw', t, JSON.stringify([t, value]));
+    }
+
+    /**
+     * Aggregates a metric over [from, to] into buckets of `step` ms. The tier is
+     * the finest one that still covers `from` unless `resolution` is given.
+     */
+    public async query(entity: string, metric: string, options: {
+        from: number;
+        to: number;
+        step?: number;
+        aggregation?: MetricAggregation;
+        resolution?: MetricResolution;
+    }): Promise<{ resolution: MetricResolution, step: number, points: MetricPoint[] }> {
+        const { from, to } = options;
+        const aggregation = options.aggregation || 'avg';
+        const resolution = options.resolution || this.pickResolution(from);
+        const tier = TIERS[resolution];
+
+        const minStep = Math.max(tier.resolution, 1000, Math.ceil((to - from) / MAX_POINTS));
+        let step = Math.max(options.step || 0, minStep);
+        if (tier.resolution > 0) step = Math.ceil(step / tier.resolution) * tier.resolution;
+
+        await this.flush();
+
+        const state = this.getState(entity, metric);
+        if (!state) return { resolution, step, points: [] };
+
+        const rows = await this.readRange(state.dir, resolution, from, to);
+        // Buckets still open in memory have not been written yet
+        const open = resolution === '1m' ? state.minute : resolution === '1h' ? this.openHour(state) : null;
+        if (open && open.count > 0 && open.t >= from && open.t <= to) rows.push(open);
+
+        const grouped = new Map<number, Bucket>();
+        for (const row of rows) {
+            const key = Math.floor(row.t / step) * step;
+            grouped.set(key, merge(grouped.get(key) ?? emptyBucket(key), row));
+        }
+
+        const points = Array.from(grouped.values())
+            .sort((a, b) => a.t - b.t)
+            .map(bucket => ({ t: bucket.t, value: aggregate(bucket, aggregation) }));
+        return { resolution, step, points };
+    }
+
+    public pickResolution(from: number): MetricResolution {
+        const age = Date.now() - from;
+        if (age <= TIERS.raw.retention) return 'raw';
+        if (age <= TIERS['1m'].retention) return '1m';
+        return '1h';
+    }
+
+    /**
+     * Closes buckets whose time is up and appends everything queued.
+     */
+    public flush(): Promise<void> {
+        const now = Date.now();
+        for (const state of this.series.values()) {
+            if (state.minute && state.minute.t + MINUTE <= now) this.closeMinute(state);
+            if (state.hour && state.hour.t + HOUR <= now) this.closeHour(state);
+        }
+
+        if (this.pending.size === 0) return this.writing;
+        const batch = this.pending;
+        this.pending = new Map();
+
+        this.writing = this.writing
+            .then(async () => {
+                for (const [file, rows] of batch) {
+                    await fs.ensureDir(path.dirname(file));
+                    await fs.appendFile(file, rows.join('\n') + '\n');
+                }
+            })
+            .catch(e => logger.error(`[Metrics] Write failed: ${e.message}`));
+        return this.writing;
+    }
+
+    private closeMinute(state: SeriesState) {
+        const minute = state.minute;
+        state.minute = null;
+        if (!minute || minute.count === 0) return;
+        this.queue(state.dir, '1m', minute.t, serializeBucket(minute));
+
+        const hourStart = Math.floor(minute.t / HOUR) * HOUR;
+        if (state.hour && state.hour.t !== hourStart) this.closeHour(state);
+        state.hour = merge(state.hour ?? emptyBucket(hourStart), minute);
+    }
+
+    private closeHour(state: SeriesState) {
+        const hour = state.hour;
+        state.hour = null;
+        if (!hour || hour.count === 0) return;
+        this.queue(state.dir, '1h', hour.t, serializeBucket(hour));
+    }
+
+    // The hour bucket only holds closed minutes; include the open one too
+    private openHour(state: SeriesState): Bucket | null {
+        if (!state.hour) return state.minute ? { ...state.minute, t: Math.floor(state.minute.t / HOUR) * HOUR } : null;
+        const hour = { ...state.hour };
+        if (state.minute && Math.floor(state.minute.t / HOUR) * HOUR === hour.t) merge(hour, state.minute);
+        return hour;
+    }
+
+    private queue(dir: string, tier: MetricResolution, t: number, row: string) {
+        const file = this.partitionFile(dir, tier, t);
+        const rows = this.pending.get(file);
+        if (rows) rows.push(row);
+        else this.pending.set(file, [row]);
+    }
+
+    private partitionFile(dir: string, tier: MetricResolution, t: number): string {
+        const span = TIERS[tier].partition;
+        return path.join(dir, tier, `${Math.floor(t / span) * span}.ndjson`);
+    }
+
+    private getState(entity: string, metric: string): SeriesState | null {
+        const key = `${entity}/${metric}`;
+        let state = this.series.get(key);
+        if (!state) {
+            const [kind, id] = entity.split(':');
+            if (![kind, id, metric].every(part => part && SAFE_SEGMENT.test(part))) return null;
+            state = { dir: path.join(this.rootDir, kind, id, metric), minute: null, hour: null };
+            this.series.set(key, state);
+        }
+        return state;
+    }
+
+    private async readRange(dir: string, tier: MetricResolution, from: number, to: number): Promise<Bucket[]> {
+        const tierDir = path.join(dir, tier);
+        if (!(await fs.pathExists(tierDir))) return [];
+
+        const span = TIERS[tier].partition;
+        const rows: Bucket[] = [];
+        for (const file of await fs.readdir(tierDir)) {
+            const start = parseInt(file);
+            if (isNaN(start) || start + span <= from || start > to) continue;
+
+            const content = await fs.readFile(path.join(tierDir, file), 'utf8');
+            for (const text of content.split('\n')) {
+                if (!text) continue;
+                const row = parseRow(tier, text);
+                if (row && row.t >= from && row.t <= to) rows.push(row);
+            }
+        }
+        return rows;
+    }
+
+    private async readLatestPartition(dir: string, tier: MetricResolution): Promise<Bucket[]> {
+        const tierDir = path.join(dir, tier);
+        if (!(await fs.pathExists(tierDir))) return [];
+        const starts = (await fs.readdir(tierDir)).map(f => parseInt(f)).filter(n => !isNaN(n));
+        if (starts.length === 0) return [];
+        const latest = Math.max(...starts);
+        return this.readRange(dir, tier, latest, Infinity);
+    }
+
+    /**
+     * Rebuilds the minute and hour buckets that were open when the panel stopped,
+     * unless the coarser tier already has them.
+     */
+    private async restoreOpenBuckets(entity: string, metric: string) {
+        const state = this.getState(entity, metric);
+        if (!state) return;
+
+        const raw = await this.readLatestPartition(state.dir, 'raw');
+        const minutes = await this.readLatestPartition(state.dir, '1m');
+        const hours = await this.readLatestPartition(state.dir, '1h');
+        const lastMinute = minutes.reduce((max, b) => Math.max(max, b.t), -Infinity);
+        const lastHour = hours.reduce((max, b) => Math.max(max, b.t), -Infinity);
+
+        const lastSample = raw.reduce((max, b) => Math.max(max, b.t), -Infinity);
+        if (lastSample !== -Infinity) {
+            const minuteStart = Math.floor(lastSample / MINUTE) * MINUTE;
+            if (lastMinute < minuteStart) {
+                state.minute = raw.filter(b => b.t >= minuteStart).reduce(merge, emptyBucket(minuteStart));
+            }
+        }
+
+        // Closed minutes always feed the open hour, so it is the hour of the last one
+        if (lastMinute !== -Infinity) {
+            const hourStart = Math.floor(lastMinute / HOUR) * HOUR;
+            if (lastHour < hourStart) {
+                state.hour = minutes.filter(b => b.t >= hourStart).reduce(merge, emptyBucket(hourStart));
+            }
+        }
+    }
+
+    private async listStoredSeries(): Promise<[string, string][]> {
+        const result: [string, string][] = [];
+        for (const kind of await fs.readdir(this.rootDir)) {
+            const kindDir = path.join(this.rootDir, kind);
+            if (!(await fs.stat(kindDir)).isDirectory()) continue;
+            for (const id of await fs.readdir(kindDir)) {
+                for (const metric of await fs.readdir(path.join(kindDir, id)).catch(() => [] as string[])) {
+                    result.push([`${kind}:${id}`, metric]);
+                }
+            }
+        }
+        return result;
+    }
+
+    private async prune() {
+        const now = Date.now();
+        for (const [entity, metric] of await this.listStoredSeries()) {
+            const state = this.getState(entity, metric);
+            if (!state) continue;
+
+            for (const tier of Object.keys(TIERS) as MetricResolution[]) {
+                const { retention, partition } = TIERS[tier];
+                const tierDir = path.join(state.dir, tier);
+                if (!(await fs.pathExists(tierDir))) continue;
+
+                for (const file of await fs.readdir(tierDir)) {
+                    const start = parseInt(file);
+                    if (!isNaN(start) && start + partition < now - retention) {
+                        await fs.remove(path.join(tierDir, file));
+                    }
+                }
+                if ((await fs.readdir(tierDir)).length === 0) await fs.remove(tierDir);
+            }
+
+            // Series nobody has written to for a year (e.g. deleted servers)
+            if (!(await fs.pathExists(state.dir)) || (await fs.readdir(state.dir)).length === 0) {
+                await fs.remove(state.dir);
+                this.series.delete(`${entity}/${metric}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,229 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '../../utils/logger';
+import { sendToAgent, isAgentConnected } from './NodeAgentHandler';
+
+/**
+ * BackupTransferService
+ *
+ * Moves server files between a Node Agent and the panel so servers hosted on
+ * remote nodes can be backed up and restored. The panel drives both directions.
+ *
+ * Pull (backup):
+ *   1. `agent:backup-manifest` → agent lists the server directory (path, size, mtime)
+ *   2. `agent:backup-read` per chunk → agent returns base64 data and the chunk's SHA-256
+ *
+ * Push (restore):
+ *   1. `agent:restore-begin` → agent creates an empty staging directory next to the server
+ *   2. `agent:restore-chunk` per chunk → agent checks the SHA-256 and writes at the given offset
+ *   3. `agent:restore-commit` → agent swaps the staging directory in (old files kept until it succeeds)
+ *   4. `agent:restore-abort` on failure → agent discards the staging directory
+ *
+ * Chunks are written by offset, so a retried chunk never duplicates data.
+ */
+
+const CHUNK_SIZE = 256 * 1024; // Stays well under Socket.IO's 1 MB message limit once base64-encoded
+const MAX_RETRIES = 3;
+
+export interface RemoteFileEntry {
+    relativePath: string;
+    size: number;
+    mtimeMs: number;
+}
+
+export interface BackupTransferProgress {
+    totalBytes: number;
+    transferredBytes: number;
+    currentFile?: string;
+}
+
+type ProgressCallback = (progress: BackupTransferProgress) => void;
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Relative paths from the other side are never trusted to stay inside the target
+function resolveInside(baseDir: string, relativePath: string): string {
+    const segments = String(relativePath).replace(/\\/g, '/').split('/').filter(s => s && s !== '.');
+    if (segments.length === 0 || segments.includes('..')) {
+        throw new Error(`Refusing unsafe path "${relativePath}" from node`);
+    }
+    return path.join(baseDir, ...segments);
+}
+
+async function withRetries<T>(nodeId: string, label: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        if (!isAgentConnected(nodeId)) {
+            throw new Error(`Transfer interrupted: Node Agent "${nodeId}" disconnected.`);
+        }
+        try {
+            return await fn();
+        } catch (err: any) {
+            if (attempt >= MAX_RETRIES) throw new Error(`${label} failed after ${MAX_RETRIES} attempts: ${err.message}`);
+            await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+    }
+}
+
+/**
+ * Copies a node-hosted server directory into `targetDir` on the panel.
+ * Files rejected by `include` are skipped; files that vanish mid-transfer are
+ * skipped with a warning. Modification times are preserved.
+ */
+export async function pullServerFiles(
+    nodeId: string,
+    serverId: string,
+    cwd: string,
+    targetDir: string,
+    include: (relativePath: string) => boolean,
+    onProgress?: ProgressCallback
+): Promise<{ files: number, bytes: number }> {
+    if (!isAgentConnected(nodeId)) {
+        throw new Error(`Cannot back up server: Node Agent "${nodeId}" is not connected.`);
+    }
+
+    const manifest: { files: RemoteFileEntry[], directories: string[] } = await sendToAgent(nodeId, 'agent:backup-manifest', { serverId, cwd }, 120000);
+    const files = (manifest?.files || []).filter(f => include(f.relativePath));
+    const directories = (manifest?.directories || []).filter(d => include(d));
+
+    const progress: BackupTransferProgress = {
+        totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+        transferredBytes: 0
+    };
+    logger.info(`[BackupTransfer] Pulling ${files.length} files (${Math.round(progress.totalBytes / 1024 / 1024 * 10) / 10} MB) of ${serverId} from node ${nodeId}`);
+    onProgress?.(progress);
+
+    await fs.ensureDir(targetDir);
+    for (const dir of directories) {
+        await fs.ensureDir(resolveInside(targetDir, dir));
+    }
+
+    let copied = 0;
+    for (const file of files) {
+        const target = resolveInside(targetDir, file.relativePath);
+        progress.currentFile = file.relativePath;
+        onProgress?.(progress);
+
+        await fs.ensureDir(path.dirname(target));
+        const handle = await fs.promises.open(target, 'w');
+        let offset = 0;
+        let missing = false;
+        try {
+            while (true) {
+                const chunk = await withRetries(nodeId, `Reading ${file.relativePath}`, async () => {
+                    const res = await sendToAgent(nodeId, 'agent:backup-read', {
+                        serverId,
+                        cwd,
+                        relativePath: file.relativePath,
+                        offset,
+                        length: CHUNK_SIZE
+                    }, 30000);
+                    if (res?.missing) return null;
+                    const data = Buffer.from(res?.data || '', 'base64');
+                    if (sha256(data) !== res?.sha256) throw new Error('chunk checksum mismatch');
+                    return { data, eof: !!res.eof };
+                });
+
+                if (!chunk) {
+                    missing = true;
+                    break;
+                }
+                await handle.write(chunk.data, 0, chunk.data.length, offset);
+                offset += chunk.data.length;
+                progress.transferredBytes += chunk.data.length;
+                if (chunk.eof || chunk.data.length === 0) break;
+                onProgress?.(progress);
+            }
+        } finally {
+            await handle.close();
+        }
+
+        if (missing) {
+            // Deleted while we were copying (e.g. a rotated log)
+            logger.warn(`[BackupTransfer] ${file.relativePath} disappeared on node ${nodeId}, skipping.`);
+            await fs.remove(target);
+            continue;
+        }
+        await fs.utimes(target, new Date(file.mtimeMs), new Date(file.mtimeMs)).catch(() => {});
+        copied++;
+    }
+
+    progress.currentFile = undefined;
+    onProgress?.(progress);
+    logger.info(`[BackupTransfer] ✓ Pulled ${copied} files of ${serverId} from node ${nodeId}`);
+    return { files: copied, bytes: progress.transferredBytes };
+}
+
+async function walk(baseDir: string, relDir: string, files: string[], directories: string[]): Promise<void> {
+    for (const entry of await fs.readdir(path.join(baseDir, relDir), { withFileTypes: true })) {
+        const rel = relDir ? `${relDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            directories.push(rel);
+            await walk(baseDir, rel, files, directories);
+        } else if (entry.isFile()) {
+            files.push(rel);
+        }
+    }
+}
+
+/**
+ * Replaces a node-hosted server directory with the contents of `sourceDir`.
+ * The agent only swaps directories once every file has arrived intact.
+ */
+export async function pushServerFiles(
+    nodeId: string,
+    serverId: string,
+    cwd: string,
+    sourceDir: string,
+    onProgress?: ProgressCallback
+): Promise<void> {
+    if (!isAgentConnected(nodeId)) {
+        throw new Error(`Cannot restore server: Node Agent "${nodeId}" is not connected.`);
+    }
+
+    const files: string[] = [];
+    const directories: string[] = [];
+    await walk(sourceDir, '', files, directories);
+
+    const progress: BackupTransferProgress = { totalBytes: 0, transferredBytes: 0 };
+    for (const file of files) progress.totalBytes += (await fs.stat(path.join(sourceDir, file))).size;
+    onProgress?.(progress);
+
+    const transferId = crypto.randomUUID();
+    await sendToAgent(nodeId, 'agent:restore-begin', { serverId, cwd, transferId, directories }, 30000);
+    logger.info(`[BackupTransfer] Pushing ${files.length} files to node ${nodeId} for ${serverId} (transfer ${transferId})`);
+
+    try {
+        for (const file of files) {
+            progress.currentFile = file;
+            onProgress?.(progress);
+
+            let offset = 0;
+            const send = (data: Buffer) => withRetries(nodeId, `Sending ${file}`, () => sendToAgent(nodeId, 'agent:restore-chunk', {
+                transferId,
+                relativePath: file,
+                offset,
+                data: data.toString('base64'),
+                sha256: sha256(data)
+            }, 30000));
+
+            for await (const chunk of fs.createReadStream(path.join(sourceDir, file), { highWaterMark: CHUNK_SIZE })) {
+                await send(chunk as Buffer);
+                offset += (chunk as Buffer).length;
+                progress.transferredBytes += (chunk as Buffer).length;
+                onProgress?.(progress);
+            }
+            // Empty files still have to be created
+            if (offset === 0) await send(Buffer.alloc(0));
+        }
+
+        await sendToAgent(nodeId, 'agent:restore-commit', { transferId }, 120000);
+    } catch (err) {
+        await sendToAgent(nodeId, 'agent:restore-abort', { transferId }, 30000).catch(() => {});
+        throw err;
+    }
+
+    progress.currentFile = undefined;
+    onProgress?.(progress);
+    logger.info(`[BackupTransfer] ✓ Restore pushed to node ${nodeId} for ${serverId}`);
+}
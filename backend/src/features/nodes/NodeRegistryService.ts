@@ -402,6 +402,7 @@ export class NodeRegistryService extends EventEmitter {
         
         this.scheduleSave(); // Debounced — heartbeats are frequent
         this.emit('status', { nodeId, status: node.status, node });
+        if (health) this.emit('heartbeat', { nodeId, health });
         return true;
     }
 
@@ -4,6 +4,8 @@ import { nodeSchedulerService } from './NodeSchedulerService';
 import { systemSettingsService } from '../system/SystemSettingsService';
 import { verifyToken, requireRole } from '../../middleware/authMiddleware';
 import { nodeEnrollmentService } from './NodeEnrollmentService';
+import { metricsService, parseMetricQuery } from '../metrics/MetricsService';
+import { AppError } from '../../utils/AppError';
 
 const router = Router();
 
@@ -221,6 +223,22 @@ router.get('/:id/health', verifyToken, requireRole(['OWNER', 'ADMIN']), requireD
     }
 });
 
+/**
+ * GET /api/nodes/:id/metrics/:metric — Health history (?from=&to=&step=&agg=)
+ */
+router.get('/:id/metrics/:metric', verifyToken, requireRole(['OWNER', 'ADMIN']), requireDistributedNodes, async (req, res) => {
+    try {
+        if (!nodeRegistryService.getNode(req.params.id)) {
+            return res.status(404).json({ error: 'Node not found.' });
+        }
+        res.json(await metricsService.queryNode(req.params.id, req.params.metric, parseMetricQuery(req.query)));
+    } catch (error: any) {
+        if (error instanceof AppError) return res.status(error.statusCode).json({ error: error.message, code: error.errorCode });
+        console.error('[Nodes] Failed to query node metrics:', error);
+        res.status(500).json({ error: 'Failed to query node metrics' });
+    }
+});
+
 /**
  * POST /api/nodes/:id/fix — Trigger a capability fix on the agent
  */
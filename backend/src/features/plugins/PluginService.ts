@@ -6,6 +6,7 @@ import { marketplaceRegistry, getTargetDir, supportsPlugins } from './Marketplac
 import { installerService } from '../installer/InstallerService';
 import { serverRepository } from '../../storage/ServerRepository';
 import { pluginRepository } from '../../storage/PluginRepository';
+import { safetySnapshotService } from '../backups/SafetySnapshotService';
 import { logger } from '../../utils/logger';
 import AdmZip from 'adm-zip';
 
@@ -244,7 +245,7 @@ export class PluginService {
     /**
      * Update a plugin to the latest version.
      */
-    async update(serverId: string, pluginId: string): Promise<InstalledPlugin> {
+    async update(serverId: string, pluginId: string, actor = 'system'): Promise<InstalledPlugin> {
         const server = serverRepository.findById(serverId);
         if (!server) throw new Error('Server not found');
 
@@ -260,7 +261,16 @@ export class PluginService {
         // Resolve new download
         const downloadInfo = await marketplaceRegistry.getDownloadUrl(plugin.sourceId, plugin.source, server.version);
 
-        const targetDir = path.join(server.workingDirectory, getTargetDir(server.software));
+        const relDir = getTargetDir(server.software);
+        const targetDir = path.join(server.workingDirectory, relDir);
+
+        // Keep the current JAR (and the record pointing at it) so the update can be undone
+        await safetySnapshotService.capture(serverId, {
+            operation: 'PLUGIN_UPDATE',
+            summary: `Update ${plugin.name} ${plugin.version} → ${downloadInfo.version}`,
+            actor,
+            restoreState: { plugin: { ...plugin } }
+        }, [plugin.fileName, `${plugin.fileName}.disabled`, downloadInfo.fileName, `${downloadInfo.fileName}.disabled`].map(f => path.join(relDir, f)));
         
         // Remove old JAR
         const oldPath = path.join(targetDir, plugin.fileName);
@@ -0,0 +1,230 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ResourceLimitUsage, ServerConfig } from '@shared/types';
+import { logger } from '../../utils/logger';
+
+const CGROUP_ROOT = '/sys/fs/cgroup';
+const CONTROLLERS = ['memory', 'cpu', 'io', 'pids'];
+const CPU_PERIOD = 100000; // µs
+
+export interface CgroupLimits {
+    memoryMaxBytes: number;
+    cpuQuota: number; // Percent of one core, 0 = unlimited
+    cpuWeight: number;
+    ioWeight: number;
+    pidsMax: number;  // 0 = unlimited
+}
+
+export interface CgroupSupport {
+    available: boolean;
+    reason?: string;
+    parent?: string;        // Directory server cgroups are created in
+    controllers: string[];
+}
+
+interface ServerGroup {
+    path: string;
+    oomKillsAtStart: number;
+    lastCpu: { periods: number, throttled: number };
+}
+
+const readFlat = async (file: string): Promise<Record<string, number>> => {
+    const content = await fs.readFile(file, 'utf8').catch(() => '');
+    const values: Record<string, number> = {};
+    for (const line of content.split('\n')) {
+        const [key, value] = line.trim().split(/\s+/);
+        if (key && value !== undefined) values[key] = Number(value);
+    }
+    return values;
+};
+
+const readNumber = async (file: string): Promise<number | null> => {
+    const content = (await fs.readFile(file, 'utf8').catch(() => '')).trim();
+    if (!content || content === 'max') return null;
+    return Number(content);
+};
+
+/**
+ * Places native servers in their own cgroup v2 group with memory, CPU, IO and
+ * pids limits. Needs a writable (delegated) cgroup: the one the panel runs in,
+ * e.g. a systemd service with `Delegate=yes`, or a directory named by
+ * CRAFTCOMMAND_CGROUP. Processes cannot share a cgroup with child groups that
+ * have controllers, so the panel first moves itself into a `panel` leaf.
+ * When none of this is possible servers simply start without limits.
+ */
+class CgroupManager {
+    private support: Promise<CgroupSupport> | null = null;
+    private groups: Map<string, ServerGroup> = new Map();
+    private lastUsage: Map<string, ResourceLimitUsage> = new Map();
+
+    public getSupport(): Promise<CgroupSupport> {
+        if (!this.support) {
+            this.support = this.detect().catch(e => ({ available: false, reason: e.message, controllers: [] }));
+            this.support.then(s => {
+                if (s.available) logger.info(`[Cgroups] Resource limits available in ${s.parent} (${s.controllers.join(', ')})`);
+                else logger.info(`[Cgroups] Resource limits unavailable: ${s.reason}`);
+            });
+        }
+        return this.support;
+    }
+
+    /**
+     * Limits for a server, or null when it does not use them. memory.max covers
+     * the heap plus native/metaspace overhead, so the kernel only steps in after
+     * the JVM has used more than it was configured for.
+     */
+    public limitsFor(server: ServerConfig): CgroupLimits | null {
+        const config = server.resourceLimits;
+        if (!config?.enabled) return null;
+
+        const heapMB = (server.ram || 1) * 1024;
+        const overheadMB = config.memoryOverheadMB || Math.max(512, Math.round(heapMB * 0.25));
+        return {
+            memoryMaxBytes: (heapMB + overheadMB) * 1024 * 1024,
+            cpuQuota: config.cpuQuota || 0,
+            cpuWeight: config.cpuWeight || 100,
+            ioWeight: config.ioWeight || 100,
+            pidsMax: config.pidsMax || 0
+        };
+    }
+
+    /**
+     * Creates (or resets) the server's cgroup and applies the limits. Returns the
+     * cgroup.procs file the server's shell should write its pid to.
+     */
+    public async create(serverId: string, limits: CgroupLimits): Promise<string> {
+        const support = await this.getSupport();
+        if (!support.available) throw new Error(support.reason);
+
+        const dir = path.join(support.parent!, `server-${serverId}`);
+        await fs.ensureDir(dir);
+
+        const apply = async (file: string, value: string, controller: string) => {
+            if (!support.controllers.includes(controller)) return;
+            try {
+                await fs.writeFile(path.join(dir, file), value);
+            } catch (e: any) {
+                // io.weight only exists with a weight-based IO scheduler (BFQ)
+                logger.warn(`[Cgroups] Could not set ${file} for ${serverId}: ${e.message}`);
+            }
+        };
+        await apply('memory.max', String(limits.memoryMaxBytes), 'memory');
+        await apply('cpu.max', limits.cpuQuota > 0 ? `${Math.round(limits.cpuQuota / 100 * CPU_PERIOD)} ${CPU_PERIOD}` : `max ${CPU_PERIOD}`, 'cpu');
+        await apply('cpu.weight', String(Math.min(10000, Math.max(1, limits.cpuWeight))), 'cpu');
+        await apply('io.weight', `default ${Math.min(10000, Math.max(1, limits.ioWeight))}`, 'io');
+        await apply('pids.max', limits.pidsMax > 0 ? String(limits.pidsMax) : 'max', 'pids');
+
+        const events = await readFlat(path.join(dir, 'memory.events'));
+        const cpu = await readFlat(path.join(dir, 'cpu.stat'));
+        this.groups.set(serverId, {
+            path: dir,
+            oomKillsAtStart: events.oom_kill || 0,
+            lastCpu: { periods: cpu.nr_periods || 0, throttled: cpu.nr_throttled || 0 }
+        });
+        this.lastUsage.delete(serverId);
+        return path.join(dir, 'cgroup.procs');
+    }
+
+    public isLimited(serverId: string): boolean {
+        return this.groups.has(serverId);
+    }
+
+    public async getUsage(serverId: string): Promise<ResourceLimitUsage | null> {
+        const group = this.groups.get(serverId);
+        if (!group) return null;
+
+        const events = await readFlat(path.join(group.path, 'memory.events'));
+        const cpu = await readFlat(path.join(group.path, 'cpu.stat'));
+        const periods = (cpu.nr_periods || 0) - group.lastCpu.periods;
+        const throttled = (cpu.nr_throttled || 0) - group.lastCpu.throttled;
+        group.lastCpu = { periods: cpu.nr_periods || 0, throttled: cpu.nr_throttled || 0 };
+
+        const memoryMax = await readNumber(path.join(group.path, 'memory.max'));
+        const usage: ResourceLimitUsage = {
+            memoryMaxMB: memoryMax !== null ? Math.round(memoryMax / 1024 / 1024) : null,
+            memoryCurrentMB: Math.round(((await readNumber(path.join(group.path, 'memory.current'))) || 0) / 1024 / 1024),
+            oomKills: Math.max(0, (events.oom_kill || 0) - group.oomKillsAtStart),
+            throttledPercent: periods > 0 ? Math.round(throttled / periods * 100) : 0,
+            pidsCurrent: (await readNumber(path.join(group.path, 'pids.current'))) || 0,
+            pidsMax: await readNumber(path.join(group.path, 'pids.max'))
+        };
+        this.lastUsage.set(serverId, usage);
+        return usage;
+    }
+
+    // Counters from the last sample, kept after the server stops for crash diagnosis
+    public getLastUsage(serverId: string): ResourceLimitUsage | undefined {
+        return this.lastUsage.get(serverId);
+    }
+
+    /**
+     * Takes a final sample and removes the server's cgroup once its processes are
+     * gone. Leftover processes (daemonized children) are killed with it.
+     */
+    public async release(serverId: string): Promise<ResourceLimitUsage | null> {
+        const group = this.groups.get(serverId);
+        if (!group) return null;
+
+        const usage = await this.getUsage(serverId);
+        this.groups.delete(serverId);
+
+        const procs = (await fs.readFile(path.join(group.path, 'cgroup.procs'), 'utf8').catch(() => '')).trim();
+        if (procs) {
+            await fs.writeFile(path.join(group.path, 'cgroup.kill'), '1').catch(() => {});
+            await new Promise(r => setTimeout(r, 500));
+        }
+        await fs.rmdir(group.path).catch(e => logger.warn(`[Cgroups] Could not remove ${group.path}: ${e.message}`));
+        return usage;
+    }
+
+    private async detect(): Promise<CgroupSupport> {
+        const unavailable = (reason: string): CgroupSupport => ({ available: false, reason, controllers: [] });
+
+        if (process.platform !== 'linux') return unavailable('cgroups are only available on Linux');
+        if (!(await fs.pathExists(path.join(CGROUP_ROOT, 'cgroup.controllers')))) {
+            return unavailable('cgroup v2 is not mounted at /sys/fs/cgroup (cgroup v1 and hybrid hosts are not supported)');
+        }
+
+        let base = process.env.CRAFTCOMMAND_CGROUP;
+        if (!base) {
+            const self = await fs.readFile('/proc/self/cgroup', 'utf8');
+            const relative = self.split('\n').find(l => l.startsWith('0::'))?.slice(3).trim();
+            if (!relative) return unavailable('could not determine the panel\'s own cgroup');
+            base = path.join(CGROUP_ROOT, relative);
+        }
+
+        try {
+            await fs.access(path.join(base, 'cgroup.subtree_control'), fs.constants.W_OK);
+            await fs.access(base, fs.constants.W_OK);
+        } catch {
+            return unavailable(`${base} is not writable by the panel. Delegate it (systemd: Delegate=yes) or set CRAFTCOMMAND_CGROUP to a delegated cgroup.`);
+        }
+
+        const offered = (await fs.readFile(path.join(base, 'cgroup.controllers'), 'utf8')).trim().split(/\s+/);
+        const wanted = CONTROLLERS.filter(c => offered.includes(c));
+        if (wanted.length === 0) return unavailable(`no memory/cpu/io/pids controllers are delegated to ${base}`);
+
+        // The true root cgroup may hold processes and still enable controllers; anything below may not
+        const isRoot = !(await fs.pathExists(path.join(base, 'cgroup.type')));
+        let parent = base;
+        if (isRoot) {
+            parent = path.join(base, 'craftcommand');
+            await fs.ensureDir(parent);
+            await fs.writeFile(path.join(base, 'cgroup.subtree_control'), wanted.map(c => `+${c}`).join(' '));
+        } else {
+            const leaf = path.join(base, 'panel');
+            await fs.ensureDir(leaf);
+            const pids = (await fs.readFile(path.join(base, 'cgroup.procs'), 'utf8')).split('\n').filter(Boolean);
+            for (const pid of pids) {
+                await fs.writeFile(path.join(leaf, 'cgroup.procs'), pid).catch(() => {}); // Exited meanwhile
+            }
+        }
+        await fs.writeFile(path.join(parent, 'cgroup.subtree_control'), wanted.map(c => `+${c}`).join(' '));
+
+        const enabled = (await fs.readFile(path.join(parent, 'cgroup.subtree_control'), 'utf8')).trim().split(/\s+/).filter(Boolean);
+        if (enabled.length === 0) return unavailable(`could not enable controllers in ${parent}`);
+        return { available: true, parent, controllers: enabled };
+    }
+}
+
+export const cgroupManager = new CgroupManager();
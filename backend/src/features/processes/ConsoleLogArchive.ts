@@ -0,0 +1,450 @@
+import fs from 'fs-extra';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import readline from 'readline';
+import { pipeline } from 'stream/promises';
+import { DATA_DIR } from '../../constants';
+import { logger } from '../../utils/logger';
+import { ConsoleSession, ConsoleLogLine, ConsoleLogLevel, ConsoleLogSearchQuery, ConsoleLogSearchResult } from '@shared/types';
+
+const ARCHIVE_DIR = path.join(DATA_DIR, 'console-logs');
+const SESSION_FILE = 'session.json';
+const ACTIVE_SEGMENT = 'active.ndjson';
+const SEGMENT_MAX_BYTES = 4 * 1024 * 1024; // Uncompressed size before a segment is rotated and gzipped
+const FLUSH_INTERVAL = 1000;
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 14; // Used when ServerConfig.logRetention is unset or 0
+const MAX_ARCHIVE_BYTES = 512 * 1024 * 1024; // Per server, oldest sessions go first
+const DEFAULT_SEARCH_LIMIT = 200;
+const MAX_SEARCH_LIMIT = 2000;
+const MAX_TAIL_LINES = 5000;
+const MAX_PATTERN_LENGTH = 500;
+const SEARCH_TIME_BUDGET = 5000; // Per query, so a pathological regex cannot hold the event loop across every session
+const MAX_REGEX_INPUT = 4096; // Characters of a line a user regex is tested against
+
+interface SegmentInfo {
+    file: string;
+    from: number;
+    to: number;
+    lines: number;
+}
+
+interface StoredSession extends ConsoleSession {
+    segments: SegmentInfo[];
+}
+
+interface OpenSession {
+    meta: StoredSession;
+    dir: string;
+    buffer: string[];
+    activeBytes: number;
+    activeFrom: number | null;
+    activeTo: number;
+    activeLines: number;
+    writing: Promise<void>;
+}
+
+// Stored per line as NDJSON; keys kept short since every console line pays for them
+interface StoredLine {
+    t: number;
+    l: ConsoleLogLevel;
+    s: 'stdout' | 'stderr';
+    m: string;
+}
+
+// "[12:00:00 INFO]", "[12:00:00] [Server thread/WARN]", "[2024-01-01 12:00:00:123 ERROR]"
+const LEVEL_PATTERN = /\[[^\]]*?[\s\/](INFO|WARN|WARNING|ERROR|SEVERE|FATAL|DEBUG|TRACE)\]/;
+const SAFE_ID = /^[\w-]+$/;
+
+export function detectLogLevel(line: string, stream: 'stdout' | 'stderr'): ConsoleLogLevel {
+    const match = line.slice(0, 120).match(LEVEL_PATTERN);
+    if (match) {
+        switch (match[1]) {
+            case 'WARN': case 'WARNING': return 'WARN';
+            case 'ERROR': case 'SEVERE': case 'FATAL': return 'ERROR';
+            case 'DEBUG': case 'TRACE': return 'DEBUG';
+            default: return 'INFO';
+        }
+    }
+    return stream === 'stderr' ? 'ERROR' : 'INFO';
+}
+
+/**
+ * Keeps every server's console output on disk, one session per run. Lines are
+ * buffered and appended to an active segment which is gzipped once it grows
+ * past SEGMENT_MAX_BYTES or the server exits. Sessions older than the server's
+ * `logRetention` (days) are deleted. Unlike ProcessManager's in-memory history,
+ * nothing here is cleared on restart, so output from before a crash stays searchable.
+ */
+class ConsoleLogArchive {
+    private sessions: Map<string, OpenSession> = new Map();
+    private flushTimer: NodeJS.Timeout | null = null;
+    private pruneTimer: NodeJS.Timeout | null = null;
+
+    public async initialize() {
+        await fs.ensureDir(ARCHIVE_DIR);
+        await this.recoverInterrupted().catch(e => logger.error(`[ConsoleLogArchive] Recovery failed: ${e.message}`));
+
+        this.flushTimer = setInterval(() => {
+            for (const session of this.sessions.values()) this.flush(session);
+        }, FLUSH_INTERVAL);
+        this.pruneTimer = setInterval(() => {
+            this.pruneAll().catch(e => logger.error(`[ConsoleLogArchive] Prune failed: ${e.message}`));
+        }, PRUNE_INTERVAL);
+        this.pruneAll().catch(() => {});
+
+        logger.info('[ConsoleLogArchive] Initialized.');
+    }
+
+    /**
+     * Starts a new session for a server run. A session still open for the same
+     * server (e.g. a start that never reported close) is ended first.
+     */
+    public beginSession(serverId: string) {
+        if (!SAFE_ID.test(serverId)) return;
+        if (this.sessions.has(serverId)) this.endSession(serverId, null);
+
+        const now = Date.now();
+        const id = `${now}-${crypto.randomBytes(3).toString('hex')}`;
+        const dir = path.join(ARCHIVE_DIR, serverId, id);
+        const session: OpenSession = {
+            meta: { id, serverId, startedAt: now, lines: 0, bytes: 0, segments: [] },
+            dir,
+            buffer: [],
+            activeBytes: 0,
+            activeFrom: null,
+            activeTo: now,
+            activeLines: 0,
+            writing: Promise.resolve()
+        };
+        session.writing = fs.ensureDir(dir)
+            .then(() => this.saveMeta(session.meta, dir))
+            .catch(e => logger.error(`[ConsoleLogArchive] Could not open session for ${serverId}: ${e.message}`));
+        this.sessions.set(serverId, session);
+    }
+
+    public append(serverId: string, line: string, stream: 'stdout' | 'stderr') {
+        const session = this.sessions.get(serverId);
+        if (!session) return;
+
+        const record: StoredLine = { t: Date.now(), l: detectLogLevel(line, stream), s: stream, m: line };
+        session.buffer.push(JSON.stringify(record) + '\n');
+        session.meta.lines++;
+    }
+
+    /**
+     * Flushes and compresses what is left of the session. Returns once the
+     * session is fully on disk.
+     */
+    public endSession(serverId: string, exitCode: number | null): Promise<void> {
+        const session = this.sessions.get(serverId);
+        if (!session) return Promise.resolve();
+        this.sessions.delete(serverId);
+
+        this.flush(session);
+        session.writing = session.writing
+            .then(async () => {
+                await this.rotate(session);
+                session.meta.endedAt = Date.now();
+                session.meta.exitCode = exitCode;
+                await this.saveMeta(session.meta, session.dir);
+                await this.prune(serverId);
+            })
+            .catch(e => logger.error(`[ConsoleLogArchive] Failed to close session ${session.meta.id} of ${serverId}: ${e.message}`));
+        return session.writing;
+    }
+
+    public async listSessions(serverId: string): Promise<ConsoleSession[]> {
+        const sessions = await this.loadSessions(serverId);
+        return sessions.map(({ segments, ...session }) => session);
+    }
+
+    /**
+     * Returns the last `tail` lines of a session (the whole session if it is shorter).
+     */
+    public async readSession(serverId: string, sessionId: string, tail: number = 1000): Promise<{ session: ConsoleSession, lines: ConsoleLogLine[] }> {
+        const stored = (await this.loadSessions(serverId)).find(s => s.id === sessionId);
+        if (!stored) throw new Error('Session not found');
+
+        const limit = Math.min(Math.max(1, Math.floor(tail) || 1000), MAX_TAIL_LINES);
+        const lines: ConsoleLogLine[] = [];
+        await this.scanSession(stored, record => {
+            lines.push(this.toLine(stored.id, record));
+            if (lines.length > limit) lines.shift();
+        });
+
+        const { segments, ...session } = stored;
+        return { session, lines };
+    }
+
+    /**
+     * Searches archived output across sessions. Returns the most recent `limit`
+     * matches in chronological order.
+     */
+    public async search(serverId: string, query: ConsoleLogSearchQuery): Promise<ConsoleLogSearchResult> {
+        const limit = Math.min(Math.max(1, Math.floor(query.limit || DEFAULT_SEARCH_LIMIT)), MAX_SEARCH_LIMIT);
+        const matchText = this.buildMatcher(query);
+        const levels = query.levels && query.levels.length > 0 ? new Set(query.levels) : null;
+        const from = query.from ?? 0;
+        const to = query.to ?? Infinity;
+
+        const sessions = (await this.loadSessions(serverId))
+            .filter(s => !query.sessionId || s.id === query.sessionId)
+            .filter(s => s.startedAt <= to && (s.endedAt ?? Date.now()) >= from);
+
+        let matches: ConsoleLogLine[] = [];
+        let truncated = false;
+        let timedOut = false;
+        let sessionsSearched = 0;
+        const deadline = Date.now() + SEARCH_TIME_BUDGET;
+
+        // Newest session first so a broad query stops once it has enough recent matches
+        for (const session of sessions) {
+            if (matches.length >= limit) {
+                truncated = true;
+                break;
+            }
+            if (timedOut) break;
+            sessionsSearched++;
+
+            const remaining = limit - matches.length;
+            const found: ConsoleLogLine[] = [];
+            await this.scanSession(session, record => {
+                if (Date.now() > deadline) {
+                    timedOut = true;
+                    return false;
+                }
+                if (record.t < from || record.t > to) return;
+                if (levels && !levels.has(record.l)) return;
+                if (matchText && !matchText(record.m)) return;
+                found.push(this.toLine(session.id, record));
+                if (found.length > remaining) {
+                    found.shift();
+                    truncated = true;
+                }
+            }, { from, to });
+            matches = found.concat(matches);
+        }
+
+        return { matches, truncated, sessionsSearched, timedOut };
+    }
+
+    private buildMatcher(query: ConsoleLogSearchQuery): ((line: string) => boolean) | null {
+        const text = query.text || '';
+        if (!text) return null;
+        if (text.length > MAX_PATTERN_LENGTH) throw new Error(`Search text is limited to ${MAX_PATTERN_LENGTH} characters`);
+
+        if (query.regex) {
+            let pattern: RegExp;
+            try {
+                pattern = new RegExp(text, query.caseSensitive ? '' : 'i');
+            } catch (e: any) {
+                throw new Error(`Invalid regular expression: ${e.message}`);
+            }
+            return line => pattern.test(line.length > MAX_REGEX_INPUT ? line.slice(0, MAX_REGEX_INPUT) : line);
+        }
+        if (query.caseSensitive) return line => line.includes(text);
+        const needle = text.toLowerCase();
+        return line => line.toLowerCase().includes(needle);
+    }
+
+    private toLine(sessionId: string, record: StoredLine): ConsoleLogLine {
+        return { sessionId, timestamp: record.t, level: record.l, stream: record.s, line: record.m };
+    }
+
+    // Reads segments in order, skipping those entirely outside the time range. `onLine` returns false to stop early
+    private async scanSession(session: StoredSession, onLine: (record: StoredLine) => void | false, range?: { from: number, to: number }) {
+        const dir = path.join(ARCHIVE_DIR, session.serverId, session.id);
+        let segments = session.segments;
+        const open = this.sessions.get(session.serverId);
+        if (open && open.meta.id === session.id) {
+            this.flush(open);
+            await open.writing;
+            segments = [...open.meta.segments]; // The flush may have rotated a segment
+        }
+
+        const files = segments
+            .filter(seg => !range || (seg.from <= range.to && seg.to >= range.from))
+            .map(seg => seg.file);
+        if (await fs.pathExists(path.join(dir, ACTIVE_SEGMENT))) files.push(ACTIVE_SEGMENT);
+
+        let stopped = false;
+        for (const file of files) {
+            if (stopped) break;
+            const fullPath = path.join(dir, file);
+            if (!(await fs.pathExists(fullPath))) continue;
+
+            const raw = fs.createReadStream(fullPath);
+            const input = file.endsWith('.gz') ? raw.pipe(zlib.createGunzip()) : raw;
+            const rl = readline.createInterface({ input, crlfDelay: Infinity });
+            try {
+                for await (const text of rl) {
+                    if (!text) continue;
+                    let record: StoredLine;
+                    try {
+                        record = JSON.parse(text);
+                    } catch {
+                        continue; // Torn write from a hard shutdown
+                    }
+                    if (onLine(record) === false) {
+                        stopped = true;
+                        break;
+                    }
+                }
+            } finally {
+                rl.close();
+                raw.destroy();
+            }
+        }
+    }
+
+    private flush(session: OpenSession) {
+        if (session.buffer.length === 0) return;
+        const chunk = session.buffer.join('');
+        const lines = session.buffer.length;
+        session.buffer = [];
+
+        session.writing = session.writing
+            .then(async () => {
+                await fs.appendFile(path.join(session.dir, ACTIVE_SEGMENT), chunk);
+                if (session.activeFrom === null) session.activeFrom = JSON.parse(chunk.slice(0, chunk.indexOf('\n'))).t;
+                session.activeTo = Date.now();
+                session.activeBytes += Buffer.byteLength(chunk);
+                session.activeLines += lines;
+
+                if (session.activeBytes >= SEGMENT_MAX_BYTES) {
+                    await this.rotate(session);
+                    await this.saveMeta(session.meta, session.dir);
+                }
+            })
+            .catch(e => logger.error(`[ConsoleLogArchive] Write failed for ${session.meta.serverId}: ${e.message}`));
+    }
+
+    // Gzips the active segment into the next numbered segment
+    private async rotate(session: OpenSession) {
+        if (session.activeLines === 0) return;
+        const segment = await this.compressActive(session.dir, session.meta.segments.length, {
+            from: session.activeFrom ?? session.meta.startedAt,
+            to: session.activeTo,
+            lines: session.activeLines
+        });
+        session.meta.segments.push(segment);
+        session.meta.bytes = await this.sizeOfSegments(session.dir, session.meta.segments);
+
+        session.activeBytes = 0;
+        session.activeFrom = null;
+        session.activeLines = 0;
+    }
+
+    private async compressActive(dir: string, index: number, stats: Omit<SegmentInfo, 'file'>): Promise<SegmentInfo> {
+        const file = `segment-${String(index + 1).padStart(4, '0')}.ndjson.gz`;
+        const activePath = path.join(dir, ACTIVE_SEGMENT);
+        await pipeline(fs.createReadStream(activePath), zlib.createGzip(), fs.createWriteStream(path.join(dir, file)));
+        await fs.remove(activePath);
+        return { file, ...stats };
+    }
+
+    private async sizeOfSegments(dir: string, segments: SegmentInfo[]): Promise<number> {
+        let total = 0;
+        for (const seg of segments) {
+            total += (await fs.stat(path.join(dir, seg.file)).catch(() => ({ size: 0 }))).size;
+        }
+        return total;
+    }
+
+    private async saveMeta(meta: StoredSession, dir: string) {
+        await fs.writeJson(path.join(dir, SESSION_FILE), meta, { spaces: 2 });
+    }
+
+    // Newest first
+    private async loadSessions(serverId: string): Promise<StoredSession[]> {
+        if (!SAFE_ID.test(serverId)) return [];
+        const serverDir = path.join(ARCHIVE_DIR, serverId);
+        if (!(await fs.pathExists(serverDir))) return [];
+
+        const sessions: StoredSession[] = [];
+        for (const id of await fs.readdir(serverDir)) {
+            const meta: StoredSession | null = await fs.readJson(path.join(serverDir, id, SESSION_FILE)).catch(() => null);
+            if (!meta) continue;
+
+            const open = this.sessions.get(serverId);
+            if (open && open.meta.id === meta.id) {
+                sessions.push({ ...open.meta, segments: [...open.meta.segments] });
+            } else {
+                sessions.push(meta);
+            }
+        }
+        return sessions.sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    /**
+     * Sessions left open by a panel crash still have an uncompressed active
+     * segment; compress it and mark the session as interrupted.
+     */
+    private async recoverInterrupted() {
+        for (const serverId of await fs.readdir(ARCHIVE_DIR)) {
+            for (const session of await this.loadSessions(serverId)) {
+                if (session.endedAt || this.sessions.get(serverId)?.meta.id === session.id) continue;
+
+                const dir = path.join(ARCHIVE_DIR, serverId, session.id);
+                const activePath = path.join(dir, ACTIVE_SEGMENT);
+                if (await fs.pathExists(activePath)) {
+                    const stats = { from: Infinity, to: session.startedAt, lines: 0 };
+                    const rl = readline.createInterface({ input: fs.createReadStream(activePath), crlfDelay: Infinity });
+                    for await (const text of rl) {
+                        try {
+                            const record: StoredLine = JSON.parse(text);
+                            stats.from = Math.min(stats.from, record.t);
+                            stats.to = Math.max(stats.to, record.t);
+                            stats.lines++;
+                        } catch {}
+                    }
+                    if (stats.lines > 0) {
+                        session.segments.push(await this.compressActive(dir, session.segments.length, stats));
+                    } else {
+                        await fs.remove(activePath);
+                    }
+                    session.lines = session.segments.reduce((sum, seg) => sum + seg.lines, 0);
+                    session.bytes = await this.sizeOfSegments(dir, session.segments);
+                }
+
+                session.endedAt = session.segments.length > 0 ? session.segments[session.segments.length - 1].to : session.startedAt;
+                session.exitCode = null;
+                session.interrupted = true;
+                await this.saveMeta(session, dir);
+                logger.info(`[ConsoleLogArchive] Recovered interrupted session ${session.id} of ${serverId}`);
+            }
+        }
+    }
+
+    private async pruneAll() {
+        if (!(await fs.pathExists(ARCHIVE_DIR))) return;
+        for (const serverId of await fs.readdir(ARCHIVE_DIR)) {
+            await this.prune(serverId);
+        }
+    }
+
+    private async prune(serverId: string) {
+        const { getServer } = require('../servers/ServerService');
+        const retentionDays = getServer(serverId)?.logRetention || DEFAULT_RETENTION_DAYS;
+        const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+        const openId = this.sessions.get(serverId)?.meta.id;
+
+        let keptBytes = 0;
+        for (const session of await this.loadSessions(serverId)) {
+            if (session.id === openId) {
+                keptBytes += session.bytes;
+                continue;
+            }
+            const expired = (session.endedAt ?? session.startedAt) < cutoff;
+            if (expired || keptBytes + session.bytes > MAX_ARCHIVE_BYTES) {
+                await fs.remove(path.join(ARCHIVE_DIR, serverId, session.id));
+                continue;
+            }
+            keptBytes += session.bytes;
+        }
+    }
+}
+
+export const consoleLogArchive = new ConsoleLogArchive();
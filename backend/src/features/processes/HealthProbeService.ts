@@ -0,0 +1,216 @@
+import { status, statusBedrock } from 'minecraft-server-util';
+import { NetUtils } from '../../utils/NetUtils';
+import { notificationService } from '../system/NotificationService';
+import { LivenessProbe, ReadinessProbe, ServerConfig } from '@shared/types';
+
+const DEFAULT_READY_PATTERN = 'Done \\(|Listening on';
+const READINESS_DEFAULTS = { intervalSeconds: 5, startupTimeoutSeconds: 180 };
+const LIVENESS_DEFAULTS = { intervalSeconds: 30, timeoutSeconds: 5, failureThreshold: 3 };
+const READINESS_ATTEMPT_TIMEOUT = 3000;
+
+interface StartupWatch {
+    pattern: RegExp | null;
+    poll?: NodeJS.Timeout;
+    timeout?: NodeJS.Timeout;
+    polling?: boolean;
+}
+
+interface LivenessWatch {
+    timer: NodeJS.Timeout;
+    failures: number;
+    degraded: boolean;
+    checking?: boolean;
+}
+
+/**
+ * Readiness and liveness checks for running servers. A start is ready when its
+ * readiness probe succeeds: a console line matching a pattern, a Server List
+ * Ping (RakNet ping on Bedrock) or a TCP connect. A start that takes longer
+ * than the startup timeout, or a ready server that fails its liveness probe
+ * several times in a row, is marked DEGRADED until the probe succeeds again.
+ */
+class HealthProbeService {
+    private starting: Map<string, StartupWatch> = new Map();
+    private live: Map<string, LivenessWatch> = new Map();
+
+    public readinessFor(server: ServerConfig): Required<ReadinessProbe> {
+        const probe = server.readiness;
+        // Network probes target 127.0.0.1, which is not where remote servers listen
+        const type = probe?.type && (probe.type === 'log' || server.executionEngine !== 'remote') ? probe.type : 'log';
+        return {
+            type,
+            pattern: probe?.pattern || DEFAULT_READY_PATTERN,
+            port: probe?.port || server.port,
+            intervalSeconds: probe?.intervalSeconds || READINESS_DEFAULTS.intervalSeconds,
+            startupTimeoutSeconds: probe?.startupTimeoutSeconds ?? READINESS_DEFAULTS.startupTimeoutSeconds
+        };
+    }
+
+    public livenessFor(server: ServerConfig): Required<LivenessProbe> | null {
+        const probe = server.liveness;
+        if (!probe?.enabled || server.executionEngine === 'remote') return null;
+        return {
+            enabled: true,
+            type: probe.type === 'tcp' ? 'tcp' : 'ping',
+            port: probe.port || server.port,
+            intervalSeconds: probe.intervalSeconds || LIVENESS_DEFAULTS.intervalSeconds,
+            timeoutSeconds: probe.timeoutSeconds || LIVENESS_DEFAULTS.timeoutSeconds,
+            failureThreshold: probe.failureThreshold || LIVENESS_DEFAULTS.failureThreshold
+        };
+    }
+
+    // Servers with their own readiness probe are not made ONLINE by an incidental status ping
+    public hasCustomReadiness(id: string): boolean {
+        const { getServer } = require('../servers/ServerService');
+        const probe: ReadinessProbe | undefined = getServer(id)?.readiness;
+        return !!probe && (probe.type !== 'log' || !!probe.pattern);
+    }
+
+    /**
+     * Starts waiting for `id` to become ready. `startedAt` lets a reattached
+     * start keep the time it already spent.
+     */
+    public beginStartup(id: string, startedAt: number = Date.now()) {
+        this.stop(id);
+        const { getServer } = require('../servers/ServerService');
+        const server: ServerConfig | undefined = getServer(id);
+        if (!server) return;
+
+        const probe = this.readinessFor(server);
+        const watch: StartupWatch = { pattern: null };
+        if (probe.type === 'log') {
+            try {
+                watch.pattern = new RegExp(probe.pattern, 'i');
+            } catch {
+                console.warn(`[HealthProbe:${id}] Invalid readiness pattern "${probe.pattern}", using the default.`);
+                watch.pattern = new RegExp(DEFAULT_READY_PATTERN, 'i');
+            }
+        } else {
+            watch.poll = setInterval(() => this.pollReadiness(id, server, probe), probe.intervalSeconds * 1000);
+        }
+
+        if (probe.startupTimeoutSeconds > 0) {
+            const remaining = Math.max(0, startedAt + probe.startupTimeoutSeconds * 1000 - Date.now());
+            watch.timeout = setTimeout(() => {
+                watch.timeout = undefined;
+                const { processManager } = require('./ProcessManager');
+                processManager.markStartupTimedOut(id, `Not ready after ${probe.startupTimeoutSeconds}s (readiness: ${this.describe(probe)}). Still waiting.`);
+            }, remaining);
+        }
+        this.starting.set(id, watch);
+    }
+
+    public isAwaitingReady(id: string): boolean {
+        return this.starting.has(id);
+    }
+
+    public isReadyLine(id: string, line: string): boolean {
+        const pattern = this.starting.get(id)?.pattern;
+        return !!pattern && pattern.test(line);
+    }
+
+    private async pollReadiness(id: string, server: ServerConfig, probe: Required<ReadinessProbe>) {
+        const watch = this.starting.get(id);
+        if (!watch || watch.polling) return;
+        watch.polling = true;
+        try {
+            if (await this.probe(probe.type, server, probe.port, READINESS_ATTEMPT_TIMEOUT) && this.starting.get(id) === watch) {
+                const { processManager } = require('./ProcessManager');
+                processManager.markReady(id, `${probe.type} probe on port ${probe.port} answered`);
+            }
+        } finally {
+            watch.polling = false;
+        }
+    }
+
+    // The start is over: stop readiness checks and begin liveness checks, if configured
+    public onReady(id: string) {
+        this.clearStartup(id);
+        if (this.live.has(id)) return;
+
+        const { getServer } = require('../servers/ServerService');
+        const server: ServerConfig | undefined = getServer(id);
+        const probe = server && this.livenessFor(server);
+        if (!probe) return;
+
+        this.live.set(id, {
+            failures: 0,
+            degraded: false,
+            timer: setInterval(() => this.checkLiveness(id, probe), probe.intervalSeconds * 1000)
+        });
+    }
+
+    private async checkLiveness(id: string, probe: Required<LivenessProbe>) {
+        const watch = this.live.get(id);
+        const { getServer } = require('../servers/ServerService');
+        const server: ServerConfig | undefined = getServer(id);
+        if (!watch || !server || watch.checking) return;
+
+        watch.checking = true;
+        try {
+            const ok = await this.probe(probe.type, server, probe.port, probe.timeoutSeconds * 1000);
+            if (this.live.get(id) !== watch) return; // Stopped meanwhile
+
+            const { processManager } = require('./ProcessManager');
+            if (ok) {
+                watch.failures = 0;
+                if (watch.degraded) {
+                    watch.degraded = false;
+                    processManager.setDegraded(id, null);
+                }
+                return;
+            }
+
+            watch.failures++;
+            if (watch.failures >= probe.failureThreshold && !watch.degraded) {
+                watch.degraded = true;
+                const details = `No answer to ${this.describe(probe)} for ${watch.failures} checks in a row`;
+                processManager.setDegraded(id, details);
+                notificationService.create(
+                    'ALL',
+                    'WARNING',
+                    'Server Degraded',
+                    `${server.name} is running but not responding (${details}).`,
+                    { serverId: id },
+                    `/dashboard/${id}`
+                );
+            }
+        } finally {
+            watch.checking = false;
+        }
+    }
+
+    private async probe(type: ReadinessProbe['type'], server: ServerConfig, port: number, timeout: number): Promise<boolean> {
+        if (type === 'tcp') return NetUtils.checkPort(port, '127.0.0.1', timeout);
+        try {
+            if (server.software === 'Bedrock') await statusBedrock('127.0.0.1', port, { timeout });
+            else await status('127.0.0.1', port, { timeout });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private describe(probe: { type: string, pattern?: string, port: number }): string {
+        if (probe.type === 'log') return `console line matching /${probe.pattern}/`;
+        return `${probe.type === 'ping' ? 'server list ping' : 'TCP connect'} on port ${probe.port}`;
+    }
+
+    private clearStartup(id: string) {
+        const watch = this.starting.get(id);
+        if (!watch) return;
+        if (watch.poll) clearInterval(watch.poll);
+        if (watch.timeout) clearTimeout(watch.timeout);
+        this.starting.delete(id);
+    }
+
+    // The server exited: drop every check
+    public stop(id: string) {
+        this.clearStartup(id);
+        const watch = this.live.get(id);
+        if (watch) clearInterval(watch.timer);
+        this.live.delete(id);
+    }
+}
+
+export const healthProbeService = new HealthProbeService();
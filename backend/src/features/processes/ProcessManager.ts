@@ -4,6 +4,13 @@ import net from 'net';
 import { runnerFactory } from './runners/RunnerFactory';
 import { IServerRunner } from './runners/IServerRunner';
 import { NetUtils } from '../../utils/NetUtils';
+import { consoleLogArchive } from './ConsoleLogArchive';
+import { rconService } from './RconService';
+import { healthProbeService } from './HealthProbeService';
+import { SupervisedLine } from './supervisor/protocol';
+import { CommandResponse, ServerConfig, TickMetrics } from '@shared/types';
+
+const BEDROCK_NO_TICK_DATA = 'Bedrock Dedicated Server does not report tick timing';
 
 class ProcessManager extends EventEmitter {
     private activeRunners: Map<string, IServerRunner> = new Map();
@@ -16,6 +23,8 @@ class ProcessManager extends EventEmitter {
     private players: Map<string, Set<string>> = new Map();
     private readonly MAX_LOGS = 1000;
     private lastEmittedStatus: Map<string, string> = new Map();
+    private tickMetrics: Map<string, TickMetrics> = new Map();
+    private readonly TICK_METRICS_TTL = 90000; // Measured tick metrics older than this are ignored
 
     constructor() {
         super();
@@ -74,6 +83,7 @@ class ProcessManager extends EventEmitter {
                 try {
                     const stats = await runner.getStats(id);
                     const tps = this.getTPS(id);
+                    const tick = this.getTickMetrics(id);
                     const uptime = this.getUptime(id);
                     
                     if (stats.cpu > 0 || stats.memory > 0) {
@@ -85,7 +95,7 @@ class ProcessManager extends EventEmitter {
                         }
                     }
 
-                    this.emit('stats', { id, ...stats, tps, uptime });
+                    this.emit('stats', { id, ...stats, tps, mspt: tick.mspt, tickSource: tick.source, uptime });
                     this.updateCachedStatus(id, { 
                         cpu: stats.cpu,
                         memory: stats.memory,
@@ -124,13 +134,36 @@ class ProcessManager extends EventEmitter {
         this.startupLocks.add(id);
         console.log(`[ProcessManager] Initializing server ${id} using ${engine} engine.`);
 
-        // Setup Event Handlers for this specific server/runner combo
+        this.attachRunner(id, runner);
+
+        // Reset before starting so the runner's first lines are not wiped
+        this.logHistory.set(id, []);
+        consoleLogArchive.beginSession(id);
+
+        try {
+            await runner.start(id, runCommand, cwd, env);
+        } catch (err) {
+            consoleLogArchive.endSession(id, null);
+            throw err;
+        }
+
+        this.activeRunners.set(id, runner);
+        this.startTimes.set(id, Date.now());
+        this.statusCache.set(id, { online: false, status: 'STARTING', players: 0, playerList: [], uptime: 0, tps: "0.00" });
+        this.players.set(id, new Set());
+
+        this.maybeEmitStatus(id, 'STARTING');
+        healthProbeService.beginStartup(id);
+    }
+
+    // Setup Event Handlers for this specific server/runner combo
+    private attachRunner(id: string, runner: IServerRunner) {
         const logHandler = (data: { id: string, line: string, type: 'stdout' | 'stderr' }) => {
             if (data.id !== id) return;
             this.handleServerLog(id, data.line, data.type);
         };
 
-        const closeHandler = (data: { id: string, code: number }) => {
+        const closeHandler = (data: { id: string, code: number | null }) => {
             if (data.id !== id) return;
             this.handleServerClose(id, data.code);
             runner.off('log', logHandler);
@@ -139,25 +172,64 @@ class ProcessManager extends EventEmitter {
 
         runner.on('log', logHandler);
         runner.on('close', closeHandler);
+    }
 
-        await runner.start(id, runCommand, cwd, env);
-        
-        this.activeRunners.set(id, runner);
-        this.startTimes.set(id, Date.now());
-        this.statusCache.set(id, { online: false, status: 'STARTING', players: 0, playerList: [], uptime: 0, tps: "0.00" });
-        this.logHistory.set(id, []);
-        this.players.set(id, new Set());
-
-        this.maybeEmitStatus(id, 'STARTING');
+    /**
+     * Takes back the servers the process supervisor kept running while the panel
+     * was down, with their recent output, and settles those that exited in the
+     * meantime. Runs at boot, before anything starts servers.
+     */
+    async reattachSupervised() {
+        if (!runnerFactory.isSupervisorEnabled()) return;
+        const runner = runnerFactory.getSupervisedRunner();
+        const welcome = await runner.reconnect();
+        const { getServer, saveServer } = require('../servers/ServerService');
 
-        // Startup Timeout Watchdog
-        setTimeout(() => {
-            if (this.startupLocks.has(id)) {
-                console.error(`[ProcessManager] ${id} Startup timed out.`);
-                this.startupLocks.delete(id);
-                this.maybeEmitStatus(id, 'OFFLINE');
+        // The archive already has what was printed before the panel went away
+        const restoreOutput = (id: string, logs: SupervisedLine[]) => {
+            this.logHistory.set(id, logs.map(l => l.line).slice(-this.MAX_LOGS));
+            consoleLogArchive.beginSession(id);
+            for (const l of logs) {
+                if (welcome.disconnectedAt !== null && l.t >= welcome.disconnectedAt) consoleLogArchive.append(id, l.line, l.stream);
             }
-        }, 180000);
+        };
+
+        for (const proc of welcome.processes) {
+            const { id } = proc;
+            const server = getServer(id);
+            if (!server || this.activeRunners.has(id)) continue;
+
+            this.attachRunner(id, runner);
+            restoreOutput(id, proc.logs);
+            this.players.set(id, new Set());
+            proc.logs.forEach(l => this.trackPlayers(id, l.line, false));
+
+            // Log readiness is settled from the output; network probes re-run against the live server
+            healthProbeService.beginStartup(id, proc.startedAt);
+            const online = proc.logs.some(l => healthProbeService.isReadyLine(id, l.line));
+            const status = online ? 'ONLINE' : 'STARTING';
+            if (online) healthProbeService.onReady(id);
+            else this.startupLocks.add(id);
+            if (proc.stopRequested) this.stoppingServers.add(id);
+
+            const players = Array.from(this.players.get(id)!);
+            this.activeRunners.set(id, runner);
+            this.startTimes.set(id, proc.startedAt);
+            this.statusCache.set(id, { online, status, players: players.length, playerList: players, uptime: this.getUptime(id), tps: "0.00" });
+            server.status = status;
+            server.startTime = proc.startedAt;
+            saveServer(server);
+            this.maybeEmitStatus(id, status);
+            console.log(`[ProcessManager] Reattached ${id} (pid ${proc.pid}) from the process supervisor.`);
+        }
+
+        for (const exit of welcome.exits) {
+            if (!getServer(exit.id) || this.activeRunners.has(exit.id)) continue;
+            restoreOutput(exit.id, exit.logs);
+            if (exit.stopRequested) this.stoppingServers.add(exit.id);
+            console.log(`[ProcessManager] ${exit.id} exited with code ${exit.code} while the panel was down.`);
+            this.handleServerClose(exit.id, exit.code);
+        }
     }
 
     private handleServerLog(id: string, line: string, type: 'stdout' | 'stderr') {
@@ -165,17 +237,19 @@ class ProcessManager extends EventEmitter {
         history.push(line);
         if (history.length > this.MAX_LOGS) history.shift();
         this.logHistory.set(id, history);
+        consoleLogArchive.append(id, line, type);
         
         this.emit('log', { id, line, type });
 
-        if (this.startupLocks.has(id)) {
-            if (line.includes('Done (') || line.includes('Listening on')) {
-                this.startupLocks.delete(id);
-                this.updateCachedStatus(id, { online: true, status: 'ONLINE' });
-            }
+        if (healthProbeService.isAwaitingReady(id) && healthProbeService.isReadyLine(id, line)) {
+            this.markReady(id, 'log line matched');
         }
 
-        // Player Tracking (Unified & Software-Aware)
+        this.trackPlayers(id, line);
+    }
+
+    // Player Tracking (Unified & Software-Aware). `notify` is off when replaying old output
+    private trackPlayers(id: string, line: string, notify: boolean = true) {
         let joinName: string | null = null;
         let leaveName: string | null = null;
 
@@ -198,6 +272,7 @@ class ProcessManager extends EventEmitter {
             const set = this.players.get(id) || new Set();
             set.add(joinName);
             this.players.set(id, set);
+            if (!notify) return;
             this.updateCachedStatus(id, { players: set.size, playerList: Array.from(set) });
             this.emit('player:join', { serverId: id, name: joinName, onlinePlayers: set.size });
         }
@@ -206,26 +281,82 @@ class ProcessManager extends EventEmitter {
             const set = this.players.get(id);
             if (set) {
                 set.delete(leaveName);
+                if (!notify) return;
                 this.updateCachedStatus(id, { players: set.size, playerList: Array.from(set) });
                 this.emit('player:leave', { serverId: id, name: leaveName, onlinePlayers: set.size });
             }
         }
     }
 
-    private handleServerClose(id: string, code: number) {
+    /**
+     * Replaces the online players with a roster reconciled by PlayerService and
+     * emits joins and leaves for the differences. `notify` is off when restoring.
+     */
+    syncPlayers(id: string, names: string[], notify: boolean = true) {
+        if (!this.activeRunners.has(id)) return;
+        const current = Array.from(this.players.get(id) || []);
+        const known = new Set(current.map(n => n.toLowerCase()));
+        const wanted = new Set(names.map(n => n.toLowerCase()));
+        const left = current.filter(n => !wanted.has(n.toLowerCase()));
+        const joined = names.filter(n => !known.has(n.toLowerCase()));
+
+        this.players.set(id, new Set(names));
+        this.updateCachedStatus(id, { players: names.length, playerList: names });
+        if (!notify) return;
+
+        let online = current.length;
+        for (const name of left) this.emit('player:leave', { serverId: id, name, onlinePlayers: --online });
+        for (const name of joined) this.emit('player:join', { serverId: id, name, onlinePlayers: ++online });
+    }
+
+    /**
+     * Called when the server's readiness probe succeeds, including after the
+     * startup timeout already marked it DEGRADED.
+     */
+    markReady(id: string, reason: string) {
+        if (!healthProbeService.isAwaitingReady(id)) return;
+        console.log(`[ProcessManager] ${id} is ready (${reason}).`);
+        this.startupLocks.delete(id);
+        this.updateCachedStatus(id, { online: true, status: 'ONLINE', details: undefined });
+        healthProbeService.onReady(id);
+    }
+
+    // The start outlived its timeout: unlock stop and flag it, but keep waiting for readiness
+    markStartupTimedOut(id: string, message: string) {
+        if (!this.activeRunners.has(id)) return;
+        console.error(`[ProcessManager] ${id} startup timed out.`);
+        this.startupLocks.delete(id);
+        this.handleServerLog(id, `[CraftCommand] ${message}`, 'stderr');
+        this.updateCachedStatus(id, { status: 'DEGRADED', details: message });
+    }
+
+    // Liveness result: `details` marks the server DEGRADED, null brings it back ONLINE
+    setDegraded(id: string, details: string | null) {
+        if (!this.activeRunners.has(id)) return;
+        if (details) console.warn(`[ProcessManager] ${id} is degraded: ${details}`);
+        else console.log(`[ProcessManager] ${id} is responding again.`);
+        this.updateCachedStatus(id, { online: !details, status: details ? 'DEGRADED' : 'ONLINE', details: details || undefined });
+    }
+
+    private handleServerClose(id: string, code: number | null) {
         console.log(`[ProcessManager] Server ${id} closed with code ${code}`);
         this.startupLocks.delete(id);
+        healthProbeService.stop(id);
 
+        const { getServer, saveServer } = require('../servers/ServerService');
+        const server = getServer(id);
         const isIntentional = this.stoppingServers.has(id);
-        const finalStatus = (!isIntentional && code !== 0 && code !== null) ? 'CRASHED' : 'OFFLINE';
+        const crashed = !isIntentional && this.isCrashExit(server, code);
+        const finalStatus = crashed ? 'CRASHED' : 'OFFLINE';
 
         this.stoppingServers.delete(id);
         this.activeRunners.delete(id);
         this.startTimes.delete(id);
         this.statusCache.delete(id);
+        this.tickMetrics.delete(id);
+        consoleLogArchive.endSession(id, code);
+        rconService.disconnect(id);
 
-        const { getServer, saveServer } = require('../servers/ServerService');
-        const server = getServer(id);
         if (server) {
             delete server.startTime;
             server.status = finalStatus;
@@ -233,6 +364,17 @@ class ProcessManager extends EventEmitter {
         }
 
         this.maybeEmitStatus(id, finalStatus);
+        this.emit('exit', { id, code, intentional: isIntentional, crashed });
+    }
+
+    // crashExitCodes narrows which non-zero codes count as a crash ("1,134"); unset or "0" means any
+    private isCrashExit(server: ServerConfig | undefined, code: number | null): boolean {
+        if (code === 0 || code === null) return false;
+        const listed = (server?.crashExitCodes || '')
+            .split(',')
+            .map(c => parseInt(c.trim(), 10))
+            .filter(c => Number.isInteger(c) && c !== 0);
+        return listed.length === 0 || listed.includes(code);
     }
 
     async stopServer(id: string, force: boolean = false) {
@@ -289,7 +431,51 @@ class ProcessManager extends EventEmitter {
 
     sendCommand(id: string, command: string) {
         const runner = this.activeRunners.get(id);
-        if (runner) runner.sendCommand(id, command);
+        if (runner) {
+            runner.sendCommand(id, command).catch(e => console.warn(`[ProcessManager:${id}] Command failed: ${e.message}`));
+            return;
+        }
+
+        // No stdin for adopted/unmanaged processes; RCON still reaches them
+        if (this.getCachedStatus(id)?.status === 'UNMANAGED') {
+            rconService.exec(id, command)
+                .then(output => output && this.emit('log', { id, line: output, type: 'stdout' }))
+                .catch(e => console.warn(`[ProcessManager:${id}] RCON command failed: ${e.message}`));
+        }
+    }
+
+    /**
+     * Sends a command and returns what it printed. Uses RCON when the server has
+     * it enabled; otherwise writes to stdin and collects the console lines
+     * printed within `captureMs`.
+     */
+    async sendCommandWithResponse(id: string, command: string, captureMs: number = 1500): Promise<CommandResponse> {
+        const isUnmanaged = this.getCachedStatus(id)?.status === 'UNMANAGED';
+        if (this.activeRunners.has(id) || isUnmanaged) {
+            try {
+                if (await rconService.isAvailable(id)) {
+                    return { output: await rconService.exec(id, command), channel: 'rcon' };
+                }
+            } catch (e: any) {
+                console.warn(`[ProcessManager:${id}] RCON unavailable (${e.message}), falling back to stdin.`);
+            }
+        }
+
+        const runner = this.activeRunners.get(id);
+        if (!runner) throw new Error('Server is not running');
+
+        const lines: string[] = [];
+        const onLog = (data: { id: string, line: string }) => {
+            if (data.id === id) lines.push(...data.line.split(/\r?\n/).filter(l => l.trim()));
+        };
+        this.on('log', onLog);
+        try {
+            await runner.sendCommand(id, command);
+            await new Promise(r => setTimeout(r, captureMs));
+        } finally {
+            this.off('log', onLog);
+        }
+        return { output: lines.join('\n'), channel: 'stdin' };
     }
 
     isRunning(id: string): boolean {
@@ -300,6 +486,10 @@ class ProcessManager extends EventEmitter {
         return this.logHistory.get(id) || [];
     }
 
+    getStartTime(id: string): number | undefined {
+        return this.startTimes.get(id);
+    }
+
     getUptime(id: string): number {
         let startTime = this.startTimes.get(id);
         if (!startTime) {
@@ -312,17 +502,43 @@ class ProcessManager extends EventEmitter {
     }
 
     getTPS(id: string): string {
+        const tick = this.getTickMetrics(id);
+        if (tick.tps !== null) return tick.tps.toFixed(2);
+        return tick.reason === BEDROCK_NO_TICK_DATA ? "N/A" : "0.00";
+    }
+
+    // Called by SparkService whenever spark reports new numbers
+    setTickMetrics(id: string, metrics: TickMetrics) {
+        this.tickMetrics.set(id, metrics);
+    }
+
+    /**
+     * Best available tick metrics: spark's measurements while they are fresh, then
+     * a TPS line the server printed (Paper's /tps), and finally the nominal 20 TPS
+     * for an online server, flagged as an estimate.
+     */
+    getTickMetrics(id: string): TickMetrics {
+        const now = Date.now();
         const { getServer } = require('../servers/ServerService');
         const server = getServer(id);
-        if (server?.software === 'Bedrock') return "N/A";
+        if (server?.software === 'Bedrock') {
+            return { source: 'unavailable', tps: null, mspt: null, updatedAt: now, reason: BEDROCK_NO_TICK_DATA };
+        }
+
+        const measured = this.tickMetrics.get(id);
+        if (measured && now - measured.updatedAt < this.TICK_METRICS_TTL) return measured;
 
         const logs = this.logHistory.get(id) || [];
         for (let i = logs.length - 1; i >= Math.max(0, logs.length - 50); i--) {
             const line = logs[i];
-            const match = line.match(/TPS from last [\d\w\s]+: ([\d\.]+)/i) || line.match(/TPS: ([\d\.]+)/i);
-            if (match) return parseFloat(match[1]).toFixed(2);
+            const match = line.match(/TPS from last [\d\w\s,]+:\s*\*?([\d\.]+)/i) || line.match(/TPS: \*?([\d\.]+)/i);
+            if (match) return { source: 'log', tps: parseFloat(match[1]), mspt: null, updatedAt: now };
+        }
+
+        if (this.statusCache.get(id)?.online) {
+            return { source: 'estimated', tps: 20, mspt: null, updatedAt: now, reason: 'No tick data reported; install spark for measured TPS and MSPT' };
         }
-        return this.statusCache.get(id)?.online ? "20.00" : "0.00"; 
+        return { source: 'unavailable', tps: null, mspt: null, updatedAt: now, reason: 'Server is not running' };
     }
 
     updateCachedStatus(id: string, data: any) {
@@ -353,12 +569,16 @@ class ProcessManager extends EventEmitter {
             }
         }
 
-        if (data.online && current.status === 'STARTING') {
+        // A status ping that answers ends the default readiness wait; custom probes decide for themselves
+        const ready = data.online && healthProbeService.isAwaitingReady(id) && !healthProbeService.hasCustomReadiness(id);
+        if (ready) {
             data.status = 'ONLINE';
+            data.details = undefined;
             this.startupLocks.delete(id);
         }
         if (data.status) this.maybeEmitStatus(id, data.status);
         this.statusCache.set(id, { ...current, ...data, lastUpdate: Date.now() });
+        if (ready) healthProbeService.onReady(id);
     }
 
     getCachedStatus(id: string) {
@@ -0,0 +1,195 @@
+import net from 'net';
+import { EventEmitter } from 'events';
+
+/**
+ * Minimal Source RCON client (the protocol Minecraft Java exposes with
+ * `enable-rcon=true`).
+ *
+ * Packet layout (little-endian): int32 length | int32 request id | int32 type | body | 0x00 0x00
+ *
+ * Minecraft splits long responses into several packets without marking the
+ * last one, so every command is followed by an empty "sentinel" packet. The
+ * server answers requests in order, so once the sentinel's reply arrives the
+ * command's response is complete.
+ */
+
+const TYPE_AUTH = 3;
+const TYPE_COMMAND = 2;
+const TYPE_AUTH_RESPONSE = 2;
+const TYPE_RESPONSE = 0;
+const HEADER_SIZE = 10; // id + type + two terminating nulls; the length field counts these plus the body
+const MAX_COMMAND_LENGTH = 1446; // Minecraft rejects longer request bodies
+
+interface PendingCommand {
+    id: number;
+    sentinelId: number;
+    chunks: string[];
+    resolve: (output: string) => void;
+    reject: (err: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+// Strip "§a"-style formatting codes that plugins put in command output
+const stripFormatting = (text: string) => text.replace(/§[0-9a-fk-or]/gi, '');
+
+export class RconClient extends EventEmitter {
+    private socket: net.Socket | null = null;
+    private buffer = Buffer.alloc(0);
+    private nextId = 1;
+    private pending: PendingCommand | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+    private authenticated = false;
+
+    constructor(
+        public readonly host: string,
+        public readonly port: number,
+        private readonly password: string,
+        private readonly timeoutMs: number = 5000
+    ) {
+        super();
+    }
+
+    get connected(): boolean {
+        return this.authenticated && !!this.socket && !this.socket.destroyed;
+    }
+
+    connect(): Promise<void> {
+        if (this.connected) return Promise.resolve();
+
+        return new Promise((resolve, reject) => {
+            this.buffer = Buffer.alloc(0);
+            const socket = net.createConnection({ host: this.host, port: this.port });
+            const authId = this.nextId++;
+            let settled = false;
+
+            const fail = (err: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                socket.destroy();
+                reject(err);
+            };
+            const timer = setTimeout(() => fail(new Error(`RCON connection to ${this.host}:${this.port} timed out`)), this.timeoutMs);
+
+            socket.on('connect', () => socket.write(this.encode(authId, TYPE_AUTH, this.password)));
+            // Only the authenticated socket may reset the client's state
+            socket.on('error', (err) => {
+                fail(err);
+                if (this.socket === socket) this.handleClose(err);
+            });
+            socket.on('close', () => {
+                fail(new Error('RCON connection closed during authentication'));
+                if (this.socket === socket) this.handleClose(new Error('RCON connection closed'));
+            });
+            socket.on('data', (data) => {
+                this.buffer = Buffer.concat([this.buffer, data]);
+                for (const packet of this.drainPackets()) {
+                    if (!settled) {
+                        // Source-engine servers send an empty RESPONSE_VALUE before the auth result
+                        if (packet.type !== TYPE_AUTH_RESPONSE) continue;
+                        settled = true;
+                        clearTimeout(timer);
+                        if (packet.id === -1) {
+                            socket.destroy();
+                            reject(new Error('RCON authentication failed (wrong rcon.password)'));
+                            return;
+                        }
+                        this.socket = socket;
+                        this.authenticated = true;
+                        resolve();
+                        continue;
+                    }
+                    this.handlePacket(packet.id, packet.body);
+                }
+            });
+        });
+    }
+
+    /**
+     * Runs a command and resolves with its full output. Commands are sent one at
+     * a time so responses cannot interleave.
+     */
+    exec(command: string): Promise<string> {
+        if (Buffer.byteLength(command) > MAX_COMMAND_LENGTH) {
+            return Promise.reject(new Error(`Command is longer than RCON allows (${MAX_COMMAND_LENGTH} bytes)`));
+        }
+
+        const run = this.queue.then(() => this.send(command));
+        this.queue = run.catch(() => {});
+        return run;
+    }
+
+    close() {
+        this.socket?.destroy();
+        this.socket = null;
+        this.authenticated = false;
+    }
+
+    private async send(command: string): Promise<string> {
+        await this.connect();
+
+        return new Promise((resolve, reject) => {
+            const id = this.nextId++;
+            const sentinelId = this.nextId++;
+            const timer = setTimeout(() => {
+                this.pending = null;
+                reject(new Error(`RCON command timed out after ${this.timeoutMs}ms`));
+            }, this.timeoutMs);
+
+            this.pending = { id, sentinelId, chunks: [], resolve, reject, timer };
+            this.socket!.write(this.encode(id, TYPE_COMMAND, command));
+            this.socket!.write(this.encode(sentinelId, TYPE_RESPONSE, ''));
+        });
+    }
+
+    private handlePacket(id: number, body: string) {
+        const pending = this.pending;
+        if (!pending) return;
+
+        if (id === pending.id) {
+            pending.chunks.push(body);
+        } else if (id === pending.sentinelId) {
+            clearTimeout(pending.timer);
+            this.pending = null;
+            pending.resolve(stripFormatting(pending.chunks.join('')).trim());
+        }
+    }
+
+    private handleClose(err: Error) {
+        const wasConnected = this.authenticated;
+        this.socket = null;
+        this.authenticated = false;
+        this.buffer = Buffer.alloc(0);
+
+        if (this.pending) {
+            clearTimeout(this.pending.timer);
+            this.pending.reject(err);
+            this.pending = null;
+        }
+        if (wasConnected) this.emit('close');
+    }
+
+    private encode(id: number, type: number, body: string): Buffer {
+        const bodyBuffer = Buffer.from(body, 'utf8');
+        const packet = Buffer.alloc(4 + HEADER_SIZE + bodyBuffer.length);
+        packet.writeInt32LE(HEADER_SIZE + bodyBuffer.length, 0);
+        packet.writeInt32LE(id, 4);
+        packet.writeInt32LE(type, 8);
+        bodyBuffer.copy(packet, 12);
+        // Two trailing zero bytes are already there from Buffer.alloc
+        return packet;
+    }
+
+    private *drainPackets(): Generator<{ id: number, type: number, body: string }> {
+        while (this.buffer.length >= 4) {
+            const length = this.buffer.readInt32LE(0);
+            if (this.buffer.length < 4 + length) return;
+
+            const id = this.buffer.readInt32LE(4);
+            const type = this.buffer.readInt32LE(8);
+            const body = this.buffer.toString('utf8', 12, 4 + length - 2);
+            this.buffer = this.buffer.subarray(4 + length);
+            yield { id, type, body };
+        }
+    }
+}
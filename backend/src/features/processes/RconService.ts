@@ -0,0 +1,168 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { ServerConfig } from '@shared/types';
+import { RconClient } from './RconClient';
+import { serverConfigService } from '../servers/ServerConfigService';
+import { NetUtils } from '../../utils/NetUtils';
+import { logger } from '../../utils/logger';
+
+const DEFAULT_RCON_PORT = 25575;
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+export interface RconEndpoint {
+    host: string;
+    port: number;
+    password: string;
+}
+
+interface ClientEntry {
+    client: RconClient;
+    key: string;
+    idleTimer: NodeJS.Timeout | null;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function setProperty(content: string, key: string, value: string | number): string {
+    const line = `${key}=${value}`;
+    const pattern = new RegExp(`^${escapeRegex(key)}\\s*=.*$`, 'm');
+    if (pattern.test(content)) return content.replace(pattern, line);
+    return content + (content && !content.endsWith('\n') ? '\n' : '') + line + '\n';
+}
+
+/**
+ * RCON connections to Java servers hosted by the panel. Endpoints come from each
+ * server's server.properties; `ensureConfigured` turns RCON on with a generated
+ * password before start unless the server opts out (`advancedFlags.rcon = false`).
+ * Connections are opened on first use and closed after a few idle minutes.
+ */
+class RconService {
+    private clients: Map<string, ClientEntry> = new Map();
+
+    /**
+     * Returns where to reach the server's RCON, or null when it has none
+     * (Bedrock, node-hosted servers, or RCON disabled in server.properties).
+     */
+    public async getEndpoint(serverId: string): Promise<RconEndpoint | null> {
+        const { getServer } = require('../servers/ServerService');
+        const server: ServerConfig | undefined = getServer(serverId);
+        if (!server || !this.supportsRcon(server)) return null;
+
+        const propsPath = path.join(server.workingDirectory, 'server.properties');
+        if (!(await fs.pathExists(propsPath))) return null;
+
+        const props = await serverConfigService.parseProperties(propsPath);
+        if (props['enable-rcon'] !== 'true' || !props['rcon.password']) return null;
+
+        const ip = props['server-ip'];
+        return {
+            host: ip && ip !== '0.0.0.0' ? ip : '127.0.0.1',
+            port: parseInt(props['rcon.port']) || DEFAULT_RCON_PORT,
+            password: props['rcon.password']
+        };
+    }
+
+    public async isAvailable(serverId: string): Promise<boolean> {
+        return !!(await this.getEndpoint(serverId));
+    }
+
+    public async exec(serverId: string, command: string): Promise<string> {
+        const endpoint = await this.getEndpoint(serverId);
+        if (!endpoint) throw new Error('RCON is not enabled for this server');
+
+        const key = `${endpoint.host}:${endpoint.port}:${endpoint.password}`;
+        let entry = this.clients.get(serverId);
+        if (entry && entry.key !== key) {
+            // server.properties changed since we connected
+            this.disconnect(serverId);
+            entry = undefined;
+        }
+        if (!entry) {
+            const client = new RconClient(endpoint.host, endpoint.port, endpoint.password);
+            const created: ClientEntry = { client, key, idleTimer: null };
+            client.on('close', () => {
+                if (this.clients.get(serverId) === created) this.disconnect(serverId);
+            });
+            this.clients.set(serverId, created);
+            entry = created;
+        }
+
+        if (entry.idleTimer) clearTimeout(entry.idleTimer);
+        entry.idleTimer = setTimeout(() => this.disconnect(serverId), IDLE_TIMEOUT);
+
+        try {
+            return await entry.client.exec(command);
+        } catch (e) {
+            this.disconnect(serverId);
+            throw e;
+        }
+    }
+
+    public disconnect(serverId: string) {
+        const entry = this.clients.get(serverId);
+        if (!entry) return;
+        this.clients.delete(serverId);
+        if (entry.idleTimer) clearTimeout(entry.idleTimer);
+        entry.client.close();
+    }
+
+    /**
+     * Enables RCON in server.properties when it is not already set up, picking a
+     * free port and a random password. Returns the RCON port, or null if the
+     * server does not use RCON.
+     */
+    public async ensureConfigured(server: ServerConfig): Promise<number | null> {
+        if (!this.supportsRcon(server) || server.advancedFlags?.rcon === false) return null;
+
+        // A fresh server has no server.properties yet; Minecraft fills in the rest on first boot
+        const propsPath = path.join(server.workingDirectory, 'server.properties');
+        const exists = await fs.pathExists(propsPath);
+        const props = exists ? await serverConfigService.parseProperties(propsPath) : {};
+        if (props['enable-rcon'] === 'true' && props['rcon.password']) {
+            return parseInt(props['rcon.port']) || DEFAULT_RCON_PORT;
+        }
+
+        const requested = parseInt(props['rcon.port']);
+        const port = requested && requested !== server.port && !(await this.isPortTaken(requested, server))
+            ? requested
+            : await this.findFreePort(server);
+
+        let content = exists ? await fs.readFile(propsPath, 'utf8') : '';
+        content = setProperty(content, 'enable-rcon', 'true');
+        content = setProperty(content, 'rcon.port', port);
+        content = setProperty(content, 'rcon.password', crypto.randomBytes(18).toString('base64url'));
+        content = setProperty(content, 'broadcast-rcon-to-ops', 'false');
+        await fs.writeFile(propsPath, content);
+
+        logger.info(`[Rcon] Enabled RCON for ${server.name} on port ${port}`);
+        return port;
+    }
+
+    private supportsRcon(server: ServerConfig): boolean {
+        return server.software !== 'Bedrock' && server.executionEngine !== 'remote' && !!server.workingDirectory;
+    }
+
+    // Ports other servers use for play or RCON, and anything already listening
+    private async isPortTaken(port: number, server: ServerConfig): Promise<boolean> {
+        const { getServers } = require('../servers/ServerService');
+        for (const other of getServers() as ServerConfig[]) {
+            if (other.port === port) return true;
+            if (other.id === server.id || !other.workingDirectory) continue;
+            const otherProps = path.join(other.workingDirectory, 'server.properties');
+            if (!(await fs.pathExists(otherProps))) continue;
+            const props = await serverConfigService.parseProperties(otherProps);
+            if (props['enable-rcon'] === 'true' && parseInt(props['rcon.port']) === port) return true;
+        }
+        return NetUtils.checkPort(port);
+    }
+
+    private async findFreePort(server: ServerConfig): Promise<number> {
+        for (let port = DEFAULT_RCON_PORT; port < DEFAULT_RCON_PORT + 100; port++) {
+            if (port !== server.port && !(await this.isPortTaken(port, server))) return port;
+        }
+        throw new Error('No free port for RCON');
+    }
+}
+
+export const rconService = new RconService();
@@ -1,6 +1,7 @@
 import { spawn, exec } from 'child_process';
 import { EventEmitter } from 'events';
 import { IServerRunner, RunnerStats } from './IServerRunner';
+import { forwardLines } from './outputLines';
 import util from 'util';
 import os from 'os';
 
@@ -40,9 +41,11 @@ export class DockerRunner extends EventEmitter implements IServerRunner {
 
         // 3. Build Docker Run Command
         const port = env.SERVER_PORT || '25565';
+        // RCON stays reachable from the panel host only
+        const rconMapping = env.RCON_PORT ? ` -p 127.0.0.1:${env.RCON_PORT}:${env.RCON_PORT}` : '';
         
         // Use -i for stdin support without -t (prevent TTY issues in logs)
-        const dockerCmd = `docker run --name ${containerName} -v "${cwd}":/data -w /data -p ${port}:${port} -i ${image} ${runCommand}`;
+        const dockerCmd = `docker run --name ${containerName} -v "${cwd}":/data -w /data -p ${port}:${port}${rconMapping} -i ${image} ${runCommand}`;
 
         const child = spawn(dockerCmd, {
             shell: true,
@@ -54,8 +57,7 @@ export class DockerRunner extends EventEmitter implements IServerRunner {
         // Store child to allow direct stdin writing if needed
         // (Will be attached to a more complex session manager in Phase 2)
 
-        child.stdout?.on('data', (data) => this.emit('log', { id, line: data.toString(), type: 'stdout' }));
-        child.stderr?.on('data', (data) => this.emit('log', { id, line: data.toString(), type: 'stderr' }));
+        forwardLines(child, (line, type) => this.emit('log', { id, line, type }));
 
         child.on('error', (err) => {
             console.error(`[DockerRunner:${id}] Child process error:`, err);
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { ResourceLimitUsage } from '@shared/types';
 
 export interface RunnerStats {
     cpu: number;
@@ -6,6 +7,7 @@ export interface RunnerStats {
     pid?: number;
     containerId?: string;
     commandLine?: string;
+    limits?: ResourceLimitUsage;
 }
 
 export interface IServerRunner extends EventEmitter {
@@ -1,17 +1,22 @@
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import { IServerRunner, RunnerStats } from './IServerRunner';
+import { forwardLines } from './outputLines';
 import si from 'systeminformation';
 import fs from 'fs-extra';
 import { exec } from 'child_process';
 import util from 'util';
+import { cgroupManager } from '../CgroupManager';
 
 const execAsync = util.promisify(exec);
+const THROTTLE_WARN_PERCENT = 50;
+const THROTTLE_WARN_INTERVAL = 5 * 60 * 1000;
 
 export class NativeRunner extends EventEmitter implements IServerRunner {
     private processes: Map<string, ChildProcess> = new Map();
+    private lastThrottleWarning: Map<string, number> = new Map();
 
-    private async fixPermissions(cwd: string) {
+    protected async fixPermissions(cwd: string) {
         if (process.platform === 'win32') {
             try {
                 // On Windows, use icacls to ensure the current user has full control
@@ -32,7 +37,8 @@ export class NativeRunner extends EventEmitter implements IServerRunner {
         // Before starting Native, ensure permissions are correct (Docker switch recovery)
         await this.fixPermissions(cwd);
 
-        const child = spawn(runCommand, {
+        const command = await this.applyResourceLimits(id, runCommand);
+        const child = spawn(command, {
             cwd,
             shell: true,
             stdio: ['pipe', 'pipe', 'pipe'],
@@ -41,15 +47,60 @@ export class NativeRunner extends EventEmitter implements IServerRunner {
 
         this.processes.set(id, child);
 
-        child.stdout?.on('data', (data) => this.emit('log', { id, line: data.toString(), type: 'stdout' }));
-        child.stderr?.on('data', (data) => this.emit('log', { id, line: data.toString(), type: 'stderr' }));
+        forwardLines(child, (line, type) => this.emit('log', { id, line, type }));
 
-        child.on('close', (code) => {
+        child.on('close', async (code) => {
             this.processes.delete(id);
-            this.emit('close', { id, code });
+            await this.finishExit(id, code);
         });
     }
 
+    // Releases what the run held and reports the exit
+    protected async finishExit(id: string, code: number | null) {
+        this.lastThrottleWarning.delete(id);
+
+        const usage = await cgroupManager.release(id).catch(() => null);
+        if (usage && usage.oomKills > 0) {
+            this.emit('log', { id, line: `[CraftCommand] The kernel killed this server for exceeding its memory limit (${usage.memoryMaxMB} MB). Raise the RAM or memory overhead in the resource limits.`, type: 'stderr' });
+        }
+        this.emit('close', { id, code });
+    }
+
+    /**
+     * Puts the server in its own cgroup when it has resource limits enabled. The
+     * shell moves itself into the group and then execs the command, so the
+     * server replaces it (receiving signals and stdin directly) and it and
+     * everything it spawns are limited from the first instruction.
+     */
+    protected async applyResourceLimits(id: string, runCommand: string): Promise<string> {
+        const { getServer } = require('../../servers/ServerService');
+        const server = getServer(id);
+        const limits = server ? cgroupManager.limitsFor(server) : null;
+        if (!limits) return runCommand;
+
+        try {
+            const procsFile = await cgroupManager.create(id, limits);
+            console.log(`[NativeRunner:${id}] Applied resource limits (memory.max ${Math.round(limits.memoryMaxBytes / 1024 / 1024)} MB).`);
+            return `echo $$ > "${procsFile}" && exec ${runCommand}`;
+        } catch (e: any) {
+            console.warn(`[NativeRunner:${id}] Resource limits skipped: ${e.message}`);
+            this.emit('log', { id, line: `[CraftCommand] Resource limits are enabled but could not be applied: ${e.message}. Starting without them.`, type: 'stderr' });
+            return runCommand;
+        }
+    }
+
+    // Surfaces limit hits in the console, where the diagnosis rules and the user see them
+    private reportLimitHits(id: string, previousOomKills: number, usage: NonNullable<RunnerStats['limits']>) {
+        if (usage.oomKills > previousOomKills) {
+            this.emit('log', { id, line: `[CraftCommand] Memory limit reached (${usage.memoryMaxMB} MB): the kernel killed a process of this server.`, type: 'stderr' });
+        }
+        const lastWarning = this.lastThrottleWarning.get(id) || 0;
+        if (usage.throttledPercent >= THROTTLE_WARN_PERCENT && Date.now() - lastWarning > THROTTLE_WARN_INTERVAL) {
+            this.lastThrottleWarning.set(id, Date.now());
+            this.emit('log', { id, line: `[CraftCommand] CPU quota exhausted: throttled in ${usage.throttledPercent}% of scheduling periods.`, type: 'stderr' });
+        }
+    }
+
     async stop(id: string, force: boolean = false): Promise<void> {
         const process = this.processes.get(id);
         if (process) {
@@ -110,9 +161,12 @@ export class NativeRunner extends EventEmitter implements IServerRunner {
     async getStats(id: string): Promise<RunnerStats> {
         const child = this.processes.get(id);
         if (!child || !child.pid) return { cpu: 0, memory: 0 };
+        return this.getStatsForShell(id, child.pid);
+    }
 
+    // Stats of the workload started by the shell with `shellPid`
+    protected async getStatsForShell(id: string, shellPid: number): Promise<RunnerStats> {
         try {
-            const shellPid = child.pid;
             const procs = await this.getSystemSnapshot();
             
             // 1. Recursive lookup for all descendants
@@ -153,12 +207,20 @@ export class NativeRunner extends EventEmitter implements IServerRunner {
                 }
             }
 
+            let limits: RunnerStats['limits'];
+            if (cgroupManager.isLimited(id)) {
+                const previousOomKills = cgroupManager.getLastUsage(id)?.oomKills || 0;
+                limits = (await cgroupManager.getUsage(id)) || undefined;
+                if (limits) this.reportLimitHits(id, previousOomKills, limits);
+            }
+
             if (target) {
                 return {
                     cpu: target.cpu,
                     memory: target.memRss / 1024, // KB -> MB (memRss is KB on Win/Linux)
                     pid: target.pid,
-                    commandLine: `${target.command} ${target.params}`.trim()
+                    commandLine: `${target.command} ${target.params}`.trim(),
+                    limits
                 };
             }
         } catch (e) {
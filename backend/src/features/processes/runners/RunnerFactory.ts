@@ -2,11 +2,14 @@ import { IServerRunner } from './IServerRunner';
 import { NativeRunner } from './NativeRunner';
 import { DockerRunner } from './DockerRunner';
 import { RemoteRunner } from './RemoteRunner';
+import { SupervisedRunner } from './SupervisedRunner';
+import { systemSettingsService } from '../../system/SystemSettingsService';
 
 class RunnerFactory {
     private nativeRunner: NativeRunner = new NativeRunner();
     private dockerRunner: DockerRunner = new DockerRunner();
     private remoteRunner: RemoteRunner = new RemoteRunner();
+    private supervisedRunner: SupervisedRunner = new SupervisedRunner();
 
     getRunner(engine: 'native' | 'docker' | 'remote' = 'native'): IServerRunner {
         if (engine === 'docker') {
@@ -15,7 +18,16 @@ class RunnerFactory {
         if (engine === 'remote') {
             return this.remoteRunner;
         }
-        return this.nativeRunner;
+        return this.isSupervisorEnabled() ? this.supervisedRunner : this.nativeRunner;
+    }
+
+    // Native servers run under the process supervisor only when it is turned on
+    isSupervisorEnabled(): boolean {
+        return systemSettingsService.getSettings().app?.processSupervisor?.enabled === true;
+    }
+
+    getSupervisedRunner(): SupervisedRunner {
+        return this.supervisedRunner;
     }
 
     getRemoteRunner(): RemoteRunner {
@@ -24,7 +36,7 @@ class RunnerFactory {
 
     // Helpers to get all runners for clean up or broad actions
     getAllRunners(): IServerRunner[] {
-        return [this.nativeRunner, this.dockerRunner];
+        return [this.nativeRunner, this.supervisedRunner, this.dockerRunner];
     }
 }
 
@@ -0,0 +1,83 @@
+import { NativeRunner } from './NativeRunner';
+import { RunnerStats } from './IServerRunner';
+import { supervisorClient, Welcome } from '../supervisor/SupervisorClient';
+
+/**
+ * Native execution through the process supervisor daemon: the same shell
+ * command, resource limits and stats as NativeRunner, but the process belongs
+ * to the daemon and survives panel restarts. See `reconnect` for taking
+ * running servers back after one.
+ */
+export class SupervisedRunner extends NativeRunner {
+    private pids: Map<string, number> = new Map();
+
+    constructor() {
+        super();
+
+        supervisorClient.on('log', ({ id, line, stream }: { id: string, line: string, stream: 'stdout' | 'stderr' }) => {
+            this.emit('log', { id, line, type: stream });
+        });
+        supervisorClient.on('exit', ({ id, code }: { id: string, code: number | null }) => {
+            if (!this.pids.delete(id)) return;
+            this.finishExit(id, code);
+        });
+        supervisorClient.on('disconnect', () => {
+            // Without the daemon there is no stdin or exit code left to wait for
+            for (const id of Array.from(this.pids.keys())) {
+                this.pids.delete(id);
+                this.emit('log', { id, line: '[CraftCommand] Lost connection to the process supervisor. The server may still be running without panel control.', type: 'stderr' });
+                this.finishExit(id, null);
+            }
+        });
+    }
+
+    async start(id: string, runCommand: string, cwd: string, env: NodeJS.ProcessEnv): Promise<void> {
+        if (this.pids.has(id)) {
+            throw new Error(`Process for ${id} is already running.`);
+        }
+
+        await this.fixPermissions(cwd);
+        const command = await this.applyResourceLimits(id, runCommand);
+        const pid = await supervisorClient.request({ type: 'spawn', id, command, cwd, env: { ...process.env, ...env } });
+        this.pids.set(id, pid || 0);
+    }
+
+    /**
+     * Connects to the daemon (starting one if none runs) and takes over the
+     * processes it kept running. Returns what the daemon reported.
+     */
+    async reconnect(): Promise<Welcome> {
+        const welcome = await supervisorClient.connect();
+        for (const proc of welcome.processes) this.pids.set(proc.id, proc.pid || 0);
+        return welcome;
+    }
+
+    async stop(id: string, force: boolean = false): Promise<void> {
+        if (!this.pids.has(id)) return;
+        if (force) {
+            await supervisorClient.request({ type: 'signal', id, signal: 'SIGKILL' });
+        } else {
+            await supervisorClient.request({ type: 'write', id, data: 'stop\n', stop: true });
+        }
+    }
+
+    async kill(id: string, signal: NodeJS.Signals = 'SIGKILL'): Promise<void> {
+        if (!this.pids.has(id)) return;
+        await supervisorClient.request({ type: 'signal', id, signal });
+    }
+
+    async sendCommand(id: string, command: string): Promise<void> {
+        if (!this.pids.has(id)) return;
+        await supervisorClient.request({ type: 'write', id, data: command + '\n' });
+    }
+
+    async getStats(id: string): Promise<RunnerStats> {
+        const pid = this.pids.get(id);
+        if (!pid) return { cpu: 0, memory: 0 };
+        return this.getStatsForShell(id, pid);
+    }
+
+    isRunning(id: string): boolean {
+        return this.pids.has(id);
+    }
+}
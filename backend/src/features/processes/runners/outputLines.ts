@@ -0,0 +1,25 @@
+import { ChildProcess } from 'child_process';
+
+/**
+ * Calls `onLine` once per line of a child's stdout and stderr. Pipe reads end
+ * wherever the OS buffer does, so a trailing partial line is held until the
+ * rest of it arrives or the stream ends.
+ */
+export function forwardLines(child: ChildProcess, onLine: (line: string, type: 'stdout' | 'stderr') => void) {
+    for (const type of ['stdout', 'stderr'] as const) {
+        const stream = child[type];
+        if (!stream) continue;
+
+        let partial = '';
+        stream.setEncoding('utf8');
+        stream.on('data', (data: string) => {
+            const lines = (partial + data).split('\n');
+            partial = lines.pop()!;
+            for (const text of lines) onLine(text.replace(/\r$/, ''), type);
+        });
+        stream.on('end', () => {
+            if (partial) onLine(partial.replace(/\r$/, ''), type);
+            partial = '';
+        });
+    }
+}
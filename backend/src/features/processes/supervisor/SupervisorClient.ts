@@ -0,0 +1,204 @@
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { DATA_DIR } from '../../../constants';
+import {
+    PROTOCOL_VERSION, TOKEN_ENV,
+    ClientMessage, DaemonMessage, encode, createDecoder
+} from './protocol';
+
+const TOKEN_FILE = path.join(DATA_DIR, 'supervisor.token');
+const LOG_FILE = path.join(DATA_DIR, 'logs', 'supervisor.log');
+const CONNECT_TIMEOUT = 10000;
+const REQUEST_TIMEOUT = 15000;
+
+export type Welcome = Extract<DaemonMessage, { type: 'welcome' }>;
+
+// Requests as callers write them; the client numbers them
+type WithoutReqId<T> = T extends { reqId: number } ? Omit<T, 'reqId'> : never;
+export type SupervisorRequest = WithoutReqId<ClientMessage>;
+
+// Unix socket paths are limited to ~104 bytes, so deep install paths fall back to the temp dir
+const resolveSocketPath = (): string => {
+    const hash = crypto.createHash('sha1').update(DATA_DIR).digest('hex').slice(0, 12);
+    if (process.platform === 'win32') return `\\\\.\\pipe\\craftcommand-supervisor-${hash}`;
+    const inData = path.join(DATA_DIR, 'supervisor.sock');
+    return inData.length < 100 ? inData : path.join(os.tmpdir(), `craftcommand-supervisor-${hash}.sock`);
+};
+
+/**
+ * Panel side of the process supervisor connection. Starts the daemon when none
+ * is listening, authenticates with the token in DATA_DIR, and turns the daemon's
+ * messages into 'log', 'exit' and 'disconnect' events.
+ */
+class SupervisorClient extends EventEmitter {
+    private socket: net.Socket | null = null;
+    private connecting: Promise<Welcome> | null = null;
+    private requests: Map<number, { resolve: (pid?: number) => void, reject: (e: Error) => void, timer: NodeJS.Timeout }> = new Map();
+    private nextReqId = 1;
+    private daemonPid: number | null = null;
+    public readonly socketPath = resolveSocketPath();
+
+    isConnected(): boolean {
+        return !!this.socket && !this.socket.destroyed;
+    }
+
+    getStatus() {
+        return { connected: this.isConnected(), pid: this.daemonPid, socket: this.socketPath };
+    }
+
+    /**
+     * Connects, launching the daemon first if needed. Concurrent callers share
+     * one attempt. Resolves with the daemon's welcome: what it kept running.
+     */
+    connect(): Promise<Welcome> {
+        if (!this.connecting) {
+            this.connecting = this.establish().finally(() => { this.connecting = null; });
+        }
+        return this.connecting;
+    }
+
+    private async establish(): Promise<Welcome> {
+        const token = await this.getToken();
+        let welcome = await this.tryConnect(token).catch(() => null);
+
+        if (welcome && welcome.version !== PROTOCOL_VERSION) {
+            if (welcome.processes.length > 0) {
+                console.warn(`[Supervisor] Daemon speaks protocol ${welcome.version}, panel ${PROTOCOL_VERSION}. Keeping it until its servers stop.`);
+                return welcome;
+            }
+            console.log(`[Supervisor] Replacing idle daemon (protocol ${welcome.version} -> ${PROTOCOL_VERSION}).`);
+            await this.request({ type: 'shutdown' }).catch(() => {});
+            this.socket?.destroy();
+            await new Promise(r => setTimeout(r, 500));
+            welcome = null;
+        }
+
+        if (!welcome) {
+            await this.launch(token);
+            const deadline = Date.now() + CONNECT_TIMEOUT;
+            while (!welcome) {
+                await new Promise(r => setTimeout(r, 250));
+                welcome = await this.tryConnect(token).catch(e => {
+                    if (Date.now() > deadline) throw new Error(`Process supervisor did not come up: ${e.message}`);
+                    return null;
+                });
+            }
+        }
+        return welcome;
+    }
+
+    private async getToken(): Promise<string> {
+        if (await fs.pathExists(TOKEN_FILE)) return (await fs.readFile(TOKEN_FILE, 'utf8')).trim();
+        const token = crypto.randomBytes(32).toString('hex');
+        await fs.ensureDir(DATA_DIR);
+        await fs.writeFile(TOKEN_FILE, token, { mode: 0o600 });
+        return token;
+    }
+
+    private async launch(token: string) {
+        // Runs the daemon from source under ts-node, or from the build output
+        const ext = path.extname(__filename);
+        const script = path.join(__dirname, `SupervisorDaemon${ext}`);
+        const runtime = ext === '.ts' ? ['-r', 'ts-node/register/transpile-only'] : [];
+        await fs.ensureDir(path.dirname(LOG_FILE));
+
+        console.log(`[Supervisor] Launching process supervisor on ${this.socketPath}...`);
+        const launcher = spawn(process.execPath, [...runtime, script, '--socket', this.socketPath, '--log', LOG_FILE, '--launch'], {
+            cwd: process.cwd(),
+            stdio: 'ignore',
+            env: { ...process.env, [TOKEN_ENV]: token },
+            windowsHide: true
+        });
+        await new Promise<void>((resolve, reject) => {
+            launcher.on('error', reject);
+            launcher.on('exit', code => code === 0 ? resolve() : reject(new Error(`Supervisor launcher exited with code ${code}`)));
+        });
+    }
+
+    private tryConnect(token: string): Promise<Welcome> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(this.socketPath);
+            let welcomed = false;
+            const timer = setTimeout(() => {
+                socket.destroy();
+                reject(new Error('Timed out waiting for the supervisor'));
+            }, CONNECT_TIMEOUT);
+
+            socket.on('connect', () => {
+                socket.write(encode({ type: 'hello', token, version: PROTOCOL_VERSION }));
+            });
+            socket.on('data', createDecoder<DaemonMessage>(message => {
+                if (!welcomed) {
+                    clearTimeout(timer);
+                    if (message.type !== 'welcome') {
+                        socket.destroy();
+                        return reject(new Error(message.type === 'error' ? message.error : 'Unexpected handshake'));
+                    }
+                    welcomed = true;
+                    this.socket = socket;
+                    this.daemonPid = message.pid;
+                    console.log(`[Supervisor] Connected to daemon (pid ${message.pid}); it holds ${message.processes.length} running server(s).`);
+                    return resolve(message);
+                }
+                this.handleMessage(message);
+            }));
+            socket.on('error', e => {
+                clearTimeout(timer);
+                if (!welcomed) reject(e);
+            });
+            socket.on('close', () => {
+                if (!welcomed || this.socket !== socket) return;
+                this.socket = null;
+                this.daemonPid = null;
+                for (const [reqId, pending] of this.requests) {
+                    clearTimeout(pending.timer);
+                    pending.reject(new Error('Lost connection to the process supervisor'));
+                    this.requests.delete(reqId);
+                }
+                console.error('[Supervisor] Lost connection to the daemon.');
+                this.emit('disconnect');
+            });
+        });
+    }
+
+    private handleMessage(message: DaemonMessage) {
+        switch (message.type) {
+            case 'log':
+                this.emit('log', { id: message.id, line: message.line, stream: message.stream });
+                break;
+            case 'exit':
+                this.emit('exit', { id: message.id, code: message.code, signal: message.signal, stopRequested: message.stopRequested });
+                break;
+            case 'result': {
+                const pending = this.requests.get(message.reqId);
+                if (!pending) return;
+                clearTimeout(pending.timer);
+                this.requests.delete(message.reqId);
+                if (message.ok) pending.resolve(message.pid);
+                else pending.reject(new Error(message.error || 'Supervisor request failed'));
+                break;
+            }
+        }
+    }
+
+    // Sends a request and resolves with the spawned pid, if any
+    async request(message: SupervisorRequest): Promise<number | undefined> {
+        if (!this.isConnected()) await this.connect();
+        const reqId = this.nextReqId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.requests.delete(reqId);
+                reject(new Error(`Supervisor did not answer "${message.type}"`));
+            }, REQUEST_TIMEOUT);
+            this.requests.set(reqId, { resolve, reject, timer });
+            this.socket!.write(encode({ ...message, reqId } as ClientMessage));
+        });
+    }
+}
+
+export const supervisorClient = new SupervisorClient();
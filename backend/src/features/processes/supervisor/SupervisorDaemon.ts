@@ -0,0 +1,278 @@
+/**
+ * Process supervisor daemon. Runs detached from the panel and owns the game
+ * server processes, so restarting or updating the panel leaves them running.
+ * The panel connects over a local socket to spawn processes, write to their
+ * stdin, signal them and stream their output; on reconnect it gets back every
+ * running process with its recent output, and the exits it missed.
+ *
+ *   node SupervisorDaemon.js --socket <path> [--launch --log <file>]
+ *
+ * `--launch` starts the real daemon in the background and returns at once. The
+ * daemon is then no descendant of the panel, so tools that kill the panel's
+ * process tree (nodemon, service managers) do not take the servers with it.
+ * Only Node built-ins are used here; the panel's modules are never loaded.
+ */
+import net from 'net';
+import fs from 'fs';
+import crypto from 'crypto';
+import { spawn, ChildProcess } from 'child_process';
+import {
+    PROTOCOL_VERSION, RING_BUFFER_SIZE, TOKEN_ENV,
+    ClientMessage, DaemonMessage, SupervisedProcess, SupervisedExit, SupervisedLine,
+    encode, createDecoder
+} from './protocol';
+
+const HELLO_TIMEOUT = 5000;
+const IDLE_EXIT = 10 * 60 * 1000; // No processes and no panel for this long: exit
+const MAX_PENDING_EXITS = 100;
+const SHUTDOWN_GRACE = 60 * 1000;
+
+const arg = (name: string): string | undefined => {
+    const index = process.argv.indexOf(name);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const log = (message: string) => console.log(`[Supervisor] ${new Date().toISOString()} ${message}`);
+
+const socketPath = arg('--socket');
+if (!socketPath) {
+    console.error('[Supervisor] --socket is required');
+    process.exit(1);
+}
+
+if (process.argv.includes('--launch')) {
+    const logFile = arg('--log');
+    const out = logFile ? fs.openSync(logFile, 'a') : 'ignore';
+    const args = [...process.execArgv, ...process.argv.slice(1).filter(a => a !== '--launch')];
+    spawn(process.execPath, args, { detached: true, stdio: ['ignore', out, out], env: process.env, windowsHide: true }).unref();
+    process.exit(0);
+}
+
+const token = process.env[TOKEN_ENV] || '';
+delete process.env[TOKEN_ENV]; // Game servers must not inherit it
+if (!token) {
+    console.error(`[Supervisor] ${TOKEN_ENV} is required`);
+    process.exit(1);
+}
+
+interface Entry {
+    child: ChildProcess;
+    info: SupervisedProcess;
+}
+
+const processes: Map<string, Entry> = new Map();
+const pendingExits: SupervisedExit[] = [];
+const clients: Set<net.Socket> = new Set();
+let disconnectedAt: number | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+let shuttingDown = false;
+
+const send = (socket: net.Socket, message: DaemonMessage) => {
+    if (!socket.destroyed) socket.write(encode(message));
+};
+
+const broadcast = (message: DaemonMessage) => clients.forEach(socket => send(socket, message));
+
+const scheduleIdleExit = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+    if (processes.size > 0 || clients.size > 0) return;
+    idleTimer = setTimeout(() => {
+        if (processes.size > 0 || clients.size > 0) return;
+        log('Idle with no processes and no panel connected. Exiting.');
+        process.exit(0);
+    }, IDLE_EXIT);
+};
+
+const safeEqual = (a: string, b: string) => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+function spawnProcess(id: string, command: string, cwd: string, env: NodeJS.ProcessEnv): number | undefined {
+    if (processes.has(id)) throw new Error(`Process for ${id} is already running.`);
+
+    const child = spawn(command, { cwd, shell: true, stdio: ['pipe', 'pipe', 'pipe'], env });
+    const info: SupervisedProcess = { id, pid: child.pid, startedAt: Date.now(), stopRequested: false, logs: [] };
+    processes.set(id, { child, info });
+    scheduleIdleExit();
+    log(`Started ${id} (pid ${child.pid})`);
+
+    const pushLine = (text: string, stream: SupervisedLine['stream']) => {
+        const line: SupervisedLine = { t: Date.now(), line: text, stream };
+        info.logs.push(line);
+        if (info.logs.length > RING_BUFFER_SIZE) info.logs.shift();
+        broadcast({ type: 'log', id, ...line });
+    };
+    // Output arrives in arbitrary chunks; the ring buffer holds whole lines
+    const partial: Record<SupervisedLine['stream'], string> = { stdout: '', stderr: '' };
+    const onOutput = (stream: SupervisedLine['stream']) => (data: string) => {
+        const lines = (partial[stream] + data).split('\n');
+        partial[stream] = lines.pop()!;
+        for (const text of lines) pushLine(text.replace(/\r$/, ''), stream);
+    };
+    const flushPartial = () => {
+        for (const stream of ['stdout', 'stderr'] as const) {
+            if (partial[stream]) pushLine(partial[stream].replace(/\r$/, ''), stream);
+            partial[stream] = '';
+        }
+    };
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+    child.stdout?.on('data', onOutput('stdout'));
+    child.stderr?.on('data', onOutput('stderr'));
+    child.stdin?.on('error', () => {}); // Writes racing an exit
+    child.on('error', e => log(`Process ${id} error: ${e.message}`));
+
+    child.on('close', (code, signal) => {
+        if (processes.get(id)?.child !== child) return;
+        processes.delete(id);
+        flushPartial();
+        log(`${id} exited (code ${code}${signal ? `, signal ${signal}` : ''})`);
+
+        const exit: SupervisedExit = { id, code, signal, exitedAt: Date.now(), stopRequested: info.stopRequested, logs: info.logs };
+        if (clients.size > 0) {
+            broadcast({ type: 'exit', id, code, signal, stopRequested: info.stopRequested });
+        } else {
+            pendingExits.push(exit);
+            if (pendingExits.length > MAX_PENDING_EXITS) pendingExits.shift();
+        }
+
+        if (shuttingDown && processes.size === 0) process.exit(0);
+        scheduleIdleExit();
+    });
+
+    return child.pid;
+}
+
+function handleMessage(socket: net.Socket, message: ClientMessage) {
+    const reply = (reqId: number, result: Omit<Extract<DaemonMessage, { type: 'result' }>, 'type' | 'reqId'>) =>
+        send(socket, { type: 'result', reqId, ...result });
+
+    try {
+        switch (message.type) {
+            case 'spawn':
+                reply(message.reqId, { ok: true, pid: spawnProcess(message.id, message.command, message.cwd, message.env) });
+                break;
+            case 'write': {
+                const entry = processes.get(message.id);
+                if (!entry) throw new Error(`No process for ${message.id}`);
+                if (message.stop) entry.info.stopRequested = true;
+                entry.child.stdin?.write(message.data);
+                reply(message.reqId, { ok: true });
+                break;
+            }
+            case 'signal': {
+                const entry = processes.get(message.id);
+                if (!entry) throw new Error(`No process for ${message.id}`);
+                entry.info.stopRequested = true;
+                entry.child.kill(message.signal as NodeJS.Signals);
+                reply(message.reqId, { ok: true });
+                break;
+            }
+            case 'shutdown':
+                if (processes.size > 0) throw new Error(`${processes.size} process(es) still running`);
+                reply(message.reqId, { ok: true });
+                log('Shutdown requested by the panel.');
+                setTimeout(() => process.exit(0), 100);
+                break;
+        }
+    } catch (e: any) {
+        if ('reqId' in message) reply(message.reqId, { ok: false, error: e.message });
+    }
+}
+
+const server = net.createServer(socket => {
+    let authenticated = false;
+    const helloTimer = setTimeout(() => socket.destroy(), HELLO_TIMEOUT);
+
+    socket.on('data', createDecoder<ClientMessage>(message => {
+        if (authenticated) return handleMessage(socket, message);
+
+        if (message.type !== 'hello' || typeof message.token !== 'string' || !safeEqual(message.token, token)) {
+            send(socket, { type: 'error', error: 'Unauthorized' });
+            socket.destroy();
+            return;
+        }
+        clearTimeout(helloTimer);
+        authenticated = true;
+        clients.add(socket);
+        scheduleIdleExit();
+
+        send(socket, {
+            type: 'welcome',
+            version: PROTOCOL_VERSION,
+            pid: process.pid,
+            processes: Array.from(processes.values()).map(entry => entry.info),
+            exits: pendingExits.splice(0),
+            disconnectedAt
+        });
+        disconnectedAt = null;
+        log(`Panel connected (protocol ${message.version}).`);
+    }));
+
+    socket.on('error', () => {});
+    socket.on('close', () => {
+        clearTimeout(helloTimer);
+        if (!clients.delete(socket)) return;
+        if (clients.size === 0) {
+            disconnectedAt = Date.now();
+            log(`Panel disconnected. Keeping ${processes.size} process(es) running.`);
+        }
+        scheduleIdleExit();
+    });
+});
+
+// Host shutdown: stop the servers cleanly instead of leaving them to be killed
+const shutdown = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log(`${signal} received. Stopping ${processes.size} process(es).`);
+    if (processes.size === 0) process.exit(0);
+    for (const { child, info } of processes.values()) {
+        info.stopRequested = true;
+        child.stdin?.write('stop\n');
+    }
+    setTimeout(() => {
+        processes.forEach(({ child }) => child.kill('SIGKILL'));
+        process.exit(0);
+    }, SHUTDOWN_GRACE).unref();
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGHUP', () => {});
+process.on('exit', () => {
+    if (process.platform !== 'win32' && server.listening) {
+        try { fs.unlinkSync(socketPath); } catch {}
+    }
+});
+
+const listen = () => {
+    server.listen(socketPath, () => {
+        if (process.platform !== 'win32') fs.chmodSync(socketPath, 0o600);
+        log(`Listening on ${socketPath} (pid ${process.pid}, protocol ${PROTOCOL_VERSION}).`);
+        scheduleIdleExit();
+    });
+};
+
+server.on('error', (e: NodeJS.ErrnoException) => {
+    log(`Socket error: ${e.message}`);
+    process.exit(1);
+});
+
+if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+    // A live daemon answers; a stale socket file from a crash does not
+    const probe = net.connect(socketPath);
+    probe.once('connect', () => {
+        log('Another supervisor is already running. Exiting.');
+        probe.destroy();
+        process.exit(0);
+    });
+    probe.once('error', () => {
+        fs.unlinkSync(socketPath);
+        listen();
+    });
+} else {
+    listen();
+}
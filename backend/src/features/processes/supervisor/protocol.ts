@@ -0,0 +1,79 @@
+/**
+ * Wire protocol between the panel and the process supervisor: newline-delimited
+ * JSON over a local socket (a Unix socket, or a named pipe on Windows).
+ * Kept free of panel imports, since the daemon loads it on its own.
+ */
+
+// Bumped whenever a message changes shape; an idle daemon with another version is replaced
+export const PROTOCOL_VERSION = 1;
+
+// Lines of output kept per process, like ProcessManager's in-memory history
+export const RING_BUFFER_SIZE = 1000;
+
+export const TOKEN_ENV = 'CRAFTCOMMAND_SUPERVISOR_TOKEN';
+
+export interface SupervisedLine {
+    t: number;
+    line: string;
+    stream: 'stdout' | 'stderr';
+}
+
+export interface SupervisedProcess {
+    id: string;
+    pid?: number;
+    startedAt: number;
+    stopRequested: boolean;
+    logs: SupervisedLine[];
+}
+
+export interface SupervisedExit {
+    id: string;
+    code: number | null;
+    signal: string | null;
+    exitedAt: number;
+    stopRequested: boolean;
+    logs: SupervisedLine[];
+}
+
+export type ClientMessage =
+    | { type: 'hello', token: string, version: number }
+    | { type: 'spawn', reqId: number, id: string, command: string, cwd: string, env: NodeJS.ProcessEnv }
+    // `stop` marks the write as a stop request, so the exit is not mistaken for a crash
+    | { type: 'write', reqId: number, id: string, data: string, stop?: boolean }
+    | { type: 'signal', reqId: number, id: string, signal: string }
+    | { type: 'shutdown', reqId: number };
+
+export type DaemonMessage =
+    | {
+        type: 'welcome',
+        version: number,
+        pid: number,
+        processes: SupervisedProcess[],
+        // Exits nobody was connected to see, oldest first
+        exits: SupervisedExit[],
+        // When the last client went away; output after it has not been seen by the panel
+        disconnectedAt: number | null
+    }
+    | { type: 'result', reqId: number, ok: boolean, error?: string, pid?: number }
+    | { type: 'log', id: string } & SupervisedLine
+    | { type: 'exit', id: string, code: number | null, signal: string | null, stopRequested: boolean }
+    | { type: 'error', error: string };
+
+export const encode = (message: ClientMessage | DaemonMessage): string => JSON.stringify(message) + '\n';
+
+// Splits a socket's data into messages; malformed lines are dropped
+export const createDecoder = <T>(onMessage: (message: T) => void) => {
+    let buffer = '';
+    return (chunk: Buffer | string) => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 1);
+            if (!line.trim()) continue;
+            try {
+                onMessage(JSON.parse(line));
+            } catch {}
+        }
+    };
+};
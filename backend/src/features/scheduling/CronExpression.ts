@@ -0,0 +1,278 @@
+/**
+ * Standard 5-field cron expression (minute hour day-of-month month day-of-week).
+ *
+ * Supports wildcards, ranges (1-5), lists (1,15), steps (*\/5, 10-40/10),
+ * month/day names (JAN, MON-FRI) and the usual macros (@hourly, @daily, ...).
+ * Matching is evaluated against the wall clock of an optional IANA timezone.
+ */
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    aliases?: string[];
+    aliasOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day-of-month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, aliases: MONTH_NAMES, aliasOffset: 1 },
+    { name: 'day-of-week', min: 0, max: 7, aliases: DAY_NAMES, aliasOffset: 0 }
+];
+
+// Upper bound for nextRun searches (covers leap-day-only expressions)
+const MAX_SEARCH_YEARS = 8;
+
+export interface WallClock {
+    year: number;
+    month: number;   // 1-12
+    day: number;     // 1-31
+    hour: number;
+    minute: number;
+    weekday: number; // 0 = Sunday
+}
+
+export class CronParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CronParseError';
+    }
+}
+
+export class CronExpression {
+    public readonly source: string;
+    public readonly timezone?: string;
+
+    private minutes: Set<number>;
+    private hours: Set<number>;
+    private daysOfMonth: Set<number>;
+    private months: Set<number>;
+    private daysOfWeek: Set<number>;
+    private domRestricted: boolean;
+    private dowRestricted: boolean;
+    private formatter: Intl.DateTimeFormat;
+
+    constructor(expression: string, timezone?: string) {
+        this.source = (expression || '').trim();
+        this.timezone = timezone || undefined;
+        this.formatter = CronExpression.createFormatter(this.timezone);
+
+        const normalized = MACROS[this.source.toLowerCase()] || this.source;
+        const parts = normalized.split(/\s+/).filter(Boolean);
+        if (parts.length !== 5) {
+            throw new CronParseError(`Expected 5 fields (minute hour day month weekday) but got ${parts.length}: "${this.source}"`);
+        }
+
+        this.minutes = CronExpression.parseField(parts[0], FIELDS[0]);
+        this.hours = CronExpression.parseField(parts[1], FIELDS[1]);
+        this.daysOfMonth = CronExpression.parseField(parts[2], FIELDS[2]);
+        this.months = CronExpression.parseField(parts[3], FIELDS[3]);
+        this.daysOfWeek = CronExpression.parseField(parts[4], FIELDS[4]);
+
+        // 7 is an alias for Sunday
+        if (this.daysOfWeek.has(7)) {
+            this.daysOfWeek.delete(7);
+            this.daysOfWeek.add(0);
+        }
+
+        this.domRestricted = !parts[2].startsWith('*');
+        this.dowRestricted = !parts[4].startsWith('*');
+    }
+
+    /**
+     * Returns an error message if the expression or timezone is invalid, otherwise null.
+     */
+    static validate(expression: string, timezone?: string): string | null {
+        try {
+            new CronExpression(expression, timezone);
+            return null;
+        } catch (e: any) {
+            return e.message;
+        }
+    }
+
+    static isValidTimezone(timezone: string): boolean {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * True if the expression fires during the minute containing `date`.
+     */
+    matches(date: Date): boolean {
+        const wall = this.toWallClock(date);
+        return this.minutes.has(wall.minute)
+            && this.hours.has(wall.hour)
+            && this.matchesDay(wall);
+    }
+
+    /**
+     * Computes the first matching minute strictly after `from`.
+     * Returns null if nothing matches within the search horizon (e.g. "0 0 31 2 *").
+     */
+    next(from: Date = new Date()): Date | null {
+        // Start at the beginning of the following minute
+        let cursor = new Date(Math.floor(from.getTime() / 60000) * 60000 + 60000);
+        const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60000;
+
+        while (cursor.getTime() <= limit) {
+            const wall = this.toWallClock(cursor);
+
+            if (!this.months.has(wall.month) || !this.matchesDay(wall)) {
+                cursor = this.startOfNextDay(wall);
+                continue;
+            }
+            if (!this.hours.has(wall.hour)) {
+                cursor = new Date(cursor.getTime() + (60 - wall.minute) * 60000);
+                continue;
+            }
+            if (!this.minutes.has(wall.minute)) {
+                cursor = new Date(cursor.getTime() + 60000);
+                continue;
+            }
+            return cursor;
+        }
+        return null;
+    }
+
+    toWallClock(date: Date): WallClock {
+        const parts: Record<string, string> = {};
+        for (const p of this.formatter.formatToParts(date)) {
+            parts[p.type] = p.value;
+        }
+        return {
+            year: parseInt(parts.year),
+            month: parseInt(parts.month),
+            day: parseInt(parts.day),
+            hour: parseInt(parts.hour) % 24, // Some engines render midnight as "24"
+            minute: parseInt(parts.minute),
+            weekday: DAY_NAMES.indexOf((parts.weekday || '').toUpperCase())
+        };
+    }
+
+    /**
+     * The next local midnight, built from the wall-clock date so that 23- and
+     * 25-hour days around DST transitions are not skipped or repeated.
+     */
+    private startOfNextDay(wall: WallClock): Date {
+        const target = Date.UTC(wall.year, wall.month - 1, wall.day + 1); // Local midnight, as if it were UTC
+        let instant = target;
+        // The offset at the guess can differ from the one at the answer; a second round settles it
+        for (let i = 0; i < 2; i++) instant = target - (this.wallAsUtc(new Date(instant)) - instant);
+        // Where DST starts at midnight, 00:00 does not exist and the day starts after the gap
+        const shortfall = target - this.wallAsUtc(new Date(instant));
+        return new Date(shortfall > 0 ? instant + shortfall : instant);
+    }
+
+    private wallAsUtc(date: Date): number {
+        const wall = this.toWallClock(date);
+        return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+    }
+
+    private matchesDay(wall: WallClock): boolean {
+        if (!this.months.has(wall.month)) return false;
+
+        const domMatch = this.daysOfMonth.has(wall.day);
+        const dowMatch = this.daysOfWeek.has(wall.weekday);
+
+        // Vixie cron semantics: if both day fields are restricted, either may match
+        if (this.domRestricted && this.dowRestricted) return domMatch || dowMatch;
+        if (this.domRestricted) return domMatch;
+        if (this.dowRestricted) return dowMatch;
+        return true;
+    }
+
+    private static createFormatter(timezone?: string): Intl.DateTimeFormat {
+        try {
+            return new Intl.DateTimeFormat('en-US', {
+                timeZone: timezone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+                weekday: 'short'
+            });
+        } catch {
+            throw new CronParseError(`Unknown timezone "${timezone}". Use an IANA name such as "Europe/Berlin".`);
+        }
+    }
+
+    private static parseField(field: string, spec: FieldSpec): Set<number> {
+        const values = new Set<number>();
+
+        for (const item of field.split(',')) {
+            if (!item) throw new CronParseError(`Empty list entry in ${spec.name} field "${field}"`);
+
+            const [rangePart, stepPart, ...rest] = item.split('/');
+            if (rest.length > 0) throw new CronParseError(`Invalid step in ${spec.name} field "${item}"`);
+
+            let step = 1;
+            if (stepPart !== undefined) {
+                step = CronExpression.parseNumber(stepPart, spec, 'step');
+                if (step < 1) throw new CronParseError(`Step must be at least 1 in ${spec.name} field "${item}"`);
+            }
+
+            let start: number;
+            let end: number;
+            if (rangePart === '*') {
+                start = spec.min;
+                end = spec.max;
+            } else if (rangePart.includes('-')) {
+                const [a, b, ...extra] = rangePart.split('-');
+                if (extra.length > 0) throw new CronParseError(`Invalid range in ${spec.name} field "${item}"`);
+                start = CronExpression.parseValue(a, spec);
+                end = CronExpression.parseValue(b, spec);
+                if (start > end) throw new CronParseError(`Range start exceeds end in ${spec.name} field "${item}"`);
+            } else {
+                start = CronExpression.parseValue(rangePart, spec);
+                // "5/15" means "from 5 to max every 15"
+                end = stepPart !== undefined ? spec.max : start;
+            }
+
+            for (let v = start; v <= end; v += step) values.add(v);
+        }
+
+        return values;
+    }
+
+    private static parseValue(token: string, spec: FieldSpec): number {
+        const upper = token.toUpperCase();
+        if (spec.aliases) {
+            const idx = spec.aliases.indexOf(upper);
+            if (idx !== -1) return idx + (spec.aliasOffset || 0);
+        }
+        const value = CronExpression.parseNumber(token, spec, 'value');
+        if (value < spec.min || value > spec.max) {
+            throw new CronParseError(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+        }
+        return value;
+    }
+
+    private static parseNumber(token: string, spec: FieldSpec, label: string): number {
+        if (!/^\d+$/.test(token)) {
+            throw new CronParseError(`Invalid ${label} "${token}" in ${spec.name} field`);
+        }
+        return parseInt(token, 10);
+    }
+}
@@ -1,145 +1,341 @@
 import { scheduleRepository } from '../../storage/ScheduleRepository';
 import { processManager } from '../processes/ProcessManager';
-import { backupService } from '../backups/BackupService';
-import { startServer } from '../servers/ServerService';
+import { diagnosisService } from '../diagnosis/DiagnosisService';
 
 import { EventEmitter } from 'events';
-import {  ScheduleTask  } from '@shared/types';
+import {  ScheduleTask, ScheduleHistoryEntry, ScheduleStepResult, ScheduleTrigger, ScheduleTriggerEvent, DiagnosisResult, ScheduleFleetTarget, ScheduleServerOutcome, ServerConfig, ScheduleHistoryQuery  } from '@shared/types';
+import { CronExpression } from './CronExpression';
+import { scheduleWorkflowRunner } from './ScheduleWorkflow';
+
+const TRIGGER_EVENTS: ScheduleTriggerEvent[] = ['player:first-join', 'player:last-leave', 'player:join', 'player:leave', 'status', 'diagnosis'];
+const SEVERITY_RANK: Record<DiagnosisResult['severity'], number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+interface TriggerContext {
+    status?: string;
+    severities?: DiagnosisResult['severity'][];
+}
+
+// Pseudo server id under which fleet-wide schedules are stored
+export const GLOBAL_SCHEDULE_SCOPE = 'global';
+// nodeIds entry that matches servers hosted by the panel itself
+export const LOCAL_NODE_ID = 'local';
+
+// A cron run is "on time" if it is picked up within this window; anything later was missed
+const MISSED_RUN_GRACE_MS = 90 * 1000;
+// Upper bound for the 'run-all' catch-up policy so a long outage can't queue days of runs
+const MAX_CATCH_UP_RUNS = 24;
+
+// History entries kept per server (or for the fleet scope)
+const MAX_HISTORY_ENTRIES = 500;
 
 export class ScheduleService extends EventEmitter {
     private timer: NodeJS.Timeout | null = null;
     private tasks: Map<string, ScheduleTask[]> = new Map();
+    private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
+    private runningTasks: Set<string> = new Set();
+    private initialized = false;
 
     constructor() {
         super();
+        this.listenToEvents();
+    }
+
+    /**
+     * Loads every persisted schedule (not just those of servers opened since boot),
+     * applies missed-run policies and starts the minute ticker.
+     */
+    public async initialize() {
+        if (this.initialized) return;
+        this.initialized = true;
+
+        const all = await scheduleRepository.getAllSchedules();
+        const byServer = new Map<string, ScheduleTask[]>();
+        for (const task of all) {
+            const list = byServer.get(task.serverId) || [];
+            list.push(task);
+            byServer.set(task.serverId, list);
+        }
+        // Overwrite (rather than merge) anything lazily loaded before boot finished
+        byServer.forEach((list, serverId) => this.tasks.set(serverId, list));
+        console.log(`[ScheduleService] Loaded ${all.length} schedule(s) across ${this.tasks.size} server(s).`);
+
+        // Catch up on anything that came due while the panel was down
+        await this.checkSchedules();
         this.startScheduler();
     }
 
     private startScheduler() {
         console.log('[ScheduleService] Scheduler started.');
-        // Check every minute
-        this.timer = setInterval(() => this.checkSchedules(), 60 * 1000);
+        // Align ticks to the top of each minute so cron fields match the intended wall-clock minute
+        const delay = 60000 - (Date.now() % 60000);
+        setTimeout(() => {
+            this.checkSchedules();
+            this.timer = setInterval(() => this.checkSchedules(), 60 * 1000);
+        }, delay);
     }
 
     private async checkSchedules() {
         const now = new Date();
-        const minutes = now.getMinutes();
-        const hours = now.getHours();
         
         for (const [serverId, tasks] of this.tasks.entries()) {
+            let dirty = false;
+
             for (const task of tasks) {
-                if (!task.isActive) continue;
-
-                if (this.isDue(task.cron, minutes, hours)) {
-                    console.log(`[ScheduleService] Executing task ${task.name} for server ${serverId}`);
-                    await this.executeTask(serverId, task);
-                    
-                    // Update last run
-                    task.lastRun = now.toISOString();
-                    task.nextRun = this.calculateNextRun(task.cron); // Simplified
-                    this.saveSchedules(serverId, tasks);
+                if (!task.isActive || task.trigger?.type === 'event') continue;
+
+                let cron: CronExpression;
+                try {
+                    cron = new CronExpression(task.cron, task.timezone);
+                } catch (e: any) {
+                    console.warn(`[ScheduleService] Skipping task ${task.name} (${serverId}): ${e.message}`);
+                    continue;
+                }
+
+                const dueAt = task.nextRun ? new Date(task.nextRun).getTime() : NaN;
+                if (isNaN(dueAt)) {
+                    // Never scheduled (or a legacy prose value): start counting from now
+                    task.nextRun = this.calculateNextRun(task, now);
+                    dirty = true;
+                    continue;
+                }
+                if (dueAt > now.getTime()) continue;
+
+                const runs = this.resolveDueRuns(task, cron, dueAt, now);
+                task.nextRun = this.calculateNextRun(task, now);
+                dirty = true;
+
+                if (runs === 0) {
+                    console.log(`[ScheduleService] Skipping missed run of ${task.name} (${serverId}) per policy.`);
+                    await this.logExecution(serverId, task, 'catch-up', false, `Missed run at ${new Date(dueAt).toISOString()} skipped (panel offline)`);
+                    continue;
                 }
+
+                const trigger = now.getTime() - dueAt > MISSED_RUN_GRACE_MS ? 'catch-up' : 'cron';
+                console.log(`[ScheduleService] Executing task ${task.name} for server ${serverId}${runs > 1 ? ` (${runs} catch-up runs)` : ''}`);
+                task.lastRun = now.toISOString();
+
+                // Workflows may include long waits, so don't block the remaining tasks
+                this.executeTask(serverId, task, trigger, runs);
             }
+
+            if (dirty) await this.saveSchedules(serverId, tasks);
+        }
+    }
+
+    /**
+     * Determines how many times a due task should run now, applying its missed-run policy
+     * when the scheduled time lies further in the past than a normal tick would explain.
+     */
+    private resolveDueRuns(task: ScheduleTask, cron: CronExpression, dueAt: number, now: Date): number {
+        if (now.getTime() - dueAt <= MISSED_RUN_GRACE_MS) return 1;
+
+        const policy = task.missedRunPolicy || 'skip';
+        if (policy === 'skip') return 0;
+        if (policy === 'run-once') return 1;
+
+        // 'run-all': count every occurrence between the first missed slot and now
+        let count = 1;
+        let cursor = cron.next(new Date(dueAt));
+        while (cursor && cursor.getTime() <= now.getTime() && count < MAX_CATCH_UP_RUNS) {
+            count++;
+            cursor = cron.next(cursor);
         }
+        return count;
     }
 
-    private isDue(cron: string, currentMinute: number, currentHour: number): boolean {
-        // Supports: "* * * * *" (Every min), "0 * * * *" (Hourly), "*/5 * * * *" (Every 5 mins)
-        // Does NOT fully support extensive Cron syntax, but covers 95% of use cases.
-        const parts = cron.split(' ');
-        if (parts.length < 5) return false;
+    // --- Event Triggers ---
+
+    private listenToEvents() {
+        processManager.on('player:join', ({ serverId, onlinePlayers }) => {
+            this.dispatchEvent(serverId, 'player:join');
+            if (onlinePlayers === 1) this.dispatchEvent(serverId, 'player:first-join');
+        });
+
+        processManager.on('player:leave', ({ serverId, onlinePlayers }) => {
+            this.dispatchEvent(serverId, 'player:leave');
+            if (onlinePlayers === 0) this.dispatchEvent(serverId, 'player:last-leave');
+        });
+
+        processManager.on('status', ({ id, status }) => {
+            this.dispatchEvent(id, 'status', { status });
+        });
 
-        const [min, hour] = parts;
+        diagnosisService.on('diagnosis', ({ serverId, results }: { serverId: string, results: DiagnosisResult[] }) => {
+            if (results.length === 0) return;
+            this.dispatchEvent(serverId, 'diagnosis', { severities: results.map(r => r.severity) });
+        });
+    }
 
-        const checkPart = (current: number, pattern: string) => {
-            if (pattern === '*') return true;
-            if (pattern.startsWith('*/')) {
-                const interval = parseInt(pattern.substring(2));
-                return current % interval === 0;
+    private async dispatchEvent(serverId: string, event: ScheduleTriggerEvent, context: TriggerContext = {}) {
+        try {
+            const tasks = await this.getSchedules(serverId);
+            for (const task of tasks) {
+                const trigger = task.trigger;
+                if (!task.isActive || trigger?.type !== 'event' || trigger.event !== event) continue;
+                if (!this.matchesTriggerFilter(trigger, context)) continue;
+
+                // Debounce: every new event restarts the quiet-period timer
+                const pending = this.debounceTimers.get(task.id);
+                if (pending) clearTimeout(pending);
+
+                const debounce = trigger.debounceSeconds || 0;
+                if (debounce > 0) {
+                    this.debounceTimers.set(task.id, setTimeout(() => {
+                        this.debounceTimers.delete(task.id);
+                        this.fireEventTask(serverId, task.id, event);
+                    }, debounce * 1000));
+                } else {
+                    this.fireEventTask(serverId, task.id, event);
+                }
             }
-            return parseInt(pattern) === current;
-        };
+        } catch (e) {
+            console.error(`[ScheduleService] Failed to dispatch ${event} for ${serverId}:`, e);
+        }
+    }
+
+    private matchesTriggerFilter(trigger: ScheduleTrigger, context: TriggerContext): boolean {
+        if (trigger.event === 'status') {
+            return !trigger.status || trigger.status === context.status;
+        }
+        if (trigger.event === 'diagnosis') {
+            const minimum = SEVERITY_RANK[trigger.severity || 'CRITICAL'];
+            return (context.severities || []).some(s => SEVERITY_RANK[s] >= minimum);
+        }
+        return true;
+    }
+
+    private async fireEventTask(serverId: string, taskId: string, event: ScheduleTriggerEvent) {
+        // Re-resolve the task in case it was paused or deleted during the debounce window
+        const tasks = await this.getSchedules(serverId);
+        const task = tasks.find(t => t.id === taskId);
+        if (!task || !task.isActive) return;
+
+        const cooldown = (task.trigger?.cooldownSeconds || 0) * 1000;
+        const lastRun = task.lastRun ? new Date(task.lastRun).getTime() : 0;
+        if (cooldown > 0 && !isNaN(lastRun) && Date.now() - lastRun < cooldown) {
+            console.log(`[ScheduleService] ${task.name} (${serverId}) suppressed by cooldown after ${event}.`);
+            return;
+        }
+
+        if (this.runningTasks.has(task.id)) {
+            console.log(`[ScheduleService] ${task.name} (${serverId}) still running; ignoring ${event}.`);
+            return;
+        }
+
+        console.log(`[ScheduleService] Event ${event} triggered task ${task.name} for server ${serverId}`);
+        task.lastRun = new Date().toISOString();
+        await this.saveSchedules(serverId, tasks);
 
-        return checkPart(currentMinute, min) && checkPart(currentHour, hour);
+        this.executeTask(serverId, task, `event:${event}`);
     }
 
-    private calculateNextRun(cron: string): string {
-        // Simple human-readable heuristic
-        if (cron === '* * * * *') return "in 1 minute";
-        if (cron.startsWith('0 *')) return "at the top of the next hour";
-        if (cron.startsWith('0 0 * * *')) return "at midnight";
-        if (cron.startsWith('*/')) {
-             const min = cron.split(' ')[0].substring(2);
-             return `every ${min} minutes`;
+    private calculateNextRun(task: ScheduleTask, from: Date = new Date()): string | undefined {
+        if (task.trigger?.type === 'event') return undefined;
+        try {
+            const next = new CronExpression(task.cron, task.timezone).next(from);
+            return next ? next.toISOString() : undefined;
+        } catch {
+            return undefined;
         }
-        return "Scheduled";
     }
 
-    private async logExecution(serverId: string, taskName: string, success: boolean, message: string) {
-        let history = await scheduleRepository.getHistory(serverId);
-        
-        history.unshift({
+    private async logExecution(serverId: string, task: ScheduleTask, trigger: string, success: boolean, message: string, steps?: ScheduleStepResult[], servers?: ScheduleServerOutcome[], durationMs?: number) {
+        const entry: ScheduleHistoryEntry = {
             timestamp: new Date().toISOString(),
-            task: taskName,
+            taskId: task.id,
+            task: task.name,
+            trigger,
             success,
             message
-        });
-        
-        // Keep last 50 entries
-        if (history.length > 50) history = history.slice(0, 50);
-        
-        await scheduleRepository.saveHistory(serverId, history);
+        };
+        if (durationMs !== undefined) entry.durationMs = durationMs;
+        if (steps) entry.steps = steps;
+        if (servers) entry.servers = servers;
+
+        await scheduleRepository.addHistory(serverId, entry, MAX_HISTORY_ENTRIES);
     }
 
-    private async executeTask(serverId: string, task: ScheduleTask) {
+    private async executeTask(serverId: string, task: ScheduleTask, trigger: string, runs: number = 1) {
+        // Overlap protection: a slow run (e.g. a large backup) must not start again on the next tick
+        if (this.runningTasks.has(task.id)) {
+            console.warn(`[ScheduleService] ${task.name} (${serverId}) is still running. Skipping overlapping run.`);
+            await this.logExecution(serverId, task, trigger, false, 'Skipped: previous run still in progress');
+            return;
+        }
+
+        this.runningTasks.add(task.id);
         try {
-            if (task.command === 'backup') {
-                // Get server's backup preference
-                const { getServer } = require('../servers/ServerService');
-                const server = getServer(serverId);
-                const worldOnly = server?.backupConfig?.worldOnly ?? false; // Default to full backup
-                
-                await backupService.createBackup(
-                    await this.getServerDir(serverId), 
-                    serverId, 
-                    `Scheduled: ${task.name}`,
-                    worldOnly
-                );
-                await this.logExecution(serverId, task.name, true, worldOnly ? "World backup created" : "Full backup created");
-            } else if (task.command === 'restart') {
-                processManager.stopServer(serverId);
-                
-                // Wait for graceful shutdown (15s), then start
-                setTimeout(async () => {
-                    try {
-                        await startServer(serverId);
-                        await this.logExecution(serverId, task.name, true, "Server restarted successfully");
-                    } catch (e: any) {
-                        await this.logExecution(serverId, task.name, false, `Restart start failed: ${e.message}`);
+            for (let i = 0; i < runs; i++) {
+                const started = Date.now();
+                try {
+                    if (serverId === GLOBAL_SCHEDULE_SCOPE) {
+                        const fleet = await this.runFleetTask(task);
+                        await this.logExecution(serverId, task, trigger, fleet.success, fleet.message, undefined, fleet.servers, Date.now() - started);
+                        continue;
                     }
-                }, 15000);
-
-                await this.logExecution(serverId, task.name, true, "Server restart triggered (Shutdown initiated)");
-            } else {
-                // Console Command
-                if (processManager.isRunning(serverId)) {
-                    await processManager.sendCommand(serverId, task.command);
-                    await this.logExecution(serverId, task.name, true, `Executed: ${task.command}`);
-                } else {
-                    await this.logExecution(serverId, task.name, false, "Server not running");
+                    const result = await scheduleWorkflowRunner.run(serverId, task);
+                    await this.logExecution(serverId, task, trigger, result.success, result.message, result.steps, undefined, Date.now() - started);
+                } catch (e: any) {
+                    console.error(`[ScheduleService] Task failed:`, e);
+                    await this.logExecution(serverId, task, trigger, false, e.message || "Unknown error", undefined, undefined, Date.now() - started);
                 }
             }
-        } catch (e: any) {
-            console.error(`[ScheduleService] Task failed:`, e);
-            await this.logExecution(serverId, task.name, false, e.message || "Unknown error");
+        } finally {
+            this.runningTasks.delete(task.id);
         }
     }
-    
-    private async getServerDir(serverId: string): Promise<string> {
-        // Quick/Dirty way to resolve path, ideally inject ServerService
-        const { getServer } = require('../servers/ServerService');
-        const server = getServer(serverId);
-        return server ? server.workingDirectory : '';
+
+    // --- Fleet Schedules ---
+
+    /**
+     * Runs a fleet task's workflow on every targeted server, starting each one
+     * `staggerSeconds` after the previous so they don't all restart at once.
+     */
+    private async runFleetTask(task: ScheduleTask): Promise<{ success: boolean, message: string, servers: ScheduleServerOutcome[] }> {
+        const targets = this.resolveFleetTargets(task.target || {});
+        if (targets.length === 0) {
+            return { success: false, message: 'No servers matched the target selection', servers: [] };
+        }
+
+        const stagger = Math.max(0, task.staggerSeconds || 0) * 1000;
+        const servers = await Promise.all(targets.map(async (server, index): Promise<ScheduleServerOutcome> => {
+            if (stagger > 0 && index > 0) await new Promise(resolve => setTimeout(resolve, index * stagger));
+            try {
+                const result = await scheduleWorkflowRunner.run(server.id, task);
+                return { serverId: server.id, serverName: server.name, success: result.success, message: result.message, steps: result.steps };
+            } catch (e: any) {
+                return { serverId: server.id, serverName: server.name, success: false, message: e.message || 'Unknown error' };
+            }
+        }));
+
+        const failed = servers.filter(s => !s.success).length;
+        const message = failed === 0
+            ? `Completed on ${servers.length} server(s)`
+            : `${failed} of ${servers.length} server(s) failed`;
+        return { success: failed === 0, message, servers };
+    }
+
+    /**
+     * Resolves a fleet target to concrete servers. Explicit IDs are always included;
+     * software/node/tag filters are combined with AND.
+     */
+    resolveFleetTargets(target: ScheduleFleetTarget): ServerConfig[] {
+        const { getServers } = require('../servers/ServerService');
+        const explicit = new Set(target.serverIds || []);
+        const hasFilter = !!(target.software?.length || target.nodeIds?.length || target.tags?.length);
+
+        return (getServers() as ServerConfig[]).filter(server => {
+            if (explicit.has(server.id)) return true;
+            if (!hasFilter) return false;
+            if (target.software?.length && !target.software.includes(server.software)) return false;
+            if (target.nodeIds?.length && !target.nodeIds.includes(server.nodeId || LOCAL_NODE_ID)) return false;
+            if (target.tags?.length && !target.tags.some(tag => server.tags?.includes(tag))) return false;
+            return true;
+        });
+    }
+
+    isTaskRunning(taskId: string): boolean {
+        return this.runningTasks.has(taskId);
     }
 
     // --- Public API ---
@@ -152,12 +348,61 @@ export class ScheduleService extends EventEmitter {
         return this.tasks.get(serverId) || [];
     }
 
-    async getHistory(serverId: string): Promise<any[]> {
-        return scheduleRepository.getHistory(serverId);
+    /**
+     * Returns a human-readable error if the task's cron, timezone or steps cannot be scheduled.
+     */
+    validateTask(task: Partial<ScheduleTask>, scope?: string): string | null {
+        if (scope === GLOBAL_SCHEDULE_SCOPE) {
+            if (task.trigger?.type === 'event') return 'Fleet schedules only support cron triggers.';
+            const target = task.target;
+            if (!target || !(target.serverIds?.length || target.software?.length || target.nodeIds?.length || target.tags?.length)) {
+                return 'Select at least one server, software type, node or tag.';
+            }
+        }
+
+        if (task.trigger?.type === 'event') {
+            if (!task.trigger.event || !TRIGGER_EVENTS.includes(task.trigger.event)) {
+                return `Unknown trigger event "${task.trigger.event}".`;
+            }
+            return scheduleWorkflowRunner.validate(task);
+        }
+
+        if (!task.cron) return 'Cron expression is required.';
+        if (task.timezone && !CronExpression.isValidTimezone(task.timezone)) {
+            return `Unknown timezone "${task.timezone}". Use an IANA name such as "Europe/Berlin".`;
+        }
+        return CronExpression.validate(task.cron, task.timezone) || scheduleWorkflowRunner.validate(task);
+    }
+
+    async getHistory(serverId: string, query: ScheduleHistoryQuery = {}): Promise<{ entries: ScheduleHistoryEntry[], total: number }> {
+        return scheduleRepository.queryHistory(serverId, query);
+    }
+
+    /**
+     * Renders the (optionally filtered) history as JSON or CSV for download.
+     */
+    async exportHistory(serverId: string, format: 'json' | 'csv', query: ScheduleHistoryQuery = {}): Promise<string> {
+        const { entries } = await scheduleRepository.queryHistory(serverId, { ...query, limit: MAX_HISTORY_ENTRIES, offset: 0 });
+        if (format === 'json') return JSON.stringify(entries, null, 2);
+
+        const escape = (value: unknown) => {
+            const text = value === undefined || value === null ? '' : String(value);
+            return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        const rows = [['timestamp', 'task', 'taskId', 'trigger', 'success', 'durationMs', 'message', 'output']];
+        for (const e of entries) {
+            const steps = [...(e.steps || []), ...(e.servers || []).flatMap(outcome => outcome.steps || [])];
+            const output = steps.flatMap(step => step.output || []).join('\n');
+            rows.push([e.timestamp, e.task, e.taskId || '', e.trigger || '', String(e.success), e.durationMs !== undefined ? String(e.durationMs) : '', e.message, output]);
+        }
+        return rows.map(row => row.map(escape).join(',')).join('\n');
     }
 
     async addTask(serverId: string, task: ScheduleTask): Promise<void> {
         const tasks = await this.getSchedules(serverId);
+        task.serverId = serverId;
+        task.lastRun = undefined;
+        task.nextRun = this.calculateNextRun(task);
         tasks.push(task);
         await this.saveSchedules(serverId, tasks);
     }
@@ -173,6 +418,8 @@ export class ScheduleService extends EventEmitter {
          let tasks = await this.getSchedules(serverId);
          const idx = tasks.findIndex(t => t.id === task.id);
          if (idx !== -1) {
+             task.serverId = serverId;
+             task.nextRun = this.calculateNextRun(task);
              tasks[idx] = task;
              await this.saveSchedules(serverId, tasks);
          }
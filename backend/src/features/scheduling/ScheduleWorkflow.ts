@@ -0,0 +1,205 @@
+import { processManager } from '../processes/ProcessManager';
+import { backupService } from '../backups/BackupService';
+import { ScheduleStep, ScheduleStepResult, ScheduleTask } from '@shared/types';
+
+const DEFAULT_STOP_TIMEOUT = 60;
+const DEFAULT_STATUS_TIMEOUT = 300;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 10;
+const DEFAULT_CAPTURE_SECONDS = 3;
+const MAX_CAPTURE_SECONDS = 60;
+const MAX_CAPTURED_LINES = 200;
+const MAX_WAIT_SECONDS = 6 * 60 * 60;
+
+const STEP_TYPES = ['command', 'broadcast', 'wait', 'backup', 'stop', 'start', 'await-status'];
+
+export interface WorkflowResult {
+    success: boolean;
+    message: string;
+    steps: ScheduleStepResult[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Executes the ordered steps of a schedule task against a single server.
+ */
+export class ScheduleWorkflowRunner {
+
+    /**
+     * Resolves the steps for a task. Legacy tasks only carry `command`, which is
+     * translated into an equivalent workflow so both shapes run through one path.
+     */
+    resolveSteps(task: ScheduleTask): ScheduleStep[] {
+        if (task.steps && task.steps.length > 0) return task.steps;
+
+        if (task.command === 'backup') return [{ type: 'backup' }];
+        if (task.command === 'restart') {
+            return [
+                { type: 'stop' },
+                { type: 'start' },
+                { type: 'await-status', status: 'ONLINE' }
+            ];
+        }
+        return [{ type: 'command', command: task.command }];
+    }
+
+    /**
+     * Returns a human-readable error if the workflow definition is malformed, otherwise null.
+     */
+    validate(task: Partial<ScheduleTask>): string | null {
+        if (!task.steps || task.steps.length === 0) {
+            return task.command ? null : 'A command or at least one step is required.';
+        }
+
+        for (let i = 0; i < task.steps.length; i++) {
+            const step = task.steps[i];
+            const label = `Step ${i + 1}`;
+            if (!STEP_TYPES.includes(step.type)) return `${label}: unknown step type "${step.type}".`;
+            if (step.type === 'command' && !step.command) return `${label}: command is required.`;
+            if (step.type === 'broadcast' && !step.message) return `${label}: message is required.`;
+            if (step.type === 'wait' && !(typeof step.seconds === 'number' && step.seconds > 0 && step.seconds <= MAX_WAIT_SECONDS)) {
+                return `${label}: wait must be between 1 and ${MAX_WAIT_SECONDS} seconds.`;
+            }
+            if (step.captureSeconds !== undefined && !(step.captureSeconds >= 0 && step.captureSeconds <= MAX_CAPTURE_SECONDS)) {
+                return `${label}: output capture must be between 0 and ${MAX_CAPTURE_SECONDS} seconds.`;
+            }
+            if (step.onFailure && !['abort', 'continue', 'retry'].includes(step.onFailure)) {
+                return `${label}: unknown failure policy "${step.onFailure}".`;
+            }
+        }
+        return null;
+    }
+
+    async run(serverId: string, task: ScheduleTask): Promise<WorkflowResult> {
+        const steps = this.resolveSteps(task);
+        const results: ScheduleStepResult[] = [];
+        let aborted = false;
+        let failures = 0;
+
+        for (let index = 0; index < steps.length; index++) {
+            const step = steps[index];
+
+            if (aborted) {
+                results.push({ index, type: step.type, success: false, skipped: true, message: 'Skipped (workflow aborted)', attempts: 0, durationMs: 0 });
+                continue;
+            }
+
+            const result = await this.runWithPolicy(serverId, task, step, index);
+            results.push(result);
+
+            if (!result.success) {
+                failures++;
+                if ((step.onFailure || 'abort') !== 'continue') aborted = true;
+            }
+        }
+
+        const success = failures === 0;
+        let message: string;
+        if (steps.length === 1) {
+            message = results[0].message;
+        } else if (success) {
+            message = `Completed ${steps.length} steps`;
+        } else {
+            const firstFailure = results.find(r => !r.success && !r.skipped)!;
+            message = `Step ${firstFailure.index + 1} (${firstFailure.type}) failed: ${firstFailure.message}`;
+        }
+
+        return { success, message, steps: results };
+    }
+
+    private async runWithPolicy(serverId: string, task: ScheduleTask, step: ScheduleStep, index: number): Promise<ScheduleStepResult> {
+        const maxAttempts = step.onFailure === 'retry' ? 1 + Math.max(0, step.retries ?? DEFAULT_RETRIES) : 1;
+        const started = Date.now();
+        let attempts = 0;
+        let message = '';
+
+        while (attempts < maxAttempts) {
+            attempts++;
+            try {
+                const output: string[] = [];
+                message = await this.executeStep(serverId, task, step, output);
+                const result: ScheduleStepResult = { index, type: step.type, success: true, message, attempts, durationMs: Date.now() - started };
+                if (step.type === 'command') result.output = output;
+                return result;
+            } catch (e: any) {
+                message = e.message || 'Unknown error';
+                console.warn(`[ScheduleService] ${task.name} step ${index + 1} (${step.type}) attempt ${attempts}/${maxAttempts} failed: ${message}`);
+                if (attempts < maxAttempts) await sleep((step.retryDelaySeconds ?? DEFAULT_RETRY_DELAY) * 1000);
+            }
+        }
+
+        return { index, type: step.type, success: false, message, attempts, durationMs: Date.now() - started };
+    }
+
+    private async executeStep(serverId: string, task: ScheduleTask, step: ScheduleStep, output: string[]): Promise<string> {
+        switch (step.type) {
+            case 'command': {
+                this.requireRunning(serverId);
+                const response = await processManager.sendCommandWithResponse(serverId, step.command!, (step.captureSeconds ?? DEFAULT_CAPTURE_SECONDS) * 1000);
+                output.push(...response.output.split(/\r?\n/).filter(line => line.trim()).slice(0, MAX_CAPTURED_LINES));
+                return `Executed${response.channel === 'rcon' ? ' via RCON' : ''}: ${step.command}`;
+            }
+            case 'broadcast': {
+                this.requireRunning(serverId);
+                await processManager.sendCommand(serverId, `say ${step.message}`);
+                return `Broadcast: ${step.message}`;
+            }
+            case 'wait': {
+                await sleep((step.seconds || 0) * 1000);
+                return `Waited ${step.seconds}s`;
+            }
+            case 'backup': {
+                const { getServer } = require('../servers/ServerService');
+                const server = getServer(serverId);
+                if (!server) throw new Error('Server not found');
+                const worldOnly = step.worldOnly ?? server.backupConfig?.worldOnly ?? false; // Default to full backup
+
+                await backupService.createBackup(server.workingDirectory, serverId, `Scheduled: ${task.name}`, worldOnly);
+                return worldOnly ? 'World backup created' : 'Full backup created';
+            }
+            case 'stop': {
+                if (!processManager.isRunning(serverId)) return 'Server already stopped';
+                await processManager.stopServer(serverId);
+                const timeout = step.timeoutSeconds ?? DEFAULT_STOP_TIMEOUT;
+                const stopped = await processManager.waitForClose(serverId, timeout * 1000);
+                if (!stopped) throw new Error(`Server did not stop within ${timeout}s`);
+                return 'Server stopped';
+            }
+            case 'start': {
+                if (processManager.isRunning(serverId)) return 'Server already running';
+                const { startServer } = require('../servers/ServerService');
+                await startServer(serverId);
+                return 'Server start triggered';
+            }
+            case 'await-status': {
+                const target = step.status || 'ONLINE';
+                const timeout = step.timeoutSeconds ?? DEFAULT_STATUS_TIMEOUT;
+                const deadline = Date.now() + timeout * 1000;
+                while (Date.now() < deadline) {
+                    const status = this.getStatus(serverId);
+                    if (status === target) return `Server reached ${target}`;
+                    if (target === 'ONLINE' && status === 'CRASHED') throw new Error('Server crashed while waiting for ONLINE');
+                    await sleep(2000);
+                }
+                throw new Error(`Server did not reach ${target} within ${timeout}s (currently ${this.getStatus(serverId)})`);
+            }
+            default:
+                throw new Error(`Unknown step type "${(step as ScheduleStep).type}"`);
+        }
+    }
+
+    private requireRunning(serverId: string) {
+        if (!processManager.isRunning(serverId)) throw new Error('Server not running');
+    }
+
+    private getStatus(serverId: string): string {
+        if (processManager.isRunning(serverId)) {
+            return processManager.getCachedStatus(serverId).status || 'STARTING';
+        }
+        const { getServer } = require('../servers/ServerService');
+        return getServer(serverId)?.status || 'OFFLINE';
+    }
+}
+
+export const scheduleWorkflowRunner = new ScheduleWorkflowRunner();
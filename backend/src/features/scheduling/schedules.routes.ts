@@ -0,0 +1,97 @@
+import express from 'express';
+import { scheduleService, GLOBAL_SCHEDULE_SCOPE } from './ScheduleService';
+import { verifyToken, requireRole } from '../../middleware/authMiddleware';
+
+const router = express.Router();
+
+// Fleet schedules act on many servers at once, so they are limited to administrators
+router.use(verifyToken, requireRole(['OWNER', 'ADMIN']));
+
+// ==================== FLEET SCHEDULE ROUTES ====================
+
+// List fleet schedules
+router.get('/global', async (req, res) => {
+    try {
+        const schedules = await scheduleService.getSchedules(GLOBAL_SCHEDULE_SCOPE);
+        res.json(schedules);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Fleet execution history (one roll-up record per run)
+router.get('/global/history', async (req, res) => {
+    const { limit, offset, taskId, success } = req.query;
+    try {
+        const history = await scheduleService.getHistory(GLOBAL_SCHEDULE_SCOPE, {
+            limit: limit ? parseInt(limit as string) : 50,
+            offset: offset ? parseInt(offset as string) : 0,
+            taskId: taskId as string,
+            success: success !== undefined ? success === 'true' : undefined
+        });
+        res.json(history);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Export fleet execution history
+router.get('/global/history/export', async (req, res) => {
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+    try {
+        const content = await scheduleService.exportHistory(GLOBAL_SCHEDULE_SCOPE, format, { taskId: req.query.taskId as string });
+        res.setHeader('Content-Disposition', `attachment; filename="fleet-schedule-history.${format}"`);
+        res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json');
+        res.send(content);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Preview which servers a target selection resolves to
+router.post('/global/preview', (req, res) => {
+    try {
+        const servers = scheduleService.resolveFleetTargets(req.body || {});
+        res.json(servers.map(s => ({ id: s.id, name: s.name, software: s.software, nodeId: s.nodeId, status: s.status })));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Create fleet schedule
+router.post('/global', async (req, res) => {
+    const task = req.body;
+    const invalid = scheduleService.validateTask(task, GLOBAL_SCHEDULE_SCOPE);
+    if (invalid) return res.status(400).json({ error: `Invalid schedule: ${invalid}` });
+    try {
+        await scheduleService.addTask(GLOBAL_SCHEDULE_SCOPE, task);
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Update fleet schedule
+router.put('/global/:taskId', async (req, res) => {
+    const task = { ...req.body, id: req.params.taskId };
+    const invalid = scheduleService.validateTask(task, GLOBAL_SCHEDULE_SCOPE);
+    if (invalid) return res.status(400).json({ error: `Invalid schedule: ${invalid}` });
+    try {
+        await scheduleService.updateTask(GLOBAL_SCHEDULE_SCOPE, task);
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Delete fleet schedule
+router.delete('/global/:taskId', async (req, res) => {
+    try {
+        await scheduleService.removeTask(GLOBAL_SCHEDULE_SCOPE, req.params.taskId);
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import si from 'systeminformation';
 import fs from 'fs';
 import path from 'path';
 import { processManager } from '../processes/ProcessManager';
+import { cgroupManager } from '../processes/CgroupManager';
 import { logger } from '../../utils/logger';
 import { diagnosisService } from '../diagnosis/DiagnosisService';
 import { autoHealingManager } from '../diagnosis/AutoHealingManager';
@@ -60,21 +61,13 @@ class AutoHealingService {
         }
     }
 
+    // Crashes are restarted by RestartPolicyService, which calls applyAutoFix before each restart
     public initialize() {
         setTimeout(() => {
             this.startMonitoring();
-            this.listenToProcessEvents();
         }, 10000);
     }
 
-    private async listenToProcessEvents() {
-        processManager.on('status', ({ id, status }) => {
-            if (status === 'CRASHED') {
-                this.initiateRecovery(id, 'CRASH_DETECTED');
-            }
-        });
-    }
-
     private startMonitoring() {
         logger.info('[AutoHealing] v3 Proactive Intelligence ACTIVE. Monitoring health vectors...');
         
@@ -157,7 +150,8 @@ class AutoHealingService {
 
         const isRunning = processManager.isRunning(server.id);
         
-        if (!isRunning && server.autoStart) {
+        // Crashed servers are left to their restart policy
+        if (!isRunning && server.autoStart && server.status !== 'CRASHED' && server.status !== 'CRASH_LOOP') {
             this.initiateRecovery(server.id, 'ZOMBIE_REPAIR');
             return;
         }
@@ -203,20 +197,7 @@ class AutoHealingService {
             state.stage = 'TRIAGE';
             processManager.updateCachedStatus(serverId, { status: 'RECOVERING', details: 'Triaging crash source...' });
             
-            const logs = processManager.getLogs(serverId);
-            const env: any = await this.checkHostHealth();
-            const diagnosis = await diagnosisService.diagnose(server, logs, {
-                totalMemory: env.memoryTotal || 0,
-                freeMemory: (env.memoryTotal || 0) * (1 - (env.memoryPressure || 0) / 100),
-                javaVersion: server.javaVersion || 'unknown'
-            });
-            const rootCause = diagnosis.find(d => d.isRootCause) || diagnosis[0];
-
-            if (rootCause?.action?.autoHeal) {
-                state.stage = 'REPAIR';
-                logger.info(`[AutoHealing:${serverId}] PIPELINE: Applying targeted fix: ${rootCause.title}`);
-                await autoHealingManager.executeFix(serverId, rootCause.action.type, rootCause.action.payload);
-            }
+            if (await this.applyAutoFix(serverId)) state.stage = 'REPAIR';
 
             state.stage = 'SCRUB';
             if (processManager.isRunning(serverId)) {
@@ -252,6 +233,35 @@ class AutoHealingService {
         }
     }
 
+    /**
+     * Diagnoses the last session's logs and applies the root cause's fix when it
+     * is safe to do unattended. Returns whether a fix was applied.
+     */
+    public async applyAutoFix(serverId: string): Promise<boolean> {
+        const { getServer } = require('./ServerService');
+        const server = getServer(serverId);
+        if (!server) return false;
+
+        const logs = processManager.getLogs(serverId);
+        const env: any = await this.checkHostHealth();
+        const diagnosis = await diagnosisService.diagnose(server, logs, {
+            totalMemory: env.memoryTotal || 0,
+            freeMemory: (env.memoryTotal || 0) * (1 - (env.memoryPressure || 0) / 100),
+            javaVersion: server.javaVersion || 'unknown',
+            limits: cgroupManager.getLastUsage(serverId)
+        });
+        const rootCause = diagnosis.find(d => d.isRootCause) || diagnosis[0];
+        if (!rootCause?.action?.autoHeal) return false;
+
+        logger.info(`[AutoHealing:${serverId}] PIPELINE: Applying targeted fix: ${rootCause.title}`);
+        await autoHealingManager.executeFix(serverId, rootCause.action.type, rootCause.action.payload);
+        return true;
+    }
+
+    public isRecovering(serverId: string): boolean {
+        return this.activeRecoveries.has(serverId);
+    }
+
     private finalizeRecovery(serverId: string, success: boolean) {
         const marker = this.getStabilityMarker(serverId);
         this.activeRecoveries.delete(serverId);
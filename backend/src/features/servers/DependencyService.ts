@@ -0,0 +1,256 @@
+import { processManager } from '../processes/ProcessManager';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../utils/AppError';
+import { ServerConfig, ServerGroupOperationStep } from '@shared/types';
+
+const ONLINE_TIMEOUT = 5 * 60 * 1000;
+const STOP_TIMEOUT = 2 * 60 * 1000;
+const POLL_INTERVAL = 2000;
+
+// server -> servers that have to be handled before it
+type Graph = Map<string, Set<string>>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Orders starts and stops by the servers' dependencies. A start waits for every
+ * `startAfter` server to be ONLINE; a stop runs the other way round, so a server
+ * stops before the servers it starts after, and before its `stopBefore` ones.
+ * Both orders must be acyclic, which is checked whenever dependencies change.
+ */
+class DependencyService {
+    private pendingStarts: Map<string, Promise<void>> = new Map();
+
+    private startGraph(servers: ServerConfig[]): Graph {
+        const graph: Graph = new Map(servers.map(s => [s.id, new Set<string>()]));
+        for (const server of servers) {
+            for (const dep of server.dependencies?.startAfter || []) {
+                if (graph.has(dep)) graph.get(server.id)!.add(dep);
+            }
+        }
+        return graph;
+    }
+
+    private stopGraph(servers: ServerConfig[]): Graph {
+        const graph: Graph = new Map(servers.map(s => [s.id, new Set<string>()]));
+        for (const server of servers) {
+            const deps = server.dependencies;
+            for (const other of [...(deps?.startAfter || []), ...(deps?.stopBefore || [])]) {
+                if (graph.has(other)) graph.get(other)!.add(server.id);
+            }
+        }
+        return graph;
+    }
+
+    // Returns the servers of one cycle, first repeated at the end (a → b → a), or null
+    private findCycle(graph: Graph): string[] | null {
+        const state: Map<string, 'visiting' | 'done'> = new Map();
+        const stack: string[] = [];
+
+        const visit = (id: string): string[] | null => {
+            if (state.get(id) === 'done') return null;
+            if (state.get(id) === 'visiting') return [...stack.slice(stack.indexOf(id)), id];
+            state.set(id, 'visiting');
+            stack.push(id);
+            for (const before of graph.get(id) || []) {
+                const cycle = visit(before);
+                if (cycle) return cycle;
+            }
+            stack.pop();
+            state.set(id, 'done');
+            return null;
+        };
+
+        for (const id of graph.keys()) {
+            const cycle = visit(id);
+            if (cycle) return cycle;
+        }
+        return null;
+    }
+
+    private cycleError(cycle: string[], order: 'start' | 'stop', servers: ServerConfig[]): AppError {
+        const name = (id: string) => servers.find(s => s.id === id)?.name || id;
+        return new AppError(400, 'DEPENDENCY_CYCLE', `Servers depend on each other in a circle (${order} order): ${cycle.map(name).join(' → ')}`, true, { cycle, order });
+    }
+
+    /**
+     * Checks that `servers` (typically all servers with one of them replaced by
+     * its pending update) can be ordered. Throws DEPENDENCY_CYCLE otherwise.
+     */
+    public validate(servers: ServerConfig[]) {
+        for (const id of servers.flatMap(s => [...(s.dependencies?.startAfter || []), ...(s.dependencies?.stopBefore || [])])) {
+            if (!servers.some(s => s.id === id)) throw new AppError(400, 'UNKNOWN_DEPENDENCY', `Dependency "${id}" is not a server on this panel`);
+        }
+        const startCycle = this.findCycle(this.startGraph(servers));
+        if (startCycle) throw this.cycleError(startCycle, 'start', servers);
+        const stopCycle = this.findCycle(this.stopGraph(servers));
+        if (stopCycle) throw this.cycleError(stopCycle, 'stop', servers);
+    }
+
+    // Kahn's algorithm, layered: every server in a wave only waits for earlier waves
+    private waves(graph: Graph, order: 'start' | 'stop', servers: ServerConfig[]): string[][] {
+        const remaining = new Map(Array.from(graph, ([id, before]) => [id, new Set(before)]));
+        const waves: string[][] = [];
+        while (remaining.size > 0) {
+            const wave = Array.from(remaining.keys()).filter(id => remaining.get(id)!.size === 0);
+            if (wave.length === 0) throw this.cycleError(this.findCycle(remaining) || Array.from(remaining.keys()), order, servers);
+            for (const id of wave) remaining.delete(id);
+            for (const before of remaining.values()) wave.forEach(id => before.delete(id));
+            waves.push(wave.sort());
+        }
+        return waves;
+    }
+
+    /**
+     * Start order for `ids` in waves. Servers they start after are pulled in even
+     * when not listed, since they have to be ONLINE first anyway.
+     */
+    public resolveStartOrder(ids: string[]): string[][] {
+        return this.startPlan(ids).waves;
+    }
+
+    // Stop order for exactly `ids`; servers outside the set are left alone
+    public resolveStopOrder(ids: string[]): string[][] {
+        return this.stopPlan(ids).waves;
+    }
+
+    private startPlan(ids: string[]): { graph: Graph, waves: string[][] } {
+        const { getServers } = require('./ServerService');
+        const servers: ServerConfig[] = getServers();
+        const byId = new Map(servers.map(s => [s.id, s]));
+
+        const included = new Set<string>();
+        const include = (id: string) => {
+            if (included.has(id) || !byId.has(id)) return;
+            included.add(id);
+            (byId.get(id)!.dependencies?.startAfter || []).forEach(include);
+        };
+        ids.forEach(include);
+
+        const graph = this.startGraph(servers.filter(s => included.has(s.id)));
+        return { graph, waves: this.waves(graph, 'start', servers) };
+    }
+
+    private stopPlan(ids: string[]): { graph: Graph, waves: string[][] } {
+        const { getServers } = require('./ServerService');
+        const servers: ServerConfig[] = getServers();
+        const graph = this.stopGraph(servers.filter(s => ids.includes(s.id)));
+        return { graph, waves: this.waves(graph, 'stop', servers) };
+    }
+
+    /**
+     * Brings every server `server` starts after ONLINE, starting those that are
+     * not running. Called by StartupManager before each start.
+     */
+    public async ensureDependencies(server: ServerConfig) {
+        const deps = server.dependencies?.startAfter || [];
+        if (deps.length === 0) return;
+
+        const { getServers } = require('./ServerService');
+        this.validate(getServers()); // Never recurse through a cycle
+        await Promise.all(deps.map(dep => this.ensureOnline(dep, server.id)));
+    }
+
+    // Shares one start between everything waiting for the same dependency
+    private ensureOnline(id: string, requiredBy: string): Promise<void> {
+        const pending = this.pendingStarts.get(id);
+        if (pending) return pending;
+
+        const { getServer, startServer } = require('./ServerService');
+        const start = (async () => {
+            if (!getServer(id)) throw new AppError(400, 'UNKNOWN_DEPENDENCY', `Dependency "${id}" of ${requiredBy} no longer exists`);
+            if (!processManager.isRunning(id)) {
+                logger.info(`[Dependencies] Starting ${id} first: ${requiredBy} starts after it`);
+                await startServer(id);
+            }
+            await this.waitForOnline(id);
+        })().finally(() => this.pendingStarts.delete(id));
+
+        this.pendingStarts.set(id, start);
+        return start;
+    }
+
+    private getStatus(id: string): string {
+        if (processManager.isRunning(id)) return processManager.getCachedStatus(id).status || 'STARTING';
+        const { getServer } = require('./ServerService');
+        return getServer(id)?.status || 'OFFLINE';
+    }
+
+    public async waitForOnline(id: string, timeoutMs: number = ONLINE_TIMEOUT) {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
+            const status = this.getStatus(id);
+            if (status === 'ONLINE' || status === 'UNMANAGED') return;
+            if (!processManager.isRunning(id)) throw new Error(`${id} stopped while starting (${status})`);
+            await sleep(POLL_INTERVAL);
+        }
+        throw new Error(`${id} did not come online within ${Math.round(timeoutMs / 1000)}s`);
+    }
+
+    /**
+     * Starts `ids` (and what they start after) wave by wave, each wave once the
+     * previous one is ONLINE. A failure only skips the servers that start after
+     * the failed one, directly or through others; the rest still start.
+     */
+    public async startOrdered(ids: string[], onStep?: (step: ServerGroupOperationStep) => void): Promise<ServerGroupOperationStep[]> {
+        const { startServer } = require('./ServerService');
+        return this.runWaves(this.startPlan(ids), 'start', async id => {
+            if (processManager.isRunning(id)) {
+                await this.waitForOnline(id);
+                return { status: 'SKIPPED', message: 'Already running' };
+            }
+            await startServer(id);
+            await this.waitForOnline(id);
+            return { status: 'DONE', message: 'Online' };
+        }, onStep);
+    }
+
+    // Stops `ids` in reverse dependency order, each wave once the previous one has exited
+    public async stopOrdered(ids: string[], onStep?: (step: ServerGroupOperationStep) => void): Promise<ServerGroupOperationStep[]> {
+        const { stopServer } = require('./ServerService');
+        return this.runWaves(this.stopPlan(ids), 'stop', async id => {
+            if (!processManager.isRunning(id)) return { status: 'SKIPPED', message: 'Not running' };
+            await stopServer(id);
+            if (!(await processManager.waitForClose(id, STOP_TIMEOUT))) {
+                throw new Error(`Did not stop within ${STOP_TIMEOUT / 1000}s`);
+            }
+            return { status: 'DONE', message: 'Stopped' };
+        }, onStep);
+    }
+
+    private async runWaves(
+        { graph, waves }: { graph: Graph, waves: string[][] },
+        action: 'start' | 'stop',
+        run: (id: string) => Promise<Pick<ServerGroupOperationStep, 'status' | 'message'>>,
+        onStep?: (step: ServerGroupOperationStep) => void
+    ): Promise<ServerGroupOperationStep[]> {
+        const steps: ServerGroupOperationStep[] = [];
+        const record = (step: ServerGroupOperationStep) => {
+            steps.push(step);
+            onStep?.(step);
+        };
+
+        // server -> the failed server it waits on, directly or through skipped ones
+        const blocked: Map<string, string> = new Map();
+        for (const [wave, ids] of waves.entries()) {
+            await Promise.all(ids.map(async serverId => {
+                const before = Array.from(graph.get(serverId) || []).find(id => blocked.has(id));
+                if (before) {
+                    blocked.set(serverId, blocked.get(before)!);
+                    record({ serverId, action, wave, status: 'SKIPPED', message: `Not attempted: ${blocked.get(before)} failed` });
+                    return;
+                }
+                try {
+                    record({ serverId, action, wave, ...(await run(serverId)) });
+                } catch (e: any) {
+                    blocked.set(serverId, serverId);
+                    logger.warn(`[Dependencies] Ordered ${action} of ${serverId} failed: ${e.message}`);
+                    record({ serverId, action, wave, status: 'FAILED', message: e.message });
+                }
+            }));
+        }
+        return steps;
+    }
+}
+
+export const dependencyService = new DependencyService();
@@ -1,11 +1,228 @@
 
 import fs from 'fs-extra';
 import path from 'path';
+import { status, statusBedrock, queryFull } from 'minecraft-server-util';
 import { processManager } from '../processes/ProcessManager';
+import { rconService } from '../processes/RconService';
 import { getServer } from './ServerService';
+import { serverConfigService } from './ServerConfigService';
+import { DATA_DIR } from '../../constants';
+import { OnlinePlayer, PlayerRosterSource, ServerConfig } from '@shared/types';
 import axios from 'axios'; 
 
+const ROSTER_FILE = path.join(DATA_DIR, 'online-players.json');
+const RECONCILE_INTERVAL = 30 * 1000;
+const PROBE_TIMEOUT = 2000;
+const JAVA_NAME = /^[A-Za-z0-9_]{1,16}$/;
+// Anchored to the server's own log prefix so chat messages can't announce fake IDs.
+// Vanilla logs "[time] [User Authenticator #1/INFO]: ...", Paper/Spigot "[time INFO]: ...",
+// Bedrock "[date time INFO] Player connected: ...". Output can hold several lines.
+const UUID_LINE = /^\[[^\]]*\](?: \[User Authenticator[^\]]*\])?: UUID of player ([A-Za-z0-9_]{1,16}) is ([0-9a-f-]{32,36})\s*$/im;
+const XUID_LINE = /^\[[^\]]*INFO\] Player connected: ([\w\d_ \(\)]{3,24})\s*,\s*xuid:\s*(\d+)\s*$/im;
+
+interface SavedRoster {
+    startedAt: number;
+    players: OnlinePlayer[];
+}
+
+interface RosterSnapshot {
+    source: PlayerRosterSource;
+    players: { name: string, uuid?: string }[];
+}
+
 export class PlayerService {
+    // Online players per server, keyed by lower-cased name
+    private rosters: Map<string, Map<string, OnlinePlayer>> = new Map();
+    // UUIDs announced in the console before the matching join line
+    private announcedIds: Map<string, Map<string, string>> = new Map();
+    private reconciling: Set<string> = new Set();
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Restores the rosters of servers that kept running across a panel restart,
+     * follows join/leave lines as a fast path and reconciles every running
+     * server against the Query protocol, RCON `list` or the Server List Ping.
+     * Runs after ProcessManager has reattached supervised servers.
+     */
+    public async initialize() {
+        const saved: Record<string, SavedRoster> = await fs.readJson(ROSTER_FILE).catch(() => ({}));
+        for (const id of Object.keys(saved)) {
+            if (!processManager.isRunning(id) || saved[id].startedAt !== processManager.getStartTime(id)) continue;
+            const roster = new Map(saved[id].players.map(p => [p.name.toLowerCase(), p] as [string, OnlinePlayer]));
+            // Joins the replayed output saw after the last save
+            for (const name of processManager.getCachedStatus(id).playerList || []) {
+                if (!roster.has(name.toLowerCase())) roster.set(name.toLowerCase(), { name, joinedAt: Date.now(), source: 'log' });
+            }
+            this.rosters.set(id, roster);
+            processManager.syncPlayers(id, this.getNames(id), false);
+            console.log(`[PlayerService] Restored ${roster.size} online player(s) for ${id}.`);
+        }
+
+        processManager.on('log', ({ id, line }: { id: string, line: string }) => this.captureId(id, line));
+        processManager.on('player:join', ({ serverId, name }: { serverId: string, name: string }) => {
+            const roster = this.getRoster(serverId);
+            if (roster.has(name.toLowerCase())) return;
+            const uuid = this.announcedIds.get(serverId)?.get(name.toLowerCase());
+            roster.set(name.toLowerCase(), { name, uuid, joinedAt: Date.now(), source: 'log' });
+            this.scheduleSave();
+        });
+        processManager.on('player:leave', ({ serverId, name }: { serverId: string, name: string }) => {
+            if (this.rosters.get(serverId)?.delete(name.toLowerCase())) this.scheduleSave();
+        });
+        processManager.on('exit', ({ id }: { id: string }) => {
+            this.rosters.delete(id);
+            this.announcedIds.delete(id);
+            this.scheduleSave();
+        });
+
+        setInterval(() => this.reconcileAll(), RECONCILE_INTERVAL);
+        this.reconcileAll();
+    }
+
+    public getOnlinePlayers(serverId: string): OnlinePlayer[] {
+        return Array.from(this.rosters.get(serverId)?.values() || []);
+    }
+
+    private getRoster(serverId: string): Map<string, OnlinePlayer> {
+        let roster = this.rosters.get(serverId);
+        if (!roster) {
+            roster = new Map();
+            this.rosters.set(serverId, roster);
+        }
+        return roster;
+    }
+
+    private getNames(serverId: string): string[] {
+        return this.getOnlinePlayers(serverId).map(p => p.name);
+    }
+
+    private captureId(serverId: string, line: string) {
+        const match = line.match(UUID_LINE) || line.match(XUID_LINE);
+        if (!match) return;
+        const name = match[1].trim();
+        const ids = this.announcedIds.get(serverId) || new Map<string, string>();
+        ids.set(name.toLowerCase(), match[2]);
+        this.announcedIds.set(serverId, ids);
+
+        const player = this.rosters.get(serverId)?.get(name.toLowerCase());
+        if (player && !player.uuid) {
+            player.uuid = match[2];
+            this.scheduleSave();
+        }
+    }
+
+    private reconcileAll() {
+        const { getServers } = require('./ServerService');
+        for (const server of getServers() as ServerConfig[]) {
+            if (processManager.isRunning(server.id)) this.reconcile(server);
+        }
+    }
+
+    /**
+     * Replaces the log-built roster with what the server itself reports, when
+     * it can report a complete one. Joins and leaves the console lines missed
+     * (custom join messages, proxies, renamed Bedrock players) show up here.
+     */
+    private async reconcile(server: ServerConfig) {
+        const state = processManager.getCachedStatus(server.id).status;
+        if (server.executionEngine === 'remote' || (state !== 'ONLINE' && state !== 'DEGRADED')) return;
+        if (this.reconciling.has(server.id)) return;
+
+        this.reconciling.add(server.id);
+        try {
+            const snapshot = await this.fetchRoster(server);
+            if (!snapshot || !processManager.isRunning(server.id)) return;
+
+            const previous = this.getRoster(server.id);
+            const cachedIds = snapshot.players.some(p => !p.uuid) ? await this.readUserCache(server) : new Map<string, string>();
+            const next = new Map<string, OnlinePlayer>();
+            for (const { name, uuid } of snapshot.players) {
+                const key = name.toLowerCase();
+                const known = previous.get(key);
+                next.set(key, {
+                    name,
+                    uuid: uuid || known?.uuid || this.announcedIds.get(server.id)?.get(key) || cachedIds.get(key),
+                    joinedAt: known?.joinedAt || Date.now(),
+                    source: snapshot.source
+                });
+            }
+
+            this.rosters.set(server.id, next);
+            processManager.syncPlayers(server.id, this.getNames(server.id));
+            this.scheduleSave();
+        } catch (e: any) {
+            console.warn(`[PlayerService] Could not reconcile players for ${server.id}: ${e.message}`);
+        } finally {
+            this.reconciling.delete(server.id);
+        }
+    }
+
+    // The first complete roster the server offers, or null to keep following the console
+    private async fetchRoster(server: ServerConfig): Promise<RosterSnapshot | null> {
+        if (server.software === 'Bedrock') {
+            // No names over RakNet, but an empty server is certain
+            const ping = await statusBedrock('127.0.0.1', server.port, { timeout: PROBE_TIMEOUT }).catch(() => null);
+            return ping && ping.players.online === 0 ? { source: 'ping', players: [] } : null;
+        }
+
+        const propsPath = path.join(server.workingDirectory, 'server.properties');
+        const props = await fs.pathExists(propsPath) ? await serverConfigService.parseProperties(propsPath) : {};
+
+        if (props['enable-query'] === 'true') {
+            const port = parseInt(props['query.port']) || server.port;
+            const query = await queryFull('127.0.0.1', port, { timeout: PROBE_TIMEOUT }).catch(() => null);
+            if (query) return { source: 'query', players: query.players.list.map(name => ({ name })) };
+        }
+
+        if (await rconService.isAvailable(server.id)) {
+            const players = await this.listOverRcon(server.id).catch(() => null);
+            if (players) return { source: 'rcon', players };
+        }
+
+        // The ping sample is complete only when it lists everyone (vanilla caps it at 12)
+        const ping = await status('127.0.0.1', server.port, { timeout: PROBE_TIMEOUT }).catch(() => null);
+        const sample = ping?.players.sample || [];
+        if (ping && sample.length === ping.players.online && sample.every(p => JAVA_NAME.test(p.name))) {
+            return { source: 'ping', players: sample.map(p => ({ name: p.name, uuid: p.id })) };
+        }
+        return null;
+    }
+
+    /**
+     * Parses `list uuids` (1.13+), or `list` on servers without it:
+     * "There are 2 of a max of 20 players online: Steve (069a79f4-...), Alex (...)"
+     */
+    private async listOverRcon(serverId: string): Promise<{ name: string, uuid?: string }[] | null> {
+        let output = (await rconService.exec(serverId, 'list uuids')).replace(/§./g, '');
+        if (!/players online/i.test(output)) output = (await rconService.exec(serverId, 'list')).replace(/§./g, '');
+
+        const colon = output.indexOf(':');
+        if (!/players online/i.test(output) || colon === -1) return null;
+        return output.slice(colon + 1)
+            .split(/[,\n]/)
+            .map(entry => entry.trim().match(/^([A-Za-z0-9_]{1,16})(?:\s*\(([0-9a-f-]{32,36})\))?$/i))
+            .filter((match): match is RegExpMatchArray => !!match)
+            .map(match => ({ name: match[1], uuid: match[2] }));
+    }
+
+    private async readUserCache(server: ServerConfig): Promise<Map<string, string>> {
+        const cache = await this.readJsonFile(server.workingDirectory, 'usercache.json');
+        return new Map(cache.filter((p: any) => p.name && p.uuid).map((p: any) => [p.name.toLowerCase(), p.uuid] as [string, string]));
+    }
+
+    private scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            const saved: Record<string, SavedRoster> = {};
+            for (const [id, roster] of this.rosters) {
+                const startedAt = processManager.getStartTime(id);
+                if (startedAt && roster.size > 0) saved[id] = { startedAt, players: Array.from(roster.values()) };
+            }
+            fs.outputJson(ROSTER_FILE, saved, { spaces: 2 })
+                .catch(e => console.error(`[PlayerService] Failed to save online players: ${e.message}`));
+        }, 1000);
+    }
     
     // Helpers
     private getFilePath(serverDir: string, file: string) {
@@ -32,8 +249,8 @@ export class PlayerService {
         if (!server) throw new Error('Server not found');
         
         const isBedrock = server.software === 'Bedrock';
-        const status = processManager.getCachedStatus(serverId);
-        const onlineNames: string[] = status.playerList || [];
+        const online = this.getOnlinePlayers(serverId);
+        const onlineNames: string[] = online.length > 0 ? online.map(p => p.name) : (processManager.getCachedStatus(serverId).playerList || []);
 
         // All Known Players (History + Online)
         if (type === 'all') {
@@ -61,7 +278,7 @@ export class PlayerService {
                 if (!history.find(p => p.name.toLowerCase() === onlineName.toLowerCase())) {
                     history.unshift({
                         name: onlineName,
-                        uuid: 'runtime-' + onlineName,
+                        uuid: this.rosters.get(serverId)?.get(onlineName.toLowerCase())?.uuid || 'runtime-' + onlineName,
                         skinUrl: `https://mc-heads.net/avatar/${onlineName}/64`,
                         isOp: opNames.has(onlineName.toLowerCase()),
                         online: true,
@@ -75,20 +292,23 @@ export class PlayerService {
 
         // Online Players (Runtime)
         if (type === 'online') {
-            const onlineNames: string[] = status.playerList || [];
-            
             const opsFile = isBedrock ? 'permissions.json' : 'ops.json';
             const ops = await this.readJsonFile(server.workingDirectory, opsFile);
             const opNames = new Set(ops.map((o: any) => (o.name || '').toLowerCase()));
 
-            return onlineNames.map(name => ({
-                name,
-                uuid: 'runtime-' + name,
-                skinUrl: `https://mc-heads.net/avatar/${name}/64`,
-                isOp: opNames.has(name.toLowerCase()),
-                online: true,
-                ping: 0
-            }));
+            return onlineNames.map(name => {
+                const player = this.rosters.get(serverId)?.get(name.toLowerCase());
+                return {
+                    name,
+                    uuid: player?.uuid || 'runtime-' + name,
+                    skinUrl: `https://mc-heads.net/avatar/${name}/64`,
+                    isOp: opNames.has(name.toLowerCase()),
+                    online: true,
+                    ping: 0,
+                    joinedAt: player?.joinedAt,
+                    source: player?.source
+                };
+            });
         }
 
         // File-based Lists
@@ -101,8 +321,8 @@ export class PlayerService {
 
     async kickPlayer(serverId: string, name: string, reason: string = 'Kicked by operator') {
          if (processManager.isRunning(serverId)) {
-             processManager.sendCommand(serverId, `kick ${name} ${reason}`);
-             return { success: true };
+             const response = await processManager.sendCommandWithResponse(serverId, `kick ${name} ${reason}`);
+             return { success: true, message: response.output || undefined };
          }
          throw new Error('Server is offline');
     }
@@ -134,8 +354,8 @@ export class PlayerService {
                 case 'banned-players': cmd = `ban ${identifier}`; break;
                 case 'banned-ips': cmd = `ban-ip ${identifier}`; break;
             }
-            processManager.sendCommand(serverId, cmd);
-            return { success: true, method: 'command', message: `Executed: ${cmd}` };
+            const response = await processManager.sendCommandWithResponse(serverId, cmd);
+            return { success: true, method: 'command', message: response.output || `Executed: ${cmd}` };
         }
 
         // 2. If Offline, modify JSON files directly
@@ -199,8 +419,8 @@ export class PlayerService {
                 case 'banned-players': cmd = `pardon ${identifier}`; break;
                 case 'banned-ips': cmd = `pardon-ip ${identifier}`; break;
             }
-            processManager.sendCommand(serverId, cmd);
-             return { success: true, method: 'command', message: `Executed: ${cmd}` };
+            const response = await processManager.sendCommandWithResponse(serverId, cmd);
+            return { success: true, method: 'command', message: response.output || `Executed: ${cmd}` };
         }
 
         // Offline Removal
@@ -0,0 +1,235 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { processManager } from '../processes/ProcessManager';
+import { autoHealingService } from './AutoHealingService';
+import { notificationService } from '../system/NotificationService';
+import { logger } from '../../utils/logger';
+import { DATA_DIR } from '../../constants';
+import { RestartPolicy, RestartPolicyState, ServerConfig } from '@shared/types';
+
+const STATE_FILE = path.join(DATA_DIR, 'restart-policy.json');
+
+const DEFAULTS = {
+    maxRetries: 5,
+    windowSeconds: 600,
+    backoffSeconds: 5,
+    maxBackoffSeconds: 300
+};
+
+interface ExitEvent {
+    id: string;
+    code: number | null;
+    intentional: boolean;
+    crashed: boolean;
+}
+
+/**
+ * Decides whether a server comes back after it exits, like Docker's restart
+ * policies. Restarts are delayed with exponential backoff, and a server that
+ * needs more than `maxRetries` of them within the window is put in CRASH_LOOP
+ * and left off until someone starts it (or resets the loop) by hand.
+ */
+class RestartPolicyService {
+    private states: Map<string, RestartPolicyState> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    private restarting: Set<string> = new Set(); // Starts issued by the policy itself
+
+    public async initialize() {
+        if (await fs.pathExists(STATE_FILE)) {
+            const saved: RestartPolicyState[] = await fs.readJson(STATE_FILE).catch(() => []);
+            for (const state of saved) this.states.set(state.serverId, { ...state, nextRestartAt: undefined });
+        }
+
+        processManager.on('exit', (event: ExitEvent) => {
+            this.handleExit(event).catch(e => logger.error(`[RestartPolicy] Failed to handle exit of ${event.id}: ${e.message}`));
+        });
+        processManager.on('status', ({ id, status }: { id: string, status: string }) => {
+            // A start the policy did not issue means someone is looking after the server again
+            if (status === 'STARTING' && !this.restarting.has(id) && !autoHealingService.isRecovering(id)) {
+                this.clear(id);
+            }
+        });
+
+        // always / unless-stopped also bring servers back when the panel starts
+        const { getServers, startServer } = require('./ServerService');
+        for (const server of getServers() as ServerConfig[]) {
+            const state = this.states.get(server.id);
+            if (server.autoStart || processManager.isRunning(server.id)) {
+                this.clear(server.id); // Auto-start counts as a manual start
+                continue;
+            }
+            if (state?.crashLoop) continue;
+            const { mode } = this.policyFor(server);
+            // A supervised server can crash while the panel is down; on-failure still applies
+            const crashedWhileAway = mode === 'on-failure' && server.status === 'CRASHED';
+            if (mode === 'always' || (mode === 'unless-stopped' && !state?.stoppedByUser) || crashedWhileAway) {
+                logger.info(`[RestartPolicy] Starting ${server.name} (restart policy: ${mode})`);
+                startServer(server.id).catch((e: any) => logger.error(`[RestartPolicy] Failed to start ${server.id}: ${e.message}`));
+            }
+        }
+
+        logger.info('[RestartPolicy] Initialized.');
+    }
+
+    public policyFor(server: ServerConfig): Required<RestartPolicy> {
+        const policy = server.restartPolicy;
+        return {
+            mode: policy?.mode || (server.crashDetection === false ? 'no' : 'on-failure'),
+            maxRetries: policy?.maxRetries || DEFAULTS.maxRetries,
+            windowSeconds: policy?.windowSeconds || DEFAULTS.windowSeconds,
+            backoffSeconds: policy?.backoffSeconds || DEFAULTS.backoffSeconds,
+            maxBackoffSeconds: policy?.maxBackoffSeconds || DEFAULTS.maxBackoffSeconds
+        };
+    }
+
+    public getState(serverId: string): RestartPolicyState {
+        let state = this.states.get(serverId);
+        if (!state) {
+            state = { serverId, restarts: [], crashLoop: false };
+            this.states.set(serverId, state);
+        }
+        return state;
+    }
+
+    /**
+     * Leaves the crash loop (or cancels a pending restart) and forgets the
+     * restart history, so the next crash starts a fresh window.
+     */
+    public async reset(serverId: string) {
+        const wasLooping = this.states.get(serverId)?.crashLoop;
+        this.clear(serverId);
+
+        const { getServer, saveServer } = require('./ServerService');
+        const server = getServer(serverId);
+        if (wasLooping && server && server.status === 'CRASH_LOOP' && !processManager.isRunning(serverId)) {
+            server.status = 'OFFLINE';
+            saveServer(server);
+            processManager.updateCachedStatus(serverId, { status: 'OFFLINE', details: undefined });
+        }
+        await this.save();
+    }
+
+    private clear(serverId: string) {
+        const state = this.states.get(serverId);
+        this.cancel(serverId);
+        if (!state || (!state.crashLoop && state.restarts.length === 0)) return;
+
+        if (state.crashLoop) logger.info(`[RestartPolicy] ${serverId} left the crash loop`);
+        state.restarts = [];
+        state.crashLoop = false;
+        state.crashLoopSince = undefined;
+        state.nextRestartAt = undefined;
+        this.save();
+    }
+
+    private cancel(serverId: string) {
+        const timer = this.timers.get(serverId);
+        if (timer) clearTimeout(timer);
+        this.timers.delete(serverId);
+    }
+
+    private async handleExit({ id, code, intentional, crashed }: ExitEvent) {
+        const { getServer } = require('./ServerService');
+        const server: ServerConfig | undefined = getServer(id);
+        if (!server) return;
+
+        const state = this.getState(id);
+        state.lastExitCode = code;
+        // Auto-healing stops servers on its way to restarting them; that is not a user stop
+        state.stoppedByUser = intentional && !autoHealingService.isRecovering(id);
+        if (intentional) {
+            this.cancel(id);
+            await this.save();
+            return;
+        }
+
+        const { mode } = this.policyFor(server);
+        const restart = mode === 'always' || mode === 'unless-stopped' || (mode === 'on-failure' && crashed);
+        if (!restart || state.crashLoop) {
+            await this.save();
+            return;
+        }
+        await this.schedule(server, crashed, `exited with code ${code}`);
+    }
+
+    private async schedule(server: ServerConfig, crashed: boolean, reason: string) {
+        const policy = this.policyFor(server);
+        const state = this.getState(server.id);
+        const now = Date.now();
+        state.restarts = state.restarts.filter(t => now - t < policy.windowSeconds * 1000);
+
+        if (state.restarts.length >= policy.maxRetries) {
+            await this.enterCrashLoop(server, state, policy);
+            return;
+        }
+
+        const delay = Math.min(policy.maxBackoffSeconds, policy.backoffSeconds * 2 ** state.restarts.length);
+        state.nextRestartAt = now + delay * 1000;
+        await this.save();
+
+        logger.warn(`[RestartPolicy] ${server.id} ${reason}; restarting in ${delay}s (${state.restarts.length + 1}/${policy.maxRetries} within ${Math.round(policy.windowSeconds / 60)}m)`);
+        this.cancel(server.id);
+        this.timers.set(server.id, setTimeout(() => this.restart(server.id, crashed), delay * 1000));
+    }
+
+    private async restart(serverId: string, crashed: boolean) {
+        this.timers.delete(serverId);
+        const state = this.getState(serverId);
+        state.nextRestartAt = undefined;
+
+        const { getServer, startServer } = require('./ServerService');
+        const server: ServerConfig | undefined = getServer(serverId);
+        // Started by hand while we were waiting, or deleted
+        if (!server || processManager.isRunning(serverId)) return;
+
+        state.restarts.push(Date.now());
+        await this.save();
+
+        this.restarting.add(serverId);
+        try {
+            if (crashed) {
+                await autoHealingService.applyAutoFix(serverId).catch(e => logger.warn(`[RestartPolicy] Auto-fix for ${serverId} failed: ${e.message}`));
+            }
+            await startServer(serverId);
+        } catch (e: any) {
+            // A start that fails outright counts against the window like a crash
+            await this.schedule(server, crashed, `failed to start (${e.message})`);
+        } finally {
+            this.restarting.delete(serverId);
+        }
+    }
+
+    private async enterCrashLoop(server: ServerConfig, state: RestartPolicyState, policy: Required<RestartPolicy>) {
+        state.crashLoop = true;
+        state.crashLoopSince = Date.now();
+        state.nextRestartAt = undefined;
+        await this.save();
+
+        const { saveServer } = require('./ServerService');
+        server.status = 'CRASH_LOOP';
+        saveServer(server);
+
+        const window = Math.round(policy.windowSeconds / 60);
+        logger.error(`[RestartPolicy] ${server.id} restarted ${state.restarts.length} times within ${window}m. Crash loop: no further restarts until it is started manually.`);
+        processManager.updateCachedStatus(server.id, {
+            status: 'CRASH_LOOP',
+            details: `Restarted ${state.restarts.length} times within ${window} minutes (last exit code ${state.lastExitCode ?? 'unknown'}).`
+        });
+        notificationService.create(
+            'ALL',
+            'ERROR',
+            'Crash Loop Detected',
+            `${server.name} kept exiting (${state.restarts.length} restarts within ${window} minutes, last exit code ${state.lastExitCode ?? 'unknown'}). Automatic restarts are paused until it is started manually.`,
+            { serverId: server.id, exitCode: state.lastExitCode },
+            `/dashboard/${server.id}`
+        );
+    }
+
+    private async save() {
+        await fs.ensureDir(path.dirname(STATE_FILE));
+        await fs.writeJson(STATE_FILE, Array.from(this.states.values()), { spaces: 2 })
+            .catch(e => logger.error(`[RestartPolicy] Failed to save state: ${e.message}`));
+    }
+}
+
+export const restartPolicyService = new RestartPolicyService();
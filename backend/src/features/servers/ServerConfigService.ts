@@ -133,7 +133,7 @@ export class ServerConfigService {
         }
     }
 
-    private async parseProperties(filePath: string): Promise<Record<string, string>> {
+    async parseProperties(filePath: string): Promise<Record<string, string>> {
         const content = await fs.readFile(filePath, 'utf-8');
         const result: Record<string, string> = {};
         content.split('\n').forEach(line => {
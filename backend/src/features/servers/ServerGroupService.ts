@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { serverGroupRepository } from '../../storage/ServerGroupRepository';
+import { dependencyService } from './DependencyService';
+import { logger } from '../../utils/logger';
+import { AppError } from '../../utils/AppError';
+import { ServerGroup, ServerGroupOperation, ServerGroupOperationResult } from '@shared/types';
+
+const OPERATIONS: ServerGroupOperation[] = ['start', 'stop', 'restart'];
+
+/**
+ * Named groups of servers that are started, stopped or restarted together.
+ * Operations run in the background in dependency order; the latest result of
+ * each group is kept so it can be followed while it runs.
+ */
+class ServerGroupService {
+    private results: Map<string, ServerGroupOperationResult> = new Map();
+
+    public list(): ServerGroup[] {
+        return serverGroupRepository.findAll().sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    public get(id: string): ServerGroup | undefined {
+        return serverGroupRepository.findById(id);
+    }
+
+    // Accepts a group's id or (case-insensitive) name, for chat commands
+    public find(idOrName: string): ServerGroup | undefined {
+        return this.get(idOrName) || this.list().find(g => g.name.toLowerCase() === idOrName.toLowerCase());
+    }
+
+    public create(input: Partial<ServerGroup>): ServerGroup {
+        const group: ServerGroup = {
+            id: crypto.randomUUID(),
+            ...this.validate(input),
+            createdAt: Date.now(),
+            updatedAt: Date.now()
+        };
+        return serverGroupRepository.create(group);
+    }
+
+    public update(id: string, input: Partial<ServerGroup>): ServerGroup {
+        const group = this.get(id);
+        if (!group) throw new AppError(404, 'GROUP_NOT_FOUND', 'Group not found');
+        const updated = { ...group, ...this.validate({ ...group, ...input }, id), updatedAt: Date.now() };
+        serverGroupRepository.update(id, updated);
+        return updated;
+    }
+
+    public delete(id: string) {
+        if (!serverGroupRepository.delete(id)) throw new AppError(404, 'GROUP_NOT_FOUND', 'Group not found');
+        this.results.delete(id);
+    }
+
+    // Drops a deleted server from every group it was in
+    public removeServer(serverId: string) {
+        for (const group of serverGroupRepository.findByServer(serverId)) {
+            serverGroupRepository.update(group.id, { serverIds: group.serverIds.filter(id => id !== serverId), updatedAt: Date.now() });
+        }
+    }
+
+    private validate(input: Partial<ServerGroup>, existingId?: string): Pick<ServerGroup, 'name' | 'description' | 'serverIds'> {
+        const name = (input.name || '').trim();
+        if (!name || name.length > 64) throw new AppError(400, 'INVALID_GROUP', 'Group name must be 1-64 characters');
+        if (this.list().some(g => g.id !== existingId && g.name.toLowerCase() === name.toLowerCase())) {
+            throw new AppError(409, 'GROUP_EXISTS', `A group named "${name}" already exists`);
+        }
+
+        const { getServer } = require('./ServerService');
+        const serverIds = Array.from(new Set(Array.isArray(input.serverIds) ? input.serverIds : []));
+        const unknown = serverIds.filter(id => !getServer(id));
+        if (unknown.length > 0) throw new AppError(400, 'INVALID_GROUP', `Unknown server(s): ${unknown.join(', ')}`);
+
+        return { name, description: input.description?.trim() || undefined, serverIds };
+    }
+
+    public getLastResult(groupId: string): ServerGroupOperationResult | undefined {
+        return this.results.get(groupId);
+    }
+
+    /** Start/stop order of a group, in waves, as an operation would run it. */
+    public plan(group: ServerGroup): { start: string[][], stop: string[][] } {
+        return {
+            start: dependencyService.resolveStartOrder(group.serverIds),
+            stop: dependencyService.resolveStopOrder(group.serverIds)
+        };
+    }
+
+    /**
+     * Starts a group operation in the background. `result` is updated as each
+     * server is handled; `done` resolves with it once the operation is over.
+     */
+    public run(group: ServerGroup, operation: ServerGroupOperation, requestedBy?: string): { result: ServerGroupOperationResult, done: Promise<ServerGroupOperationResult> } {
+        if (!OPERATIONS.includes(operation)) {
+            throw new AppError(400, 'INVALID_GROUP_OPERATION', `Unknown operation "${operation}". Available: ${OPERATIONS.join(', ')}`);
+        }
+        if (this.results.get(group.id)?.status === 'RUNNING') {
+            throw new AppError(409, 'GROUP_OPERATION_RUNNING', `An operation is already running for group "${group.name}"`);
+        }
+        if (group.serverIds.length === 0) throw new AppError(400, 'INVALID_GROUP', `Group "${group.name}" has no servers`);
+        this.plan(group); // Surface dependency cycles before anything is touched
+
+        const result: ServerGroupOperationResult = {
+            groupId: group.id,
+            operation,
+            status: 'RUNNING',
+            steps: [],
+            startedAt: Date.now(),
+            requestedBy
+        };
+        this.results.set(group.id, result);
+        logger.info(`[ServerGroups] ${operation} of "${group.name}" (${group.serverIds.length} servers)${requestedBy ? ` requested by ${requestedBy}` : ''}`);
+
+        const onStep = (step: ServerGroupOperationResult['steps'][number]) => result.steps.push(step);
+        const done = (async () => {
+            try {
+                if (operation !== 'start') await dependencyService.stopOrdered(group.serverIds, onStep);
+                if (operation !== 'stop' && !result.steps.some(s => s.status === 'FAILED')) {
+                    await dependencyService.startOrdered(group.serverIds, onStep);
+                }
+            } catch (e: any) {
+                logger.error(`[ServerGroups] ${operation} of "${group.name}" aborted: ${e.message}`);
+                result.steps.push({ serverId: '', action: operation === 'stop' ? 'stop' : 'start', wave: -1, status: 'FAILED', message: e.message });
+            }
+            result.status = result.steps.some(s => s.status === 'FAILED') ? 'FAILED' : 'COMPLETED';
+            result.finishedAt = Date.now();
+            logger.info(`[ServerGroups] ${operation} of "${group.name}" ${result.status.toLowerCase()}`);
+            return result;
+        })();
+
+        return { result, done };
+    }
+}
+
+export const serverGroupService = new ServerGroupService();
@@ -4,10 +4,13 @@ import net from 'net';
 import { logger } from '../../utils/logger';
 import { javaManager } from '../processes/JavaManager';
 import { processManager } from '../processes/ProcessManager';
+import { cgroupManager } from '../processes/CgroupManager';
 import { diagnosisService } from '../diagnosis/DiagnosisService';
 import { safetyService } from '../system/SafetyService';
 import { systemService } from '../system/SystemService';
 import { startupManager } from './StartupManager';
+import { dependencyService } from './DependencyService';
+import { serverGroupService } from './ServerGroupService';
 
 import { serverRepository } from '../../storage/ServerRepository';
 import {  ServerConfig  } from '@shared/types';
@@ -43,6 +46,28 @@ const validateUpdate = (updates: any) => {
     if (updates.ram !== undefined && (updates.ram < 1 || updates.ram > 256)) {
         throw new Error('Invalid RAM allocation (1-256GB)');
     }
+    if (updates.restartPolicy !== undefined && !['no', 'on-failure', 'always', 'unless-stopped'].includes(updates.restartPolicy?.mode)) {
+        throw new Error('Invalid restart policy (no, on-failure, always, unless-stopped)');
+    }
+    if (updates.readiness) {
+        if (!['log', 'ping', 'tcp'].includes(updates.readiness.type)) {
+            throw new Error('Invalid readiness probe (log, ping, tcp)');
+        }
+        if (updates.readiness.pattern) {
+            try {
+                new RegExp(updates.readiness.pattern);
+            } catch {
+                throw new Error('Invalid readiness pattern: not a valid regular expression');
+            }
+        }
+    }
+    if (updates.liveness && !['ping', 'tcp'].includes(updates.liveness.type)) {
+        throw new Error('Invalid liveness probe (ping, tcp)');
+    }
+    // The local chunk store of incremental backups is never encrypted
+    if (updates.backupConfig?.mode === 'incremental' && updates.backupConfig.encryption?.enabled) {
+        throw new Error('Incremental backups cannot be encrypted. Turn off backup encryption first.');
+    }
 };
 
 export const getServers = () => {
@@ -82,6 +107,19 @@ export const deleteServer = async (id: string) => {
     // 2. Remove from DB
     serverRepository.delete(id);
 
+    // 2.1 Forget it in other servers' dependencies and in groups
+    for (const other of getServers()) {
+        const deps = other.dependencies;
+        if (!deps?.startAfter?.includes(id) && !deps?.stopBefore?.includes(id)) continue;
+        serverRepository.update(other.id, {
+            dependencies: {
+                startAfter: deps.startAfter?.filter(d => d !== id),
+                stopBefore: deps.stopBefore?.filter(d => d !== id)
+            }
+        });
+    }
+    serverGroupService.removeServer(id);
+
     // 3. Delete Files (Safe)
     if (server && server.workingDirectory) {
         if (await fs.pathExists(server.workingDirectory)) {
@@ -122,6 +160,9 @@ export const updateServer = async (id: string, updates: any) => {
 
         // 0. Technical Validation
         validateUpdate(updates);
+        if (updates.dependencies !== undefined) {
+            dependencyService.validate(getServers().map((s: ServerConfig) => s.id === id ? newServer : s));
+        }
 
         // --- SIDE EFFECTS ---
         
@@ -219,11 +260,17 @@ export const diagnoseServer = async (id: string) => {
 
     // 2. Get System Stats
     const stats = await systemService.getSystemStats();
+    // Only measured tick data; the nominal 20 TPS of an idle estimate would hide real lag
+    const tick = processManager.getTickMetrics(id);
+    const measured = tick.source === 'spark' || tick.source === 'log';
 
     // 3. Run Diagnosis
     return diagnosisService.diagnose(server, recentLogs, {
         totalMemory: stats.mem.total,
         freeMemory: stats.mem.free,
-        javaVersion: 'unknown' // Placeholder for Phase 2
+        javaVersion: 'unknown', // Placeholder for Phase 2
+        tps: measured && tick.tps !== null ? tick.tps : undefined,
+        mspt: measured && tick.mspt !== null ? tick.mspt : undefined,
+        limits: cgroupManager.getLastUsage(id)
     });
 };
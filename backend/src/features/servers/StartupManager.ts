@@ -2,6 +2,8 @@ import { logger } from '../../utils/logger';
 import path from 'path';
 import fs from 'fs-extra';
 import { processManager } from '../processes/ProcessManager';
+import { rconService } from '../processes/RconService';
+import { dependencyService } from './DependencyService';
 import { javaManager } from '../processes/JavaManager';
 import net from 'net';
 import si from 'systeminformation';
@@ -26,7 +28,10 @@ export class StartupManager {
         // 0. Smart Auto-Correction (Velocity) - Run BEFORE Safety Checks
 
 
-        // 0.1 Safety Checks (Skip if forced)
+        // 0.1 Dependencies: everything this server starts after must be ONLINE first
+        await dependencyService.ensureDependencies(server);
+
+        // 0.2 Safety Checks (Skip if forced)
         if (!force) {
             await safetyService.validateServer(server);
         }
@@ -63,6 +68,10 @@ export class StartupManager {
         // 4. Build Command
         // Enforce Properties for Backend Servers (Trust No One)
         await this.enforceBackendProperties(server);
+        const rconPort = await rconService.ensureConfigured(server).catch((e: any) => {
+            console.warn(`[StartupManager:${id}] Could not configure RCON: ${e.message}`);
+            return null;
+        });
 
         // GLOBAL DOCKER ENFORCEMENT
         const settings = systemSettingsService.getSettings();
@@ -101,7 +110,8 @@ export class StartupManager {
             ...env, 
             executionEngine: engine,
             dockerImage,
-            SERVER_PORT: server.port
+            SERVER_PORT: server.port,
+            ...(rconPort ? { RCON_PORT: rconPort } : {})
         });
 
         // 6. Clear Restart Flag (Hardening)
@@ -0,0 +1,83 @@
+import express from 'express';
+import { serverGroupService } from './ServerGroupService';
+import { AppError } from '../../utils/AppError';
+import { auditService } from '../system/AuditService';
+import { verifyToken, requireRole } from '../../middleware/authMiddleware';
+
+const router = express.Router();
+
+router.use(verifyToken);
+
+// Group operations act on several servers at once, so changes are limited to administrators
+const requireAdmin = requireRole(['OWNER', 'ADMIN']);
+
+const handleError = (res: express.Response, e: any) => {
+    if (e instanceof AppError) return res.status(e.statusCode).json({ error: e.message, code: e.errorCode });
+    res.status(500).json({ error: e.message });
+};
+
+// List groups with the latest operation of each
+router.get('/', (req, res) => {
+    try {
+        res.json(serverGroupService.list().map(group => ({ ...group, lastOperation: serverGroupService.getLastResult(group.id) })));
+    } catch (e: any) {
+        handleError(res, e);
+    }
+});
+
+router.get('/:id', (req, res) => {
+    const group = serverGroupService.get(req.params.id);
+    if (!group) return res.status(404).json({ error: 'Group not found' });
+    try {
+        res.json({ ...group, lastOperation: serverGroupService.getLastResult(group.id), plan: serverGroupService.plan(group) });
+    } catch (e: any) {
+        handleError(res, e);
+    }
+});
+
+router.post('/', requireAdmin, (req, res) => {
+    try {
+        const group = serverGroupService.create(req.body || {});
+        auditService.log((req as any).user.id, 'SERVER_GROUP_CREATE', group.id, { name: group.name, serverIds: group.serverIds });
+        res.status(201).json(group);
+    } catch (e: any) {
+        handleError(res, e);
+    }
+});
+
+router.put('/:id', requireAdmin, (req, res) => {
+    try {
+        const group = serverGroupService.update(req.params.id, req.body || {});
+        auditService.log((req as any).user.id, 'SERVER_GROUP_UPDATE', group.id, { name: group.name, serverIds: group.serverIds });
+        res.json(group);
+    } catch (e: any) {
+        handleError(res, e);
+    }
+});
+
+router.delete('/:id', requireAdmin, (req, res) => {
+    try {
+        serverGroupService.delete(req.params.id);
+        auditService.log((req as any).user.id, 'SERVER_GROUP_DELETE', req.params.id);
+        res.json({ success: true });
+    } catch (e: any) {
+        handleError(res, e);
+    }
+});
+
+// Start / stop / restart the group in dependency order. Runs in the background; poll GET /:id for progress
+router.post('/:id/:operation(start|stop|restart)', requireAdmin, (req, res) => {
+    const group = serverGroupService.get(req.params.id);
+    if (!group) return res.status(404).json({ error: 'Group not found' });
+
+    try {
+        const user = (req as any).user;
+        const { result } = serverGroupService.run(group, req.params.operation as any, user?.username);
+        auditService.log(user.id, 'SERVER_GROUP_OPERATION', group.id, { operation: req.params.operation });
+        res.status(202).json(result);
+    } catch (e: any) {
+        handleError(res, e);
+    }
+});
+
+export default router;
@@ -126,7 +126,7 @@ router.patch('/servers/:id/:pluginId/toggle', requirePermission('server.files.wr
 // POST /api/plugins/servers/:id/:pluginId/update - Update plugin to latest
 router.post('/servers/:id/:pluginId/update', requirePermission('server.files.write'), async (req, res) => {
     try {
-        const plugin = await pluginService.update(req.params.id, req.params.pluginId);
+        const plugin = await pluginService.update(req.params.id, req.params.pluginId, (req as any).user?.username);
         res.json(plugin);
     } catch (err: any) {
         console.error('[PluginRoutes] Update error:', err.message);
@@ -5,6 +5,11 @@ import path from 'path';
 import { logger } from '../../utils/logger';
 
 import { processManager } from '../processes/ProcessManager';
+import { consoleLogArchive } from '../processes/ConsoleLogArchive';
+import { ConsoleLogLevel } from '@shared/types';
+import { metricsService, parseMetricQuery } from '../metrics/MetricsService';
+import { sparkService } from '../metrics/SparkService';
+import { restartPolicyService } from './RestartPolicyService';
 import { getSystemStats } from '../system/SystemStats';
 import { javaManager } from '../processes/JavaManager';
 import { FileSystemManager } from '../files/FileSystemManager';
@@ -204,17 +209,17 @@ router.get('/:id/query', async (req, res) => {
                     return; 
                 }
 
+                // Names are left to PlayerService: the sample is capped at 12 and often customised
                 processManager.updateCachedStatus(id, {
                     online: true,
                     players: status.players.online,
-                    playerList: status.players.sample ? status.players.sample.map((p: any) => p.name) : (status.players.list || []), 
                     maxPlayers: status.players.max,
                     latency: status.roundTripLatency,
                     version: server.software === 'Bedrock' ? status.version : status.version.name
                 });
 
-                // Reconciliation: If DB thinks it's offline/starting but we found it online
-                if (server.status !== 'ONLINE') {
+                // Reconciliation: If DB thinks it's offline/starting but we found it online (and its readiness probe agrees)
+                if (server.status !== 'ONLINE' && processManager.getCachedStatus(id).status === 'ONLINE') {
                     server.status = 'ONLINE';
                     saveServer(server);
                 }
@@ -233,7 +238,6 @@ router.get('/:id/query', async (req, res) => {
                     processManager.updateCachedStatus(id, {
                         online: true,
                         players: q.players.online,
-                        playerList: q.players.list || [],
                         maxPlayers: q.players.max,
                         latency: 1, 
                         version: q.version
@@ -256,10 +260,10 @@ router.get('/:id/query', async (req, res) => {
                         
                         // Only mark as OFFLINE if the process is actually dead locally
                         if (!processManager.isRunning(id)) {
-                             // CLEAR PERSISTENT START TIME IF GHOST
-                            if (server.startTime || server.status !== 'OFFLINE') {
+                             // CLEAR PERSISTENT START TIME IF GHOST (the crash-loop marker stays until a start or reset)
+                            if (server.startTime || (server.status !== 'OFFLINE' && server.status !== 'CRASH_LOOP')) {
                                 delete server.startTime;
-                                server.status = 'OFFLINE';
+                                if (server.status !== 'CRASH_LOOP') server.status = 'OFFLINE';
                                 saveServer(server);
                             }
                         }
@@ -293,7 +297,7 @@ router.get('/', optionalVerifyToken, (req, res) => {
             return {
                 ...s,
                 // Trust ProcessManager's state machine (STARTING vs ONLINE)
-                status: isRunning ? (cached?.status || 'STARTING') : (s.status === 'CRASHED' ? 'CRASHED' : 'OFFLINE'),
+                status: isRunning ? (cached?.status || 'STARTING') : (s.status === 'CRASHED' || s.status === 'CRASH_LOOP' ? s.status : 'OFFLINE'),
                 iconUrl: getIconUrl(s)
             };
         });
@@ -337,6 +341,54 @@ router.get('/:id/logs', verifyToken, requirePermission('server.console.read'), a
     res.json(logs);
 });
 
+// Console Log Archive: previous runs of the server
+router.get('/:id/console/sessions', verifyToken, requirePermission('server.console.read'), async (req, res) => {
+    try {
+        res.json(await consoleLogArchive.listSessions(req.params.id));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+router.get('/:id/console/sessions/:sessionId', verifyToken, requirePermission('server.console.read'), async (req, res) => {
+    try {
+        const tail = req.query.tail ? parseInt(req.query.tail as string) : undefined;
+        res.json(await consoleLogArchive.readSession(req.params.id, req.params.sessionId, tail));
+    } catch (e: any) {
+        res.status(e.message === 'Session not found' ? 404 : 500).json({ error: e.message });
+    }
+});
+
+// Search archived console output. Times are epoch milliseconds or ISO strings.
+router.get('/:id/console/search', verifyToken, requirePermission('server.console.read'), async (req, res) => {
+    const parseTime = (value: unknown) => {
+        if (!value) return undefined;
+        const time = /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+        return isNaN(time) ? undefined : time;
+    };
+    const levels = String(req.query.levels || '')
+        .split(',')
+        .map(l => l.trim().toUpperCase())
+        .filter((l): l is ConsoleLogLevel => ['INFO', 'WARN', 'ERROR', 'DEBUG'].includes(l));
+
+    try {
+        const result = await consoleLogArchive.search(req.params.id, {
+            text: req.query.q as string | undefined,
+            regex: req.query.regex === 'true',
+            caseSensitive: req.query.caseSensitive === 'true',
+            levels,
+            from: parseTime(req.query.from),
+            to: parseTime(req.query.to),
+            sessionId: req.query.sessionId as string | undefined,
+            limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+        });
+        res.json(result);
+    } catch (e: any) {
+        const invalidQuery = e.message.startsWith('Invalid regular expression') || e.message.startsWith('Search text');
+        res.status(invalidQuery ? 400 : 500).json({ error: e.message });
+    }
+});
+
 // Get Crash Report
 router.get('/:id/crash-report', verifyToken, requirePermission('server.files.read'), async (req, res) => {
     const { id } = req.params;
@@ -353,6 +405,77 @@ router.get('/:id/crash-report', verifyToken, requirePermission('server.files.rea
     res.json({ analysis, logs: logs.slice(-50), diagnosis });
 });
 
+// Tick Metrics (TPS/MSPT and where they come from)
+router.get('/:id/performance', verifyToken, requirePermission('server.view'), (req, res) => {
+    if (!getServer(req.params.id)) return res.status(404).json({ error: 'Server not found' });
+    res.json(processManager.getTickMetrics(req.params.id));
+});
+
+// Spark Reports (profiler / health)
+router.get('/:id/spark/reports', verifyToken, requirePermission('server.view'), async (req, res) => {
+    try {
+        res.json(await sparkService.listReports(req.params.id));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+router.get('/:id/spark/reports/:reportId', verifyToken, requirePermission('server.view'), async (req, res) => {
+    try {
+        const report = await sparkService.getReport(req.params.id, req.params.reportId);
+        if (!report) return res.status(404).json({ error: 'Report not found' });
+        res.json(report);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+router.post('/:id/spark/reports', verifyToken, requirePermission('server.console.write'), async (req, res) => {
+    const server = getServer(req.params.id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        const { kind = 'profiler', durationSeconds = 30 } = req.body || {};
+        const user = (req as any).user;
+        const report = await sparkService.startReport(server, kind, Number(durationSeconds), user?.username);
+        auditService.log(user.id, 'SPARK_REPORT', server.id, { kind, durationSeconds: report.durationSeconds });
+        res.status(202).json(report);
+    } catch (e: any) {
+        if (e instanceof AppError) return res.status(e.statusCode).json({ error: e.message, code: e.errorCode });
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Restart Policy (effective policy and crash-loop state)
+router.get('/:id/restart-policy', verifyToken, requirePermission('server.view'), (req, res) => {
+    const server = getServer(req.params.id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+    res.json({ policy: restartPolicyService.policyFor(server), state: restartPolicyService.getState(server.id) });
+});
+
+router.post('/:id/restart-policy/reset', verifyToken, requirePermission('server.start'), async (req, res) => {
+    const server = getServer(req.params.id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        await restartPolicyService.reset(server.id);
+        auditService.log((req as any).user.id, 'CRASH_LOOP_RESET', server.id, {});
+        res.json({ policy: restartPolicyService.policyFor(server), state: restartPolicyService.getState(server.id) });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Metrics History (cpu, memory, players, tps, mspt)
+router.get('/:id/metrics/:metric', verifyToken, requirePermission('server.view'), async (req, res) => {
+    try {
+        res.json(await metricsService.queryServer(req.params.id, req.params.metric, parseMetricQuery(req.query)));
+    } catch (e: any) {
+        if (e instanceof AppError) return res.status(e.statusCode).json({ error: e.message, code: e.errorCode });
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // Run Diagnosis
 router.get('/:id/diagnosis', verifyToken, requirePermission('server.view'), async (req, res) => {
     const { id } = req.params;
@@ -374,7 +497,7 @@ router.post('/:id/heal', verifyToken, requirePermission('server.settings'), asyn
     }
 
     try {
-        await autoHealingManager.executeFix(id, type, payload || {});
+        await autoHealingManager.executeFix(id, type, payload || {}, (req as any).user?.username);
         res.json({ success: true, message: `Successfully applied fix: ${type}` });
         
         auditService.log((req as any).user.id, 'SERVER_HEAL', id, { type, payload });
@@ -578,6 +701,7 @@ router.patch('/:id', requirePermission('server.settings'), async (req, res) => {
         auditService.log((req as any).user.id, 'SERVER_UPDATE', id, { updates: Object.keys(updates) });
     } catch (e: any) {
         if (e.message === 'Server not found') return res.status(404).json({ error: 'Server not found' });
+        if (e instanceof AppError) return res.status(e.statusCode).json({ error: e.message, code: e.errorCode });
         res.status(500).json({ error: e.message });
     }
 });
@@ -876,6 +1000,14 @@ router.post('/:id/files/extract', requirePermission('server.files.write'), async
         const targetDir = path.dirname(zipPath);
         console.log(`[Extract] Detected ${files.length} items in zip root.`);
 
+        // Snapshot everything the extraction would overwrite so it can be undone
+        const wrapped = files.length === 1 && (await fs.stat(path.join(tempDir, files[0]))).isDirectory();
+        await safetySnapshotService.captureOverlay(id, {
+            operation: 'FILE_EXTRACT',
+            summary: `Extract ${path.basename(filePath)}`,
+            actor: (req as any).user?.username
+        }, wrapped ? path.join(tempDir, files[0]) : tempDir, path.relative(server.workingDirectory, targetDir));
+
         if (files.length === 1) {
              const nestedPath = path.join(tempDir, files[0]);
              const stats = await fs.stat(nestedPath);
@@ -920,6 +1052,23 @@ router.post('/:id/install', requirePermission('server.settings'), async (req, re
         console.log(`[Installation] Request for server ${id} | Type: ${type} | Version: ${version}`);
         console.log(`[Installation Debug] Payload:`, JSON.stringify(req.body, null, 2));
 
+        // Reinstalls replace the jar and more; keep what's there (and the launch config) for undo
+        const snapshotType = type === 'forge' && (req.body as any).localModpack ? 'modpack' : type;
+        await safetySnapshotService.capture(id, {
+            operation: 'SOFTWARE_INSTALL',
+            summary: `Install ${type}${version ? ` ${version}` : ''}`,
+            actor: (req as any).user?.username,
+            restoreState: {
+                server: {
+                    software: server.software,
+                    version: server.version,
+                    executable: server.executable,
+                    executionCommand: server.executionCommand,
+                    javaVersion: server.javaVersion
+                }
+            }
+        }, await installerService.getInstallPaths(server.workingDirectory, snapshotType));
+
         if (type === 'paper') {
             await installerService.installPaper(server.workingDirectory, version || '1.21.11', build);
         } else if (type === 'purpur') {
@@ -1053,21 +1202,43 @@ router.get('/:id/schedules', async (req, res) => {
     }
 });
 
-// Get Schedule History
-router.get('/:id/schedules/history', async (req, res) => {
+// Get Schedule History (paginated, optionally filtered by task / outcome)
+router.get('/:id/schedules/history', verifyToken, requirePermission('server.console.read'), async (req, res) => {
     const { id } = req.params;
+    const { limit, offset, taskId, success } = req.query;
     try {
-        const history = await scheduleService.getHistory(id);
+        const history = await scheduleService.getHistory(id, {
+            limit: limit ? parseInt(limit as string) : 50,
+            offset: offset ? parseInt(offset as string) : 0,
+            taskId: taskId as string,
+            success: success !== undefined ? success === 'true' : undefined
+        });
         res.json(history);
     } catch (e: any) {
         res.status(500).json({ error: e.message });
     }
 });
 
+// Export Schedule History
+router.get('/:id/schedules/history/export', verifyToken, requirePermission('server.console.read'), async (req, res) => {
+    const { id } = req.params;
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+    try {
+        const content = await scheduleService.exportHistory(id, format, { taskId: req.query.taskId as string });
+        res.setHeader('Content-Disposition', `attachment; filename="schedule-history-${id}.${format}"`);
+        res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json');
+        res.send(content);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // Create Schedule
 router.post('/:id/schedules', async (req, res) => {
     const { id } = req.params;
     const task = req.body;
+    const invalid = scheduleService.validateTask(task, id);
+    if (invalid) return res.status(400).json({ error: `Invalid schedule: ${invalid}` });
     try {
         await scheduleService.addTask(id, task);
         res.json({ success: true });
@@ -1080,6 +1251,8 @@ router.post('/:id/schedules', async (req, res) => {
 router.put('/:id/schedules/:taskId', async (req, res) => {
     const { id } = req.params;
     const task = req.body;
+    const invalid = scheduleService.validateTask(task, id);
+    if (invalid) return res.status(400).json({ error: `Invalid schedule: ${invalid}` });
     try {
         await scheduleService.updateTask(id, task);
         res.json({ success: true });
@@ -1102,6 +1275,10 @@ router.delete('/:id/schedules/:taskId', async (req, res) => {
 // ==================== BACKUP ROUTES ====================
 
 import { backupService } from '../backups/BackupService';
+import { validateRetentionPolicy } from '../backups/RetentionPolicy';
+import { offsiteBackupService } from '../backups/OffsiteBackupService';
+import { backupVerificationService } from '../backups/BackupVerificationService';
+import { safetySnapshotService } from '../backups/SafetySnapshotService';
 
 // Toggle Lock
 router.post('/:id/backups/:backupId/lock', async (req, res) => {
@@ -1114,6 +1291,165 @@ router.post('/:id/backups/:backupId/lock', async (req, res) => {
     }
 });
 
+// Get retention policy
+router.get('/:id/backups/retention', verifyToken, requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+    res.json(backupService.getRetentionPolicy(id));
+});
+
+// Preview which backups a policy would delete (dry run)
+router.post('/:id/backups/retention/preview', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+
+    const policy = req.body || {};
+    const invalid = validateRetentionPolicy(policy);
+    if (invalid) return res.status(400).json({ error: `Invalid retention policy: ${invalid}` });
+
+    try {
+        res.json(await backupService.previewRetention(id, policy));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Save and apply retention policy
+router.put('/:id/backups/retention', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const policy = req.body || {};
+    const invalid = validateRetentionPolicy(policy);
+    if (invalid) return res.status(400).json({ error: `Invalid retention policy: ${invalid}` });
+
+    try {
+        await updateServer(id, { backupConfig: { worldOnly: false, ...server.backupConfig, retention: policy } });
+        const deleted = await backupService.applyRetention(id, policy);
+        res.json({ success: true, deleted });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Get off-site targets available to this server and its current selection
+router.get('/:id/backups/targets', verifyToken, requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const settings = offsiteBackupService.getSettings();
+    res.json({
+        // Credentials stay in global settings; servers only see what they can pick from
+        available: settings.targets.map(t => ({ id: t.id, name: t.name, type: t.type, enabled: t.enabled })),
+        defaultTargetIds: settings.defaultTargetIds,
+        defaultKeepLocal: settings.keepLocal,
+        targetIds: server.backupConfig?.targetIds ?? null,
+        keepLocal: server.backupConfig?.keepLocal ?? null
+    });
+});
+
+// Save off-site target selection (null falls back to the global defaults)
+router.put('/:id/backups/targets', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const { targetIds, keepLocal } = req.body || {};
+    if (targetIds !== null && targetIds !== undefined && (!Array.isArray(targetIds) || targetIds.some((t: any) => typeof t !== 'string'))) {
+        return res.status(400).json({ error: 'targetIds must be an array of target ids or null' });
+    }
+    const known = offsiteBackupService.getSettings().targets.map(t => t.id);
+    const unknown = (targetIds || []).filter((t: string) => !known.includes(t));
+    if (unknown.length > 0) return res.status(400).json({ error: `Unknown backup target(s): ${unknown.join(', ')}` });
+
+    try {
+        await updateServer(id, {
+            backupConfig: {
+                worldOnly: false,
+                ...server.backupConfig,
+                targetIds: targetIds ?? undefined,
+                keepLocal: typeof keepLocal === 'boolean' ? keepLocal : undefined
+            }
+        });
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Upload an existing backup to the server's off-site targets
+router.post('/:id/backups/:backupId/offsite', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id, backupId } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+    if (offsiteBackupService.resolveTargets(id).length === 0) {
+        return res.status(400).json({ error: 'No off-site backup targets are configured for this server' });
+    }
+
+    try {
+        const copies = await backupService.replicateOffsite(id, backupId);
+        res.json({ success: true, copies });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Get backup encryption settings (the passphrase itself is never returned)
+router.get('/:id/backups/encryption', verifyToken, requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+    res.json(await backupService.getEncryptionConfig(id));
+});
+
+// Save backup encryption settings
+router.put('/:id/backups/encryption', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const { enabled, method, passphrase, keyFile } = req.body || {};
+    let encryption;
+    try {
+        encryption = await backupService.configureEncryption(id, { enabled, method, passphrase, keyFile });
+    } catch (e: any) {
+        return res.status(400).json({ error: e.message });
+    }
+
+    try {
+        await updateServer(id, { backupConfig: { worldOnly: false, ...server.backupConfig, encryption } });
+        res.json({ success: true });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Verify every local backup of the server now
+router.post('/:id/backups/verify', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        res.json(await backupVerificationService.verifyServer(id));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Verify a single backup against its recorded checksums
+router.post('/:id/backups/:backupId/verify', requirePermission('server.backups.manage'), async (req, res) => {
+    const { id, backupId } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        const verification = await backupVerificationService.verify(id, backupId);
+        if (!verification) return res.status(400).json({ error: 'Off-site only backups are verified when they are uploaded' });
+        res.json(verification);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // Create backup
 router.post('/:id/backups', async (req, res) => {
     const { id } = req.params;
@@ -1123,14 +1459,7 @@ router.post('/:id/backups', async (req, res) => {
     if (!server) return res.status(404).json({ error: 'Server not found' });
 
     try {
-        // If server is online, flush saves
-        if (processManager.isRunning(id)) {
-            console.log(`[Backups] Flushing saves for online server ${id}...`);
-            processManager.sendCommand(id, 'save-all');
-            // Give it 2 seconds to write to disk
-            await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-
+        // Online servers are flushed and paused by the backup service itself
         const backup = await backupService.createBackup(server.workingDirectory, id, description, worldOnly);
         res.json(backup);
     } catch (e: any) {
@@ -1174,7 +1503,7 @@ router.post('/:id/backups/:backupId/restore', async (req, res) => {
             }
         }
 
-        await backupService.restoreBackup(server.workingDirectory, id, backupId);
+        await backupService.restoreBackup(server.workingDirectory, id, backupId, (req as any).user?.username);
         res.json({ success: true, message: 'Backup restored successfully' });
     } catch (e: any) {
         res.status(500).json({ error: e.message });
@@ -1196,6 +1525,122 @@ router.delete('/:id/backups/:backupId', async (req, res) => {
     }
 });
 
+// List files and folders inside a backup
+router.get('/:id/backups/:backupId/entries', verifyToken, requirePermission('server.files.read'), async (req, res) => {
+    const { id, backupId } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        res.json(await backupService.listBackupEntries(id, backupId));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Preview a text file inside a backup
+router.get('/:id/backups/:backupId/entries/preview', verifyToken, requirePermission('server.files.read'), async (req, res) => {
+    const { id, backupId } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+    if (!req.query.path) return res.status(400).json({ error: 'path is required' });
+
+    try {
+        res.json(await backupService.previewBackupEntry(id, backupId, String(req.query.path)));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Download a single file from a backup
+router.get('/:id/backups/:backupId/entries/download', verifyToken, requirePermission('server.files.read'), async (req, res) => {
+    const { id, backupId } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+    if (!req.query.path) return res.status(400).json({ error: 'path is required' });
+
+    try {
+        const { name, size, stream } = await backupService.readBackupEntry(id, backupId, String(req.query.path));
+        res.setHeader('Content-Disposition', `attachment; filename="${name.replace(/"/g, '')}"`);
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Content-Length', String(size));
+        stream.on('error', (err) => {
+            console.error(`[Backups] Download of ${req.query.path} from ${backupId} failed:`, err);
+            res.destroy(err);
+        });
+        res.on('close', () => stream.destroy()); // An aborted download releases the backup
+        stream.pipe(res);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Compare two backups, or a backup with the live server (from/to = backup id or "live")
+router.get('/:id/backups/compare', verifyToken, requirePermission('server.files.read'), async (req, res) => {
+    const { id } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const { from, to } = req.query;
+    if (typeof from !== 'string' || typeof to !== 'string' || !from || !to) {
+        return res.status(400).json({ error: 'from and to are required' });
+    }
+    if (from === to) return res.status(400).json({ error: 'Pick two different states to compare' });
+
+    try {
+        res.json(await backupService.compareBackups(server.workingDirectory, id, from, to));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Line diff of a single file between two states
+router.get('/:id/backups/compare/file', verifyToken, requirePermission('server.files.read'), async (req, res) => {
+    const { id } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const { from, to, path: entryPath } = req.query;
+    if (typeof from !== 'string' || typeof to !== 'string' || typeof entryPath !== 'string' || !from || !to || !entryPath) {
+        return res.status(400).json({ error: 'from, to and path are required' });
+    }
+
+    try {
+        res.json(await backupService.diffBackupFile(server.workingDirectory, id, from, to, entryPath));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Restore selected files or folders from a backup
+router.post('/:id/backups/:backupId/restore-paths', async (req, res) => {
+    const { id, backupId } = req.params;
+    const server = getServer(id);
+    if (!server) return res.status(404).json({ error: 'Server not found' });
+
+    const { paths } = req.body || {};
+    if (!Array.isArray(paths) || paths.length === 0 || paths.some((p: any) => typeof p !== 'string')) {
+        return res.status(400).json({ error: 'paths must be a non-empty array of paths' });
+    }
+
+    try {
+        // Same as a full restore: the server must not overwrite the files we put back
+        if (processManager.isRunning(id)) {
+            console.log(`[Backups] Stopping server ${id} for selective restoration...`);
+            processManager.stopServer(id);
+            const stopped = await processManager.waitForClose(id, 30000);
+
+            if (!stopped) {
+                console.warn(`[Backups] Server ${id} did not stop gracefully. Force killing to proceed with restore.`);
+                processManager.killServer(id);
+                await new Promise(resolve => setTimeout(resolve, 1000));
+            }
+        }
+
+        const result = await backupService.restoreBackupPaths(server.workingDirectory, id, backupId, paths, (req as any).user?.username);
+        res.json({ success: true, ...result });
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
 // Download backup
 router.get('/:id/backups/:backupId/download', async (req, res) => {
     const { id, backupId } = req.params;
@@ -1204,8 +1649,40 @@ router.get('/:id/backups/:backupId/download', async (req, res) => {
     if (!server) return res.status(404).json({ error: 'Server not found' });
 
     try {
-        const filePath = await backupService.getBackupPath(id, backupId);
-        res.download(filePath);
+        const { filename, stream } = await backupService.openBackupDownload(id, backupId);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.setHeader('Content-Type', 'application/zip');
+        stream.on('error', (err) => {
+            console.error(`[Backups] Download of ${backupId} failed:`, err);
+            res.destroy(err);
+        });
+        stream.pipe(res);
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Safety snapshots taken before destructive operations (newest first)
+router.get('/:id/safety-snapshots', verifyToken, requirePermission('server.files.read'), async (req, res) => {
+    const { id } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        res.json(await safetySnapshotService.list(id));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message });
+    }
+});
+
+// Undo the most recent destructive operation
+router.post('/:id/safety-snapshots/undo', requirePermission('server.files.write'), async (req, res) => {
+    const { id } = req.params;
+    if (!getServer(id)) return res.status(404).json({ error: 'Server not found' });
+
+    try {
+        const snapshot = await safetySnapshotService.undoLast(id);
+        auditService.log((req as any).user.id, 'SAFETY_SNAPSHOT_UNDO', id, { operation: snapshot.operation, summary: snapshot.summary });
+        res.json(snapshot);
     } catch (e: any) {
         res.status(500).json({ error: e.message });
     }
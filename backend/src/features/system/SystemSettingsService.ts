@@ -3,6 +3,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import { EventEmitter } from 'events';
 import { NetworkConfig } from '@shared/types/network';
+import { BackupOffsiteSettings, GlobalSettings } from '@shared/types';
 
 const DATA_DIR = path.join(process.cwd(), 'data');
 const SETTINGS_FILE = path.join(DATA_DIR, 'settings.json');
@@ -35,6 +36,9 @@ export interface SystemSettings {
             passphrase?: string;
         };
         dockerEnabled?: boolean;
+        processSupervisor?: {
+            enabled: boolean;
+        };
         distributedNodes?: {
             enabled: boolean;
         };
@@ -45,6 +49,8 @@ export interface SystemSettings {
             healthSnapshotInterval: number; // minutes
         };
     };
+    backups?: BackupOffsiteSettings;
+    backupVerification?: GlobalSettings['backupVerification'];
 }
 
 class SystemSettingsService extends EventEmitter {
@@ -75,6 +81,7 @@ class SystemSettingsService extends EventEmitter {
                         remoteAccess: { enabled: false },
                         https: { enabled: false, keyPath: '', certPath: '' },
                         dockerEnabled: false,
+                        processSupervisor: { enabled: false },
                         storageProvider: 'json',
                         distributedNodes: { enabled: false },
                         autoHealing: true,
@@ -97,6 +104,9 @@ class SystemSettingsService extends EventEmitter {
                 if (loaded.app.https && loaded.app.https.enabled && !loaded.app.https.mode) {
                     loaded.app.https.mode = 'native';
                 }
+                if (loaded.app.processSupervisor === undefined) {
+                    loaded.app.processSupervisor = { enabled: false };
+                }
                 if (loaded.app.distributedNodes === undefined) {
                     loaded.app.distributedNodes = { enabled: false };
                 }
@@ -86,6 +86,7 @@ export class WebhookService {
             if (status === 'ONLINE') this.dispatch('SERVER_START', { serverId: id, status });
             if (status === 'OFFLINE') this.dispatch('SERVER_STOP', { serverId: id, status });
             if (status === 'CRASHED') this.dispatch('SERVER_CRASH', { serverId: id, status });
+            if (status === 'CRASH_LOOP') this.dispatch('SERVER_CRASH_LOOP', { serverId: id, status });
         });
 
         processManager.on('player:join', ({ serverId, name }) => {
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { verifyToken, requireRole } from '../../middleware/authMiddleware';
 import { systemSettingsService } from './SystemSettingsService';
+import { offsiteBackupService } from '../backups/OffsiteBackupService';
 
 const router = Router();
 
@@ -26,4 +27,14 @@ router.put('/global', verifyToken, requireRole(['OWNER']), async (req, res) => {
     }
 });
 
+// POST /api/settings/global/backup-targets/test - Check connectivity and credentials of a backup target
+router.post('/global/backup-targets/test', verifyToken, requireRole(['OWNER']), async (req, res) => {
+    try {
+        await offsiteBackupService.testTarget(req.body);
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message || 'Target test failed' });
+    }
+});
+
 export default router;
@@ -4,6 +4,7 @@ import authRoutes from '../features/auth/auth.routes';
 import profileRoutes from '../features/auth/profiles.routes';
 import serverRoutes from '../features/servers/servers.routes';
 import pluginRoutes from '../features/servers/plugins.routes';
+import groupRoutes from '../features/servers/groups.routes';
 import systemRoutes from '../features/system/system.routes';
 import settingsRoutes from '../features/system/settings.routes';
 import assetsRoutes from '../features/system/assets.routes';
@@ -14,6 +15,7 @@ import importRoutes from '../features/installer/import.routes';
 import installRoutes from '../features/installer/install.routes';
 import nodesRoutes from '../features/nodes/nodes.routes';
 import networkRoutes from '../features/network/network.routes';
+import scheduleRoutes from '../features/scheduling/schedules.routes';
 
 
 
@@ -25,6 +27,8 @@ export const setupRoutes = (app: Express) => {
     console.log('[Routes] Registering /api/servers');
     app.use('/api/servers', serverRoutes);
     app.use('/api/plugins', pluginRoutes);
+    app.use('/api/groups', groupRoutes);
+    app.use('/api/schedules', scheduleRoutes);
 
     console.log('[Routes] Registering /api/system');
     app.use('/api/system', systemRoutes);
@@ -17,14 +17,23 @@ import { setupSocket } from './sockets';
 // But we need to inject IO first.
 
 import { logger } from './utils/logger';
-import { getServers, startServer } from './features/servers/ServerService';
+import { getServers } from './features/servers/ServerService';
 import { javaManager } from './features/processes/JavaManager';
 import { processManager } from './features/processes/ProcessManager';
 import { fileWatcherService } from './features/files/FileWatcherService';
 import { discordService } from './features/integrations/DiscordService';
 import { systemSettingsService } from './features/system/SystemSettingsService';
 import { autoHealingService } from './features/servers/AutoHealingService';
+import { restartPolicyService } from './features/servers/RestartPolicyService';
+import { dependencyService } from './features/servers/DependencyService';
 import { updateService } from './features/system/UpdateService';
+import { backupVerificationService } from './features/backups/BackupVerificationService';
+import { safetySnapshotService } from './features/backups/SafetySnapshotService';
+import { consoleLogArchive } from './features/processes/ConsoleLogArchive';
+import { metricsService } from './features/metrics/MetricsService';
+import { sparkService } from './features/metrics/SparkService';
+import { scheduleService } from './features/scheduling/ScheduleService';
+import { playerService } from './features/servers/PlayerService';
 import { errorHandler } from './middleware/errorHandler';
 import os from 'os';
 
@@ -83,6 +92,13 @@ const startup = async () => {
     logger.info('Starting migrations...');
     logger.info('Initializing system components...');
 
+    // Take back servers the process supervisor kept running across a panel restart
+    try {
+        await processManager.reattachSupervised();
+    } catch (e: any) {
+        logger.error(`[Supervisor] Could not reach the process supervisor: ${e.message}`);
+    }
+
     try {
         const servers = getServers();
         logger.info(`Discovered ${servers.length} configured server(s).`);
@@ -92,13 +108,16 @@ const startup = async () => {
             
             // 1. Start File Watcher
             fileWatcherService.watchServer(server.id, server.workingDirectory);
+        }
 
-            // 2. Auto-Start Logic (startDelay is handled internally by StartupManager)
-            if (server.autoStart) {
-                startServer(server.id).catch(err => {
-                    logger.error(`[AutoStart] Failed to boot ${server.name}: ${err.message}`);
-                });
-            }
+        // 2. Auto-Start Logic, in dependency order (startDelay is handled internally by StartupManager)
+        const autoStartIds = servers.filter(s => s.autoStart).map(s => s.id);
+        if (autoStartIds.length > 0) {
+            dependencyService.startOrdered(autoStartIds).then(steps => {
+                for (const step of steps.filter(s => s.status === 'FAILED')) {
+                    logger.error(`[AutoStart] Failed to boot ${step.serverId}: ${step.message}`);
+                }
+            }).catch(err => logger.error(`[AutoStart] ${err.message}`));
         }
     } catch (e: any) {
         logger.warn(`Initial server load failed: ${e.message}`);
@@ -109,7 +128,15 @@ const startup = async () => {
         await discordService.initialize();
         await remoteAccessService.initialize();
         autoHealingService.initialize();
+        await restartPolicyService.initialize();
         updateService.initialize();
+        backupVerificationService.initialize();
+        safetySnapshotService.initialize();
+        await consoleLogArchive.initialize();
+        await metricsService.initialize();
+        await sparkService.initialize();
+        await scheduleService.initialize();
+        await playerService.initialize();
         
         // Start Embedded Agent (if enabled)
         const { localAgentManager } = await import('./features/nodes/LocalAgentManager');
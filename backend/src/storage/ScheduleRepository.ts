@@ -1,6 +1,6 @@
 import fs from 'fs-extra';
 import path from 'path';
-import {  ScheduleTask  } from '@shared/types';
+import {  ScheduleTask, ScheduleHistoryEntry, ScheduleHistoryQuery  } from '@shared/types';
 import { StorageProvider } from './StorageProvider';
 import { StorageFactory } from './StorageFactory';
 
@@ -68,6 +68,10 @@ export class ScheduleRepository {
         }
     }
 
+    public async getAllSchedules(): Promise<ScheduleTask[]> {
+        return this.scheduleTasks.findAll();
+    }
+
     public async getSchedules(serverId: string): Promise<ScheduleTask[]> {
         return this.scheduleTasks.findAll().filter(t => t.serverId === serverId);
     }
@@ -89,6 +93,44 @@ export class ScheduleRepository {
         return history.map(h => h.entry);
     }
 
+    /**
+     * Appends a single entry and prunes the oldest ones beyond `maxEntries`,
+     * instead of rewriting the whole history on every run.
+     */
+    public async addHistory(serverId: string, entry: ScheduleHistoryEntry, maxEntries: number) {
+        const id = `${serverId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        this.historyLogs.create({ id, serverId, entry });
+
+        const existing = this.historyLogs.findAll().filter(h => h.serverId === serverId);
+        if (existing.length > maxEntries) {
+            const sorted = existing.sort((a, b) => Date.parse(b.entry.timestamp) - Date.parse(a.entry.timestamp));
+            for (const h of sorted.slice(maxEntries)) {
+                this.historyLogs.delete(h.id);
+            }
+        }
+    }
+
+    public async queryHistory(serverId: string, options: ScheduleHistoryQuery = {}): Promise<{ entries: ScheduleHistoryEntry[], total: number }> {
+        let filtered: ScheduleHistoryEntry[] = (await this.getHistory(serverId))
+            .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+
+        if (options.taskId) {
+            filtered = filtered.filter(e => e.taskId === options.taskId);
+        }
+        if (options.success !== undefined) {
+            filtered = filtered.filter(e => e.success === options.success);
+        }
+
+        const total = filtered.length;
+        const limit = options.limit || 50;
+        const offset = options.offset || 0;
+
+        return {
+            entries: filtered.slice(offset, offset + limit),
+            total
+        };
+    }
+
     public async saveHistory(serverId: string, history: any[]) {
         // Capping history is usually a good idea
         const capped = history.slice(-100); // Keep last 100 for storage sanity
@@ -0,0 +1,29 @@
+import { StorageProvider } from './StorageProvider';
+import { StorageFactory } from './StorageFactory';
+import { ServerGroup } from '@shared/types';
+
+class ServerGroupRepository implements StorageProvider<ServerGroup> {
+    private provider: StorageProvider<ServerGroup>;
+
+    constructor() {
+        this.provider = StorageFactory.get<ServerGroup>('server_groups');
+        this.init();
+    }
+
+    init() { return this.provider.init(); }
+    findAll() { return this.provider.findAll(); }
+    findById(id: string) { return this.provider.findById(id); }
+    findOne(criteria: Partial<ServerGroup>) { return this.provider.findOne(criteria); }
+    create(item: ServerGroup) { return this.provider.create(item); }
+    update(id: string, updates: Partial<ServerGroup>) { return this.provider.update(id, updates); }
+    delete(id: string) { return this.provider.delete(id); }
+
+    /**
+     * Groups that contain a server.
+     */
+    findByServer(serverId: string): ServerGroup[] {
+        return this.findAll().filter(g => g.serverIds.includes(serverId));
+    }
+}
+
+export const serverGroupRepository = new ServerGroupRepository();
@@ -10,10 +10,10 @@ export class NetUtils {
      * @param host Defaults to '127.0.0.1'
      * @returns True if port is busy, False if free.
      */
-    static async checkPort(port: number, host = '127.0.0.1'): Promise<boolean> {
+    static async checkPort(port: number, host = '127.0.0.1', timeout = 200): Promise<boolean> {
         return new Promise((resolve) => {
             const socket = new net.Socket();
-            socket.setTimeout(200); // Fast timeout for responsiveness
+            socket.setTimeout(timeout); // Fast timeout for responsiveness by default
             socket.on('connect', () => { 
                 socket.destroy(); 
                 resolve(true); 
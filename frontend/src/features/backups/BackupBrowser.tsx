@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Backup, BackupEntry, BackupEntryPreview } from '@shared/types';
+import { Folder, FolderOpen, FileText, ChevronRight, ChevronDown, Download, RotateCcw, X, Loader2, AlertTriangle } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface BackupBrowserProps {
+    serverId: string;
+    backup: Backup;
+    onClose: () => void;
+    onRestored: () => void;
+}
+
+const parentOf = (entryPath: string) => entryPath.includes('/') ? entryPath.substring(0, entryPath.lastIndexOf('/')) : '';
+const nameOf = (entryPath: string) => entryPath.substring(entryPath.lastIndexOf('/') + 1);
+const isWithin = (entryPath: string, selection: string) => entryPath === selection || entryPath.startsWith(`${selection}/`);
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+
+/**
+ * File tree of a single backup with text preview, single-file download and
+ * restore of selected files or folders.
+ */
+const BackupBrowser: React.FC<BackupBrowserProps> = ({ serverId, backup, onClose, onRestored }) => {
+    const { addToast } = useToast();
+    const [entries, setEntries] = useState<BackupEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [selected, setSelected] = useState<string[]>([]);
+    const [preview, setPreview] = useState<BackupEntryPreview | null>(null);
+    const [previewLoading, setPreviewLoading] = useState(false);
+    const [confirming, setConfirming] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+
+    useEffect(() => {
+        setLoading(true);
+        API.getBackupEntries(serverId, backup.id)
+            .then(setEntries)
+            .catch((e: any) => setError(e.message))
+            .finally(() => setLoading(false));
+    }, [serverId, backup.id]);
+
+    const children = useMemo(() => {
+        const map = new Map<string, BackupEntry[]>();
+        for (const entry of entries) {
+            const parent = parentOf(entry.path);
+            map.set(parent, [...(map.get(parent) || []), entry]);
+        }
+        // Folders first, then alphabetical
+        map.forEach(list => list.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.path.localeCompare(b.path)));
+        return map;
+    }, [entries]);
+
+    const toggleExpanded = (entryPath: string) => {
+        const next = new Set(expanded);
+        if (next.has(entryPath)) next.delete(entryPath);
+        else next.add(entryPath);
+        setExpanded(next);
+    };
+
+    const toggleSelected = (entryPath: string) => {
+        if (selected.includes(entryPath)) {
+            setSelected(selected.filter(p => p !== entryPath));
+        } else {
+            // Selecting a folder replaces any selection inside it
+            setSelected([...selected.filter(p => !isWithin(p, entryPath)), entryPath]);
+        }
+    };
+
+    const openPreview = async (entry: BackupEntry) => {
+        setPreviewLoading(true);
+        try {
+            setPreview(await API.previewBackupEntry(serverId, backup.id, entry.path));
+        } catch (e: any) {
+            addToast('error', 'Preview Failed', e.message);
+        } finally {
+            setPreviewLoading(false);
+        }
+    };
+
+    const download = async (entryPath: string) => {
+        try {
+            await API.downloadBackupEntry(serverId, backup.id, entryPath);
+        } catch (e: any) {
+            addToast('error', 'Download Failed', e.message);
+        }
+    };
+
+    const restoreSelected = async () => {
+        setRestoring(true);
+        try {
+            const res = await API.restoreBackupPaths(serverId, backup.id, selected);
+            addToast('success', 'Files Restored', `${res.restored} file(s) restored from ${backup.description || backup.id}.`);
+            setConfirming(false);
+            onRestored();
+            onClose();
+        } catch (e: any) {
+            addToast('error', 'Restore Failed', e.message);
+        } finally {
+            setRestoring(false);
+        }
+    };
+
+    const renderLevel = (parent: string, depth: number): React.ReactNode => (children.get(parent) || []).map(entry => {
+        const isOpen = expanded.has(entry.path);
+        const coveredByParent = selected.some(p => p !== entry.path && isWithin(entry.path, p));
+        return (
+            <React.Fragment key={entry.path}>
+                <div
+                    className={`group flex items-center gap-2 py-1 pr-2 rounded text-xs hover:bg-secondary/50 ${preview?.path === entry.path ? 'bg-secondary' : ''}`}
+                    style={{ paddingLeft: depth * 14 + 4 }}
+                >
+                    <input
+                        type="checkbox"
+                        checked={coveredByParent || selected.includes(entry.path)}
+                        disabled={coveredByParent}
+                        onChange={() => toggleSelected(entry.path)}
+                    />
+                    {entry.isDirectory ? (
+                        <button onClick={() => toggleExpanded(entry.path)} className="flex items-center gap-1 flex-1 text-left truncate">
+                            {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                            {isOpen ? <FolderOpen size={14} className="text-amber-500 shrink-0" /> : <Folder size={14} className="text-amber-500 shrink-0" />}
+                            <span className="truncate">{nameOf(entry.path)}</span>
+                        </button>
+                    ) : (
+                        <>
+                            <button onClick={() => openPreview(entry)} className="flex items-center gap-1 flex-1 text-left truncate pl-4">
+                                <FileText size={14} className="text-muted-foreground shrink-0" />
+                                <span className="truncate">{nameOf(entry.path)}</span>
+                            </button>
+                            <span className="text-[10px] text-muted-foreground font-mono shrink-0">{formatSize(entry.size)}</span>
+                            <button onClick={() => download(entry.path)} className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground" title="Download File">
+                                <Download size={12} />
+                            </button>
+                        </>
+                    )}
+                </div>
+                {entry.isDirectory && isOpen && renderLevel(entry.path, depth + 1)}
+            </React.Fragment>
+        );
+    });
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-xl p-4">
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                className="bg-card border border-border rounded-xl shadow-2xl w-full max-w-5xl h-full max-h-[640px] flex flex-col overflow-hidden"
+            >
+                <div className="flex items-center justify-between p-4 border-b border-border">
+                    <div>
+                        <h2 className="text-lg font-bold">Browse Backup</h2>
+                        <p className="text-xs text-muted-foreground font-mono">{backup.description || backup.id} · {new Date(backup.createdAt).toLocaleString()}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary text-muted-foreground"><X size={18} /></button>
+                </div>
+
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 min-h-0">
+                    <div className="overflow-y-auto p-2 border-r border-border">
+                        {loading ? (
+                            <div className="flex items-center justify-center py-20 text-muted-foreground"><Loader2 size={24} className="animate-spin" /></div>
+                        ) : error ? (
+                            <div className="p-4 text-sm text-rose-500">{error}</div>
+                        ) : renderLevel('', 0)}
+                    </div>
+
+                    <div className="overflow-auto p-4 bg-secondary/20">
+                        {previewLoading ? (
+                            <div className="flex items-center justify-center py-20 text-muted-foreground"><Loader2 size={24} className="animate-spin" /></div>
+                        ) : preview ? (
+                            <>
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-xs font-mono truncate">{preview.path}</span>
+                                    <button onClick={() => download(preview.path)} className="text-xs flex items-center gap-1 text-muted-foreground hover:text-foreground shrink-0">
+                                        <Download size={12} /> Download
+                                    </button>
+                                </div>
+                                {preview.binary ? (
+                                    <p className="text-xs text-muted-foreground">Binary file ({formatSize(preview.size)}). Download it to inspect.</p>
+                                ) : (
+                                    <pre className="text-[11px] font-mono whitespace-pre-wrap break-all">{preview.content}</pre>
+                                )}
+                                {preview.truncated && !preview.binary && (
+                                    <p className="text-[10px] text-muted-foreground mt-2">Preview truncated. Download the file to see all of it.</p>
+                                )}
+                            </>
+                        ) : (
+                            <p className="text-xs text-muted-foreground">Select a file to preview it.</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-border flex items-center justify-between gap-4">
+                    {confirming ? (
+                        <>
+                            <div className="flex items-center gap-2 text-xs text-rose-400">
+                                <AlertTriangle size={14} className="shrink-0" />
+                                The server will be stopped and the selected paths replaced. Current versions are kept until the restore succeeds.
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={() => setConfirming(false)} disabled={restoring} className="px-4 py-2 rounded-lg border border-border hover:bg-secondary text-xs font-medium">Cancel</button>
+                                <button onClick={restoreSelected} disabled={restoring} className="px-4 py-2 rounded-lg bg-rose-600 hover:bg-rose-700 text-white text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+                                    {restoring ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />} Restore
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <span className="text-xs text-muted-foreground truncate">
+                                {selected.length > 0 ? selected.join(', ') : 'Tick files or folders to restore only those.'}
+                            </span>
+                            <button
+                                onClick={() => setConfirming(true)}
+                                disabled={selected.length === 0}
+                                className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground text-xs font-bold flex items-center gap-2 disabled:opacity-50 shrink-0"
+                            >
+                                <RotateCcw size={14} /> Restore Selected ({selected.length})
+                            </button>
+                        </>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default BackupBrowser;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Backup } from '@shared/types';
+import { ArrowLeftRight, X } from 'lucide-react';
+import BackupDiffView from './BackupDiffView';
+
+interface BackupCompareDialogProps {
+    serverId: string;
+    backup: Backup;
+    backups: Backup[];
+    onClose: () => void;
+}
+
+const LIVE = 'live';
+
+/**
+ * Compares one backup with the live server files or another backup.
+ * Defaults to "what changed since this backup".
+ */
+const BackupCompareDialog: React.FC<BackupCompareDialogProps> = ({ serverId, backup, backups, onClose }) => {
+    const [other, setOther] = useState(LIVE);
+    const [reversed, setReversed] = useState(false);
+
+    const label = (id: string) => id === LIVE
+        ? 'Current server files'
+        : (() => {
+            const b = backups.find(x => x.id === id);
+            return b ? `${b.description || b.id} (${new Date(b.createdAt).toLocaleString()})` : id;
+        })();
+
+    const from = reversed ? other : backup.id;
+    const to = reversed ? backup.id : other;
+    const candidates = backups.filter(b => b.id !== backup.id && b.localAvailable !== false);
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-xl p-4">
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                className="bg-card border border-border rounded-xl shadow-2xl w-full max-w-3xl flex flex-col overflow-hidden"
+            >
+                <div className="flex items-center justify-between p-4 border-b border-border">
+                    <h2 className="text-lg font-bold">Compare Backup</h2>
+                    <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary text-muted-foreground"><X size={18} /></button>
+                </div>
+
+                <div className="p-4 space-y-4">
+                    <div className="flex items-center gap-2 text-xs">
+                        <div className="flex-1 min-w-0">
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground mb-1">From</div>
+                            {reversed ? (
+                                <select value={other} onChange={e => setOther(e.target.value)} className="w-full bg-secondary border border-border rounded px-2 py-1.5">
+                                    <option value={LIVE}>{label(LIVE)}</option>
+                                    {candidates.map(b => <option key={b.id} value={b.id}>{label(b.id)}</option>)}
+                                </select>
+                            ) : (
+                                <div className="px-2 py-1.5 truncate font-mono">{label(backup.id)}</div>
+                            )}
+                        </div>
+                        <button onClick={() => setReversed(!reversed)} className="mt-4 p-2 rounded-lg hover:bg-secondary text-muted-foreground" title="Swap Direction">
+                            <ArrowLeftRight size={14} />
+                        </button>
+                        <div className="flex-1 min-w-0">
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground mb-1">To</div>
+                            {reversed ? (
+                                <div className="px-2 py-1.5 truncate font-mono">{label(backup.id)}</div>
+                            ) : (
+                                <select value={other} onChange={e => setOther(e.target.value)} className="w-full bg-secondary border border-border rounded px-2 py-1.5">
+                                    <option value={LIVE}>{label(LIVE)}</option>
+                                    {candidates.map(b => <option key={b.id} value={b.id}>{label(b.id)}</option>)}
+                                </select>
+                            )}
+                        </div>
+                    </div>
+
+                    <BackupDiffView serverId={serverId} from={from} to={to} />
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default BackupCompareDialog;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { BackupComparison, BackupDiffEntry, BackupFileDiff } from '@shared/types';
+import { FilePlus, FileMinus, FileDiff, ChevronRight, ChevronDown, Loader2 } from 'lucide-react';
+import { API } from '@core/services/api';
+
+interface BackupDiffViewProps {
+    serverId: string;
+    from: string;   // Backup id or 'live'
+    to: string;     // Backup id or 'live'
+}
+
+const formatDelta = (bytes: number) => {
+    const sign = bytes > 0 ? '+' : bytes < 0 ? '-' : '±';
+    const abs = Math.abs(bytes);
+    return abs >= 1024 * 1024 ? `${sign}${(abs / 1024 / 1024).toFixed(1)} MB` : `${sign}${(abs / 1024).toFixed(1)} KB`;
+};
+
+const CHANGE_STYLES: Record<BackupDiffEntry['change'], { icon: React.ReactNode, className: string }> = {
+    added: { icon: <FilePlus size={12} />, className: 'text-emerald-500' },
+    removed: { icon: <FileMinus size={12} />, className: 'text-rose-500' },
+    modified: { icon: <FileDiff size={12} />, className: 'text-amber-500' }
+};
+
+/**
+ * Added / removed / modified files between two states of a server, with line
+ * diffs of config files loaded on demand.
+ */
+const BackupDiffView: React.FC<BackupDiffViewProps> = ({ serverId, from, to }) => {
+    const [comparison, setComparison] = useState<BackupComparison | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [filter, setFilter] = useState<'all' | BackupDiffEntry['change']>('all');
+    const [openPath, setOpenPath] = useState<string | null>(null);
+    const [fileDiff, setFileDiff] = useState<BackupFileDiff | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        setError(null);
+        setComparison(null);
+        setOpenPath(null);
+        API.compareBackups(serverId, from, to)
+            .then(setComparison)
+            .catch((e: any) => setError(e.message))
+            .finally(() => setLoading(false));
+    }, [serverId, from, to]);
+
+    const toggleFile = async (entry: BackupDiffEntry) => {
+        if (openPath === entry.path) {
+            setOpenPath(null);
+            return;
+        }
+        setOpenPath(entry.path);
+        setFileDiff(null);
+        setFileError(null);
+        try {
+            setFileDiff(await API.diffBackupFile(serverId, from, to, entry.path));
+        } catch (e: any) {
+            setFileError(e.message);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center gap-2 py-8 text-xs text-muted-foreground">
+                <Loader2 size={16} className="animate-spin" /> Comparing files...
+            </div>
+        );
+    }
+    if (error || !comparison) {
+        return <p className="text-xs text-muted-foreground py-4">Comparison unavailable: {error}</p>;
+    }
+
+    const total = comparison.added + comparison.removed + comparison.modified;
+    const visible = comparison.entries.filter(e => filter === 'all' || e.change === filter);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-1 text-[10px] font-bold uppercase">
+                {([
+                    ['all', `All ${total}`, 'text-foreground'],
+                    ['added', `+${comparison.added} added`, 'text-emerald-500'],
+                    ['removed', `-${comparison.removed} removed`, 'text-rose-500'],
+                    ['modified', `~${comparison.modified} modified`, 'text-amber-500']
+                ] as const).map(([key, label, color]) => (
+                    <button
+                        key={key}
+                        onClick={() => setFilter(key)}
+                        className={`px-2 py-1 rounded ${color} ${filter === key ? 'bg-secondary' : 'hover:bg-secondary/50'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+                <span className="ml-auto text-muted-foreground font-mono normal-case">
+                    {comparison.unchanged} unchanged · {formatDelta(comparison.sizeDelta)}
+                </span>
+            </div>
+
+            {total === 0 ? (
+                <p className="text-xs text-muted-foreground py-4 text-center">No differences.</p>
+            ) : (
+                <div className="max-h-64 overflow-y-auto border border-border rounded-lg divide-y divide-border/50">
+                    {visible.map(entry => (
+                        <div key={entry.path}>
+                            <button
+                                onClick={() => entry.textDiff && toggleFile(entry)}
+                                className={`w-full flex items-center gap-2 px-2 py-1 text-xs text-left ${entry.textDiff ? 'hover:bg-secondary/50' : 'cursor-default'}`}
+                            >
+                                {entry.textDiff
+                                    ? (openPath === entry.path ? <ChevronDown size={12} /> : <ChevronRight size={12} />)
+                                    : <span className="w-3" />}
+                                <span className={CHANGE_STYLES[entry.change].className}>{CHANGE_STYLES[entry.change].icon}</span>
+                                <span className="flex-1 truncate font-mono">{entry.path}</span>
+                                <span className="text-[10px] text-muted-foreground font-mono shrink-0">{formatDelta(entry.sizeDelta)}</span>
+                            </button>
+                            {openPath === entry.path && (
+                                <div className="bg-secondary/20 px-2 py-1 overflow-x-auto">
+                                    {fileError ? (
+                                        <p className="text-[11px] text-rose-500">{fileError}</p>
+                                    ) : !fileDiff ? (
+                                        <Loader2 size={12} className="animate-spin text-muted-foreground" />
+                                    ) : fileDiff.binary || fileDiff.tooLarge ? (
+                                        <p className="text-[11px] text-muted-foreground">{fileDiff.binary ? 'Binary file.' : 'Too large or too different to show a line diff.'}</p>
+                                    ) : fileDiff.hunks.map(hunk => (
+                                        <pre key={hunk.header} className="text-[11px] font-mono leading-snug">
+                                            <div className="text-sky-500">{hunk.header}</div>
+                                            {hunk.lines.map((line, i) => (
+                                                <div key={i} className={line.type === 'added' ? 'text-emerald-500 bg-emerald-500/5' : line.type === 'removed' ? 'text-rose-500 bg-rose-500/5' : 'text-muted-foreground'}>
+                                                    {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}{line.text}
+                                                </div>
+                                            ))}
+                                        </pre>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    {comparison.truncated && (
+                        <p className="px-2 py-1 text-[10px] text-muted-foreground">Only the first {comparison.entries.length} changes are listed.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BackupDiffView;
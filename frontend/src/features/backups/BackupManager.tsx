@@ -4,13 +4,20 @@ import { Backup } from '@shared/types';
 import { 
     ArchiveRestore, Plus, Clock, HardDrive, Lock, Unlock, 
     Trash2, RotateCcw, Download, ShieldCheck, Loader2, 
-    Cloud, FileBox, AlertTriangle, Check, X, Filter, Save 
+    Cloud, FileBox, AlertTriangle, Check, X, Filter, Save, CloudUpload, FolderSearch, KeyRound, ShieldAlert, GitCompare 
 } from 'lucide-react';
 import { useToast } from '../ui/Toast';
 import { API } from '@core/services/api';
 import { socketService } from '@core/services/socket';
 import { useServers } from '@features/servers/context/ServerContext';
 import { motion, AnimatePresence } from 'framer-motion';
+import RetentionPolicyCard from './RetentionPolicyCard';
+import OffsiteTargetsCard from './OffsiteTargetsCard';
+import BackupProtectionCard from './BackupProtectionCard';
+import SafetySnapshotsCard from './SafetySnapshotsCard';
+import BackupBrowser from './BackupBrowser';
+import BackupDiffView from './BackupDiffView';
+import BackupCompareDialog from './BackupCompareDialog';
 
 interface BackupManagerProps {
     serverId: string;
@@ -24,10 +31,15 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
     const [creationState, setCreationState] = useState<'IDLE' | 'CONFIG' | 'CREATING'>('IDLE');
     const [newBackupName, setNewBackupName] = useState('');
     const [progress, setProgress] = useState(0);
+    const [statusMessage, setStatusMessage] = useState('');
+    const [restoring, setRestoring] = useState(false);
     const [restoreId, setRestoreId] = useState<string | null>(null);
+    const [browseId, setBrowseId] = useState<string | null>(null);
+    const [compareId, setCompareId] = useState<string | null>(null);
     const [isAutoBackupEnabled, setIsAutoBackupEnabled] = useState(false);
     const [worldOnlyBackup, setWorldOnlyBackup] = useState(false); // NEW: world-only toggle state
     const [autoBackupWorldOnly, setAutoBackupWorldOnly] = useState(false); // NEW: automated backup mode preference
+    const [incrementalMode, setIncrementalMode] = useState(false);
 
     const { backups: globalBackups, refreshServerData, loading, servers } = useServers();
     const backups = globalBackups[serverId] || [];
@@ -49,6 +61,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
         if (currentServer?.backupConfig?.worldOnly !== undefined) {
             setAutoBackupWorldOnly(currentServer.backupConfig.worldOnly);
         }
+        setIncrementalMode(currentServer?.backupConfig?.mode === 'incremental');
 
         // Listen for backup progress
         const unsubscribe = socketService.onBackupProgress((data: any) => {
@@ -57,8 +70,8 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
             }
         });
 
-        const unsubscribeStatus = socketService.onBackupStatus((data: any) => {
-            // Could show detailed status if needed
+        const unsubscribeStatus = socketService.onBackupStatus((data) => {
+            setStatusMessage(data.message);
         });
 
         return () => {
@@ -73,7 +86,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
 
     // Computed Stats
     const totalUsage = useMemo(() => {
-        const totalBytes = backups.reduce((sum, b) => sum + (b.size || 0), 0);
+        const totalBytes = backups.reduce((sum, b) => sum + (b.physicalSize ?? b.size ?? 0), 0);
         return (totalBytes / (1024 * 1024 * 1024)).toFixed(2); // Convert to GB
     }, [backups]);
 
@@ -98,9 +111,10 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
     const confirmCreation = async () => {
         setCreationState('CREATING');
         setProgress(0);
+        setStatusMessage('');
         
         try {
-            // The backend now waits 2s for save-all, so we show it in UI
+            // Online servers pause saving until their world files are flushed and captured
             addToast('info', 'Preparing Backup', 'Flushing server data to disk...');
             await API.createBackup(serverId, newBackupName, worldOnlyBackup);
             addToast('success', 'Snapshot Created', 'Backup created successfully');
@@ -123,6 +137,32 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
         }
     };
 
+    const uploadOffsite = async (id: string) => {
+        try {
+            addToast('info', 'Off-site Upload', 'Uploading backup to off-site targets...');
+            const res = await API.uploadBackupOffsite(serverId, id);
+            addToast('success', 'Off-site Upload', `Verified copies on ${res.copies.length} target(s).`);
+            await fetchBackups();
+        } catch (e: any) {
+            addToast('error', 'Off-site Upload Failed', e.message);
+        }
+    };
+
+    const verifyBackup = async (id: string) => {
+        try {
+            addToast('info', 'Verifying Backup', 'Re-reading archive and checking file checksums...');
+            const res = await API.verifyBackup(serverId, id);
+            if (res.status === 'ok') {
+                addToast('success', 'Backup Verified', `${res.filesChecked} file(s) match their recorded checksums.`);
+            } else {
+                addToast('error', 'Backup Corrupt', res.errors?.[0] || 'Integrity check failed.');
+            }
+            await fetchBackups();
+        } catch (e: any) {
+            addToast('error', 'Verification Failed', e.message);
+        }
+    };
+
     const deleteBackup = async (id: string, locked?: boolean) => {
         if (locked) {
             addToast('error', 'Backup Locked', 'Unlock this snapshot before deleting it.');
@@ -147,6 +187,9 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
     const confirmRestore = async () => {
         if (!restoreId) return;
         addToast('warning', 'Restoration Started', 'Server is stopping for file restoration...');
+        setProgress(0);
+        setStatusMessage('');
+        setRestoring(true);
         
         try {
             await API.restoreBackup(serverId, restoreId);
@@ -155,19 +198,41 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
         } catch (e) {
             addToast('error', 'Restore Failed', 'Failed to restore backup');
             setRestoreId(null);
+        } finally {
+            setRestoring(false);
         }
     };
 
     return (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 h-[calc(100vh-120px)] animate-fade-in relative">
             
+            {/* Backup Contents Browser */}
+            {browseId && backups.find(b => b.id === browseId) && (
+                <BackupBrowser
+                    serverId={serverId}
+                    backup={backups.find(b => b.id === browseId)!}
+                    onClose={() => setBrowseId(null)}
+                    onRestored={fetchBackups}
+                />
+            )}
+
+            {/* Backup Comparison */}
+            {compareId && backups.find(b => b.id === compareId) && (
+                <BackupCompareDialog
+                    serverId={serverId}
+                    backup={backups.find(b => b.id === compareId)!}
+                    backups={backups}
+                    onClose={() => setCompareId(null)}
+                />
+            )}
+
             {/* Restore Confirmation Modal */}
             {restoreId && (
                 <div className="absolute inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-xl">
                     <motion.div 
                         initial={{ scale: 0.9, opacity: 0 }}
                         animate={{ scale: 1, opacity: 1 }}
-                        className="bg-card border border-rose-500/30 p-6 rounded-xl shadow-2xl max-w-md w-full"
+                        className="bg-card border border-rose-500/30 p-6 rounded-xl shadow-2xl max-w-2xl w-full"
                     >
                         <div className="flex items-center gap-4 mb-4 text-rose-500">
                             <div className="p-3 bg-rose-500/10 rounded-full">
@@ -178,8 +243,29 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                         <p className="text-muted-foreground text-sm mb-6">
                             Are you sure you want to restore <span className="text-foreground font-mono font-bold">{backups.find(b => b.id === restoreId)?.description || backups.find(b => b.id === restoreId)?.filename || 'Unknown Backup'}</span>? 
                             <br /><br />
-                            <span className="text-rose-400">Current server files will be overwritten and lost. The server will restart automatically.</span>
+                            <span className="text-rose-400">
+                                {currentServer?.executionEngine === 'remote'
+                                    ? 'Current server files will be overwritten and lost. The server will restart automatically.'
+                                    : 'Current server files will be overwritten. They are kept as a safety snapshot for 24 hours, so the restore can be undone.'}
+                            </span>
                         </p>
+                        {/* Live files of node-hosted servers aren't on the panel to compare against */}
+                        {currentServer?.executionEngine !== 'remote' && (
+                            <div className="mb-6">
+                                <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-2">Changes this restore will make</h3>
+                                <BackupDiffView serverId={serverId} from="live" to={restoreId} />
+                            </div>
+                        )}
+                        {restoring ? (
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                    <Loader2 size={14} className="animate-spin" /> {statusMessage || 'Restoring files...'}
+                                </div>
+                                <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
+                                    <div className="h-full bg-rose-500 transition-all duration-300 ease-out" style={{ width: `${progress}%` }}></div>
+                                </div>
+                            </div>
+                        ) : (
                         <div className="flex gap-3">
                             <button 
                                 onClick={() => setRestoreId(null)}
@@ -194,6 +280,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                                 <RotateCcw size={16} /> Restore Files
                             </button>
                         </div>
+                        )}
                     </motion.div>
                 </div>
             )}
@@ -281,7 +368,9 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                                 <Loader2 size={32} className="animate-spin text-primary mx-auto" />
                                 <div>
                                     <h3 className="font-semibold text-sm">Compressing World...</h3>
-                                    <p className="text-xs text-muted-foreground">Please wait while we archive your files.</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {statusMessage || (currentServer?.executionEngine === 'remote' ? 'Copying files from the node...' : 'Please wait while we archive your files.')}
+                                    </p>
                                 </div>
                                 <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
                                     <div 
@@ -383,7 +472,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                                 try {
                                     const newValue = !autoBackupWorldOnly;
                                     await API.updateServer(serverId, {
-                                        backupConfig: { worldOnly: newValue }
+                                        backupConfig: { ...currentServer?.backupConfig, worldOnly: newValue }
                                     });
                                     setAutoBackupWorldOnly(newValue);
                                     await refreshServerData(serverId);
@@ -398,7 +487,54 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                              <div className={`h-4 w-4 transform rounded-full bg-white transition-transform ${autoBackupWorldOnly ? 'translate-x-6' : 'translate-x-1'}`} />
                         </button>
                     </div>
+
+                    {/* Storage Format Toggle */}
+                    <div className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg border border-border mt-3">
+                        <div>
+                            <h4 className="font-medium text-sm text-foreground">Incremental Storage</h4>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                                {incrementalMode
+                                    ? 'Unchanged files are stored once and shared between backups'
+                                    : 'Every backup is a self-contained ZIP archive'}
+                            </p>
+                        </div>
+                        <button
+                            onClick={async () => {
+                                try {
+                                    const newValue = !incrementalMode;
+                                    if (newValue && (await API.getBackupEncryption(serverId)).enabled) {
+                                        addToast('error', 'Incremental Storage', 'Incremental backups cannot be encrypted. Turn off backup encryption first.');
+                                        return;
+                                    }
+                                    await API.updateServer(serverId, {
+                                        backupConfig: { worldOnly: autoBackupWorldOnly, ...currentServer?.backupConfig, mode: newValue ? 'incremental' : 'archive' }
+                                    });
+                                    setIncrementalMode(newValue);
+                                    await refreshServerData(serverId);
+                                    addToast('success', 'Preference Saved', `New backups will be ${newValue ? 'incremental' : 'ZIP archives'}.`);
+                                } catch (e) {
+                                    addToast('error', 'Update Failed', 'Could not save backup preference.');
+                                }
+                            }}
+                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${incrementalMode ? 'bg-primary' : 'bg-secondary'}`}
+                        >
+                            <span className="sr-only">Toggle incremental storage</span>
+                             <div className={`h-4 w-4 transform rounded-full bg-white transition-transform ${incrementalMode ? 'translate-x-6' : 'translate-x-1'}`} />
+                        </button>
+                    </div>
                 </div>
+
+                {/* Retention Card */}
+                <RetentionPolicyCard serverId={serverId} onApplied={fetchBackups} />
+
+                {/* Off-site Card (hidden until the owner configures targets) */}
+                <OffsiteTargetsCard serverId={serverId} />
+
+                {/* Encryption & Verification Card */}
+                <BackupProtectionCard serverId={serverId} onVerified={fetchBackups} />
+
+                {/* Undo Card */}
+                <SafetySnapshotsCard serverId={serverId} refreshKey={restoreId} />
             </div>
 
             {/* Right Column: Backup List */}
@@ -456,7 +592,52 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                                         <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground mt-1 font-mono">
                                             <span className="flex items-center gap-1" title="Created At"><Clock size={10} /> {new Date(backup.createdAt).toLocaleString()}</span>
                                             <span className="w-1 h-1 bg-border rounded-full"></span>
-                                            <span title="Size">{(backup.size / 1024 / 1024).toFixed(2)} MB</span>
+                                            {backup.mode === 'incremental' ? (
+                                                <span title="Logical size (bytes added to the chunk store)">
+                                                    {((backup.logicalSize || 0) / 1024 / 1024).toFixed(2)} MB
+                                                    <span className="text-emerald-500"> (+{((backup.physicalSize ?? backup.size) / 1024 / 1024).toFixed(2)} MB stored)</span>
+                                                </span>
+                                            ) : (
+                                                <span title="Size">{(backup.size / 1024 / 1024).toFixed(2)} MB</span>
+                                            )}
+                                            {backup.mode === 'incremental' && (
+                                                <>
+                                                    <span className="w-1 h-1 bg-border rounded-full"></span>
+                                                    <span className="px-2 py-0.5 text-[10px] font-bold bg-emerald-500/10 text-emerald-500 rounded uppercase">
+                                                        Incremental
+                                                    </span>
+                                                </>
+                                            )}
+                                            {backup.remoteCopies && backup.remoteCopies.length > 0 && (
+                                                <>
+                                                    <span className="w-1 h-1 bg-border rounded-full"></span>
+                                                    <span className="px-2 py-0.5 text-[10px] font-bold bg-sky-500/10 text-sky-500 rounded uppercase" title={`Verified copies on ${backup.remoteCopies.length} off-site target(s)`}>
+                                                        {backup.localAvailable === false ? 'Remote Only' : 'Off-site'}
+                                                    </span>
+                                                </>
+                                            )}
+                                            {backup.encrypted && (
+                                                <>
+                                                    <span className="w-1 h-1 bg-border rounded-full"></span>
+                                                    <span className="px-2 py-0.5 text-[10px] font-bold bg-violet-500/10 text-violet-500 rounded uppercase flex items-center gap-1">
+                                                        <KeyRound size={10} /> Encrypted
+                                                    </span>
+                                                </>
+                                            )}
+                                            {backup.verification && (
+                                                <>
+                                                    <span className="w-1 h-1 bg-border rounded-full"></span>
+                                                    {backup.verification.status === 'ok' ? (
+                                                        <span className="px-2 py-0.5 text-[10px] font-bold bg-emerald-500/10 text-emerald-500 rounded uppercase" title={`${backup.verification.filesChecked} file(s) checked ${new Date(backup.verification.checkedAt).toLocaleString()}`}>
+                                                            Verified
+                                                        </span>
+                                                    ) : (
+                                                        <span className="px-2 py-0.5 text-[10px] font-bold bg-rose-500/10 text-rose-500 rounded uppercase flex items-center gap-1" title={(backup.verification.errors || []).join('\n')}>
+                                                            <ShieldAlert size={10} /> Corrupt
+                                                        </span>
+                                                    )}
+                                                </>
+                                            )}
                                             {backup.scope === 'world' && (
                                                 <>
                                                     <span className="w-1 h-1 bg-border rounded-full"></span>
@@ -478,6 +659,46 @@ const BackupManager: React.FC<BackupManagerProps> = ({ serverId }) => {
                                         <Download size={16} />
                                     </button>
 
+                                    {backup.localAvailable !== false && (
+                                        <button 
+                                            className="p-2 text-muted-foreground hover:text-foreground hover:bg-secondary rounded-lg transition-colors" 
+                                            title="Browse Contents"
+                                            onClick={() => setBrowseId(backup.id)}
+                                        >
+                                            <FolderSearch size={16} />
+                                        </button>
+                                    )}
+
+                                    {backup.localAvailable !== false && (
+                                        <button 
+                                            className="p-2 text-muted-foreground hover:text-foreground hover:bg-secondary rounded-lg transition-colors" 
+                                            title="Compare"
+                                            onClick={() => setCompareId(backup.id)}
+                                        >
+                                            <GitCompare size={16} />
+                                        </button>
+                                    )}
+
+                                    {backup.localAvailable !== false && (
+                                        <button 
+                                            className="p-2 text-muted-foreground hover:text-sky-500 hover:bg-sky-500/10 rounded-lg transition-colors" 
+                                            title="Upload to Off-site Targets"
+                                            onClick={() => uploadOffsite(backup.id)}
+                                        >
+                                            <CloudUpload size={16} />
+                                        </button>
+                                    )}
+
+                                    {backup.localAvailable !== false && (
+                                        <button 
+                                            className="p-2 text-muted-foreground hover:text-emerald-500 hover:bg-emerald-500/10 rounded-lg transition-colors" 
+                                            title="Verify Integrity"
+                                            onClick={() => verifyBackup(backup.id)}
+                                        >
+                                            <ShieldCheck size={16} />
+                                        </button>
+                                    )}
+
                                     <button 
                                         onClick={() => toggleLock(backup.id)}
                                         className={`p-2 rounded-lg transition-colors ${backup.locked ? 'text-amber-500 bg-amber-500/10 hover:bg-amber-500/20' : 'text-muted-foreground hover:text-foreground hover:bg-secondary'}`} 
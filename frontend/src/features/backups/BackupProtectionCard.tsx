@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { BackupEncryptionConfig } from '@shared/types';
+import { KeyRound, Save, Loader2, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface BackupProtectionCardProps {
+    serverId: string;
+    onVerified: () => void;
+}
+
+const inputClass = 'w-full bg-secondary border border-border rounded px-2 py-1.5 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary';
+
+/**
+ * Per-server backup encryption (passphrase or keyfile) and on-demand
+ * verification of every local backup.
+ */
+const BackupProtectionCard: React.FC<BackupProtectionCardProps> = ({ serverId, onVerified }) => {
+    const { addToast } = useToast();
+    const [enabled, setEnabled] = useState(false);
+    const [method, setMethod] = useState<BackupEncryptionConfig['method']>('passphrase');
+    const [keyFile, setKeyFile] = useState('');
+    const [passphrase, setPassphrase] = useState('');
+    const [hasPassphrase, setHasPassphrase] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [verifying, setVerifying] = useState(false);
+
+    useEffect(() => {
+        API.getBackupEncryption(serverId).then(config => {
+            setEnabled(config.enabled);
+            setMethod(config.method);
+            setKeyFile(config.keyFile || '');
+            setHasPassphrase(config.hasPassphrase);
+        }).catch(() => {});
+    }, [serverId]);
+
+    const handleSave = async () => {
+        setBusy(true);
+        try {
+            await API.saveBackupEncryption(serverId, {
+                enabled,
+                method,
+                passphrase: method === 'passphrase' && passphrase ? passphrase : undefined,
+                keyFile: method === 'keyfile' ? keyFile : undefined
+            });
+            if (passphrase) setHasPassphrase(true);
+            setPassphrase('');
+            addToast('success', 'Backup Encryption', enabled ? 'New backups will be encrypted.' : 'Encryption disabled for new backups.');
+        } catch (e: any) {
+            addToast('error', 'Save Failed', e.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleVerifyAll = async () => {
+        setVerifying(true);
+        try {
+            const res = await API.verifyAllBackups(serverId);
+            if (res.corrupt > 0) {
+                addToast('error', 'Verification Finished', `${res.corrupt} of ${res.checked} backup(s) are corrupt.`);
+            } else {
+                addToast('success', 'Verification Finished', `All ${res.checked} local backup(s) passed.`);
+            }
+            onVerified();
+        } catch (e: any) {
+            addToast('error', 'Verification Failed', e.message);
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-violet-500/10 text-violet-500 rounded-lg"><KeyRound size={20} /></div>
+                <div>
+                    <h2 className="text-lg font-bold">Protection</h2>
+                    <p className="text-xs text-muted-foreground">AES-256 encryption and integrity checks.</p>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} />
+                    <span>Encrypt new backups</span>
+                </label>
+
+                <div className="flex bg-secondary/50 p-1 rounded-lg">
+                    {(['passphrase', 'keyfile'] as const).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMethod(m)}
+                            className={`flex-1 px-3 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${method === m ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+                        >
+                            {m === 'passphrase' ? 'Passphrase' : 'Keyfile'}
+                        </button>
+                    ))}
+                </div>
+
+                {method === 'passphrase' ? (
+                    <input
+                        type="password"
+                        className={inputClass}
+                        value={passphrase}
+                        placeholder={hasPassphrase ? 'Passphrase set (enter to replace)' : 'At least 8 characters'}
+                        onChange={e => setPassphrase(e.target.value)}
+                    />
+                ) : (
+                    <input
+                        className={inputClass}
+                        value={keyFile}
+                        placeholder="/etc/craftcommand/backup.key"
+                        onChange={e => setKeyFile(e.target.value)}
+                    />
+                )}
+
+                <p className="text-[11px] text-muted-foreground flex gap-1">
+                    <AlertTriangle size={12} className="text-amber-500 shrink-0 mt-0.5" />
+                    Encrypted backups can't be restored without this secret, and replacing it makes older ones unreadable. Encryption needs ZIP archive backups: incremental storage can't be encrypted.
+                </p>
+            </div>
+
+            <div className="flex gap-2 mt-4">
+                <button onClick={handleVerifyAll} disabled={verifying} className="flex-1 bg-secondary hover:bg-secondary/80 text-foreground py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50">
+                    {verifying ? <Loader2 size={14} className="animate-spin" /> : <ShieldCheck size={14} />} Verify All
+                </button>
+                <button onClick={handleSave} disabled={busy} className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50">
+                    {busy ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default BackupProtectionCard;
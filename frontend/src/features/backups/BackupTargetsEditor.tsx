@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { BackupOffsiteSettings, BackupTargetConfig, BackupTargetType } from '@shared/types';
+import { CloudUpload, Plus, Trash2, Plug, Loader2, Check } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface BackupTargetsEditorProps {
+    value?: BackupOffsiteSettings;
+    onChange: (value: BackupOffsiteSettings) => void;
+}
+
+const EMPTY: BackupOffsiteSettings = { targets: [], defaultTargetIds: [], keepLocal: true };
+
+const TYPE_LABELS: Record<BackupTargetType, string> = {
+    s3: 'S3 Compatible',
+    sftp: 'SFTP',
+    directory: 'Directory'
+};
+
+const inputClass = 'w-full bg-secondary border border-border rounded px-2 py-1.5 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary';
+
+const Field: React.FC<{ label: string, value?: string | number, type?: string, placeholder?: string, onChange: (v: string) => void }> = ({ label, value, type = 'text', placeholder, onChange }) => (
+    <label className="space-y-1">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">{label}</span>
+        <input type={type} className={inputClass} value={value ?? ''} placeholder={placeholder} onChange={e => onChange(e.target.value)} />
+    </label>
+);
+
+/**
+ * Off-site backup target list for global settings. Changes are saved with the
+ * rest of the settings page; "Test" checks the target as currently entered.
+ */
+const BackupTargetsEditor: React.FC<BackupTargetsEditorProps> = ({ value, onChange }) => {
+    const { addToast } = useToast();
+    const settings = { ...EMPTY, ...(value || {}) };
+    const [testing, setTesting] = useState<string | null>(null);
+
+    const updateTarget = (id: string, updates: Partial<BackupTargetConfig>) => {
+        onChange({ ...settings, targets: settings.targets.map(t => t.id === id ? { ...t, ...updates } : t) });
+    };
+
+    const addTarget = (type: BackupTargetType) => {
+        const target: BackupTargetConfig = {
+            id: `target-${Date.now().toString(36)}`,
+            name: `${TYPE_LABELS[type]} ${settings.targets.length + 1}`,
+            type,
+            enabled: true,
+            s3: type === 's3' ? { endpoint: '', bucket: '', accessKeyId: '', secretAccessKey: '', forcePathStyle: true } : undefined,
+            sftp: type === 'sftp' ? { host: '', port: 22, username: '', privateKeyPath: '', remoteDir: '' } : undefined,
+            directory: type === 'directory' ? { path: '' } : undefined
+        };
+        onChange({ ...settings, targets: [...settings.targets, target] });
+    };
+
+    const removeTarget = (id: string) => {
+        onChange({
+            ...settings,
+            targets: settings.targets.filter(t => t.id !== id),
+            defaultTargetIds: settings.defaultTargetIds.filter(d => d !== id)
+        });
+    };
+
+    const toggleDefault = (id: string) => {
+        const defaults = settings.defaultTargetIds.includes(id)
+            ? settings.defaultTargetIds.filter(d => d !== id)
+            : [...settings.defaultTargetIds, id];
+        onChange({ ...settings, defaultTargetIds: defaults });
+    };
+
+    const handleTest = async (target: BackupTargetConfig) => {
+        setTesting(target.id);
+        try {
+            await API.testBackupTarget(target);
+            addToast('success', 'Backup Target', `${target.name} is reachable and writable.`);
+        } catch (e: any) {
+            addToast('error', 'Backup Target', e.message);
+        } finally {
+            setTesting(null);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between p-3 bg-secondary/30 rounded border border-border/50">
+                <div>
+                    <div className="font-medium text-sm">Keep Local Copies</div>
+                    <p className="text-xs text-muted-foreground mt-0.5">When disabled, local backups are removed once every target holds a verified copy.</p>
+                </div>
+                <button
+                    onClick={() => onChange({ ...settings, keepLocal: !settings.keepLocal })}
+                    className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${settings.keepLocal ? 'bg-primary' : 'bg-input'}`}
+                >
+                    <span className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-background shadow ring-0 transition duration-200 ease-in-out ${settings.keepLocal ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            {settings.targets.map(target => (
+                <div key={target.id} className="p-3 bg-secondary/30 rounded border border-border/50 space-y-3">
+                    <div className="flex items-center gap-2">
+                        <CloudUpload size={14} className="text-muted-foreground shrink-0" />
+                        <input className={`${inputClass} flex-1 font-sans`} value={target.name} onChange={e => updateTarget(target.id, { name: e.target.value })} />
+                        <span className="text-[10px] font-bold uppercase text-muted-foreground shrink-0">{TYPE_LABELS[target.type]}</span>
+                        <label className="flex items-center gap-1 text-[11px] text-muted-foreground shrink-0">
+                            <input type="checkbox" checked={target.enabled} onChange={e => updateTarget(target.id, { enabled: e.target.checked })} /> Enabled
+                        </label>
+                        <label className="flex items-center gap-1 text-[11px] text-muted-foreground shrink-0" title="Used by servers without their own target selection">
+                            <input type="checkbox" checked={settings.defaultTargetIds.includes(target.id)} onChange={() => toggleDefault(target.id)} /> Default
+                        </label>
+                    </div>
+
+                    {target.type === 's3' && target.s3 && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <Field label="Endpoint" value={target.s3.endpoint} placeholder="https://s3.amazonaws.com" onChange={v => updateTarget(target.id, { s3: { ...target.s3!, endpoint: v } })} />
+                            <Field label="Region" value={target.s3.region} placeholder="us-east-1" onChange={v => updateTarget(target.id, { s3: { ...target.s3!, region: v || undefined } })} />
+                            <Field label="Bucket" value={target.s3.bucket} onChange={v => updateTarget(target.id, { s3: { ...target.s3!, bucket: v } })} />
+                            <Field label="Prefix" value={target.s3.prefix} placeholder="craftcommand" onChange={v => updateTarget(target.id, { s3: { ...target.s3!, prefix: v || undefined } })} />
+                            <Field label="Access Key" value={target.s3.accessKeyId} onChange={v => updateTarget(target.id, { s3: { ...target.s3!, accessKeyId: v } })} />
+                            <Field label="Secret Key" type="password" value={target.s3.secretAccessKey} onChange={v => updateTarget(target.id, { s3: { ...target.s3!, secretAccessKey: v } })} />
+                            <label className="col-span-2 flex items-center gap-2 text-[11px] text-muted-foreground">
+                                <input type="checkbox" checked={target.s3.forcePathStyle !== false} onChange={e => updateTarget(target.id, { s3: { ...target.s3!, forcePathStyle: e.target.checked } })} />
+                                Path-style URLs (MinIO and most self-hosted stores)
+                            </label>
+                        </div>
+                    )}
+
+                    {target.type === 'sftp' && target.sftp && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <Field label="Host" value={target.sftp.host} onChange={v => updateTarget(target.id, { sftp: { ...target.sftp!, host: v } })} />
+                            <Field label="Port" type="number" value={target.sftp.port} onChange={v => updateTarget(target.id, { sftp: { ...target.sftp!, port: parseInt(v) || undefined } })} />
+                            <Field label="Username" value={target.sftp.username} onChange={v => updateTarget(target.id, { sftp: { ...target.sftp!, username: v } })} />
+                            <Field label="Private Key Path" value={target.sftp.privateKeyPath} placeholder="/home/craft/.ssh/id_ed25519" onChange={v => updateTarget(target.id, { sftp: { ...target.sftp!, privateKeyPath: v } })} />
+                            <div className="col-span-2">
+                                <Field label="Remote Directory" value={target.sftp.remoteDir} placeholder="/srv/backups" onChange={v => updateTarget(target.id, { sftp: { ...target.sftp!, remoteDir: v } })} />
+                            </div>
+                        </div>
+                    )}
+
+                    {target.type === 'directory' && target.directory && (
+                        <Field label="Path" value={target.directory.path} placeholder="/mnt/backup-disk/craftcommand" onChange={v => updateTarget(target.id, { directory: { path: v } })} />
+                    )}
+
+                    <div className="flex gap-2">
+                        <button onClick={() => handleTest(target)} disabled={testing === target.id} className="flex-1 bg-secondary hover:bg-secondary/80 text-foreground py-1.5 rounded text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50">
+                            {testing === target.id ? <Loader2 size={12} className="animate-spin" /> : <Plug size={12} />} Test
+                        </button>
+                        <button onClick={() => removeTarget(target.id)} className="px-3 bg-rose-500/10 hover:bg-rose-500/20 text-rose-500 py-1.5 rounded text-xs font-medium flex items-center gap-1">
+                            <Trash2 size={12} /> Remove
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                {(Object.keys(TYPE_LABELS) as BackupTargetType[]).map(type => (
+                    <button key={type} onClick={() => addTarget(type)} className="flex-1 flex items-center justify-center gap-1 p-2 bg-secondary/50 hover:bg-secondary rounded text-xs font-medium border border-border/50">
+                        <Plus size={12} /> {TYPE_LABELS[type]}
+                    </button>
+                ))}
+            </div>
+
+            {settings.defaultTargetIds.length > 0 && (
+                <p className="text-[11px] text-muted-foreground flex items-center gap-1">
+                    <Check size={11} className="text-emerald-500" /> New backups replicate to {settings.defaultTargetIds.length} default target(s) unless a server overrides it.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default BackupTargetsEditor;
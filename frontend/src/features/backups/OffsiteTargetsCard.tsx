@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { BackupTargetType } from '@shared/types';
+import { Cloud, Save, Loader2 } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface OffsiteTargetsCardProps {
+    serverId: string;
+}
+
+interface TargetOption {
+    id: string;
+    name: string;
+    type: BackupTargetType;
+    enabled: boolean;
+}
+
+/**
+ * Per-server choice of off-site targets. Targets themselves (and their
+ * credentials) are managed by the owner in global settings.
+ */
+const OffsiteTargetsCard: React.FC<OffsiteTargetsCardProps> = ({ serverId }) => {
+    const { addToast } = useToast();
+    const [available, setAvailable] = useState<TargetOption[]>([]);
+    const [defaults, setDefaults] = useState<{ targetIds: string[], keepLocal: boolean }>({ targetIds: [], keepLocal: true });
+    const [targetIds, setTargetIds] = useState<string[] | null>(null);
+    const [keepLocal, setKeepLocal] = useState<boolean | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        API.getBackupTargets(serverId).then(data => {
+            setAvailable(data.available);
+            setDefaults({ targetIds: data.defaultTargetIds, keepLocal: data.defaultKeepLocal });
+            setTargetIds(data.targetIds);
+            setKeepLocal(data.keepLocal);
+        }).catch(() => {});
+    }, [serverId]);
+
+    if (available.length === 0) return null;
+
+    const effectiveIds = targetIds ?? defaults.targetIds;
+    const effectiveKeepLocal = keepLocal ?? defaults.keepLocal;
+
+    const toggleTarget = (id: string) => {
+        setTargetIds(effectiveIds.includes(id) ? effectiveIds.filter(t => t !== id) : [...effectiveIds, id]);
+    };
+
+    const handleSave = async () => {
+        setBusy(true);
+        try {
+            await API.saveBackupTargets(serverId, { targetIds, keepLocal });
+            addToast('success', 'Off-site Backups', 'Target selection saved.');
+        } catch (e: any) {
+            addToast('error', 'Save Failed', e.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-sky-500/10 text-sky-500 rounded-lg"><Cloud size={20} /></div>
+                <div>
+                    <h2 className="text-lg font-bold">Off-site Copies</h2>
+                    <p className="text-xs text-muted-foreground">
+                        {targetIds === null ? 'Using the global default targets.' : 'Custom selection for this server.'}
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                {available.map(target => (
+                    <label key={target.id} className={`flex items-center gap-2 text-sm ${target.enabled ? '' : 'opacity-50'}`}>
+                        <input type="checkbox" checked={effectiveIds.includes(target.id)} disabled={!target.enabled} onChange={() => toggleTarget(target.id)} />
+                        <span className="flex-1 truncate">{target.name}</span>
+                        <span className="text-[10px] font-bold uppercase text-muted-foreground">{target.type}</span>
+                    </label>
+                ))}
+                <label className="flex items-center gap-2 text-sm pt-2 border-t border-border">
+                    <input type="checkbox" checked={effectiveKeepLocal} onChange={e => setKeepLocal(e.target.checked)} />
+                    <span>Keep local copy after upload</span>
+                </label>
+            </div>
+
+            <div className="flex gap-2 mt-4">
+                {(targetIds !== null || keepLocal !== null) && (
+                    <button onClick={() => { setTargetIds(null); setKeepLocal(null); }} disabled={busy} className="flex-1 bg-secondary hover:bg-secondary/80 text-foreground py-2 rounded-lg text-xs font-medium disabled:opacity-50">
+                        Use Defaults
+                    </button>
+                )}
+                <button onClick={handleSave} disabled={busy} className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50">
+                    {busy ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default OffsiteTargetsCard;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { BackupRetentionPolicy, BackupRetentionPreview } from '@shared/types';
+import { Layers, Eye, Save, Loader2, Trash2 } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface RetentionPolicyCardProps {
+    serverId: string;
+    onApplied: () => void;
+}
+
+const FIELDS: { key: keyof BackupRetentionPolicy, label: string, suffix?: string }[] = [
+    { key: 'keepLast', label: 'Latest' },
+    { key: 'hourly', label: 'Hourly' },
+    { key: 'daily', label: 'Daily' },
+    { key: 'weekly', label: 'Weekly' },
+    { key: 'monthly', label: 'Monthly' },
+    { key: 'minAgeHours', label: 'Min Age', suffix: 'h' },
+    { key: 'maxTotalSizeMB', label: 'Max Size', suffix: 'MB' }
+];
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Grandfather-father-son retention editor with a dry-run preview of what a
+ * policy change would delete. Locked backups are always kept by the backend.
+ */
+const RetentionPolicyCard: React.FC<RetentionPolicyCardProps> = ({ serverId, onApplied }) => {
+    const { addToast } = useToast();
+    const [policy, setPolicy] = useState<BackupRetentionPolicy>({});
+    const [preview, setPreview] = useState<BackupRetentionPreview | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        API.getBackupRetention(serverId).then(setPolicy).catch(() => {});
+        setPreview(null);
+    }, [serverId]);
+
+    const updateField = (key: keyof BackupRetentionPolicy, value: string) => {
+        const parsed = parseInt(value);
+        setPolicy({ ...policy, [key]: isNaN(parsed) ? undefined : parsed });
+        setPreview(null);
+    };
+
+    const handlePreview = async () => {
+        setBusy(true);
+        try {
+            setPreview(await API.previewBackupRetention(serverId, policy));
+        } catch (e: any) {
+            addToast('error', 'Invalid Policy', e.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleApply = async () => {
+        const count = preview?.delete.length;
+        if (count && !confirm(`Save this policy and delete ${count} backup(s) now?`)) return;
+        setBusy(true);
+        try {
+            const res = await API.saveBackupRetention(serverId, policy);
+            addToast('success', 'Retention Policy Saved', res.deleted.length > 0 ? `${res.deleted.length} backup(s) removed.` : 'No backups needed to be removed.');
+            setPreview(null);
+            onApplied();
+        } catch (e: any) {
+            addToast('error', 'Save Failed', e.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-amber-500/10 text-amber-500 rounded-lg"><Layers size={20} /></div>
+                <div>
+                    <h2 className="text-lg font-bold">Retention</h2>
+                    <p className="text-xs text-muted-foreground">Newest backup per hour, day, week and month. Locked backups are never removed.</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+                {FIELDS.map(field => (
+                    <label key={field.key} className="space-y-1">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">{field.label}{field.suffix && ` (${field.suffix})`}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            className="w-full bg-secondary border border-border rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary"
+                            value={policy[field.key] ?? ''}
+                            placeholder="-"
+                            onChange={e => updateField(field.key, e.target.value)}
+                        />
+                    </label>
+                ))}
+            </div>
+
+            {preview && (
+                <div className="mt-4 p-3 bg-secondary/30 border border-border rounded-lg space-y-2">
+                    <div className="text-xs text-foreground">
+                        Keeps <span className="font-bold">{preview.keep.length}</span>, deletes <span className={`font-bold ${preview.delete.length > 0 ? 'text-rose-500' : ''}`}>{preview.delete.length}</span>
+                        <span className="text-muted-foreground"> · {formatSize(preview.totalSize)} → ~{formatSize(preview.retainedSize)}</span>
+                    </div>
+                    {preview.delete.length > 0 && (
+                        <div className="max-h-32 overflow-y-auto space-y-1">
+                            {preview.delete.map(item => (
+                                <div key={item.id} className="flex items-center gap-2 text-[11px]">
+                                    <Trash2 size={10} className="text-rose-500 shrink-0" />
+                                    <span className="font-mono text-muted-foreground shrink-0">{new Date(item.createdAt).toLocaleString()}</span>
+                                    <span className="truncate flex-1">{item.description || item.id}</span>
+                                    <span className="text-muted-foreground text-[10px] shrink-0">{item.reason}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2 mt-4">
+                <button onClick={handlePreview} disabled={busy} className="flex-1 bg-secondary hover:bg-secondary/80 text-foreground py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50">
+                    {busy ? <Loader2 size={14} className="animate-spin" /> : <Eye size={14} />} Preview
+                </button>
+                <button onClick={handleApply} disabled={busy} className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50">
+                    <Save size={14} /> Save & Apply
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RetentionPolicyCard;
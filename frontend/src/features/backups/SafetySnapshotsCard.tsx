@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { SafetySnapshot, SafetySnapshotOperation } from '@shared/types';
+import { History, Undo2, Loader2 } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface SafetySnapshotsCardProps {
+    serverId: string;
+    refreshKey?: unknown; // Reload when this changes (e.g. after a restore)
+}
+
+const OPERATION_LABELS: Record<SafetySnapshotOperation, string> = {
+    PLUGIN_UPDATE: 'Plugin Update',
+    SOFTWARE_INSTALL: 'Reinstall',
+    BACKUP_RESTORE: 'Backup Restore',
+    FILE_EXTRACT: 'Extract',
+    DIAGNOSIS_FIX: 'Auto-Fix'
+};
+
+const formatAge = (iso: string) => {
+    const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    return `${Math.round(minutes / 60)}h ago`;
+};
+
+/**
+ * Snapshots taken automatically before destructive operations, with a one-click
+ * undo of the most recent one. They expire after a day.
+ */
+const SafetySnapshotsCard: React.FC<SafetySnapshotsCardProps> = ({ serverId, refreshKey }) => {
+    const { addToast } = useToast();
+    const [snapshots, setSnapshots] = useState<SafetySnapshot[]>([]);
+    const [undoing, setUndoing] = useState(false);
+
+    const load = () => {
+        API.getSafetySnapshots(serverId).then(setSnapshots).catch(() => setSnapshots([]));
+    };
+
+    useEffect(load, [serverId, refreshKey]);
+
+    const handleUndo = async () => {
+        const last = snapshots[0];
+        if (!last || !confirm(`Undo "${last.summary}" by ${last.actor}? Files it changed will be put back as they were.`)) return;
+
+        setUndoing(true);
+        try {
+            const undone = await API.undoLastOperation(serverId);
+            addToast('success', 'Operation Undone', `${undone.summary} was reverted.`);
+        } catch (e: any) {
+            addToast('error', 'Undo Failed', e.message);
+        } finally {
+            setUndoing(false);
+            load();
+        }
+    };
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-amber-500/10 text-amber-500 rounded-lg"><History size={20} /></div>
+                <div>
+                    <h2 className="text-lg font-bold">Safety Snapshots</h2>
+                    <p className="text-xs text-muted-foreground">Taken before risky changes, kept for 24 hours.</p>
+                </div>
+            </div>
+
+            {snapshots.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No recent operations to undo.</p>
+            ) : (
+                <div className="space-y-2">
+                    {snapshots.map((snapshot, i) => (
+                        <div key={snapshot.id} className={`flex items-center gap-2 text-xs ${i > 0 ? 'opacity-60' : ''}`}>
+                            <span className="px-1.5 py-0.5 rounded bg-secondary text-[10px] font-bold uppercase shrink-0">{OPERATION_LABELS[snapshot.operation]}</span>
+                            <span className="flex-1 truncate" title={snapshot.summary}>{snapshot.summary}</span>
+                            <span className="text-[10px] text-muted-foreground shrink-0">{snapshot.actor} · {formatAge(snapshot.createdAt)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <button
+                onClick={handleUndo}
+                disabled={undoing || snapshots.length === 0}
+                className="w-full mt-4 bg-secondary hover:bg-secondary/80 text-foreground py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+                {undoing ? <Loader2 size={14} className="animate-spin" /> : <Undo2 size={14} />} Undo Last Operation
+            </button>
+        </div>
+    );
+};
+
+export default SafetySnapshotsCard;
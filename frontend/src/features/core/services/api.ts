@@ -11,7 +11,37 @@ import {
     InstalledPlugin,
     PluginUpdateInfo,
     PluginSource,
-    NodeInfo
+    BackupRetentionPolicy,
+    BackupRetentionPreview,
+    BackupTargetConfig,
+    BackupTargetType,
+    BackupRemoteCopy,
+    BackupEntry,
+    BackupEntryPreview,
+    BackupEncryptionConfig,
+    BackupVerification,
+    BackupComparison,
+    BackupFileDiff,
+    SafetySnapshot,
+    ConsoleSession,
+    ConsoleLogLine,
+    ConsoleLogSearchQuery,
+    ConsoleLogSearchResult,
+    MetricSeries,
+    MetricAggregation,
+    TickMetrics,
+    SparkReport,
+    SparkReportKind,
+    RestartPolicy,
+    RestartPolicyState,
+    ServerGroup,
+    ServerGroupOperation,
+    ServerGroupOperationResult,
+    NodeInfo,
+    ScheduleTask,
+    ScheduleHistoryEntry,
+    ScheduleHistoryQuery,
+    ScheduleFleetTarget
 } from '@shared/types';
 
 const API_URL = '/api';
@@ -437,6 +467,44 @@ class ApiService {
         window.open(`${API_URL}/servers/${id}/backups/${backupId}/download`, '_blank');
     }
 
+    async getBackupEntries(id: string, backupId: string): Promise<BackupEntry[]> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/${backupId}/entries`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to list backup contents');
+        return data;
+    }
+
+    async previewBackupEntry(id: string, backupId: string, entryPath: string): Promise<BackupEntryPreview> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/${backupId}/entries/preview?path=${encodeURIComponent(entryPath)}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to preview file');
+        return data;
+    }
+
+    // from/to are backup ids or 'live' for the current server files
+    async compareBackups(id: string, from: string, to: string): Promise<BackupComparison> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to compare backups');
+        return data;
+    }
+
+    async diffBackupFile(id: string, from: string, to: string, entryPath: string): Promise<BackupFileDiff> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/compare/file?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&path=${encodeURIComponent(entryPath)}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load file diff');
+        return data;
+    }
+
+    async downloadBackupEntry(id: string, backupId: string, entryPath: string): Promise<void> {
+        const fallbackName = entryPath.split('/').pop() || 'file';
+        await this.downloadAttachment(`${API_URL}/servers/${id}/backups/${backupId}/entries/download?path=${encodeURIComponent(entryPath)}`, fallbackName);
+    }
+
+    async restoreBackupPaths(id: string, backupId: string, paths: string[]): Promise<{ success: boolean, restored: number }> {
+        return this.post(`/servers/${id}/backups/${backupId}/restore-paths`, { paths });
+    }
+
     async toggleBackupLock(id: string, backupId: string): Promise<{ success: boolean, locked: boolean }> {
         const res = await fetch(`${API_URL}/servers/${id}/backups/${backupId}/lock`, {
             method: 'POST',
@@ -445,6 +513,110 @@ class ApiService {
         return res.json();
     }
 
+    async getBackupRetention(id: string): Promise<BackupRetentionPolicy> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/retention`, {
+            headers: this.getAuthHeader()
+        });
+        return res.json();
+    }
+
+    async previewBackupRetention(id: string, policy: BackupRetentionPolicy): Promise<BackupRetentionPreview> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/retention/preview`, {
+            method: 'POST',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(policy)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to preview retention policy');
+        return data;
+    }
+
+    async saveBackupRetention(id: string, policy: BackupRetentionPolicy): Promise<{ success: boolean, deleted: string[] }> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/retention`, {
+            method: 'PUT',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(policy)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to save retention policy');
+        return data;
+    }
+
+    async getBackupTargets(id: string): Promise<{
+        available: { id: string, name: string, type: BackupTargetType, enabled: boolean }[],
+        defaultTargetIds: string[],
+        defaultKeepLocal: boolean,
+        targetIds: string[] | null,
+        keepLocal: boolean | null
+    }> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/targets`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load backup targets');
+        return data;
+    }
+
+    async saveBackupTargets(id: string, selection: { targetIds: string[] | null, keepLocal: boolean | null }): Promise<void> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/targets`, {
+            method: 'PUT',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(selection)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to save backup targets');
+    }
+
+    async uploadBackupOffsite(id: string, backupId: string): Promise<{ success: boolean, copies: BackupRemoteCopy[] }> {
+        return this.post(`/servers/${id}/backups/${backupId}/offsite`, {});
+    }
+
+    async getBackupEncryption(id: string): Promise<BackupEncryptionConfig & { hasPassphrase: boolean }> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/encryption`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load encryption settings');
+        return data;
+    }
+
+    async saveBackupEncryption(id: string, settings: { enabled: boolean, method: BackupEncryptionConfig['method'], passphrase?: string, keyFile?: string }): Promise<void> {
+        const res = await fetch(`${API_URL}/servers/${id}/backups/encryption`, {
+            method: 'PUT',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(settings)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to save encryption settings');
+    }
+
+    async verifyBackup(id: string, backupId: string): Promise<BackupVerification> {
+        return this.post(`/servers/${id}/backups/${backupId}/verify`, {});
+    }
+
+    async verifyAllBackups(id: string): Promise<{ checked: number, corrupt: number }> {
+        return this.post(`/servers/${id}/backups/verify`, {});
+    }
+
+    async getSafetySnapshots(id: string): Promise<SafetySnapshot[]> {
+        const res = await fetch(`${API_URL}/servers/${id}/safety-snapshots`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load safety snapshots');
+        return data;
+    }
+
+    async undoLastOperation(id: string): Promise<SafetySnapshot> {
+        return this.post(`/servers/${id}/safety-snapshots/undo`, {});
+    }
+
     // --- Schedules ---
 
     async getSchedules(id: string): Promise<any[]> {
@@ -454,15 +626,27 @@ class ApiService {
         return res.json();
     }
 
-    async getScheduleHistory(id: string): Promise<any[]> {
-        const res = await fetch(`${API_URL}/servers/${id}/schedules/history`, {
+    async getScheduleHistory(id: string, query: ScheduleHistoryQuery = {}): Promise<{ entries: ScheduleHistoryEntry[], total: number }> {
+        const params = new URLSearchParams();
+        if (query.limit) params.append('limit', query.limit.toString());
+        if (query.offset) params.append('offset', query.offset.toString());
+        if (query.taskId) params.append('taskId', query.taskId);
+        if (query.success !== undefined) params.append('success', String(query.success));
+
+        const res = await fetch(`${API_URL}/servers/${id}/schedules/history?${params.toString()}`, {
             headers: this.getAuthHeader()
         });
         return res.json();
     }
 
+    async exportScheduleHistory(id: string, format: 'json' | 'csv', taskId?: string): Promise<void> {
+        const params = new URLSearchParams({ format });
+        if (taskId) params.append('taskId', taskId);
+        await this.downloadAttachment(`${API_URL}/servers/${id}/schedules/history/export?${params.toString()}`, `schedule-history-${id}.${format}`);
+    }
+
     async createSchedule(id: string, task: any): Promise<void> {
-        await fetch(`${API_URL}/servers/${id}/schedules`, {
+        const res = await fetch(`${API_URL}/servers/${id}/schedules`, {
             method: 'POST',
             headers: { 
                 'Content-Type': 'application/json',
@@ -470,10 +654,15 @@ class ApiService {
             },
             body: JSON.stringify(task)
         });
+
+        if (!res.ok) {
+            const data = await res.json();
+            throw new Error(data.error || 'Failed to create schedule');
+        }
     }
 
     async updateSchedule(id: string, task: any): Promise<void> {
-        await fetch(`${API_URL}/servers/${id}/schedules/${task.id}`, {
+        const res = await fetch(`${API_URL}/servers/${id}/schedules/${task.id}`, {
             method: 'PUT',
             headers: { 
                 'Content-Type': 'application/json',
@@ -481,6 +670,11 @@ class ApiService {
             },
             body: JSON.stringify(task)
         });
+
+        if (!res.ok) {
+            const data = await res.json();
+            throw new Error(data.error || 'Failed to update schedule');
+        }
     }
 
     async deleteSchedule(id: string, taskId: string): Promise<void> {
@@ -490,6 +684,77 @@ class ApiService {
         });
     }
 
+    // --- Fleet Schedules ---
+
+    async getGlobalSchedules(): Promise<ScheduleTask[]> {
+        const res = await fetch(`${API_URL}/schedules/global`, {
+            headers: this.getAuthHeader()
+        });
+        return res.json();
+    }
+
+    async getGlobalScheduleHistory(limit: number = 10): Promise<{ entries: ScheduleHistoryEntry[], total: number }> {
+        const res = await fetch(`${API_URL}/schedules/global/history?limit=${limit}`, {
+            headers: this.getAuthHeader()
+        });
+        return res.json();
+    }
+
+    async exportGlobalScheduleHistory(format: 'json' | 'csv'): Promise<void> {
+        await this.downloadAttachment(`${API_URL}/schedules/global/history/export?format=${format}`, `fleet-schedule-history.${format}`);
+    }
+
+    async previewScheduleTargets(target: ScheduleFleetTarget): Promise<{ id: string, name: string, software: string, nodeId?: string, status: string }[]> {
+        const res = await fetch(`${API_URL}/schedules/global/preview`, {
+            method: 'POST',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(target)
+        });
+        return res.json();
+    }
+
+    async createGlobalSchedule(task: Partial<ScheduleTask>): Promise<void> {
+        const res = await fetch(`${API_URL}/schedules/global`, {
+            method: 'POST',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(task)
+        });
+
+        if (!res.ok) {
+            const data = await res.json();
+            throw new Error(data.error || 'Failed to create fleet schedule');
+        }
+    }
+
+    async updateGlobalSchedule(task: ScheduleTask): Promise<void> {
+        const res = await fetch(`${API_URL}/schedules/global/${task.id}`, {
+            method: 'PUT',
+            headers: { 
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(task)
+        });
+
+        if (!res.ok) {
+            const data = await res.json();
+            throw new Error(data.error || 'Failed to update fleet schedule');
+        }
+    }
+
+    async deleteGlobalSchedule(taskId: string): Promise<void> {
+        await fetch(`${API_URL}/schedules/global/${taskId}`, {
+            method: 'DELETE',
+            headers: this.getAuthHeader()
+        });
+    }
+
     async getLogs(id: string): Promise<string[]> {
         const res = await fetch(`${API_URL}/servers/${id}/logs`, {
             headers: this.getAuthHeader()
@@ -497,6 +762,152 @@ class ApiService {
         return res.json();
     }
 
+    async getConsoleSessions(id: string): Promise<ConsoleSession[]> {
+        const res = await fetch(`${API_URL}/servers/${id}/console/sessions`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load console history');
+        return data;
+    }
+
+    async getConsoleSession(id: string, sessionId: string, tail?: number): Promise<{ session: ConsoleSession, lines: ConsoleLogLine[] }> {
+        const query = tail ? `?tail=${tail}` : '';
+        const res = await fetch(`${API_URL}/servers/${id}/console/sessions/${sessionId}${query}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load console session');
+        return data;
+    }
+
+    async searchConsoleLogs(id: string, query: ConsoleLogSearchQuery): Promise<ConsoleLogSearchResult> {
+        const params = new URLSearchParams();
+        if (query.text) params.set('q', query.text);
+        if (query.regex) params.set('regex', 'true');
+        if (query.caseSensitive) params.set('caseSensitive', 'true');
+        if (query.levels?.length) params.set('levels', query.levels.join(','));
+        if (query.from) params.set('from', String(query.from));
+        if (query.to) params.set('to', String(query.to));
+        if (query.sessionId) params.set('sessionId', query.sessionId);
+        if (query.limit) params.set('limit', String(query.limit));
+
+        const res = await fetch(`${API_URL}/servers/${id}/console/search?${params}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Console search failed');
+        return data;
+    }
+
+    async getServerMetrics(id: string, metric: string, options: { from?: number, to?: number, step?: number, agg?: MetricAggregation } = {}): Promise<MetricSeries> {
+        const params = new URLSearchParams();
+        Object.entries(options).forEach(([key, value]) => value !== undefined && params.set(key, String(value)));
+        const res = await fetch(`${API_URL}/servers/${id}/metrics/${metric}?${params}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load metrics');
+        return data;
+    }
+
+    async getTickMetrics(id: string): Promise<TickMetrics> {
+        const res = await fetch(`${API_URL}/servers/${id}/performance`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load tick metrics');
+        return data;
+    }
+
+    async getSparkReports(id: string): Promise<SparkReport[]> {
+        const res = await fetch(`${API_URL}/servers/${id}/spark/reports`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load spark reports');
+        return data;
+    }
+
+    async startSparkReport(id: string, kind: SparkReportKind, durationSeconds?: number): Promise<SparkReport> {
+        const res = await fetch(`${API_URL}/servers/${id}/spark/reports`, {
+            method: 'POST',
+            headers: { ...this.getAuthHeader(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ kind, durationSeconds })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to start spark report');
+        return data;
+    }
+
+    async getRestartPolicy(id: string): Promise<{ policy: Required<RestartPolicy>, state: RestartPolicyState }> {
+        const res = await fetch(`${API_URL}/servers/${id}/restart-policy`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load restart policy');
+        return data;
+    }
+
+    async resetCrashLoop(id: string): Promise<{ policy: Required<RestartPolicy>, state: RestartPolicyState }> {
+        const res = await fetch(`${API_URL}/servers/${id}/restart-policy/reset`, {
+            method: 'POST',
+            headers: this.getAuthHeader()
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to reset crash loop');
+        return data;
+    }
+
+    async getServerGroups(): Promise<(ServerGroup & { lastOperation?: ServerGroupOperationResult })[]> {
+        const res = await fetch(`${API_URL}/groups`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load server groups');
+        return data;
+    }
+
+    async getServerGroup(id: string): Promise<ServerGroup & { lastOperation?: ServerGroupOperationResult, plan: { start: string[][], stop: string[][] } }> {
+        const res = await fetch(`${API_URL}/groups/${id}`, { headers: this.getAuthHeader() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load server group');
+        return data;
+    }
+
+    async createServerGroup(group: Pick<ServerGroup, 'name' | 'description' | 'serverIds'>): Promise<ServerGroup> {
+        const res = await fetch(`${API_URL}/groups`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(group)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to create server group');
+        return data;
+    }
+
+    async updateServerGroup(id: string, group: Partial<Pick<ServerGroup, 'name' | 'description' | 'serverIds'>>): Promise<ServerGroup> {
+        const res = await fetch(`${API_URL}/groups/${id}`, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.getAuthHeader()
+            },
+            body: JSON.stringify(group)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to update server group');
+        return data;
+    }
+
+    async deleteServerGroup(id: string): Promise<void> {
+        const res = await fetch(`${API_URL}/groups/${id}`, {
+            method: 'DELETE',
+            headers: this.getAuthHeader()
+        });
+        if (!res.ok) {
+            const data = await res.json();
+            throw new Error(data.error || 'Failed to delete server group');
+        }
+    }
+
+    async runServerGroupOperation(id: string, operation: ServerGroupOperation): Promise<ServerGroupOperationResult> {
+        const res = await fetch(`${API_URL}/groups/${id}/${operation}`, {
+            method: 'POST',
+            headers: this.getAuthHeader()
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `Failed to ${operation} server group`);
+        return data;
+    }
+
     async getCrashReport(id: string): Promise<any> {
         const res = await fetch(`${API_URL}/servers/${id}/crash-report`, {
             headers: this.getAuthHeader()
@@ -783,6 +1194,30 @@ class ApiService {
         document.body.removeChild(a);
     }
 
+    /**
+     * Fetches an authenticated attachment and hands it to the browser as a download.
+     */
+    private async downloadAttachment(url: string, fallbackName: string): Promise<void> {
+        const res = await fetch(url, { headers: this.getAuthHeader() });
+        if (!res.ok) {
+            const data = await res.json().catch(() => ({}));
+            throw new Error(data.error || 'Download failed');
+        }
+
+        const blob = await res.blob();
+        const objectUrl = window.URL.createObjectURL(blob);
+        const disposition = res.headers.get('Content-Disposition');
+        const match = disposition ? /filename="?([^";]+)"?/.exec(disposition) : null;
+
+        const a = document.createElement('a');
+        a.href = objectUrl;
+        a.download = match ? match[1] : fallbackName;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(objectUrl);
+        document.body.removeChild(a);
+    }
+
     async validateProfile(token: string, profile: any): Promise<{ valid: boolean, profile?: any, error?: string }> {
         const res = await fetch(`${API_URL}/profiles/validate`, {
             method: 'POST',
@@ -936,6 +1371,10 @@ class ApiService {
         }
     }
 
+    async testBackupTarget(target: BackupTargetConfig): Promise<void> {
+        await this.post('/settings/global/backup-targets/test', target);
+    }
+
     async getRemoteAccessStatus(): Promise<{ enabled: boolean, method?: string, bindAddress: string }> {
         const res = await fetch(`${API_URL}/system/remote-access/status`, {
             headers: this.getAuthHeader()
@@ -1128,6 +1567,16 @@ class ApiService {
         return res.json();
     }
 
+    async getNodeMetrics(nodeId: string, metric: string, options: { from?: number, to?: number, step?: number, agg?: MetricAggregation } = {}): Promise<MetricSeries> {
+        const params = new URLSearchParams();
+        Object.entries(options).forEach(([key, value]) => value !== undefined && params.set(key, String(value)));
+        const res = await fetch(`${API_URL}/nodes/${nodeId}/metrics/${metric}?${params}`, {
+            headers: this.getAuthHeader()
+        });
+        if (!res.ok) { const d = await res.json(); throw new Error(d.error || 'Failed to get node metrics'); }
+        return res.json();
+    }
+
     async checkForUpdates(force = false): Promise<any> {
         const res = await fetch(`${API_URL}/system/updates/check?force=${force}`, {
             headers: this.getAuthHeader()
@@ -1,5 +1,6 @@
 
 import { io, Socket } from 'socket.io-client';
+import { TickMetricsSource, ResourceLimitUsage } from '@shared/types';
 
 const SOCKET_URL = typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3001';
 
@@ -60,7 +61,7 @@ class SocketService {
         return () => this.socket.off('status:global', callback);
     }
 
-    onStats(callback: (data: { id: string, cpu: number, memory: number, pid: number, tps: string, uptime: number }) => void) {
+    onStats(callback: (data: { id: string, cpu: number, memory: number, pid: number, tps: string, mspt?: number | null, tickSource?: TickMetricsSource, limits?: ResourceLimitUsage, uptime: number }) => void) {
         this.socket.on('stats', callback);
         return () => this.socket.off('stats', callback);
     }
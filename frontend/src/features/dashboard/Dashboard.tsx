@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Share2, Power, RotateCcw, Ban, Activity, Cpu, Network, Users, Copy, Check, Disc, Clock, Terminal, AlertTriangle, Info, X, Download, Zap, Globe } from 'lucide-react';
-import { ServerStatus, ServerConfig, TabView, DiagnosisResult } from '@shared/types';
+import { ServerStatus, ServerConfig, TabView, DiagnosisResult, RestartPolicyState } from '@shared/types';
 
 import { API } from '@core/services/api';
 import { socketService } from '@core/services/socket';
@@ -9,6 +9,7 @@ import { socketService } from '@core/services/socket';
 import { useToast } from '../ui/Toast';
 import { motion, AnimatePresence } from 'framer-motion';
 import { DiagnosisCard } from './DiagnosisCard';
+import SparkReportsPanel from './SparkReportsPanel';
 
 import { Responsive, useContainerWidth } from 'react-grid-layout';
 import 'react-grid-layout/css/styles.css';
@@ -92,6 +93,29 @@ const Sparkline: React.FC<{ data: number[], color: string, height?: number, max?
     );
 };
 
+// Metric history ranges; 'live' follows the socket stats stream
+type HistoryRange = 'live' | '1h' | '24h' | '7d' | '30d';
+const HISTORY_RANGES: Record<Exclude<HistoryRange, 'live'>, number> = {
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+const RangePicker: React.FC<{ value: HistoryRange, onChange: (range: HistoryRange) => void }> = ({ value, onChange }) => (
+    <div className="flex gap-0.5 mt-2 justify-end">
+        {(['live', ...Object.keys(HISTORY_RANGES)] as HistoryRange[]).map(range => (
+            <button
+                key={range}
+                onClick={() => onChange(range)}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase transition-colors ${value === range ? 'bg-primary/15 text-primary' : 'text-muted-foreground/60 hover:text-foreground'}`}
+            >
+                {range}
+            </button>
+        ))}
+    </div>
+);
+
 import { useServers } from '@features/servers/context/ServerContext';
 import { useUser } from '@features/auth/context/UserContext';
 import { useCollaboration } from '@features/collaboration/context/CollaborationContext';
@@ -112,7 +136,10 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
 
     const [cpuHistory, setCpuHistory] = useState<number[]>(Array(40).fill(0));
     const [memHistory, setMemHistory] = useState<number[]>(Array(40).fill(0));
+    const [historyRange, setHistoryRange] = useState<HistoryRange>('live');
+    const [storedHistory, setStoredHistory] = useState<{ cpu: number[], memory: number[] } | null>(null);
     const [copied, setCopied] = useState(false);
+    const [showSparkReports, setShowSparkReports] = useState(false);
     const { addToast } = useToast();
 
     const [crashReport, setCrashReport] = useState<{ analysis: string, logs: string[] } | null>(null);
@@ -153,6 +180,8 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
 
     // Diagnosis State
     const [diagnosisResults, setDiagnosisResults] = useState<DiagnosisResult[]>([]);
+    const [crashLoop, setCrashLoop] = useState<RestartPolicyState | null>(null);
+    const [degradedDetails, setDegradedDetails] = useState<string | null>(null);
 
     // Java Download Status - only consider active download phases
     const isJavaDownloading = javaDownloadStatus && 
@@ -161,10 +190,10 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
          javaDownloadStatus.phase === 'installing');
 
     useEffect(() => {
-        if (server?.status === 'CRASHED' || (server?.status === 'OFFLINE' && diagnosisResults.length === 0)) {
+        if (server?.status === 'CRASHED' || server?.status === 'CRASH_LOOP' || (server?.status === 'OFFLINE' && diagnosisResults.length === 0)) {
             // Check if we should diagnose (e.g. if it just crashed)
             // For now, we'll run it once if we see CRASHED
-            if (server.status === 'CRASHED') {
+            if (server.status === 'CRASHED' || server.status === 'CRASH_LOOP') {
                 runDiagnosis();
             }
         } else if (server?.status === ServerStatus.ONLINE || server?.status === ServerStatus.STARTING) {
@@ -172,6 +201,31 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
         }
     }, [server?.status]);
 
+    useEffect(() => {
+        if (server?.status !== 'CRASH_LOOP') {
+            setCrashLoop(null);
+            return;
+        }
+        API.getRestartPolicy(serverId).then(({ state }) => setCrashLoop(state)).catch(() => setCrashLoop(null));
+    }, [server?.status, serverId]);
+
+    useEffect(() => {
+        if (server?.status !== 'DEGRADED') {
+            setDegradedDetails(null);
+            return;
+        }
+        API.getServerStatus(serverId).then(status => setDegradedDetails(status?.details || null)).catch(() => setDegradedDetails(null));
+    }, [server?.status, serverId]);
+
+    const handleResetCrashLoop = async () => {
+        try {
+            await API.resetCrashLoop(serverId);
+            addToast('success', 'Crash Loop Cleared', 'Automatic restarts are active again.');
+        } catch (err: any) {
+            addToast('error', 'Reset Failed', err.message);
+        }
+    };
+
     const runDiagnosis = async () => {
         try {
             const results = await API.runDiagnosis(serverId);
@@ -262,6 +316,40 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
         }
     }, [stats.cpu, stats.memory]);
 
+    // Seed the live sparklines with the last two minutes from the metrics store
+    useEffect(() => {
+        const from = Date.now() - 2 * 60 * 1000;
+        Promise.all([
+            API.getServerMetrics(serverId, 'cpu', { from, step: 3 }),
+            API.getServerMetrics(serverId, 'memory', { from, step: 3 })
+        ]).then(([cpu, memory]) => {
+            const pad = (values: number[]) => [...Array(Math.max(0, 40 - values.length)).fill(0), ...values.slice(-40)];
+            if (cpu.points.length > 0) setCpuHistory(pad(cpu.points.map(p => p.value)));
+            if (memory.points.length > 0) setMemHistory(pad(memory.points.map(p => p.value)));
+        }).catch(() => {});
+    }, [serverId]);
+
+    // Stored history for the selected range, refreshed every minute
+    useEffect(() => {
+        if (historyRange === 'live') {
+            setStoredHistory(null);
+            return;
+        }
+        const load = () => {
+            const from = Date.now() - HISTORY_RANGES[historyRange];
+            Promise.all([
+                API.getServerMetrics(serverId, 'cpu', { from }),
+                API.getServerMetrics(serverId, 'memory', { from })
+            ]).then(([cpu, memory]) => setStoredHistory({
+                cpu: cpu.points.map(p => p.value),
+                memory: memory.points.map(p => p.value)
+            })).catch(e => addToast('error', 'Metrics', e.message));
+        };
+        load();
+        const interval = setInterval(load, 60000);
+        return () => clearInterval(interval);
+    }, [serverId, historyRange]);
+
     const handleExplainCrash = async () => {
         try {
             const data = await API.getCrashReport(serverId);
@@ -352,6 +440,11 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
     // Calculations
     const ramMax = (server.ram || 1) * 1024;
     const tps = stats.tps; 
+    const tickUnavailable = stats.tickSource === 'unavailable';
+    const tickSourceLabel = stats.tickSource === 'spark' ? 'Measured by spark'
+        : stats.tickSource === 'log' ? 'From server log'
+        : stats.tickSource === 'estimated' ? 'Estimated (no spark)'
+        : server.software === 'Bedrock' ? 'Not reported by Bedrock' : '';
     
     // Status Color Logic
     const statusColor = status === ServerStatus.ONLINE ? '#059669' : status === ServerStatus.UNMANAGED ? '#d97706' : status === ServerStatus.OFFLINE ? '#dc2626' : status === ServerStatus.CRASHED ? '#e11d48' : '#d97706';
@@ -447,10 +540,52 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
                 )}
             </AnimatePresence>
 
+            {showSparkReports && <SparkReportsPanel serverId={serverId} onClose={() => setShowSparkReports(false)} />}
+
             {/* Safety Error Modal (REMOVED: Unified into DiagnosisCard) */}
 
 
 
+            {/* --- CRASH LOOP (restart policy gave up) --- */}
+            {server?.status === 'CRASH_LOOP' && (
+                <div className="border rounded-lg p-4 shadow-sm bg-rose-500/5 border-rose-500/20 flex items-start gap-4">
+                    <div className="p-2 rounded-lg shrink-0 bg-rose-500/10 text-rose-500">
+                        <RotateCcw size={24} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <h4 className="text-sm font-bold text-rose-500">Crash Loop</h4>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                            {crashLoop
+                                ? `The server was restarted ${crashLoop.restarts.length} times in a row and kept exiting (last exit code ${crashLoop.lastExitCode ?? 'unknown'}).`
+                                : 'The server kept exiting after being restarted.'}
+                            {' '}Automatic restarts are paused until it is started manually.
+                        </p>
+                    </div>
+                    <button
+                        onClick={handleResetCrashLoop}
+                        className="px-3 py-1.5 rounded text-xs font-bold bg-muted hover:bg-muted/80 transition-colors text-foreground shrink-0"
+                    >
+                        Clear
+                    </button>
+                </div>
+            )}
+
+            {/* --- DEGRADED (readiness or liveness probe failing) --- */}
+            {server?.status === 'DEGRADED' && (
+                <div className="border rounded-lg p-4 shadow-sm bg-amber-500/5 border-amber-500/20 flex items-start gap-4">
+                    <div className="p-2 rounded-lg shrink-0 bg-amber-500/10 text-amber-500">
+                        <Activity size={24} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <h4 className="text-sm font-bold text-amber-500">Degraded</h4>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                            {degradedDetails || 'The server is running but its health probe is failing.'}
+                            {' '}The status returns to ONLINE once the probe succeeds again.
+                        </p>
+                    </div>
+                </div>
+            )}
+
             {/* --- SMART ANALYSIS HINTS (Intelligence Overhaul) --- */}
             {diagnosisResults.map((result, idx) => (
                 <DiagnosisCard 
@@ -745,15 +880,32 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
                                     <Zap className="adaptive-icon" />
                                     <span className="adaptive-title font-bold uppercase tracking-wider">Tick Rate</span>
                                 </div>
-                                <div className={`hero-header-secondary text-[10px] font-bold tracking-wider px-2 py-0.5 rounded ${Number(tps) > 18 ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
-                                    {Number(tps) > 18 ? 'OPTIMAL' : 'LOW'}
+                                <div className="flex items-center gap-1.5">
+                                    {!tickUnavailable && (
+                                        <div className={`hero-header-secondary text-[10px] font-bold tracking-wider px-2 py-0.5 rounded ${Number(tps) > 18 ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                                            {Number(tps) > 18 ? 'OPTIMAL' : 'LOW'}
+                                        </div>
+                                    )}
+                                    {server.software !== 'Bedrock' && (
+                                        <button
+                                            onClick={() => setShowSparkReports(true)}
+                                            className="text-[10px] font-bold tracking-wider px-2 py-0.5 rounded border border-border text-muted-foreground hover:text-foreground hover:bg-secondary"
+                                            title="Spark profiler and health reports"
+                                        >
+                                            PROFILE
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                             
                             <div className="mt-auto">
                                 <div className="adaptive-value font-bold text-foreground tracking-tight flex items-baseline gap-1 tabular-nums leading-none">
                                     {tps} <span className="text-[0.4em] text-muted-foreground font-medium">TPS</span>
+                                    {stats.mspt != null && (
+                                        <span className="text-[0.4em] text-muted-foreground font-medium ml-2">{stats.mspt.toFixed(1)} MSPT</span>
+                                    )}
                                 </div>
+                                {tickSourceLabel && <p className="adaptive-label text-muted-foreground mt-1 uppercase tracking-widest font-medium">{tickSourceLabel}</p>}
                             </div>
                         </div>
 
@@ -852,11 +1004,16 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
                             </div>
                             <div className="text-right">
                                 <div className="adaptive-value font-bold text-foreground tracking-tight leading-none">{stats.cpu.toFixed(1)}%</div>
+                                <RangePicker value={historyRange} onChange={setHistoryRange} />
                             </div>
                         </div>
                         
                         <div className="metric-chart-container absolute inset-x-0 bottom-0 h-[70%] w-full px-6 pb-4">
-                            {isOnline ? (
+                            {storedHistory ? (
+                                storedHistory.cpu.length > 1
+                                    ? <Sparkline id="cpu" data={storedHistory.cpu} color="hsl(var(--primary))" label={`Last ${historyRange}`} />
+                                    : <div className="w-full h-full flex items-center justify-center bg-muted/30 rounded"><div className="adaptive-label text-muted-foreground font-medium uppercase tracking-widest text-center">No Data For Range</div></div>
+                            ) : isOnline ? (
                                 <Sparkline id="cpu" data={cpuHistory} color="hsl(var(--primary))" label="Real-time Telemetry" />
                             ) : (
                                 <div className="w-full h-full flex items-center justify-center bg-muted/30 rounded">
@@ -876,15 +1033,28 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
                                     <Disc className="adaptive-icon text-primary/70" />
                                     <h3 className="adaptive-title font-bold text-foreground uppercase">Memory Usage</h3>
                                 </div>
-                                <p className="adaptive-label text-muted-foreground font-medium uppercase tracking-wider">RAM Allocation</p>
+                                <p className="adaptive-label text-muted-foreground font-medium uppercase tracking-wider">
+                                    {stats.limits?.memoryMaxMB ? `Limit ${(stats.limits.memoryMaxMB / 1024).toFixed(1)} GB` : 'RAM Allocation'}
+                                </p>
+                                {stats.limits && (stats.limits.oomKills > 0 || stats.limits.throttledPercent >= 50) && (
+                                    <div className="flex gap-1 mt-1">
+                                        {stats.limits.oomKills > 0 && <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-rose-500/10 text-rose-500">OOM KILLS: {stats.limits.oomKills}</span>}
+                                        {stats.limits.throttledPercent >= 50 && <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-600">CPU THROTTLED {stats.limits.throttledPercent}%</span>}
+                                    </div>
+                                )}
                             </div>
                             <div className="text-right">
                                 <div className="adaptive-value font-bold text-foreground tracking-tight leading-none">{(stats.memory / 1024).toFixed(2)} GB</div>
+                                <RangePicker value={historyRange} onChange={setHistoryRange} />
                             </div>
                         </div>
                         
                         <div className="metric-chart-container absolute inset-x-0 bottom-0 h-[70%] w-full px-6 pb-4">
-                            {isOnline ? (
+                            {storedHistory ? (
+                                storedHistory.memory.length > 1
+                                    ? <Sparkline id="mem" data={storedHistory.memory} color="hsl(var(--primary))" max={ramMax} label={`Last ${historyRange}`} />
+                                    : <div className="w-full h-full flex items-center justify-center bg-muted/30 rounded"><div className="adaptive-label text-muted-foreground font-medium uppercase tracking-widest text-center">No Data For Range</div></div>
+                            ) : isOnline ? (
                                 <Sparkline id="mem" data={memHistory} color="hsl(var(--primary))" max={ramMax} label="Memory Trend" />
                             ) : (
                                 <div className="w-full h-full flex items-center justify-center bg-muted/30 rounded">
@@ -120,10 +120,10 @@ const Dashboard: React.FC<DashboardProps> = ({ serverId }) => {
 
     // Auto-Diagnosis & Celebration Trigger
     useEffect(() => {
-        if (server?.status === 'CRASHED' || (server?.status === 'OFFLINE' && !diagnosisResult)) {
+        if (server?.status === 'CRASHED' || server?.status === 'CRASH_LOOP' || (server?.status === 'OFFLINE' && !diagnosisResult)) {
             // Check if we should diagnose (e.g. if it just crashed)
             // For now, we'll run it once if we see CRASHED
-            if (server.status === 'CRASHED') {
+            if (server.status === 'CRASHED' || server.status === 'CRASH_LOOP') {
                 runDiagnosis();
             }
         } else if (server?.status === 'ONLINE' || server?.status === 'STARTING') {
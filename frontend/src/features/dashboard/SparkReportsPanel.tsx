@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { SparkReport, SparkReportKind } from '@shared/types';
+import { X, Loader2, Zap, ExternalLink, HeartPulse, Timer } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface SparkReportsPanelProps {
+    serverId: string;
+    onClose: () => void;
+}
+
+const DURATIONS = [30, 60, 120, 300];
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString('en-US', { hour12: false, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const statusClass = (status: SparkReport['status']) =>
+    status === 'COMPLETED' ? 'text-emerald-400' : status === 'FAILED' ? 'text-rose-400' : 'text-amber-400';
+
+/**
+ * On-demand spark profiler and health reports. Each run is kept by the panel
+ * with its viewer link, so earlier reports stay available for comparison.
+ */
+const SparkReportsPanel: React.FC<SparkReportsPanelProps> = ({ serverId, onClose }) => {
+    const { addToast } = useToast();
+    const [reports, setReports] = useState<SparkReport[]>([]);
+    const [duration, setDuration] = useState(30);
+    const [starting, setStarting] = useState<SparkReportKind | null>(null);
+
+    const load = () => API.getSparkReports(serverId).then(setReports).catch(() => setReports([]));
+
+    useEffect(() => {
+        load();
+    }, [serverId]);
+
+    // Follow a running report until spark prints its link
+    const running = reports.some(r => r.status === 'RUNNING');
+    useEffect(() => {
+        if (!running) return;
+        const interval = setInterval(load, 5000);
+        return () => clearInterval(interval);
+    }, [running, serverId]);
+
+    const start = async (kind: SparkReportKind) => {
+        setStarting(kind);
+        try {
+            const report = await API.startSparkReport(serverId, kind, kind === 'profiler' ? duration : undefined);
+            setReports(prev => [report, ...prev]);
+            addToast('info', 'Spark Started', kind === 'profiler' ? `Sampling for ${duration} seconds.` : 'Collecting a health report.');
+        } catch (err: any) {
+            addToast('error', 'Spark Failed', err.message);
+        } finally {
+            setStarting(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-y-0 right-0 w-full sm:w-[420px] bg-card border-l border-border shadow-2xl z-50 flex flex-col animate-in slide-in-from-right-4">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted/30">
+                <div className="flex items-center gap-2">
+                    <Zap size={16} />
+                    <h3 className="text-sm font-bold">Spark Reports</h3>
+                </div>
+                <button onClick={onClose} className="p-1.5 rounded-md text-muted-foreground hover:bg-secondary" title="Close">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <div className="p-4 space-y-3 border-b border-border">
+                <div className="flex items-center gap-2">
+                    <Timer size={12} className="text-muted-foreground" />
+                    <select
+                        value={duration}
+                        onChange={e => setDuration(Number(e.target.value))}
+                        className="flex-1 bg-background border border-border rounded-lg px-2 py-1 text-xs"
+                    >
+                        {DURATIONS.map(d => <option key={d} value={d}>{d < 60 ? `${d} seconds` : `${d / 60} minute${d > 60 ? 's' : ''}`}</option>)}
+                    </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={() => start('profiler')}
+                        disabled={starting !== null || running}
+                        className="bg-secondary hover:bg-secondary/80 py-1.5 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        {starting === 'profiler' ? <Loader2 size={12} className="animate-spin" /> : <Zap size={12} />} Run Profiler
+                    </button>
+                    <button
+                        onClick={() => start('health')}
+                        disabled={starting !== null || running}
+                        className="bg-secondary hover:bg-secondary/80 py-1.5 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        {starting === 'health' ? <Loader2 size={12} className="animate-spin" /> : <HeartPulse size={12} />} Health Report
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {reports.length === 0 ? (
+                    <p className="text-xs text-muted-foreground text-center py-8">No spark reports yet.</p>
+                ) : (
+                    reports.map(report => (
+                        <div key={report.id} className="p-2.5 rounded-lg border border-border text-xs space-y-1">
+                            <div className="flex items-center gap-2">
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-medium capitalize">{report.kind}{report.durationSeconds ? ` · ${report.durationSeconds}s` : ''}</div>
+                                    <div className="text-[10px] text-muted-foreground">{formatDate(report.startedAt)}{report.requestedBy ? ` · ${report.requestedBy}` : ''}</div>
+                                </div>
+                                {report.status === 'RUNNING' && <Loader2 size={12} className="animate-spin text-amber-400" />}
+                                <span className={`text-[10px] font-bold uppercase ${statusClass(report.status)}`}>{report.status}</span>
+                            </div>
+                            {report.url && (
+                                <a href={report.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-primary hover:underline font-mono text-[11px]">
+                                    <ExternalLink size={10} /> {report.url}
+                                </a>
+                            )}
+                            {report.error && <p className="text-[11px] text-rose-400">{report.error}</p>}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SparkReportsPanel;
@@ -258,7 +258,7 @@ When a failure or "Hung" state is confirmed, the system triggers the following s
 4.  **Notification:** If integrated, a "Recovery Protocol Active" alert is sent to your Discord.
 
 ## 4. Loop Prevention
-To prevent "Restart Loops" (e.g., if a server is crashing due to a fatal bug in a mod), the system allows only **3 attempts per 10 minutes**. If stability is not reached, it halts and flags the server for manual intervention.
+Crashes are restarted according to the server's **Restart Policy** (\`no\`, \`on-failure\`, \`always\`, \`unless-stopped\`). Each restart waits longer than the last (5s, 10s, 20s... up to 5 minutes by default). To prevent "Restart Loops" (e.g., if a server is crashing due to a fatal bug in a mod), the system allows only **5 restarts per 10 minutes** by default. Past that the server is flagged as **CRASH LOOP** and left off until it is started manually.
 `
     },
     backups: {
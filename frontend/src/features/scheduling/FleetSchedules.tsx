@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { ScheduleTask, ScheduleHistoryEntry, ScheduleFleetTarget, ServerConfig, NodeInfo } from '@shared/types';
+import { CalendarClock, Plus, Play, Pause, Trash2, Check, X, Server, Timer, Download } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface FleetSchedulesProps {
+    servers: ServerConfig[];
+    nodes: NodeInfo[];
+}
+
+const SOFTWARE_OPTIONS: ServerConfig['software'][] = ['Paper', 'Purpur', 'Spigot', 'Vanilla', 'Fabric', 'Forge', 'Bedrock'];
+const EMPTY_FORM = { name: '', cron: '0 5 * * *', command: 'restart', timezone: '', staggerSeconds: 30, tags: '' };
+
+/**
+ * FleetSchedules — cron tasks that run one action across a selection of servers
+ * (explicit list, software, node or tag) with a stagger between servers.
+ */
+const FleetSchedules: React.FC<FleetSchedulesProps> = ({ servers, nodes }) => {
+    const { addToast } = useToast();
+    const [tasks, setTasks] = useState<ScheduleTask[]>([]);
+    const [history, setHistory] = useState<ScheduleHistoryEntry[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [target, setTarget] = useState<ScheduleFleetTarget>({});
+    const [preview, setPreview] = useState<{ id: string, name: string }[]>([]);
+    const [expandedHistory, setExpandedHistory] = useState<number | null>(null);
+
+    const fetchData = async () => {
+        try {
+            const [schedules, runs] = await Promise.all([API.getGlobalSchedules(), API.getGlobalScheduleHistory()]);
+            setTasks(Array.isArray(schedules) ? schedules : []);
+            setHistory(Array.isArray(runs?.entries) ? runs.entries : []);
+        } catch (e) {
+            // Non-admins cannot see fleet schedules
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    const resolvedTarget = (): ScheduleFleetTarget => ({
+        ...target,
+        tags: form.tags.split(',').map(t => t.trim()).filter(Boolean)
+    });
+
+    useEffect(() => {
+        if (!isCreating) return;
+        API.previewScheduleTargets(resolvedTarget()).then(setPreview).catch(() => setPreview([]));
+    }, [target, form.tags, isCreating]);
+
+    const toggleIn = <T,>(list: T[] | undefined, value: T): T[] => {
+        const current = list || [];
+        return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    };
+
+    const handleCreate = async () => {
+        if (!form.name || !form.command) return;
+        try {
+            await API.createGlobalSchedule({
+                id: Date.now().toString(),
+                name: form.name,
+                cron: form.cron,
+                command: form.command,
+                timezone: form.timezone.trim() || undefined,
+                staggerSeconds: form.staggerSeconds,
+                target: resolvedTarget(),
+                isActive: true
+            });
+            setIsCreating(false);
+            setForm(EMPTY_FORM);
+            setTarget({});
+            await fetchData();
+            addToast('success', 'Fleet Schedule Created', `Targets ${preview.length} server(s).`);
+        } catch (e: any) {
+            addToast('error', 'Creation Failed', e.message || 'Could not create fleet schedule.');
+        }
+    };
+
+    const toggleTask = async (task: ScheduleTask) => {
+        try {
+            await API.updateGlobalSchedule({ ...task, isActive: !task.isActive });
+            await fetchData();
+        } catch (e: any) {
+            addToast('error', 'Update Failed', e.message || 'Could not update fleet schedule.');
+        }
+    };
+
+    const deleteTask = async (task: ScheduleTask) => {
+        if (!confirm(`Delete fleet schedule "${task.name}"?`)) return;
+        await API.deleteGlobalSchedule(task.id);
+        await fetchData();
+    };
+
+    const describeTarget = (t?: ScheduleFleetTarget) => {
+        if (!t) return 'No target';
+        const parts: string[] = [];
+        if (t.serverIds?.length) parts.push(`${t.serverIds.length} server(s)`);
+        if (t.software?.length) parts.push(t.software.join('/'));
+        if (t.nodeIds?.length) parts.push(`node: ${t.nodeIds.map(id => id === 'local' ? 'Local' : nodes.find(n => n.id === id)?.name || id).join(', ')}`);
+        if (t.tags?.length) parts.push(`tag: ${t.tags.join(', ')}`);
+        return parts.join(' · ') || 'No target';
+    };
+
+    const chip = (active: boolean) => `px-2 py-1 rounded-md text-[10px] font-medium border transition-colors ${active ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground'}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium text-foreground flex items-center gap-2">
+                    <CalendarClock size={16} className="text-muted-foreground" /> Fleet Schedules
+                </h2>
+                {!isCreating && (
+                    <button onClick={() => setIsCreating(true)} className="text-[10px] font-black uppercase tracking-widest text-primary hover:underline flex items-center gap-1">
+                        <Plus size={12} /> New Fleet Schedule
+                    </button>
+                )}
+            </div>
+
+            {isCreating && (
+                <div className="bg-card border border-border rounded-xl p-5 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                        <input className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm focus:outline-none" placeholder="Task name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+                        <input className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none" placeholder="0 5 * * *" value={form.cron} onChange={e => setForm({ ...form, cron: e.target.value })} />
+                        <input className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none" placeholder="restart, backup or a command" value={form.command} onChange={e => setForm({ ...form, command: e.target.value })} />
+                        <input className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none" placeholder={`Timezone (${Intl.DateTimeFormat().resolvedOptions().timeZone})`} value={form.timezone} onChange={e => setForm({ ...form, timezone: e.target.value })} />
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Software</div>
+                        <div className="flex flex-wrap gap-2">
+                            {SOFTWARE_OPTIONS.map(sw => (
+                                <button key={sw} onClick={() => setTarget({ ...target, software: toggleIn(target.software, sw) })} className={chip(!!target.software?.includes(sw))}>{sw}</button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Node</div>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => setTarget({ ...target, nodeIds: toggleIn(target.nodeIds, 'local') })} className={chip(!!target.nodeIds?.includes('local'))}>Local</button>
+                            {nodes.map(node => (
+                                <button key={node.id} onClick={() => setTarget({ ...target, nodeIds: toggleIn(target.nodeIds, node.id) })} className={chip(!!target.nodeIds?.includes(node.id))}>{node.name}</button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground mb-1">Tags</div>
+                            <input className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm focus:outline-none" placeholder="lobby, minigames" value={form.tags} onChange={e => setForm({ ...form, tags: e.target.value })} />
+                        </div>
+                        <div>
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground mb-1">Stagger between servers (seconds)</div>
+                            <input type="number" min={0} className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none" value={form.staggerSeconds} onChange={e => setForm({ ...form, staggerSeconds: parseInt(e.target.value) || 0 })} />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Always include</div>
+                        <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+                            {servers.map(server => (
+                                <button key={server.id} onClick={() => setTarget({ ...target, serverIds: toggleIn(target.serverIds, server.id) })} className={chip(!!target.serverIds?.includes(server.id))}>{server.name}</button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between pt-2 border-t border-border">
+                        <div className="text-xs text-muted-foreground flex items-center gap-2">
+                            <Server size={12} /> Matches {preview.length} server(s){preview.length > 0 && `: ${preview.slice(0, 5).map(p => p.name).join(', ')}${preview.length > 5 ? '…' : ''}`}
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={handleCreate} className="bg-primary text-primary-foreground px-4 py-2 rounded-lg text-xs font-medium hover:bg-primary/90">Save</button>
+                            <button onClick={() => { setIsCreating(false); setForm(EMPTY_FORM); setTarget({}); }} className="bg-secondary text-foreground px-4 py-2 rounded-lg text-xs font-medium hover:bg-secondary/80">Cancel</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {tasks.map(task => (
+                    <div key={task.id} className={`bg-card border border-border p-4 rounded-2xl space-y-2 ${task.isActive ? '' : 'opacity-60'}`}>
+                        <div className="flex items-start justify-between">
+                            <div>
+                                <div className="text-xs font-bold text-foreground">{task.name}</div>
+                                <div className="flex items-center gap-2 mt-1">
+                                    <code className="bg-secondary px-1.5 py-0.5 rounded text-[10px] font-mono text-emerald-500">{task.cron}</code>
+                                    <code className="bg-secondary px-1.5 py-0.5 rounded text-[10px] font-mono">{task.command}</code>
+                                    {!!task.staggerSeconds && <span className="text-[10px] text-muted-foreground flex items-center gap-1"><Timer size={10} /> {task.staggerSeconds}s</span>}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <button onClick={() => toggleTask(task)} className={`p-1.5 rounded-lg ${task.isActive ? 'text-amber-500 hover:bg-amber-500/10' : 'text-emerald-500 hover:bg-emerald-500/10'}`}>
+                                    {task.isActive ? <Pause size={14} /> : <Play size={14} />}
+                                </button>
+                                <button onClick={() => deleteTask(task)} className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10"><Trash2 size={14} /></button>
+                            </div>
+                        </div>
+                        <div className="text-[10px] text-muted-foreground">{describeTarget(task.target)}</div>
+                        <div className="text-[10px] text-muted-foreground">Next run: {task.isActive && task.nextRun ? new Date(task.nextRun).toLocaleString() : 'Paused'}</div>
+                    </div>
+                ))}
+                {tasks.length === 0 && !isCreating && (
+                    <div className="col-span-full py-8 text-center border border-dashed border-border rounded-2xl text-muted-foreground text-xs font-medium italic">
+                        No fleet-wide schedules configured.
+                    </div>
+                )}
+            </div>
+
+            {history.length > 0 && (
+                <div className="bg-card border border-border rounded-xl divide-y divide-border/50">
+                    <div className="px-4 py-2 flex items-center justify-between">
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Recent Runs</span>
+                        <button onClick={() => API.exportGlobalScheduleHistory('csv').catch((e: any) => addToast('error', 'Export Failed', e.message))} className="text-[10px] font-medium text-primary hover:underline flex items-center gap-1">
+                            <Download size={10} /> Export CSV
+                        </button>
+                    </div>
+                    {history.map((run, i) => (
+                        <div key={i} className="px-4 py-3">
+                            <button className="w-full flex items-center gap-3 text-xs text-left" onClick={() => setExpandedHistory(expandedHistory === i ? null : i)}>
+                                {run.success ? <Check size={12} className="text-emerald-500" /> : <X size={12} className="text-rose-500" />}
+                                <span className="font-mono text-muted-foreground">{new Date(run.timestamp).toLocaleString()}</span>
+                                <span className="font-medium">{run.task}</span>
+                                <span className="text-muted-foreground flex-1 truncate">{run.message}</span>
+                            </button>
+                            {expandedHistory === i && run.servers && (
+                                <div className="mt-2 pl-6 space-y-1">
+                                    {run.servers.map(outcome => (
+                                        <div key={outcome.serverId} className="flex items-center gap-3 text-[11px]">
+                                            {outcome.success ? <Check size={10} className="text-emerald-500" /> : <X size={10} className="text-rose-500" />}
+                                            <span className="font-medium w-40 truncate">{outcome.serverName}</span>
+                                            <span className="text-muted-foreground truncate">{outcome.message}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FleetSchedules;
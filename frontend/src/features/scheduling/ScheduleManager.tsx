@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
-import { ScheduleTask } from '@shared/types';
-import { CalendarClock, Plus, Play, Pause, Trash2, Clock, Command, Check, X } from 'lucide-react';
+import { ScheduleTask, ScheduleHistoryEntry, ScheduleStep, ScheduleStepType, ScheduleTrigger, ScheduleTriggerEvent } from '@shared/types';
+import { CalendarClock, Plus, Play, Pause, Trash2, Clock, Command, Check, X, ListOrdered, ArrowUp, ArrowDown, Zap, Download, ChevronLeft, ChevronRight } from 'lucide-react';
 import { API } from '@core/services/api';
 import { useToast } from '../ui/Toast';
 import { useServers } from '@features/servers/context/ServerContext';
@@ -10,11 +10,64 @@ interface ScheduleManagerProps {
     serverId: string;
 }
 
+const STEP_LABELS: Record<ScheduleStepType, string> = {
+    'command': 'Console Command',
+    'broadcast': 'Broadcast',
+    'wait': 'Wait',
+    'backup': 'Backup',
+    'stop': 'Stop Server',
+    'start': 'Start Server',
+    'await-status': 'Await Status'
+};
+
+const EVENT_LABELS: Record<ScheduleTriggerEvent, string> = {
+    'player:first-join': 'First player joins (0 → 1)',
+    'player:last-leave': 'Last player leaves',
+    'player:join': 'Any player joins',
+    'player:leave': 'Any player leaves',
+    'status': 'Status changes',
+    'diagnosis': 'Diagnosis finds an issue'
+};
+
+const DEFAULT_TRIGGER: ScheduleTrigger = { type: 'cron', cooldownSeconds: 60 };
+const HISTORY_PAGE_SIZE = 25;
+
+const NIGHTLY_RESTART_PRESET: ScheduleStep[] = [
+    { type: 'broadcast', message: 'Server restarting in 10 minutes.' },
+    { type: 'wait', seconds: 300 },
+    { type: 'broadcast', message: 'Server restarting in 5 minutes.' },
+    { type: 'wait', seconds: 240 },
+    { type: 'broadcast', message: 'Server restarting in 1 minute.' },
+    { type: 'wait', seconds: 60 },
+    { type: 'command', command: 'save-all' },
+    { type: 'backup', worldOnly: true, onFailure: 'continue' },
+    { type: 'stop' },
+    { type: 'start', onFailure: 'retry' },
+    { type: 'await-status', status: 'ONLINE' }
+];
+
+const describeStep = (step: ScheduleStep): string => {
+    switch (step.type) {
+        case 'command': return step.command || '';
+        case 'broadcast': return `"${step.message || ''}"`;
+        case 'wait': return `${step.seconds || 0}s`;
+        case 'backup': return step.worldOnly ? 'world only' : 'per server settings';
+        case 'await-status': return step.status || 'ONLINE';
+        default: return '';
+    }
+};
+
 const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
     const { addToast } = useToast();
-    const [history, setHistory] = useState<any[]>([]);
+    const [history, setHistory] = useState<ScheduleHistoryEntry[]>([]);
+    const [historyTotal, setHistoryTotal] = useState(0);
+    const [historyPage, setHistoryPage] = useState(0);
+    const [historyTaskFilter, setHistoryTaskFilter] = useState('');
     const [isCreating, setIsCreating] = useState(false);
-    const [newTask, setNewTask] = useState({ name: '', cron: '0 * * * *', command: '' });
+    const [newTask, setNewTask] = useState({ name: '', cron: '0 * * * *', command: '', timezone: '', missedRunPolicy: 'skip' as ScheduleTask['missedRunPolicy'] });
+    const [steps, setSteps] = useState<ScheduleStep[]>([]);
+    const [trigger, setTrigger] = useState<ScheduleTrigger>(DEFAULT_TRIGGER);
+    const [expandedHistory, setExpandedHistory] = useState<number | null>(null);
     const { schedules: globalSchedules, refreshServerData, loading } = useServers();
     const tasks = globalSchedules[serverId] || [];
 
@@ -22,17 +75,25 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
         if (!globalSchedules[serverId]) {
             refreshServerData(serverId);
         }
-        fetchHistory();
     }, [serverId, globalSchedules[serverId], refreshServerData]);
 
+    useEffect(() => {
+        fetchHistory();
+    }, [serverId, historyPage, historyTaskFilter, globalSchedules[serverId]]);
+
     const fetchSchedules = async () => {
         await refreshServerData(serverId);
     };
 
     const fetchHistory = async () => {
         try {
-            const data = await API.getScheduleHistory(serverId);
-            setHistory(data);
+            const data = await API.getScheduleHistory(serverId, {
+                limit: HISTORY_PAGE_SIZE,
+                offset: historyPage * HISTORY_PAGE_SIZE,
+                taskId: historyTaskFilter || undefined
+            });
+            setHistory(Array.isArray(data?.entries) ? data.entries : []);
+            setHistoryTotal(data?.total || 0);
         } catch (e) {
             // Ignore error
         }
@@ -47,8 +108,8 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
         try {
             await API.updateSchedule(serverId, updated);
             await refreshServerData(serverId);
-        } catch (e) {
-            addToast('error', 'Update Failed', 'Could not update schedule status.');
+        } catch (e: any) {
+            addToast('error', 'Update Failed', e.message || 'Could not update schedule status.');
         }
     };
 
@@ -65,15 +126,20 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
     };
 
     const handleCreate = async () => {
-        if (!newTask.name || !newTask.command) return;
+        if (!newTask.name || (!newTask.command && steps.length === 0)) return;
         
         const task: ScheduleTask = {
             id: Date.now().toString(),
+            serverId,
             name: newTask.name,
             cron: newTask.cron,
-            command: newTask.command,
-            lastRun: 'Never',
-            nextRun: 'Calculated...',
+            command: steps.length > 0 ? 'workflow' : newTask.command,
+            steps: steps.length > 0 ? steps : undefined,
+            trigger: trigger.type === 'event'
+                ? { ...trigger, status: trigger.event === 'status' ? (trigger.status || 'CRASHED') : undefined }
+                : undefined,
+            timezone: newTask.timezone.trim() || undefined,
+            missedRunPolicy: trigger.type === 'cron' ? newTask.missedRunPolicy : undefined,
             isActive: true
         };
 
@@ -81,10 +147,38 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
             await API.createSchedule(serverId, task);
             await refreshServerData(serverId);
             setIsCreating(false);
-            setNewTask({ name: '', cron: '0 * * * *', command: '' });
+            setNewTask({ name: '', cron: '0 * * * *', command: '', timezone: '', missedRunPolicy: 'skip' });
+            setSteps([]);
+            setTrigger(DEFAULT_TRIGGER);
             addToast('success', 'Schedule Created', 'Automation task added successfully.');
-        } catch (e) {
-            addToast('error', 'Creation Failed', 'Could not create schedule.');
+        } catch (e: any) {
+            addToast('error', 'Creation Failed', e.message || 'Could not create schedule.');
+        }
+    };
+
+    const updateStep = (index: number, patch: Partial<ScheduleStep>) => {
+        setSteps(steps.map((s, i) => i === index ? { ...s, ...patch } : s));
+    };
+
+    const moveStep = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= steps.length) return;
+        const next = [...steps];
+        [next[index], next[target]] = [next[target], next[index]];
+        setSteps(next);
+    };
+
+    const formatRunTime = (value?: string | number) => {
+        if (!value) return 'Never';
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+    };
+
+    const handleExport = async (format: 'json' | 'csv') => {
+        try {
+            await API.exportScheduleHistory(serverId, format, historyTaskFilter || undefined);
+        } catch (e: any) {
+            addToast('error', 'Export Failed', e.message || 'Could not export history.');
         }
     };
 
@@ -119,6 +213,16 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                                     onChange={e => setNewTask({...newTask, name: e.target.value})}
                                 />
                             </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => setTrigger({ ...trigger, type: 'cron' })} className={`flex-1 py-1.5 rounded-lg text-xs font-medium border ${trigger.type === 'cron' ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground'}`}>
+                                    <Clock size={12} className="inline mr-1" /> On a clock
+                                </button>
+                                <button onClick={() => setTrigger({ ...trigger, type: 'event', event: trigger.event || 'player:first-join' })} className={`flex-1 py-1.5 rounded-lg text-xs font-medium border ${trigger.type === 'event' ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground'}`}>
+                                    <Zap size={12} className="inline mr-1" /> On an event
+                                </button>
+                            </div>
+                            {trigger.type === 'cron' ? (
+                            <>
                              <div>
                                 <label className="text-xs font-medium text-muted-foreground">Cron Expression</label>
                                 <input 
@@ -130,6 +234,78 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                                 />
                                 <a href="https://crontab.guru/" target="_blank" rel="noreferrer" className="text-[10px] text-blue-400 hover:underline mt-1 block">Help with Cron?</a>
                             </div>
+                             <div>
+                                <label className="text-xs font-medium text-muted-foreground">Timezone (optional)</label>
+                                <input 
+                                    type="text" 
+                                    className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 font-mono focus:ring-1 focus:ring-primary focus:outline-none"
+                                    placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                                    value={newTask.timezone}
+                                    onChange={e => setNewTask({...newTask, timezone: e.target.value})}
+                                />
+                            </div>
+                             <div>
+                                <label className="text-xs font-medium text-muted-foreground">If the panel was offline</label>
+                                <select
+                                    className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 focus:ring-1 focus:ring-primary focus:outline-none"
+                                    value={newTask.missedRunPolicy}
+                                    onChange={e => setNewTask({...newTask, missedRunPolicy: e.target.value as ScheduleTask['missedRunPolicy']})}
+                                >
+                                    <option value="skip">Skip missed runs</option>
+                                    <option value="run-once">Run once on boot</option>
+                                    <option value="run-all">Run every missed occurrence</option>
+                                </select>
+                            </div>
+                            </>
+                            ) : (
+                            <div className="space-y-3">
+                                <div>
+                                    <label className="text-xs font-medium text-muted-foreground">Event</label>
+                                    <select
+                                        className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 focus:ring-1 focus:ring-primary focus:outline-none"
+                                        value={trigger.event}
+                                        onChange={e => setTrigger({ ...trigger, event: e.target.value as ScheduleTriggerEvent })}
+                                    >
+                                        {Object.entries(EVENT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                    </select>
+                                </div>
+                                {trigger.event === 'status' && (
+                                    <div>
+                                        <label className="text-xs font-medium text-muted-foreground">Status</label>
+                                        <select
+                                            className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 focus:ring-1 focus:ring-primary focus:outline-none"
+                                            value={trigger.status || 'CRASHED'}
+                                            onChange={e => setTrigger({ ...trigger, status: e.target.value as ScheduleTrigger['status'] })}
+                                        >
+                                            {['CRASHED', 'CRASH_LOOP', 'DEGRADED', 'ONLINE', 'OFFLINE', 'STARTING', 'STOPPING'].map(st => <option key={st} value={st}>{st}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                                {trigger.event === 'diagnosis' && (
+                                    <div>
+                                        <label className="text-xs font-medium text-muted-foreground">Minimum Severity</label>
+                                        <select
+                                            className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 focus:ring-1 focus:ring-primary focus:outline-none"
+                                            value={trigger.severity || 'CRITICAL'}
+                                            onChange={e => setTrigger({ ...trigger, severity: e.target.value as ScheduleTrigger['severity'] })}
+                                        >
+                                            {['CRITICAL', 'WARNING', 'INFO'].map(sev => <option key={sev} value={sev}>{sev}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                        <label className="text-xs font-medium text-muted-foreground">Debounce (s)</label>
+                                        <input type="number" min={0} className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 font-mono focus:ring-1 focus:ring-primary focus:outline-none" value={trigger.debounceSeconds ?? 0} onChange={e => setTrigger({ ...trigger, debounceSeconds: parseInt(e.target.value) || 0 })} />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs font-medium text-muted-foreground">Cooldown (s)</label>
+                                        <input type="number" min={0} className="w-full bg-secondary border border-border rounded-lg px-3 py-2 text-sm mt-1 font-mono focus:ring-1 focus:ring-primary focus:outline-none" value={trigger.cooldownSeconds ?? 0} onChange={e => setTrigger({ ...trigger, cooldownSeconds: parseInt(e.target.value) || 0 })} />
+                                    </div>
+                                </div>
+                            </div>
+                            )}
+                            {steps.length === 0 && (
                              <div>
                                 <label className="text-xs font-medium text-muted-foreground">Command</label>
                                 <input 
@@ -139,10 +315,71 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                                     value={newTask.command}
                                     onChange={e => setNewTask({...newTask, command: e.target.value})}
                                 />
+                                <p className="text-[10px] text-muted-foreground mt-1">Use <code>backup</code> or <code>restart</code> for built-in actions, or build a workflow below.</p>
+                            </div>
+                            )}
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <label className="text-xs font-medium text-muted-foreground flex items-center gap-1"><ListOrdered size={12} /> Workflow Steps</label>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => setSteps(NIGHTLY_RESTART_PRESET)} className="text-[10px] text-blue-400 hover:underline">Nightly restart preset</button>
+                                        <button onClick={() => setSteps([...steps, { type: 'command', command: '' }])} className="text-[10px] text-primary hover:underline">+ Add step</button>
+                                    </div>
+                                </div>
+                                {steps.map((step, i) => (
+                                    <div key={i} className="bg-secondary/40 border border-border/50 rounded-lg p-2 space-y-2">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-[10px] font-mono text-muted-foreground w-4">{i + 1}.</span>
+                                            <select
+                                                className="flex-1 bg-secondary border border-border rounded px-2 py-1 text-xs focus:outline-none"
+                                                value={step.type}
+                                                onChange={e => updateStep(i, { type: e.target.value as ScheduleStepType })}
+                                            >
+                                                {Object.entries(STEP_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                            </select>
+                                            <select
+                                                className="bg-secondary border border-border rounded px-2 py-1 text-xs focus:outline-none"
+                                                value={step.onFailure || 'abort'}
+                                                onChange={e => updateStep(i, { onFailure: e.target.value as ScheduleStep['onFailure'] })}
+                                                title="On failure"
+                                            >
+                                                <option value="abort">Abort</option>
+                                                <option value="continue">Continue</option>
+                                                <option value="retry">Retry</option>
+                                            </select>
+                                            <button onClick={() => moveStep(i, -1)} className="p-1 text-muted-foreground hover:text-foreground"><ArrowUp size={12} /></button>
+                                            <button onClick={() => moveStep(i, 1)} className="p-1 text-muted-foreground hover:text-foreground"><ArrowDown size={12} /></button>
+                                            <button onClick={() => setSteps(steps.filter((_, j) => j !== i))} className="p-1 text-muted-foreground hover:text-destructive"><X size={12} /></button>
+                                        </div>
+                                        {step.type === 'command' && (
+                                            <div className="flex gap-2">
+                                                <input type="text" className="flex-1 bg-secondary border border-border rounded px-2 py-1 text-xs font-mono focus:outline-none" placeholder="save-all" value={step.command || ''} onChange={e => updateStep(i, { command: e.target.value })} />
+                                                <input type="number" min={0} max={60} title="Seconds of console output to capture" className="w-16 bg-secondary border border-border rounded px-2 py-1 text-xs font-mono focus:outline-none" placeholder="3s" value={step.captureSeconds ?? ''} onChange={e => updateStep(i, { captureSeconds: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })} />
+                                            </div>
+                                        )}
+                                        {step.type === 'broadcast' && (
+                                            <input type="text" className="w-full bg-secondary border border-border rounded px-2 py-1 text-xs focus:outline-none" placeholder="Restarting in 5 minutes" value={step.message || ''} onChange={e => updateStep(i, { message: e.target.value })} />
+                                        )}
+                                        {step.type === 'wait' && (
+                                            <input type="number" min={1} className="w-full bg-secondary border border-border rounded px-2 py-1 text-xs font-mono focus:outline-none" placeholder="Seconds" value={step.seconds || ''} onChange={e => updateStep(i, { seconds: parseInt(e.target.value) || 0 })} />
+                                        )}
+                                        {step.type === 'backup' && (
+                                            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                                                <input type="checkbox" checked={!!step.worldOnly} onChange={e => updateStep(i, { worldOnly: e.target.checked })} /> World only
+                                            </label>
+                                        )}
+                                        {step.type === 'await-status' && (
+                                            <select className="w-full bg-secondary border border-border rounded px-2 py-1 text-xs focus:outline-none" value={step.status || 'ONLINE'} onChange={e => updateStep(i, { status: e.target.value as ScheduleStep['status'] })}>
+                                                <option value="ONLINE">ONLINE</option>
+                                                <option value="OFFLINE">OFFLINE</option>
+                                            </select>
+                                        )}
+                                    </div>
+                                ))}
                             </div>
                             <div className="flex gap-2 pt-2">
                                 <button onClick={handleCreate} className="flex-1 bg-primary text-primary-foreground py-2 rounded-lg text-xs font-medium hover:bg-primary/90">Save Task</button>
-                                <button onClick={() => setIsCreating(false)} className="flex-1 bg-secondary text-foreground py-2 rounded-lg text-xs font-medium hover:bg-secondary/80">Cancel</button>
+                                <button onClick={() => { setIsCreating(false); setSteps([]); setTrigger(DEFAULT_TRIGGER); }} className="flex-1 bg-secondary text-foreground py-2 rounded-lg text-xs font-medium hover:bg-secondary/80">Cancel</button>
                             </div>
                         </div>
                     ) : (
@@ -162,6 +399,8 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                         <li className="flex justify-between"><span>0 * * * *</span> <span>Every hour</span></li>
                         <li className="flex justify-between"><span>0 0 * * *</span> <span>Daily at midnight</span></li>
                         <li className="flex justify-between"><span>0 0 * * FRI</span> <span>Every Friday</span></li>
+                        <li className="flex justify-between"><span>0 4 * * 1-5</span> <span>Weekdays at 4am</span></li>
+                        <li className="flex justify-between"><span>@daily</span> <span>Daily at midnight</span></li>
                     </ul>
                 </div>
             </div>
@@ -188,8 +427,19 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                                         {!task.isActive && <span className="text-[10px] bg-secondary px-1.5 py-0.5 rounded text-muted-foreground">DISABLED</span>}
                                     </h3>
                                     <div className="flex items-center gap-2 mt-1">
-                                        <code className="bg-secondary px-1.5 py-0.5 rounded text-xs font-mono text-emerald-500">{task.cron}</code>
-                                        <span className="text-xs text-muted-foreground">Next run: {task.nextRun}</span>
+                                        {task.trigger?.type === 'event' ? (
+                                            <>
+                                                <code className="bg-secondary px-1.5 py-0.5 rounded text-xs font-mono text-amber-500 flex items-center gap-1"><Zap size={10} /> {task.trigger.event && EVENT_LABELS[task.trigger.event]}{task.trigger.status ? `: ${task.trigger.status}` : ''}{task.trigger.event === 'diagnosis' ? `: ${task.trigger.severity || 'CRITICAL'}+` : ''}</code>
+                                                {!!task.trigger.cooldownSeconds && <span className="text-[10px] bg-secondary px-1.5 py-0.5 rounded text-muted-foreground">cooldown {task.trigger.cooldownSeconds}s</span>}
+                                            </>
+                                        ) : (
+                                            <>
+                                                <code className="bg-secondary px-1.5 py-0.5 rounded text-xs font-mono text-emerald-500">{task.cron}</code>
+                                                {task.timezone && <span className="text-[10px] bg-secondary px-1.5 py-0.5 rounded text-muted-foreground">{task.timezone}</span>}
+                                                {task.missedRunPolicy && task.missedRunPolicy !== 'skip' && <span className="text-[10px] bg-secondary px-1.5 py-0.5 rounded text-muted-foreground">catch-up: {task.missedRunPolicy}</span>}
+                                                <span className="text-xs text-muted-foreground">Next run: {task.isActive ? formatRunTime(task.nextRun) : 'Paused'}</span>
+                                            </>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -210,14 +460,27 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                             </div>
                         </div>
                         
+                        {task.steps && task.steps.length > 0 ? (
+                            <div className="bg-secondary/30 rounded-lg p-3 border border-border/50 space-y-1">
+                                {task.steps.map((step, i) => (
+                                    <div key={i} className="flex items-center gap-3 text-xs">
+                                        <span className="font-mono text-muted-foreground w-4">{i + 1}.</span>
+                                        <span className="font-medium">{STEP_LABELS[step.type]}</span>
+                                        <code className="font-mono text-muted-foreground flex-1 truncate">{describeStep(step)}</code>
+                                        {step.onFailure && step.onFailure !== 'abort' && <span className="text-[10px] uppercase text-amber-500">{step.onFailure}</span>}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
                         <div className="bg-secondary/30 rounded-lg p-3 flex items-center gap-3 border border-border/50">
                             <Command size={14} className="text-muted-foreground shrink-0" />
                             <code className="text-sm font-mono text-foreground flex-1 truncate">{task.command}</code>
                         </div>
+                        )}
                         
                         <div className="mt-3 flex items-center justify-between text-xs text-muted-foreground">
                             <div className="flex items-center gap-2">
-                                <span>Last run: {task.lastRun}</span>
+                                <span>Last run: {formatRunTime(task.lastRun)}</span>
                                 {getLastRunStatus(task.name) === 'success' && <Check size={12} className="text-emerald-500" />}
                                 {getLastRunStatus(task.name) === 'error' && <X size={12} className="text-rose-500" />}
                             </div>
@@ -229,7 +492,21 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
 
             {/* History Panel */}
             <div className="lg:col-span-3 bg-card border border-border rounded-xl p-6">
-                <h3 className="font-bold mb-4 flex items-center gap-2"><Clock size={16} /> Execution Audit Log</h3>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="font-bold flex items-center gap-2"><Clock size={16} /> Execution Audit Log</h3>
+                    <div className="flex items-center gap-2">
+                        <select
+                            className="bg-secondary border border-border rounded-lg px-2 py-1.5 text-xs focus:outline-none"
+                            value={historyTaskFilter}
+                            onChange={e => { setHistoryTaskFilter(e.target.value); setHistoryPage(0); setExpandedHistory(null); }}
+                        >
+                            <option value="">All tasks</option>
+                            {tasks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                        <button onClick={() => handleExport('csv')} className="bg-secondary hover:bg-secondary/80 px-2 py-1.5 rounded-lg text-xs flex items-center gap-1"><Download size={12} /> CSV</button>
+                        <button onClick={() => handleExport('json')} className="bg-secondary hover:bg-secondary/80 px-2 py-1.5 rounded-lg text-xs flex items-center gap-1"><Download size={12} /> JSON</button>
+                    </div>
+                </div>
                 <div className="overflow-x-auto">
                     <table className="w-full text-sm text-left">
                         <thead className="text-xs text-muted-foreground uppercase bg-secondary/50">
@@ -237,16 +514,21 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                                 <th className="px-4 py-3">Time</th>
                                 <th className="px-4 py-3">Task</th>
                                 <th className="px-4 py-3">Status</th>
+                                <th className="px-4 py-3">Duration</th>
                                 <th className="px-4 py-3">Message</th>
                             </tr>
                         </thead>
                         <tbody>
                             {history.length === 0 ? (
-                                <tr><td colSpan={4} className="text-center py-4 text-muted-foreground">No execution history found.</td></tr>
+                                <tr><td colSpan={5} className="text-center py-4 text-muted-foreground">No execution history found.</td></tr>
                             ) : history.map((h, i) => (
-                                <tr key={i} className="border-b border-border/50 hover:bg-secondary/20">
+                                <React.Fragment key={i}>
+                                <tr className={`border-b border-border/50 hover:bg-secondary/20 ${h.steps ? 'cursor-pointer' : ''}`} onClick={() => h.steps && setExpandedHistory(expandedHistory === i ? null : i)}>
                                     <td className="px-4 py-3 font-mono text-xs">{new Date(h.timestamp).toLocaleString()}</td>
-                                    <td className="px-4 py-3 font-medium">{h.task}</td>
+                                    <td className="px-4 py-3 font-medium">
+                                        {h.task}
+                                        {h.trigger && h.trigger !== 'cron' && <span className="ml-2 text-[10px] text-amber-500 font-mono">{h.trigger.replace('event:', '')}</span>}
+                                    </td>
                                     <td className="px-4 py-3">
                                         {h.success ? (
                                             <span className="bg-emerald-500/10 text-emerald-500 px-2 py-0.5 rounded text-[10px] font-bold">SUCCESS</span>
@@ -254,12 +536,46 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ serverId }) => {
                                             <span className="bg-rose-500/10 text-rose-500 px-2 py-0.5 rounded text-[10px] font-bold">FAILED</span>
                                         )}
                                     </td>
+                                    <td className="px-4 py-3 font-mono text-xs text-muted-foreground">{h.durationMs !== undefined ? `${(h.durationMs / 1000).toFixed(1)}s` : '-'}</td>
                                     <td className="px-4 py-3 text-muted-foreground truncate max-w-xs">{h.message}</td>
                                 </tr>
+                                {expandedHistory === i && h.steps && (
+                                    <tr className="bg-secondary/10">
+                                        <td colSpan={5} className="px-8 py-3">
+                                            <div className="space-y-1">
+                                                {h.steps.map(step => (
+                                                    <div key={step.index}>
+                                                    <div className="flex items-center gap-3 text-xs">
+                                                        {step.skipped ? <span className="w-3 text-muted-foreground">-</span> : step.success ? <Check size={12} className="text-emerald-500" /> : <X size={12} className="text-rose-500" />}
+                                                        <span className="font-mono text-muted-foreground w-4">{step.index + 1}.</span>
+                                                        <span className="font-medium w-28">{STEP_LABELS[step.type as ScheduleStepType] || step.type}</span>
+                                                        <span className="text-muted-foreground flex-1 truncate">{step.message}</span>
+                                                        {step.attempts > 1 && <span className="text-[10px] text-amber-500">{step.attempts} attempts</span>}
+                                                        <span className="font-mono text-[10px] text-muted-foreground">{(step.durationMs / 1000).toFixed(1)}s</span>
+                                                    </div>
+                                                    {step.output && (
+                                                        <pre className="mt-1 ml-12 bg-black/40 rounded-lg px-3 py-2 text-[10px] font-mono text-muted-foreground whitespace-pre-wrap max-h-40 overflow-y-auto">
+                                                            {step.output.length > 0 ? step.output.join('\n') : 'No console output captured.'}
+                                                        </pre>
+                                                    )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                                </React.Fragment>
                             ))}
                         </tbody>
                     </table>
                 </div>
+                {historyTotal > HISTORY_PAGE_SIZE && (
+                    <div className="flex items-center justify-end gap-3 mt-4 text-xs text-muted-foreground">
+                        <span>{historyPage * HISTORY_PAGE_SIZE + 1}-{Math.min((historyPage + 1) * HISTORY_PAGE_SIZE, historyTotal)} of {historyTotal}</span>
+                        <button disabled={historyPage === 0} onClick={() => { setHistoryPage(historyPage - 1); setExpandedHistory(null); }} className="p-1 rounded hover:bg-secondary disabled:opacity-30"><ChevronLeft size={14} /></button>
+                        <button disabled={(historyPage + 1) * HISTORY_PAGE_SIZE >= historyTotal} onClick={() => { setHistoryPage(historyPage + 1); setExpandedHistory(null); }} className="p-1 rounded hover:bg-secondary disabled:opacity-30"><ChevronRight size={14} /></button>
+                    </div>
+                )}
             </div>
         </div>
     );
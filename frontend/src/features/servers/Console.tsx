@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
-import { LogEntry, ServerStatus } from '@shared/types';
-import { Play, Pause, Trash2, ArrowRight, Power, Ban, RotateCcw, ArrowDown, Terminal as TerminalIcon, Wifi } from 'lucide-react';
+import { LogEntry, ServerStatus, ConsoleSession, ConsoleLogLine } from '@shared/types';
+import { Play, Pause, Trash2, ArrowRight, Power, Ban, RotateCcw, ArrowDown, Terminal as TerminalIcon, Wifi, History } from 'lucide-react';
 
 import { API } from '@core/services/api';
 import { socketService } from '@core/services/socket';
@@ -9,6 +9,7 @@ import { useToast } from '../ui/Toast';
 import { useUser } from '@features/auth/context/UserContext';
 import { useCollaboration } from '@features/collaboration/context/CollaborationContext';
 import PresenceBar from '../collaboration/PresenceBar';
+import ConsoleHistoryPanel from './ConsoleHistoryPanel';
 import { UserRole } from '@shared/types';
 
 interface ConsoleProps {
@@ -32,6 +33,9 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
     const [command, setCommand] = useState('');
     const [isPaused, setIsPaused] = useState(false);
     const [userHasScrolledUp, setUserHasScrolledUp] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    // A previous run opened from the history panel; live output keeps buffering underneath
+    const [archivedRun, setArchivedRun] = useState<{ session: ConsoleSession, logs: LogEntry[] } | null>(null);
     
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const endRef = useRef<HTMLDivElement>(null);
@@ -93,7 +97,7 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
         if (isPaused || userHasScrolledUp) return;
         const reducedMotion = user?.preferences?.reducedMotion ?? false;
         endRef.current?.scrollIntoView({ behavior: reducedMotion ? 'instant' : 'instant' }); 
-    }, [logs, isPaused, userHasScrolledUp, user?.preferences?.reducedMotion]);
+    }, [logs, archivedRun, isPaused, userHasScrolledUp, user?.preferences?.reducedMotion]);
 
     const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
         const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
@@ -144,7 +148,23 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
     };
 
 
-    const visibleLogs = logs.slice(-250);
+    const openArchivedRun = (session: ConsoleSession, lines: ConsoleLogLine[]) => {
+        setArchivedRun({
+            session,
+            logs: lines.map((line, i) => ({
+                id: `${session.id}-${i}`,
+                timestamp: new Date(line.timestamp).toLocaleTimeString('en-US', { hour12: false }),
+                level: line.level,
+                message: line.line
+            }))
+        });
+        setShowHistory(false);
+        setUserHasScrolledUp(false);
+    };
+
+    // Archived runs are shown in full; the live buffer is capped for performance
+    const shownLogs = archivedRun ? archivedRun.logs : logs;
+    const visibleLogs = archivedRun ? shownLogs : logs.slice(-250);
 
     return (
         <div className="flex flex-col h-[calc(100vh-120px)] rounded-xl border border-border bg-card overflow-hidden shadow-2xl animate-fade-in ring-1 ring-border/50 relative">
@@ -217,6 +237,13 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
                         >
                             {isPaused ? <Play size={14} /> : <Pause size={14} />}
                         </button>
+                        <button 
+                            onClick={() => setShowHistory(!showHistory)}
+                            className={`p-2 rounded-md border border-transparent hover:border-border transition-colors ${showHistory || archivedRun ? 'bg-secondary text-foreground' : 'text-muted-foreground hover:bg-secondary'}`}
+                            title="Previous Runs & Search"
+                        >
+                            <History size={14} />
+                        </button>
                         <button 
                             onClick={() => setLogs([])}
                             className="p-2 rounded-md border border-transparent hover:border-border text-muted-foreground hover:bg-secondary hover:text-destructive transition-colors"
@@ -245,6 +272,16 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
                 </div>
             )}
 
+            {archivedRun && (
+                <div className="bg-secondary/40 border-b border-border px-4 py-2 flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">
+                        Viewing run from <span className="text-foreground font-medium">{new Date(archivedRun.session.startedAt).toLocaleString()}</span>
+                        {archivedRun.session.lines > archivedRun.logs.length && ` (last ${archivedRun.logs.length.toLocaleString()} of ${archivedRun.session.lines.toLocaleString()} lines)`}
+                    </span>
+                    <button onClick={() => setArchivedRun(null)} className={`font-bold ${theme.text}`}>Back to live</button>
+                </div>
+            )}
+
             {/* Log Output Area */}
             <div 
                 ref={scrollContainerRef}
@@ -293,7 +330,7 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
                     </div>
                 ))}
                 
-                {logs.length > visibleLogs.length && (
+                {shownLogs.length > visibleLogs.length && (
                     <div className="text-center py-2 text-xs text-muted-foreground/40 italic">
                         --- Older logs hidden for performance ---
                     </div>
@@ -302,6 +339,10 @@ const Console: React.FC<ConsoleProps> = ({ serverId }) => {
                 <div ref={endRef} />
             </div>
 
+            {showHistory && (
+                <ConsoleHistoryPanel serverId={serverId} onClose={() => setShowHistory(false)} onOpenSession={openArchivedRun} />
+            )}
+
             {/* Command Input */}
             <div className="bg-muted/30 p-3 border-t border-border z-10">
                 {canWrite ? (
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { ConsoleSession, ConsoleLogLine, ConsoleLogLevel, ConsoleLogSearchResult } from '@shared/types';
+import { X, Search, Loader2, History, Regex } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface ConsoleHistoryPanelProps {
+    serverId: string;
+    onClose: () => void;
+    onOpenSession: (session: ConsoleSession, lines: ConsoleLogLine[]) => void;
+}
+
+const LEVELS: ConsoleLogLevel[] = ['INFO', 'WARN', 'ERROR', 'DEBUG'];
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString('en-US', { hour12: false, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const sessionOutcome = (session: ConsoleSession) => {
+    if (!session.endedAt) return { label: 'Running', className: 'text-emerald-400' };
+    if (session.interrupted) return { label: 'Interrupted', className: 'text-amber-400' };
+    if (session.exitCode && session.exitCode !== 0) return { label: `Exit ${session.exitCode}`, className: 'text-rose-400' };
+    return { label: 'Stopped', className: 'text-zinc-500' };
+};
+
+/**
+ * Console output of previous runs, kept by the panel's log archive. Sessions can
+ * be opened in the console or searched by text/regex, level and time range.
+ */
+const ConsoleHistoryPanel: React.FC<ConsoleHistoryPanelProps> = ({ serverId, onClose, onOpenSession }) => {
+    const { addToast } = useToast();
+    const [sessions, setSessions] = useState<ConsoleSession[]>([]);
+    const [text, setText] = useState('');
+    const [regex, setRegex] = useState(false);
+    const [levels, setLevels] = useState<ConsoleLogLevel[]>([]);
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [result, setResult] = useState<ConsoleLogSearchResult | null>(null);
+    const [searching, setSearching] = useState(false);
+    const [opening, setOpening] = useState<string | null>(null);
+
+    useEffect(() => {
+        API.getConsoleSessions(serverId).then(setSessions).catch(() => setSessions([]));
+    }, [serverId]);
+
+    const toggleLevel = (level: ConsoleLogLevel) => {
+        setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+    };
+
+    const handleSearch = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSearching(true);
+        try {
+            setResult(await API.searchConsoleLogs(serverId, {
+                text: text || undefined,
+                regex,
+                levels,
+                from: from ? new Date(from).getTime() : undefined,
+                to: to ? new Date(to).getTime() : undefined
+            }));
+        } catch (err: any) {
+            addToast('error', 'Search Failed', err.message);
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    const openSession = async (sessionId: string) => {
+        setOpening(sessionId);
+        try {
+            const { session, lines } = await API.getConsoleSession(serverId, sessionId);
+            onOpenSession(session, lines);
+        } catch (err: any) {
+            addToast('error', 'History', err.message);
+        } finally {
+            setOpening(null);
+        }
+    };
+
+    return (
+        <div className="absolute inset-y-0 right-0 w-full sm:w-[420px] bg-card border-l border-border shadow-2xl z-30 flex flex-col animate-in slide-in-from-right-4">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted/30">
+                <div className="flex items-center gap-2">
+                    <History size={16} />
+                    <h3 className="text-sm font-bold">Console History</h3>
+                </div>
+                <button onClick={onClose} className="p-1.5 rounded-md text-muted-foreground hover:bg-secondary" title="Close">
+                    <X size={14} />
+                </button>
+            </div>
+
+            <form onSubmit={handleSearch} className="p-4 space-y-3 border-b border-border">
+                <div className="flex gap-2">
+                    <div className="flex-1 flex items-center gap-2 bg-background border border-border rounded-lg px-2.5 py-1.5">
+                        <Search size={12} className="text-muted-foreground" />
+                        <input
+                            type="text"
+                            value={text}
+                            onChange={e => setText(e.target.value)}
+                            placeholder={regex ? 'Regular expression...' : 'Search all runs...'}
+                            className="flex-1 bg-transparent text-xs font-mono focus:outline-none"
+                        />
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => setRegex(!regex)}
+                        className={`p-2 rounded-lg border ${regex ? 'border-primary/50 bg-primary/10 text-primary' : 'border-border text-muted-foreground hover:bg-secondary'}`}
+                        title="Regular expression"
+                    >
+                        <Regex size={12} />
+                    </button>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {LEVELS.map(level => (
+                        <button
+                            key={level}
+                            type="button"
+                            onClick={() => toggleLevel(level)}
+                            className={`px-2 py-0.5 rounded text-[10px] font-bold border ${levels.includes(level) ? 'bg-secondary border-border text-foreground' : 'border-transparent text-muted-foreground hover:bg-secondary/50'}`}
+                        >
+                            {level}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <input type="datetime-local" value={from} onChange={e => setFrom(e.target.value)} className="bg-background border border-border rounded-lg px-2 py-1 text-[11px]" title="From" />
+                    <input type="datetime-local" value={to} onChange={e => setTo(e.target.value)} className="bg-background border border-border rounded-lg px-2 py-1 text-[11px]" title="To" />
+                </div>
+                <button
+                    type="submit"
+                    disabled={searching}
+                    className="w-full bg-secondary hover:bg-secondary/80 py-1.5 rounded-lg text-xs font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                    {searching ? <Loader2 size={12} className="animate-spin" /> : <Search size={12} />} Search
+                </button>
+            </form>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {result ? (
+                    <>
+                        <div className="flex items-center justify-between text-[10px] text-muted-foreground uppercase font-bold">
+                            <span>{result.matches.length} matches in {result.sessionsSearched} runs{result.truncated ? ' (newest shown)' : ''}{result.timedOut ? ' (search stopped early, narrow the query)' : ''}</span>
+                            <button onClick={() => setResult(null)} className="hover:text-foreground">Back to runs</button>
+                        </div>
+                        {result.matches.map((match, i) => (
+                            <button
+                                key={`${match.sessionId}-${match.timestamp}-${i}`}
+                                onClick={() => openSession(match.sessionId)}
+                                className="w-full text-left p-2 rounded-lg bg-[#09090b] hover:ring-1 hover:ring-border font-mono text-[11px]"
+                                title="Open this run"
+                            >
+                                <div className="flex gap-2 text-[10px] text-muted-foreground/60 mb-0.5">
+                                    <span>{formatDate(match.timestamp)}</span>
+                                    <span className={match.level === 'ERROR' ? 'text-rose-500' : match.level === 'WARN' ? 'text-amber-500' : 'text-emerald-500'}>{match.level}</span>
+                                </div>
+                                <div className="text-zinc-400 break-all">{match.line}</div>
+                            </button>
+                        ))}
+                    </>
+                ) : sessions.length === 0 ? (
+                    <p className="text-xs text-muted-foreground text-center py-8">No archived runs yet.</p>
+                ) : (
+                    sessions.map(session => {
+                        const outcome = sessionOutcome(session);
+                        return (
+                            <button
+                                key={session.id}
+                                onClick={() => openSession(session.id)}
+                                disabled={opening !== null}
+                                className="w-full flex items-center gap-3 p-2.5 rounded-lg border border-border hover:bg-secondary/50 text-left text-xs disabled:opacity-60"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-medium">{formatDate(session.startedAt)}{session.endedAt ? ` – ${formatDate(session.endedAt)}` : ''}</div>
+                                    <div className="text-[10px] text-muted-foreground">{session.lines.toLocaleString()} lines</div>
+                                </div>
+                                {opening === session.id
+                                    ? <Loader2 size={12} className="animate-spin" />
+                                    : <span className={`text-[10px] font-bold uppercase ${outcome.className}`}>{outcome.label}</span>}
+                            </button>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ConsoleHistoryPanel;
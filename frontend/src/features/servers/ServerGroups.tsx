@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { ServerGroup, ServerGroupOperation, ServerGroupOperationResult, ServerConfig } from '@shared/types';
+import { Boxes, Plus, Play, Square, RotateCw, Trash2, Check, X, SkipForward, Loader2 } from 'lucide-react';
+import { API } from '@core/services/api';
+import { useToast } from '../ui/Toast';
+
+interface ServerGroupsProps {
+    servers: ServerConfig[];
+}
+
+type GroupWithResult = ServerGroup & { lastOperation?: ServerGroupOperationResult };
+
+const EMPTY_FORM = { name: '', description: '', serverIds: [] as string[] };
+
+/**
+ * ServerGroups — named sets of servers started, stopped or restarted as a unit,
+ * in the order given by each server's start/stop dependencies.
+ */
+const ServerGroups: React.FC<ServerGroupsProps> = ({ servers }) => {
+    const { addToast } = useToast();
+    const [groups, setGroups] = useState<GroupWithResult[]>([]);
+    const [editing, setEditing] = useState<string | null>(null); // group id, or 'new'
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const fetchData = async () => {
+        try {
+            setGroups(await API.getServerGroups());
+        } catch (e) {
+            // Non-admins cannot manage groups
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    // Poll while an operation is running so its steps show up as they finish
+    const running = groups.some(g => g.lastOperation?.status === 'RUNNING');
+    useEffect(() => {
+        if (!running) return;
+        const interval = setInterval(fetchData, 2000);
+        return () => clearInterval(interval);
+    }, [running]);
+
+    const serverName = (id: string) => servers.find(s => s.id === id)?.name || id;
+
+    const toggleServer = (id: string) => setForm({
+        ...form,
+        serverIds: form.serverIds.includes(id) ? form.serverIds.filter(s => s !== id) : [...form.serverIds, id]
+    });
+
+    const startEditing = (group?: ServerGroup) => {
+        setEditing(group ? group.id : 'new');
+        setForm(group ? { name: group.name, description: group.description || '', serverIds: group.serverIds } : EMPTY_FORM);
+    };
+
+    const handleSave = async () => {
+        if (!form.name.trim()) return;
+        try {
+            const payload = { name: form.name, description: form.description || undefined, serverIds: form.serverIds };
+            if (editing === 'new') await API.createServerGroup(payload);
+            else await API.updateServerGroup(editing!, payload);
+            setEditing(null);
+            setForm(EMPTY_FORM);
+            await fetchData();
+            addToast('success', 'Group Saved', `${form.name} contains ${form.serverIds.length} server(s).`);
+        } catch (e: any) {
+            addToast('error', 'Save Failed', e.message || 'Could not save group.');
+        }
+    };
+
+    const deleteGroup = async (group: ServerGroup) => {
+        if (!confirm(`Delete group "${group.name}"? Its servers are not affected.`)) return;
+        try {
+            await API.deleteServerGroup(group.id);
+            await fetchData();
+        } catch (e: any) {
+            addToast('error', 'Delete Failed', e.message || 'Could not delete group.');
+        }
+    };
+
+    const runOperation = async (group: ServerGroup, operation: ServerGroupOperation) => {
+        if (operation !== 'start' && !confirm(`${operation === 'stop' ? 'Stop' : 'Restart'} all ${group.serverIds.length} server(s) in "${group.name}"?`)) return;
+        try {
+            await API.runServerGroupOperation(group.id, operation);
+            setExpanded(group.id);
+            await fetchData();
+            addToast('info', 'Group Operation Started', `${operation} of ${group.name} runs in dependency order.`);
+        } catch (e: any) {
+            addToast('error', 'Operation Failed', e.message || `Could not ${operation} group.`);
+        }
+    };
+
+    const chip = (active: boolean) => `px-2 py-1 rounded-md text-[10px] font-medium border transition-colors ${active ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground'}`;
+
+    const stepIcon = (status: string) => {
+        if (status === 'DONE') return <Check size={10} className="text-emerald-500" />;
+        if (status === 'SKIPPED') return <SkipForward size={10} className="text-muted-foreground" />;
+        return <X size={10} className="text-rose-500" />;
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium text-foreground flex items-center gap-2">
+                    <Boxes size={16} className="text-muted-foreground" /> Server Groups
+                </h2>
+                {!editing && (
+                    <button onClick={() => startEditing()} className="text-[10px] font-black uppercase tracking-widest text-primary hover:underline flex items-center gap-1">
+                        <Plus size={12} /> New Group
+                    </button>
+                )}
+            </div>
+
+            {editing && (
+                <div className="bg-card border border-border rounded-xl p-5 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm focus:outline-none" placeholder="Group name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+                        <input className="bg-secondary border border-border rounded-lg px-3 py-2 text-sm focus:outline-none" placeholder="Description (optional)" value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} />
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Servers</div>
+                        <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+                            {servers.map(server => (
+                                <button key={server.id} onClick={() => toggleServer(server.id)} className={chip(form.serverIds.includes(server.id))}>{server.name}</button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-muted-foreground">Start order comes from each server's dependencies (Settings → Dependencies).</p>
+                    </div>
+
+                    <div className="flex justify-end gap-2 pt-2 border-t border-border">
+                        <button onClick={handleSave} className="bg-primary text-primary-foreground px-4 py-2 rounded-lg text-xs font-medium hover:bg-primary/90">Save</button>
+                        <button onClick={() => { setEditing(null); setForm(EMPTY_FORM); }} className="bg-secondary text-foreground px-4 py-2 rounded-lg text-xs font-medium hover:bg-secondary/80">Cancel</button>
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {groups.map(group => {
+                    const op = group.lastOperation;
+                    const isRunning = op?.status === 'RUNNING';
+                    return (
+                        <div key={group.id} className="bg-card border border-border p-4 rounded-2xl space-y-2">
+                            <div className="flex items-start justify-between">
+                                <div className="min-w-0">
+                                    <div className="text-xs font-bold text-foreground">{group.name}</div>
+                                    {group.description && <div className="text-[10px] text-muted-foreground truncate">{group.description}</div>}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <button disabled={isRunning} onClick={() => runOperation(group, 'start')} title="Start" className="p-1.5 rounded-lg text-emerald-500 hover:bg-emerald-500/10 disabled:opacity-40"><Play size={14} /></button>
+                                    <button disabled={isRunning} onClick={() => runOperation(group, 'restart')} title="Restart" className="p-1.5 rounded-lg text-amber-500 hover:bg-amber-500/10 disabled:opacity-40"><RotateCw size={14} /></button>
+                                    <button disabled={isRunning} onClick={() => runOperation(group, 'stop')} title="Stop" className="p-1.5 rounded-lg text-rose-500 hover:bg-rose-500/10 disabled:opacity-40"><Square size={14} /></button>
+                                    <button onClick={() => startEditing(group)} className="px-2 py-1 rounded-lg text-[10px] font-medium text-muted-foreground hover:text-foreground">Edit</button>
+                                    <button onClick={() => deleteGroup(group)} className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10"><Trash2 size={14} /></button>
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {group.serverIds.map(id => (
+                                    <span key={id} className="bg-secondary px-1.5 py-0.5 rounded text-[10px] font-mono">{serverName(id)}</span>
+                                ))}
+                                {group.serverIds.length === 0 && <span className="text-[10px] text-muted-foreground italic">No servers</span>}
+                            </div>
+                            {op && (
+                                <div className="pt-2 border-t border-border/50">
+                                    <button className="w-full flex items-center gap-2 text-[10px] text-left text-muted-foreground" onClick={() => setExpanded(expanded === group.id ? null : group.id)}>
+                                        {isRunning ? <Loader2 size={10} className="animate-spin text-primary" /> : op.status === 'COMPLETED' ? <Check size={10} className="text-emerald-500" /> : <X size={10} className="text-rose-500" />}
+                                        <span className="font-medium uppercase">{op.operation}</span>
+                                        <span>{isRunning ? 'running…' : op.status.toLowerCase()}</span>
+                                        <span className="ml-auto font-mono">{new Date(op.startedAt).toLocaleTimeString()}</span>
+                                    </button>
+                                    {expanded === group.id && (
+                                        <div className="mt-2 space-y-1">
+                                            {op.steps.map((step, i) => (
+                                                <div key={i} className="flex items-center gap-2 text-[11px]">
+                                                    {stepIcon(step.status)}
+                                                    <span className="text-muted-foreground w-10">{step.action}</span>
+                                                    <span className="font-medium w-32 truncate">{step.serverId ? serverName(step.serverId) : group.name}</span>
+                                                    <span className="text-muted-foreground truncate">{step.message}</span>
+                                                </div>
+                                            ))}
+                                            {op.steps.length === 0 && <div className="text-[11px] text-muted-foreground italic">Waiting for the first server…</div>}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                {groups.length === 0 && !editing && (
+                    <div className="col-span-full py-8 text-center border border-dashed border-border rounded-2xl text-muted-foreground text-xs font-medium italic">
+                        No server groups configured.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ServerGroups;
@@ -336,6 +336,18 @@ const ServerSelection: React.FC<ServerSelectionProps> = ({
                                                 <span>Analysis Required</span>
                                             </div>
                                         )}
+                                        {server.status === 'CRASH_LOOP' && (
+                                            <div className="flex items-center gap-1.5 px-2 py-0.5 bg-rose-600 text-white rounded text-[9px] font-bold uppercase tracking-tight shadow-sm whitespace-nowrap">
+                                                <AlertTriangle size={10} className="stroke-[3px]" />
+                                                <span>Crash Loop</span>
+                                            </div>
+                                        )}
+                                        {server.status === 'DEGRADED' && (
+                                            <div className="flex items-center gap-1.5 px-2 py-0.5 bg-amber-500 text-white rounded text-[9px] font-bold uppercase tracking-tight shadow-sm whitespace-nowrap">
+                                                <AlertTriangle size={10} className="stroke-[3px]" />
+                                                <span>Degraded</span>
+                                            </div>
+                                        )}
 
                                         <div className="flex items-center gap-3">
                                             {/* Delete Button (Visible on Hover) */}
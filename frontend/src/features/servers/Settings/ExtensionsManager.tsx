@@ -15,6 +15,7 @@ const AVAILABLE_TRIGGERS: { value: WebhookTrigger; label: string; description: s
     { value: 'SERVER_START', label: 'Server Start', description: 'Triggered when the server finishes starting up.' },
     { value: 'SERVER_STOP', label: 'Server Stop', description: 'Triggered when the server is stopped.' },
     { value: 'SERVER_CRASH', label: 'Server Crash', description: 'Triggered when the server process crashes.' },
+    { value: 'SERVER_CRASH_LOOP', label: 'Crash Loop', description: 'Triggered when the server keeps crashing and automatic restarts stop.' },
     { value: 'BACKUP_COMPLETE', label: 'Backup Complete', description: 'Triggered after a successful backup.' },
     { value: 'PLAYER_JOIN', label: 'Player Join', description: 'Triggered when a player connects to the server.' },
     { value: 'PLAYER_LEAVE', label: 'Player Leave', description: 'Triggered when a player disconnects.' },
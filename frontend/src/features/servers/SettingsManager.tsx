@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { Server, Save, Terminal, Lock, Unlock, Folder, Play, Clock, Shield, Globe, Cpu, RotateCcw, Gamepad2, Swords, Ghost, Feather, ScrollText, AlertTriangle, AlertCircle, Fingerprint, Network, ShieldAlert, Key, Zap, ArrowRightLeft, Activity, ChevronDown, Check, Download, ExternalLink, Bot, X, Info, Plus, Minus, Database, Image, Upload } from 'lucide-react';
+import { Server, Save, Terminal, Lock, Unlock, Folder, Play, Clock, Shield, Globe, Cpu, RotateCcw, Gamepad2, Swords, Ghost, Feather, ScrollText, AlertTriangle, AlertCircle, Fingerprint, Network, ShieldAlert, Key, Zap, ArrowRightLeft, Activity, ChevronDown, Check, Download, ExternalLink, Bot, X, Info, Plus, Minus, Database, Image, Upload, RefreshCw, GitBranch } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { STAGGER_CONTAINER, STAGGER_ITEM, MOTION_SPRINGS } from '../../styles/motion';
 import { ServerStatus } from '@shared/types';
@@ -12,7 +12,7 @@ import { useUser } from '@features/auth/context/UserContext';
 import { getServerCapabilities } from '@shared/utils/CapabilityUtils';
 import { NetworkSettings } from '../system/NetworkSettings';
 
-import { SecurityConfig } from '@shared/types';
+import { SecurityConfig, ServerResourceLimits, RestartPolicy, RestartPolicyMode, ServerDependencies, ReadinessProbe, ReadinessProbeType, LivenessProbe } from '@shared/types';
 
 interface InputFieldProps {
     label: string;
@@ -48,6 +48,15 @@ const InputField: React.FC<InputFieldProps> = ({
                 const newFlags = { ...config.advancedFlags, [parts[1]]: val };
                 handleChange('advancedFlags', newFlags);
             }
+            if (parts[0] === 'resourceLimits') {
+                handleChange('resourceLimits', { ...config.resourceLimits, [parts[1]]: val });
+            }
+            if (parts[0] === 'restartPolicy') {
+                handleChange('restartPolicy', { ...config.restartPolicy, [parts[1]]: val });
+            }
+            if (parts[0] === 'readiness' || parts[0] === 'liveness') {
+                handleChange(parts[0], { ...config[parts[0]], [parts[1]]: val });
+            }
             // Add other nested objects here if needed
         }
     };
@@ -133,7 +142,7 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
     const { addToast } = useToast();
     const { servers, stats, currentServer, updateServerConfig, refreshServers } = useServers();
     const { user } = useUser();
-    const isOffline = currentServer?.status === 'OFFLINE' || currentServer?.status === 'CRASHED';
+    const isOffline = currentServer?.status === 'OFFLINE' || currentServer?.status === 'CRASHED' || currentServer?.status === 'CRASH_LOOP';
     const [showConfirm, setShowConfirm] = useState<{ 
         open: boolean; 
         type: 'DECOMMISSION' | 'RESET';
@@ -155,6 +164,7 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
     // Detailed Config State
     const [config, setConfig] = useState({
         serverName: '',
+        tags: '',
         workingDirectory: '',
         logLocation: './logs/latest.log',
         executable: '',
@@ -170,6 +180,11 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
         shutdownTimeout: 60,
         crashExitCodes: '0',
         logRetention: 0,
+        resourceLimits: { enabled: false, memoryOverheadMB: 0, cpuQuota: 0, cpuWeight: 100, ioWeight: 100, pidsMax: 0 } as ServerResourceLimits,
+        restartPolicy: { mode: 'on-failure', maxRetries: 5, windowSeconds: 600, backoffSeconds: 5, maxBackoffSeconds: 300 } as RestartPolicy,
+        dependencies: { startAfter: [], stopBefore: [] } as Required<ServerDependencies>,
+        readiness: { type: 'log', pattern: '', port: 0, intervalSeconds: 5, startupTimeoutSeconds: 180 } as Required<ReadinessProbe>,
+        liveness: { enabled: false, type: 'ping', port: 0, intervalSeconds: 30, timeoutSeconds: 5, failureThreshold: 3 } as Required<LivenessProbe>,
         executionEngine: 'native' as 'native' | 'docker' | 'remote',
         dockerImage: '',
         // Game Settings
@@ -230,6 +245,7 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
         if (currentServer) {
             setConfig({
                 serverName: currentServer.name || '',
+                tags: (currentServer.tags || []).join(', '),
                 workingDirectory: currentServer.workingDirectory || `C:/servers/${currentServer.id}`,
                 logLocation: currentServer.logLocation || './logs/latest.log',
                 executable: currentServer.executable || 'server.jar',
@@ -244,6 +260,40 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
                 shutdownTimeout: currentServer.shutdownTimeout || 60,
                 crashExitCodes: currentServer.crashExitCodes || '0',
                 logRetention: currentServer.logRetention || 0,
+                resourceLimits: {
+                    enabled: currentServer.resourceLimits?.enabled || false,
+                    memoryOverheadMB: currentServer.resourceLimits?.memoryOverheadMB || 0,
+                    cpuQuota: currentServer.resourceLimits?.cpuQuota || 0,
+                    cpuWeight: currentServer.resourceLimits?.cpuWeight || 100,
+                    ioWeight: currentServer.resourceLimits?.ioWeight || 100,
+                    pidsMax: currentServer.resourceLimits?.pidsMax || 0
+                },
+                restartPolicy: {
+                    mode: currentServer.restartPolicy?.mode || (currentServer.crashDetection === false ? 'no' : 'on-failure'),
+                    maxRetries: currentServer.restartPolicy?.maxRetries || 5,
+                    windowSeconds: currentServer.restartPolicy?.windowSeconds || 600,
+                    backoffSeconds: currentServer.restartPolicy?.backoffSeconds || 5,
+                    maxBackoffSeconds: currentServer.restartPolicy?.maxBackoffSeconds || 300
+                },
+                dependencies: {
+                    startAfter: currentServer.dependencies?.startAfter || [],
+                    stopBefore: currentServer.dependencies?.stopBefore || []
+                },
+                readiness: {
+                    type: currentServer.readiness?.type || 'log',
+                    pattern: currentServer.readiness?.pattern || '',
+                    port: currentServer.readiness?.port || 0,
+                    intervalSeconds: currentServer.readiness?.intervalSeconds || 5,
+                    startupTimeoutSeconds: currentServer.readiness?.startupTimeoutSeconds ?? 180
+                },
+                liveness: {
+                    enabled: currentServer.liveness?.enabled || false,
+                    type: currentServer.liveness?.type || 'ping',
+                    port: currentServer.liveness?.port || 0,
+                    intervalSeconds: currentServer.liveness?.intervalSeconds || 30,
+                    timeoutSeconds: currentServer.liveness?.timeoutSeconds || 5,
+                    failureThreshold: currentServer.liveness?.failureThreshold || 3
+                },
                 gamemode: currentServer.gamemode || 'survival',
                 difficulty: currentServer.difficulty || 'normal',
                 maxPlayers: currentServer.maxPlayers || 20,
@@ -424,6 +474,7 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
 
         const updates = {
             name: config.serverName,
+            tags: config.tags.split(',').map(t => t.trim()).filter(Boolean),
             workingDirectory: config.workingDirectory,
             logLocation: config.logLocation,
             executable: config.executable,
@@ -438,6 +489,11 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
             shutdownTimeout: config.shutdownTimeout,
             crashExitCodes: config.crashExitCodes,
             logRetention: config.logRetention,
+            resourceLimits: config.resourceLimits,
+            restartPolicy: config.restartPolicy,
+            dependencies: config.dependencies,
+            readiness: config.readiness,
+            liveness: config.liveness,
             gamemode: config.gamemode,
             difficulty: config.difficulty,
             maxPlayers: config.maxPlayers,
@@ -503,6 +559,7 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
     const handleFactoryReset = async () => {
         const defaults = {
             serverName: 'New Minecraft Server',
+            tags: config.tags, // Keep fleet tags
             workingDirectory: config.workingDirectory, // Keep path
             logLocation: './logs/latest.log',
             executable: 'server.jar',
@@ -646,6 +703,9 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
                                 <div className="md:col-span-2">
                                     <InputField label="Server Name" propKey="serverName" placeholder="My Awesome Server" config={config} errors={errors} handleChange={handleChange} />
                                 </div>
+                                <div className="md:col-span-2">
+                                    <InputField label="Tags" propKey="tags" placeholder="lobby, minigames" note="Comma-separated labels used to target fleet schedules" config={config} errors={errors} handleChange={handleChange} />
+                                </div>
                                 <div>
                                     <InputField label="Interface IP" propKey="ip" mono note="Bind address (0.0.0.0 for global)" config={config} errors={errors} handleChange={handleChange} />
                                     {config.ip === '0.0.0.0' && currentServer?.software === 'Bedrock' && (
@@ -1410,6 +1470,177 @@ const SettingsManager: React.FC<SettingsManagerProps> = ({ serverId }) => {
                                     <InputField label="SIGTERM Grace" propKey="shutdownTimeout" type="number" suffix="s" config={config} errors={errors} handleChange={handleChange} />
                                 </div>
 
+                                <InputField label="Console Log Retention" propKey="logRetention" type="number" suffix="days" note="Archived console output of previous runs. 0 keeps 14 days." config={config} errors={errors} handleChange={handleChange} />
+
+                                {config.executionEngine === 'native' && (
+                                    <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
+                                        <div className="flex justify-between items-center mb-1.5">
+                                            <div className="flex items-center gap-2">
+                                                <Cpu size={12} className="text-primary/70" />
+                                                <label className="text-[9px] font-bold uppercase tracking-widest text-primary/80">Resource Limits (cgroup v2)</label>
+                                            </div>
+                                            <div className={`w-7 h-3.5 rounded-full border flex items-center p-0.5 transition-all cursor-pointer ${
+                                                config.resourceLimits.enabled
+                                                ? 'bg-primary border-primary justify-end' 
+                                                : 'bg-muted border-border justify-start'
+                                            }`} onClick={() => handleChange('resourceLimits', { ...config.resourceLimits, enabled: !config.resourceLimits.enabled })}>
+                                                 <div className={`w-2 h-2 rounded-full transition-all ${config.resourceLimits.enabled ? 'bg-primary-foreground' : 'bg-muted-foreground'}`} />
+                                            </div>
+                                        </div>
+                                        <p className="text-[10px] text-muted-foreground">Linux only. Needs a delegated cgroup; the server starts without limits otherwise. Applied on next start.</p>
+                                        {config.resourceLimits.enabled && (
+                                            <div className="grid grid-cols-2 gap-2 mt-2">
+                                                <InputField label="Memory Overhead" propKey="resourceLimits.memoryOverheadMB" type="number" suffix="MB" note="On top of the heap. 0 = 25%" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="CPU Quota" propKey="resourceLimits.cpuQuota" type="number" suffix="%" note="100 = one core. 0 = none" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="CPU Weight" propKey="resourceLimits.cpuWeight" type="number" note="1-10000, default 100" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="IO Weight" propKey="resourceLimits.ioWeight" type="number" note="1-10000, default 100" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="Process Limit" propKey="resourceLimits.pidsMax" type="number" note="0 = unlimited" config={config} errors={errors} handleChange={handleChange} />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
+                                    <div className="flex items-center gap-2 mb-1.5">
+                                        <RefreshCw size={12} className="text-primary/70" />
+                                        <label className="text-[9px] font-bold uppercase tracking-widest text-primary/80">Restart Policy</label>
+                                    </div>
+                                    <div className="relative">
+                                        <select
+                                            value={config.restartPolicy.mode}
+                                            onChange={(e) => handleChange('restartPolicy', { ...config.restartPolicy, mode: e.target.value as RestartPolicyMode })}
+                                            className="w-full bg-background border border-border rounded-md px-2.5 py-1.5 text-[11px] font-semibold text-foreground focus:outline-none focus:ring-1 focus:ring-primary/20 appearance-none transition-colors hover:border-primary/40"
+                                        >
+                                            <option value="no">No: never restart</option>
+                                            <option value="on-failure">On Failure: restart after a crash</option>
+                                            <option value="always">Always: restart on any exit</option>
+                                            <option value="unless-stopped">Unless Stopped: like always, but a manual stop sticks</option>
+                                        </select>
+                                        <div className="absolute right-2.5 top-2 pointer-events-none text-muted-foreground/50">
+                                            <ChevronDown size={12} />
+                                        </div>
+                                    </div>
+                                    {config.restartPolicy.mode !== 'no' && (
+                                        <div className="grid grid-cols-2 gap-2 mt-2">
+                                            <InputField label="Max Retries" propKey="restartPolicy.maxRetries" type="number" note="Then the server enters a crash loop" config={config} errors={errors} handleChange={handleChange} />
+                                            <InputField label="Retry Window" propKey="restartPolicy.windowSeconds" type="number" suffix="s" config={config} errors={errors} handleChange={handleChange} />
+                                            <InputField label="First Backoff" propKey="restartPolicy.backoffSeconds" type="number" suffix="s" note="Doubles per retry" config={config} errors={errors} handleChange={handleChange} />
+                                            <InputField label="Max Backoff" propKey="restartPolicy.maxBackoffSeconds" type="number" suffix="s" config={config} errors={errors} handleChange={handleChange} />
+                                        </div>
+                                    )}
+                                    <div className="mt-2">
+                                        <InputField label="Crash Exit Codes" propKey="crashExitCodes" mono placeholder="0" note="Comma-separated. 0 = any non-zero code is a crash" config={config} errors={errors} handleChange={handleChange} />
+                                    </div>
+                                </div>
+
+                                <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
+                                    <div className="flex items-center gap-2 mb-1.5">
+                                        <Activity size={12} className="text-primary/70" />
+                                        <label className="text-[9px] font-bold uppercase tracking-widest text-primary/80">Readiness Probe</label>
+                                    </div>
+                                    <div className="relative">
+                                        <select
+                                            value={config.readiness.type}
+                                            onChange={(e) => handleChange('readiness', { ...config.readiness, type: e.target.value as ReadinessProbeType })}
+                                            className="w-full bg-background border border-border rounded-md px-2.5 py-1.5 text-[11px] font-semibold text-foreground focus:outline-none focus:ring-1 focus:ring-primary/20 appearance-none transition-colors hover:border-primary/40"
+                                        >
+                                            <option value="log">Log: a console line matches a pattern</option>
+                                            <option value="ping" disabled={config.executionEngine === 'remote'}>Ping: the server answers a server list ping</option>
+                                            <option value="tcp" disabled={config.executionEngine === 'remote'}>TCP: the port accepts connections</option>
+                                        </select>
+                                        <div className="absolute right-2.5 top-2 pointer-events-none text-muted-foreground/50">
+                                            <ChevronDown size={12} />
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2 mt-2">
+                                        {config.readiness.type === 'log' ? (
+                                            <div className="col-span-2">
+                                                <InputField label="Ready Pattern" propKey="readiness.pattern" mono placeholder="Done \(|Listening on" note="Regular expression, case-insensitive" config={config} errors={errors} handleChange={handleChange} />
+                                            </div>
+                                        ) : (
+                                            <>
+                                                <InputField label="Probe Port" propKey="readiness.port" type="number" note="0 = server port" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="Probe Interval" propKey="readiness.intervalSeconds" type="number" suffix="s" config={config} errors={errors} handleChange={handleChange} />
+                                            </>
+                                        )}
+                                        <InputField label="Startup Timeout" propKey="readiness.startupTimeoutSeconds" type="number" suffix="s" note="Then DEGRADED. 0 = wait forever" config={config} errors={errors} handleChange={handleChange} />
+                                    </div>
+                                </div>
+
+                                <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
+                                    <div className="flex justify-between items-center mb-1.5">
+                                        <div className="flex items-center gap-2">
+                                            <Activity size={12} className="text-primary/70" />
+                                            <label className="text-[9px] font-bold uppercase tracking-widest text-primary/80">Liveness Probe</label>
+                                        </div>
+                                        <div className={`w-7 h-3.5 rounded-full border flex items-center p-0.5 transition-all cursor-pointer ${
+                                            config.liveness.enabled
+                                            ? 'bg-primary border-primary justify-end'
+                                            : 'bg-muted border-border justify-start'
+                                        }`} onClick={() => handleChange('liveness', { ...config.liveness, enabled: !config.liveness.enabled })}>
+                                            <div className={`w-2 h-2 rounded-full transition-all ${config.liveness.enabled ? 'bg-primary-foreground' : 'bg-muted-foreground'}`} />
+                                        </div>
+                                    </div>
+                                    <p className="text-[10px] text-muted-foreground">Marks a running server DEGRADED when it stops answering.{config.executionEngine === 'remote' ? ' Not available for remote servers.' : ''}</p>
+                                    {config.liveness.enabled && (
+                                        <>
+                                            <div className="relative mt-2">
+                                                <select
+                                                    value={config.liveness.type}
+                                                    onChange={(e) => handleChange('liveness', { ...config.liveness, type: e.target.value as LivenessProbe['type'] })}
+                                                    className="w-full bg-background border border-border rounded-md px-2.5 py-1.5 text-[11px] font-semibold text-foreground focus:outline-none focus:ring-1 focus:ring-primary/20 appearance-none transition-colors hover:border-primary/40"
+                                                >
+                                                    <option value="ping">Ping: server list ping</option>
+                                                    <option value="tcp">TCP: port accepts connections</option>
+                                                </select>
+                                                <div className="absolute right-2.5 top-2 pointer-events-none text-muted-foreground/50">
+                                                    <ChevronDown size={12} />
+                                                </div>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2 mt-2">
+                                                <InputField label="Probe Port" propKey="liveness.port" type="number" note="0 = server port" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="Interval" propKey="liveness.intervalSeconds" type="number" suffix="s" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="Timeout" propKey="liveness.timeoutSeconds" type="number" suffix="s" config={config} errors={errors} handleChange={handleChange} />
+                                                <InputField label="Failure Threshold" propKey="liveness.failureThreshold" type="number" note="Failed checks in a row" config={config} errors={errors} handleChange={handleChange} />
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+
+                                <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
+                                    <div className="flex items-center gap-2 mb-1.5">
+                                        <GitBranch size={12} className="text-primary/70" />
+                                        <label className="text-[9px] font-bold uppercase tracking-widest text-primary/80">Dependencies</label>
+                                    </div>
+                                    {servers.filter(s => s.id !== currentServer?.id).length === 0 ? (
+                                        <p className="text-[10px] text-muted-foreground">No other servers to depend on.</p>
+                                    ) : (['startAfter', 'stopBefore'] as const).map(kind => (
+                                        <div key={kind} className="mt-2">
+                                            <div className="text-[9px] font-bold uppercase tracking-wider text-muted-foreground mb-1">
+                                                {kind === 'startAfter' ? 'Start after (waits until ONLINE)' : 'Stop before'}
+                                            </div>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {servers.filter(s => s.id !== currentServer?.id).map(s => {
+                                                    const selected = config.dependencies[kind].includes(s.id);
+                                                    return (
+                                                        <button
+                                                            key={s.id}
+                                                            type="button"
+                                                            onClick={() => handleChange('dependencies', {
+                                                                ...config.dependencies,
+                                                                [kind]: selected ? config.dependencies[kind].filter(id => id !== s.id) : [...config.dependencies[kind], s.id]
+                                                            })}
+                                                            className={`px-2 py-0.5 rounded-md text-[10px] font-medium border transition-colors ${selected ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground'}`}
+                                                        >
+                                                            {s.name}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+
                                 <div className="p-3 rounded-md bg-primary/5 border border-primary/10">
                                     <div className="flex justify-between items-center mb-1.5">
                                         <div className="flex items-center gap-2">
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { ServerConfig, ServerStatus, Player, Backup, ScheduleTask } from '@shared/types';
+import { ServerConfig, ServerStatus, Player, Backup, ScheduleTask, TickMetricsSource, ResourceLimitUsage } from '@shared/types';
 import { API } from '../../core/services/api';
 import { socketService } from '../../core/services/socket';
 import { useUser } from '../../auth/context/UserContext';
@@ -13,6 +13,9 @@ interface ServerStats {
     playerList: string[];
     isRealOnline: boolean;
     tps: string;
+    mspt?: number | null;
+    tickSource?: TickMetricsSource;
+    limits?: ResourceLimitUsage;
     pid: number;
 }
 
@@ -227,7 +230,7 @@ export const ServerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             }
         };
 
-        const handleStats = (data: { id: string, cpu: number, memory: number, pid: number, tps: string, uptime: number }) => {
+        const handleStats = (data: { id: string, cpu: number, memory: number, pid: number, tps: string, mspt?: number | null, tickSource?: TickMetricsSource, limits?: ResourceLimitUsage, uptime: number }) => {
             setStats(prev => {
                 const current = prev[data.id] || { cpu: 0, memory: 0, uptime: 0, latency: 0, players: 0, playerList: [], isRealOnline: false, tps: "0.0", pid: 0 };
                 return {
@@ -237,6 +240,9 @@ export const ServerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
                         cpu: data.cpu,
                         memory: data.memory,
                         tps: data.tps,
+                        mspt: data.mspt,
+                        tickSource: data.tickSource,
+                        limits: data.limits,
                         uptime: data.uptime,
                         pid: data.pid
                     }
@@ -11,6 +11,8 @@ import { useServers } from '@features/servers/context/ServerContext';
 import { useUser } from '@features/auth/context/UserContext';
 import { NodeInfo, ServerConfig, NodeStatus, AuditLog as AuditLogType, AppState } from '@shared/types';
 import { API } from '@core/services/api';
+import FleetSchedules from '@features/scheduling/FleetSchedules';
+import ServerGroups from '@features/servers/ServerGroups';
 
 /**
  * GlobalOperations — Centralized monitoring for distributed clusters
@@ -386,6 +388,20 @@ const GlobalOperations: React.FC<GlobalOperationsProps> = ({ onNavigate }) => {
                 </div>
             </div>
 
+            {/* Server Groups */}
+            {(user?.role === 'OWNER' || user?.role === 'ADMIN') && (
+                <div className="pt-4">
+                    <ServerGroups servers={servers} />
+                </div>
+            )}
+
+            {/* Fleet Schedules */}
+            {(user?.role === 'OWNER' || user?.role === 'ADMIN') && (
+                <div className="pt-4">
+                    <FleetSchedules servers={servers} nodes={nodes} />
+                </div>
+            )}
+
             {/* Global Audit Feed */}
             <div className="space-y-4 pt-4">
                 <div className="flex items-center justify-between">
@@ -577,6 +593,8 @@ const StatusBadge: React.FC<{ status: string }> = ({ status }) => {
         'STARTING': { color: 'text-amber-500 bg-amber-500/10 border-amber-500/20', icon: <RefreshCw size={12} className="animate-spin" /> },
         'STOPPING': { color: 'text-rose-500 bg-rose-500/10 border-rose-500/20', icon: <RefreshCw size={12} className="animate-spin" /> },
         'CRASHED': { color: 'text-rose-600 bg-rose-600/10 border-rose-600/20', icon: <AlertTriangle size={12} /> },
+        'CRASH_LOOP': { color: 'text-rose-600 bg-rose-600/10 border-rose-600/20', icon: <RefreshCw size={12} /> },
+        'DEGRADED': { color: 'text-amber-600 bg-amber-600/10 border-amber-600/20', icon: <AlertTriangle size={12} /> },
     };
 
     const current = config[status] || config['OFFLINE'];
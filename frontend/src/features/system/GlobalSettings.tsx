@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { GlobalSettings as GlobalSettingsType, SecurityConfig, DiscordConfig } from '@shared/types';
 import { API } from '@core/services/api';
 import { useToast } from '../ui/Toast';
-import { Save, AlertTriangle, Monitor, Shield, Settings2, Database, Layers, Check, RefreshCw, Webhook, Zap } from 'lucide-react';
+import { Save, AlertTriangle, Monitor, Shield, Settings2, Database, Layers, Check, RefreshCw, Webhook, Zap, ShieldCheck } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { STAGGER_CONTAINER, STAGGER_ITEM, INTERACTION_VARIANTS } from '../../styles/motion';
 import { useUser } from '@features/auth/context/UserContext';
@@ -12,7 +12,8 @@ import { RemoteAccessWizard } from '../ui/RemoteAccessWizard';
 import { useSystem } from '@features/system/context/SystemContext';
 import NodesManager from '@features/nodes/NodesManager';
 import { SelfHealingAudit } from './SelfHealingAudit';
-import { Activity, Globe } from 'lucide-react';
+import BackupTargetsEditor from '@features/backups/BackupTargetsEditor';
+import { Activity, Globe, CloudUpload } from 'lucide-react';
 
 const GlobalSettingsView: React.FC = () => {
     const [settings, setSettings] = useState<GlobalSettingsType | null>(null);
@@ -214,6 +215,39 @@ const GlobalSettingsView: React.FC = () => {
                             </button>
                         </div>
                         
+                        {/* Process Supervisor Toggle */}
+                        <div className="flex items-center justify-between p-3 bg-secondary/30 rounded border border-border/50">
+                            <div>
+                                <div className="font-medium text-sm flex items-center gap-2">
+                                    Process Supervisor <ShieldCheck size={12} className="text-emerald-500" />
+                                </div>
+                                <p className="text-xs text-muted-foreground mt-0.5 max-w-[280px]">
+                                    Run native servers under a background supervisor so panel restarts and updates keep them running with full console control. Applies to the next server start.
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => {
+                                    if (user?.role !== 'OWNER') {
+                                        addToast('error', 'Permissions', 'Only the System Owner can toggle the process supervisor');
+                                        return;
+                                    }
+                                    setSettings({
+                                        ...settings,
+                                        app: { ...settings.app, processSupervisor: { enabled: !settings.app.processSupervisor?.enabled } }
+                                    });
+                                }}
+                                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${
+                                    settings.app.processSupervisor?.enabled ? 'bg-primary' : 'bg-input'
+                                }`}
+                            >
+                                <span
+                                    className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-background shadow ring-0 transition duration-200 ease-in-out ${
+                                        settings.app.processSupervisor?.enabled ? 'translate-x-5' : 'translate-x-0'
+                                    }`}
+                                />
+                            </button>
+                        </div>
+
                         {!settings.app.hostMode && (
                             <div className="flex gap-3 p-3 bg-amber-500/10 border border-amber-500/20 text-amber-600 rounded-lg text-xs">
                                 <AlertTriangle size={16} className="shrink-0 mt-0.5" />
@@ -613,6 +647,52 @@ const GlobalSettingsView: React.FC = () => {
                     </div>
                 </motion.div>
 
+                {/* Off-site Backups Card */}
+                <motion.div 
+                    variants={STAGGER_ITEM}
+                    className={`border border-border p-6 transition-all duration-300 ${user?.preferences.visualQuality ? 'glass-morphism quality-shadow rounded-2xl' : 'bg-card shadow-sm rounded-lg'}`}
+                >
+                     <div className="flex items-start gap-3 mb-3">
+                        <div className="p-2 bg-sky-500/10 text-sky-500 rounded">
+                            <CloudUpload size={20} />
+                        </div>
+                        <div>
+                            <h3 className="font-semibold text-base">Off-site Backups</h3>
+                            <p className="text-xs text-muted-foreground">Replicate finished backups to S3, SFTP or a mounted directory.</p>
+                        </div>
+                    </div>
+
+                    <BackupTargetsEditor
+                        value={settings.backups}
+                        onChange={backups => setSettings({ ...settings, backups })}
+                    />
+
+                    {/* Scheduled integrity checks of local backups (on by default, weekly) */}
+                    <div className="flex items-center justify-between gap-4 p-3 mt-3 bg-secondary/30 rounded border border-border/50">
+                        <div>
+                            <div className="font-medium text-sm">Verify Backups</div>
+                            <p className="text-xs text-muted-foreground mt-0.5">Re-read local backups and check file checksums. Corrupt backups raise a notification.</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <span className="text-xs text-muted-foreground">every</span>
+                            <input
+                                type="number"
+                                min={1}
+                                className="w-16 bg-secondary border border-border rounded px-2 py-1 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary"
+                                value={settings.backupVerification?.intervalHours ?? 168}
+                                onChange={e => setSettings({ ...settings, backupVerification: { enabled: settings.backupVerification?.enabled ?? true, intervalHours: Math.max(1, parseInt(e.target.value) || 1) } })}
+                            />
+                            <span className="text-xs text-muted-foreground">h</span>
+                            <button
+                                onClick={() => setSettings({ ...settings, backupVerification: { intervalHours: settings.backupVerification?.intervalHours ?? 168, enabled: !(settings.backupVerification?.enabled ?? true) } })}
+                                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${(settings.backupVerification?.enabled ?? true) ? 'bg-primary' : 'bg-input'}`}
+                            >
+                                <span className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-background shadow ring-0 transition duration-200 ease-in-out ${(settings.backupVerification?.enabled ?? true) ? 'translate-x-5' : 'translate-x-0'}`} />
+                            </button>
+                        </div>
+                    </div>
+                </motion.div>
+
                 {/* Distributed Nodes Card */}
                 <motion.div 
                     variants={STAGGER_ITEM}
@@ -122,12 +122,81 @@ export interface ServerAdvancedFlags {
     threadPriority?: 'low' | 'normal' | 'high' | 'ultra';
     startDelay?: number;
     killTimeout?: number;
+    rcon?: boolean; // Auto-enable RCON for command responses (Java, on unless false)
     // Bedrock Specific
     tickDistance?: number;
     contentLog?: boolean;
     compressionLimit?: number;
 }
 
+// cgroup v2 limits for servers run by the native engine on Linux
+export interface ServerResourceLimits {
+    enabled: boolean;
+    memoryOverheadMB?: number; // Added to the heap (ram) for memory.max; 0 = 25% of heap, at least 512
+    cpuQuota?: number;         // Percent of one core (200 = two cores); 0 = unlimited
+    cpuWeight?: number;        // 1-10000, default 100
+    ioWeight?: number;         // 1-10000, default 100
+    pidsMax?: number;          // 0 = unlimited
+}
+
+// Live cgroup counters of a limited server, reported with its stats
+export interface ResourceLimitUsage {
+    memoryMaxMB: number | null;
+    memoryCurrentMB: number;
+    oomKills: number;         // Since the server started
+    throttledPercent: number; // Share of CPU periods throttled since the previous sample
+    pidsCurrent: number;
+    pidsMax: number | null;
+}
+
+// Docker-style restart policy: whether the panel brings a server back after it exits on its own
+export type RestartPolicyMode = 'no' | 'on-failure' | 'always' | 'unless-stopped';
+
+export interface RestartPolicy {
+    mode: RestartPolicyMode;
+    maxRetries?: number;        // Restarts allowed within windowSeconds before the server is put in CRASH_LOOP (default 5)
+    windowSeconds?: number;     // Default 600
+    backoffSeconds?: number;    // Delay before the first restart, doubled for each restart in the window (default 5)
+    maxBackoffSeconds?: number; // Default 300
+}
+
+export interface RestartPolicyState {
+    serverId: string;
+    restarts: number[];         // Policy restarts within the current window
+    crashLoop: boolean;
+    crashLoopSince?: number;
+    nextRestartAt?: number;     // Set while a restart is pending
+    lastExitCode?: number | null;
+    stoppedByUser?: boolean;    // Last exit was a requested stop (unless-stopped leaves it off on panel start)
+}
+
+// How a starting server is recognised as ready. Default: a log line matching "Done (" or "Listening on"
+export type ReadinessProbeType = 'log' | 'ping' | 'tcp';
+
+export interface ReadinessProbe {
+    type: ReadinessProbeType;       // log: console line matches `pattern`; ping: Server List Ping (RakNet ping on Bedrock) answers; tcp: port accepts connections
+    pattern?: string;               // log: regular expression, case-insensitive
+    port?: number;                  // ping/tcp: defaults to the server port (e.g. a proxy's listener)
+    intervalSeconds?: number;       // ping/tcp: time between attempts (default 5)
+    startupTimeoutSeconds?: number; // Not ready after this long: DEGRADED (default 180, 0 = wait forever)
+}
+
+// Keeps checking a ready server; enough failures in a row mark it DEGRADED until it answers again
+export interface LivenessProbe {
+    enabled: boolean;
+    type: 'ping' | 'tcp';
+    port?: number;
+    intervalSeconds?: number;       // Default 30
+    timeoutSeconds?: number;        // Per attempt (default 5)
+    failureThreshold?: number;      // Consecutive failures before DEGRADED (default 3)
+}
+
+// Start/stop ordering between servers managed by this panel
+export interface ServerDependencies {
+    startAfter?: string[]; // Server IDs that must be ONLINE before this one starts (started first if needed)
+    stopBefore?: string[]; // Server IDs that keep running until this one has stopped
+}
+
 export interface ServerConfig {
     id: string;
     name: string;
@@ -139,9 +208,10 @@ export interface ServerConfig {
     port: number;
     ram: number; // GB
     cpuPriority?: 'normal' | 'high' | 'realtime';
+    resourceLimits?: ServerResourceLimits;
     javaVersion: 'Java 8' | 'Java 11' | 'Java 17' | 'Java 21';
     autoStart?: boolean;
-    status: 'ONLINE' | 'OFFLINE' | 'STARTING' | 'STOPPING' | 'RESTARTING' | 'CRASHED' | 'UNMANAGED' | 'INSTALLING';
+    status: 'ONLINE' | 'OFFLINE' | 'STARTING' | 'STOPPING' | 'RESTARTING' | 'CRASHED' | 'CRASH_LOOP' | 'DEGRADED' | 'UNMANAGED' | 'INSTALLING';
     iconUrl?: string; // Data URI
     workingDirectory: string;
     executable?: string; // Custom JAR or start script
@@ -159,7 +229,10 @@ export interface ServerConfig {
     autostartDelay?: number;
     updateUrl?: string;
     shutdownTimeout?: number;
-    crashExitCodes?: string;
+    crashExitCodes?: string; // Non-zero exit codes that count as a crash ("1,134"); empty or "0" = any non-zero code
+    restartPolicy?: RestartPolicy; // Default: on-failure (no when crashDetection is off)
+    readiness?: ReadinessProbe;
+    liveness?: LivenessProbe;
     logRetention?: number;
     gamemode?: string;
     difficulty?: string;
@@ -179,7 +252,14 @@ export interface ServerConfig {
     backupConfig?: {
         worldOnly: boolean; // Default: false (backup everything)
         customWorldPaths?: string[]; // Optional: specify custom world folder names
+        mode?: 'archive' | 'incremental'; // Default: 'archive' (full zip every time)
+        retention?: BackupRetentionPolicy; // Default: keep the last 10
+        targetIds?: string[]; // Off-site targets for this server (overrides the global default; [] = local only)
+        keepLocal?: boolean;  // Overrides the global keep-local setting
+        encryption?: BackupEncryptionConfig;
     };
+    tags?: string[]; // Free-form labels used to target groups of servers (e.g. "lobby")
+    dependencies?: ServerDependencies;
     needsRestart?: boolean; // Track if plugin/config changes require a reboot
     collabSettings?: CollabSettings; // Per-server collaboration role gates
     network?: NetworkConfig;
@@ -200,6 +280,112 @@ export interface LogEntry {
     message: string;
 }
 
+// Result of ProcessManager.sendCommandWithResponse
+export interface CommandResponse {
+    output: string;
+    channel: 'rcon' | 'stdin'; // stdin output is whatever the console printed shortly after
+}
+
+// Where a server's tick metrics come from: spark's tps report, a TPS line the
+// server printed itself (e.g. Paper's /tps), or nothing measurable.
+export type TickMetricsSource = 'spark' | 'log' | 'estimated' | 'unavailable';
+
+export interface TickMetrics {
+    source: TickMetricsSource;
+    tps: number | null;        // last ~10 seconds
+    mspt: number | null;       // median tick duration (ms) over the last ~10 seconds
+    msptP95?: number | null;
+    msptMax?: number | null;
+    updatedAt: number;
+    reason?: string;           // why metrics are unavailable or estimated
+}
+
+export type SparkReportKind = 'profiler' | 'health';
+
+export interface SparkReport {
+    id: string;
+    serverId: string;
+    kind: SparkReportKind;
+    status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+    startedAt: number;
+    finishedAt?: number;
+    durationSeconds?: number; // profiler sampling time
+    url?: string;             // spark viewer link
+    output: string[];         // spark's console output for the run
+    error?: string;
+    requestedBy?: string;
+}
+
+export type ConsoleLogLevel = 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
+
+// One run of a server (start → exit) as kept in the console log archive
+export interface ConsoleSession {
+    id: string;
+    serverId: string;
+    startedAt: number;
+    endedAt?: number;
+    exitCode?: number | null;
+    interrupted?: boolean; // Panel went down before the server exited
+    lines: number;
+    bytes: number; // Compressed size on disk
+}
+
+export interface ConsoleLogLine {
+    sessionId: string;
+    timestamp: number;
+    level: ConsoleLogLevel;
+    stream: 'stdout' | 'stderr';
+    line: string;
+}
+
+export interface ConsoleLogSearchQuery {
+    text?: string;
+    regex?: boolean;
+    caseSensitive?: boolean;
+    levels?: ConsoleLogLevel[];
+    from?: number;
+    to?: number;
+    sessionId?: string;
+    limit?: number;
+}
+
+// Named set of servers that is started, stopped or restarted as a unit, in dependency order
+export interface ServerGroup {
+    id: string;
+    name: string;
+    description?: string;
+    serverIds: string[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type ServerGroupOperation = 'start' | 'stop' | 'restart';
+
+export interface ServerGroupOperationStep {
+    serverId: string;
+    action: 'start' | 'stop';
+    wave: number;           // Servers in the same wave run in parallel
+    status: 'DONE' | 'SKIPPED' | 'FAILED';
+    message?: string;
+}
+
+export interface ServerGroupOperationResult {
+    groupId: string;
+    operation: ServerGroupOperation;
+    status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+    steps: ServerGroupOperationStep[];
+    startedAt: number;
+    finishedAt?: number;
+    requestedBy?: string;
+}
+
+export interface ConsoleLogSearchResult {
+    matches: ConsoleLogLine[];
+    truncated: boolean; // More matches exist beyond the limit
+    sessionsSearched: number;
+    timedOut?: boolean; // Stopped at the time budget; older output was not searched
+}
+
 export enum ServerStatus {
     ONLINE = 'ONLINE',
     OFFLINE = 'OFFLINE',
@@ -207,6 +393,8 @@ export enum ServerStatus {
     STOPPING = 'STOPPING',
     RESTARTING = 'RESTARTING',
     CRASHED = 'CRASHED',
+    CRASH_LOOP = 'CRASH_LOOP',
+    DEGRADED = 'DEGRADED',
     UNMANAGED = 'UNMANAGED',
     INSTALLING = 'INSTALLING'
 }
@@ -229,6 +417,10 @@ export interface GlobalSettings {
             externalIP?: string;
         };
         dockerEnabled?: boolean;
+        // Native servers run under a detached supervisor that survives panel restarts (opt-in)
+        processSupervisor?: {
+            enabled: boolean;
+        };
         distributedNodes?: {
             enabled: boolean;
         };
@@ -242,6 +434,11 @@ export interface GlobalSettings {
         network?: NetworkConfig;
     };
     discordBot?: DiscordBotConfig;
+    backups?: BackupOffsiteSettings;
+    backupVerification?: {
+        enabled: boolean;
+        intervalHours: number; // Re-verify each backup at most this often
+    };
     version?: string; // Programmatic version from version.json
 }
 
@@ -256,6 +453,16 @@ export interface Player {
     skinUrl?: string;
 }
 
+// Where a server's online roster last came from: console join/leave lines, or a protocol answer
+export type PlayerRosterSource = 'log' | 'query' | 'rcon' | 'ping';
+
+export interface OnlinePlayer {
+    name: string;
+    uuid?: string;      // Java UUID, or XUID on Bedrock
+    joinedAt: number;   // When the panel first saw the player online
+    source: PlayerRosterSource;
+}
+
 export interface Backup {
     id: string;
     name: string;
@@ -267,17 +474,257 @@ export interface Backup {
     type?: 'Manual' | 'Scheduled' | 'Auto';
     filename?: string;
     scope?: 'full' | 'world'; // Track if this was a world-only backup
+    mode?: 'archive' | 'incremental'; // Incremental backups are manifests over a shared chunk store
+    logicalSize?: number;  // Total size of the files captured
+    physicalSize?: number; // Bytes the backup actually added to disk
+    remoteCopies?: BackupRemoteCopy[];
+    localAvailable?: boolean; // false once the local copy was dropped in favour of off-site copies
+    encrypted?: boolean;
+    verification?: BackupVerification;
+}
+
+export interface BackupEncryptionConfig {
+    enabled: boolean;
+    method: 'passphrase' | 'keyfile';
+    keyFile?: string; // 'keyfile': absolute path on the panel host
+    // The passphrase itself is stored outside the server config and never sent to clients
+}
+
+export interface BackupVerification {
+    status: 'ok' | 'corrupt';
+    checkedAt: string;
+    filesChecked: number;
+    errors?: string[];
+}
+
+export interface BackupEntry {
+    path: string;           // Relative to the server directory, forward slashes
+    isDirectory: boolean;
+    size: number;
+    modifiedAt?: string;
+}
+
+export interface BackupEntryPreview {
+    path: string;
+    size: number;
+    content: string;
+    truncated: boolean;     // Only the first part of the file is included
+    binary: boolean;        // Content is empty for binary files
+}
+
+export type BackupChangeType = 'added' | 'removed' | 'modified';
+
+export interface BackupDiffEntry {
+    path: string;
+    change: BackupChangeType;
+    oldSize?: number;       // Absent for added files
+    newSize?: number;       // Absent for removed files
+    sizeDelta: number;
+    textDiff: boolean;      // Config-like file a line diff can be shown for
+}
+
+// Changes going from `from` to `to`; either side is a backup id or 'live' (the server directory)
+export interface BackupComparison {
+    from: string;
+    to: string;
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+    sizeDelta: number;
+    entries: BackupDiffEntry[];
+    truncated: boolean;     // More changes than entries listed
+}
+
+export interface BackupDiffLine {
+    type: 'context' | 'added' | 'removed';
+    text: string;
+}
+
+export interface BackupDiffHunk {
+    header: string;         // e.g. "@@ -12,7 +12,8 @@"
+    lines: BackupDiffLine[];
+}
+
+export interface BackupFileDiff {
+    path: string;
+    change: BackupChangeType | 'unchanged';
+    binary: boolean;
+    tooLarge: boolean;      // Too big or too different for a line diff
+    hunks: BackupDiffHunk[];
+}
+
+export type SafetySnapshotOperation = 'PLUGIN_UPDATE' | 'SOFTWARE_INSTALL' | 'BACKUP_RESTORE' | 'FILE_EXTRACT' | 'DIAGNOSIS_FIX';
+
+// Copy of what a destructive operation is about to change, kept briefly so it can be undone
+export interface SafetySnapshot {
+    id: string;
+    serverId: string;
+    operation: SafetySnapshotOperation;
+    summary: string;        // e.g. "Update EssentialsX" or "Extract plugins.zip"
+    actor: string;          // Username, or 'system' for automatic actions
+    createdAt: string;
+    expiresAt: string;
+    paths: string[];        // Relative to the server directory; empty when the whole directory was captured
+    size: number;
+}
+
+export type BackupTargetType = 's3' | 'sftp' | 'directory';
+
+export interface BackupTargetConfig {
+    id: string;
+    name: string;
+    type: BackupTargetType;
+    enabled: boolean;
+    s3?: {
+        endpoint: string;        // e.g. https://s3.eu-central-1.amazonaws.com or http://127.0.0.1:9000 (MinIO)
+        region?: string;         // Default: us-east-1
+        bucket: string;
+        accessKeyId: string;
+        secretAccessKey: string;
+        prefix?: string;
+        forcePathStyle?: boolean; // Required by MinIO and most self-hosted stores
+    };
+    sftp?: {
+        host: string;
+        port?: number;
+        username: string;
+        privateKeyPath: string;  // Key-based auth through the system OpenSSH client
+        remoteDir: string;
+    };
+    directory?: {
+        path: string;            // Mounted path on a different disk (NFS, USB, ...)
+    };
+}
+
+export interface BackupOffsiteSettings {
+    targets: BackupTargetConfig[];
+    defaultTargetIds: string[]; // Targets used by servers without their own selection
+    keepLocal: boolean;         // Keep the local copy after a verified upload
+}
+
+export interface BackupRemoteCopy {
+    targetId: string;
+    key: string;
+    size: number;
+    sha256: string;
+    uploadedAt: string;
+    verified: boolean;
+    encrypted?: boolean;
+}
+
+export interface BackupRetentionPolicy {
+    keepLast?: number;       // Always keep the N most recent backups
+    hourly?: number;         // Keep the newest backup of each of the last N hours
+    daily?: number;
+    weekly?: number;
+    monthly?: number;
+    maxTotalSizeMB?: number; // Drop the oldest backups beyond this total
+    minAgeHours?: number;    // Never delete backups younger than this
+}
+
+export interface BackupRetentionPreview {
+    keep: { id: string, reason: string }[];
+    delete: { id: string, description?: string, createdAt: string | number, size: number, reason: string }[];
+    totalSize: number;
+    retainedSize: number; // Estimate; applying the policy enforces the size limit against the measured store
+}
+
+export type ScheduleStepType = 'command' | 'broadcast' | 'wait' | 'backup' | 'stop' | 'start' | 'await-status';
+export type ScheduleStepFailurePolicy = 'abort' | 'continue' | 'retry';
+
+export interface ScheduleStep {
+    type: ScheduleStepType;
+    command?: string;          // 'command': console command to send
+    captureSeconds?: number;   // 'command': how long to record console output after sending (default 3; not needed with RCON)
+    message?: string;          // 'broadcast': text announced to players
+    seconds?: number;          // 'wait': delay before the next step
+    status?: ServerConfig['status']; // 'await-status': status to wait for (default ONLINE)
+    timeoutSeconds?: number;   // 'stop' / 'await-status' upper bound
+    worldOnly?: boolean;       // 'backup': override the server's backupConfig.worldOnly
+    onFailure?: ScheduleStepFailurePolicy; // Default: 'abort'
+    retries?: number;          // 'retry' policy: extra attempts (default 2)
+    retryDelaySeconds?: number;
+}
+
+export interface ScheduleStepResult {
+    index: number;
+    type: ScheduleStepType;
+    success: boolean;
+    message: string;
+    attempts: number;
+    durationMs: number;
+    skipped?: boolean;
+    output?: string[]; // Console lines captured after a 'command' step
+}
+
+export type ScheduleTriggerEvent =
+    | 'player:first-join'   // Server goes from 0 to 1 players
+    | 'player:last-leave'   // Last player leaves
+    | 'player:join'
+    | 'player:leave'
+    | 'status'              // Server status transition (see ScheduleTrigger.status)
+    | 'diagnosis';          // Diagnosis produced a result (see ScheduleTrigger.severity)
+
+export interface ScheduleTrigger {
+    type: 'cron' | 'event';
+    event?: ScheduleTriggerEvent;
+    status?: ServerConfig['status'];        // 'status' events: only fire on this status
+    severity?: DiagnosisResult['severity']; // 'diagnosis' events: minimum severity (default CRITICAL)
+    debounceSeconds?: number;  // Wait for the event to stay quiet this long before firing
+    cooldownSeconds?: number;  // Minimum gap between two runs
+}
+
+export interface ScheduleFleetTarget {
+    serverIds?: string[];                   // Always included
+    // Filters below are AND-ed together; a server matching all set filters is included
+    software?: ServerConfig['software'][];
+    nodeIds?: string[];                     // 'local' matches servers hosted by the panel itself
+    tags?: string[];                        // Any matching tag
+}
+
+export interface ScheduleServerOutcome {
+    serverId: string;
+    serverName: string;
+    success: boolean;
+    message: string;
+    steps?: ScheduleStepResult[];
+}
+
+export interface ScheduleHistoryEntry {
+    timestamp: string;
+    taskId?: string;
+    task: string;
+    trigger?: string; // 'cron' or the event that fired the task
+    success: boolean;
+    message: string;
+    durationMs?: number;
+    steps?: ScheduleStepResult[];
+    servers?: ScheduleServerOutcome[]; // Fleet schedules: per-server roll-up
+}
+
+export interface ScheduleHistoryQuery {
+    taskId?: string;
+    success?: boolean;
+    limit?: number;
+    offset?: number;
 }
 
 export interface ScheduleTask {
     id: string;
-    serverId: string; // Added for storage consolidation
+    serverId: string; // Added for storage consolidation ('global' for fleet schedules)
     name: string;
-    command: string;
-    cron: string;
+    command: string; // Legacy single action ('backup', 'restart' or a console command). Ignored when steps are set.
+    steps?: ScheduleStep[];
+    cron: string; // Unused when trigger.type is 'event'
+    trigger?: ScheduleTrigger; // Default: cron
+    timezone?: string; // IANA zone the cron is evaluated in (defaults to panel host time)
+    missedRunPolicy?: 'skip' | 'run-once' | 'run-all'; // What to do with runs missed while the panel was down (default 'skip')
+    target?: ScheduleFleetTarget; // Fleet schedules only
+    staggerSeconds?: number;      // Fleet schedules: delay between starting each server
     isActive: boolean;
     lastRun?: number | string;
-    nextRun?: string;
+    nextRun?: string; // ISO timestamp of the next fire time (persisted; used to detect missed runs)
 }
 
 
@@ -360,7 +807,8 @@ export type AuditAction =
     | 'SYSTEM_SETTINGS_UPDATE' | 'SYSTEM_CACHE_CLEAR' | 'DISCORD_RECONNECT' | 'DISCORD_SYNC'
     | 'ASSET_UPLOAD' | 'WEB_UPDATE_RUN' | 'WEB_UPDATE_ROLLBACK' | 'WEB_UPDATE_FAIL'
     | 'SERVER_IMPORT' | 'SERVER_IMPORT_UNDO' | 'AUTO_HEAL' | 'SERVER_HEAL'
-    | 'SERVER_ICON_UPDATE';
+    | 'SERVER_ICON_UPDATE' | 'SAFETY_SNAPSHOT_UNDO' | 'SPARK_REPORT' | 'CRASH_LOOP_RESET'
+    | 'SERVER_GROUP_CREATE' | 'SERVER_GROUP_UPDATE' | 'SERVER_GROUP_DELETE' | 'SERVER_GROUP_OPERATION';
 
 export interface AuditLog {
     id: string;
@@ -596,6 +1044,30 @@ export interface NodeHealth {
     uptime: number;        // seconds
 }
 
+// --- Metrics History ---
+
+export type ServerMetricName = 'cpu' | 'memory' | 'players' | 'tps' | 'mspt';
+export type NodeMetricName = 'cpu' | 'memoryUsed' | 'memoryTotal' | 'diskUsed' | 'diskTotal' | 'serverCount';
+export type MetricAggregation = 'avg' | 'min' | 'max' | 'sum' | 'last' | 'count';
+// raw: every sample (kept 24h), 1m: per minute (30 days), 1h: per hour (1 year)
+export type MetricResolution = 'raw' | '1m' | '1h';
+
+export interface MetricPoint {
+    t: number;     // Bucket start (ms)
+    value: number;
+}
+
+export interface MetricSeries {
+    entity: string;  // "server:<id>" or "node:<id>"
+    metric: string;
+    resolution: MetricResolution;
+    aggregation: MetricAggregation;
+    step: number;    // Bucket width (ms)
+    from: number;
+    to: number;
+    points: MetricPoint[];
+}
+
 export interface NodeCapabilities {
     java?: string;         // e.g. "17.0.2"
     docker?: boolean;      // Is Docker engine available?
@@ -640,7 +1112,7 @@ export interface ServerProfile {
     platformVersion: string; // CraftCommand version exported from
 }
 
-export type WebhookTrigger = 'SERVER_START' | 'SERVER_STOP' | 'SERVER_CRASH' | 'BACKUP_COMPLETE' | 'PLAYER_JOIN' | 'PLAYER_LEAVE';
+export type WebhookTrigger = 'SERVER_START' | 'SERVER_STOP' | 'SERVER_CRASH' | 'SERVER_CRASH_LOOP' | 'BACKUP_COMPLETE' | 'PLAYER_JOIN' | 'PLAYER_LEAVE';
 
 export interface WebhookConfig {
     id: string;